@@ -0,0 +1,288 @@
+// Minimal CRUD API backing the http storage backend and http identity provider during local
+// development. Usage: npm run mock-api, then start Vite with
+// VITE_STORAGE_BACKEND=http VITE_AUTH_PROVIDER=http VITE_API_BASE_URL=http://localhost:4010
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_API_PORT ?? 4010);
+const seedPath = new URL('../src/data/universities.json', import.meta.url);
+
+let universities = JSON.parse(readFileSync(seedPath, 'utf8'));
+const history = [];
+const students = [];
+const applications = [];
+
+// Same development accounts as the local identity provider; passwords are the role names.
+let users = ['admin', 'editor', 'viewer'].map((role) => ({
+  id: `dev-${role}`,
+  name: `Dev ${role[0].toUpperCase()}${role.slice(1)}`,
+  email: `${role}@manara.dev`,
+  role,
+  password: role
+}));
+const sessions = new Map();
+
+const publicUser = ({ password: _password, ...user }) => user;
+
+// Mirrors rolePermissions in src/services/authService.ts.
+const rolePermissions = {
+  viewer: [],
+  editor: ['university:write', 'applications:manage'],
+  admin: ['university:write', 'university:delete', 'users:manage', 'applications:manage']
+};
+
+const sessionUser = (req) => {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  const userId = token ? sessions.get(token) : undefined;
+  const user = users.find((candidate) => candidate.id === userId);
+  return user ? { token, user } : null;
+};
+
+const can = (req, permission) =>
+  (rolePermissions[sessionUser(req)?.user.role] ?? []).includes(permission);
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  const { pathname, searchParams } = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const [, resource, rawId] = pathname.split('/');
+
+  if (resource === 'auth') {
+    try {
+      if (req.method === 'POST' && rawId === 'login') {
+        const { email = '', password } = await readBody(req);
+        const user = users.find((candidate) => candidate.email === email.trim().toLowerCase());
+        if (!user || user.password !== password) {
+          send(res, 401, { message: 'Email or password is incorrect' });
+          return;
+        }
+        const token = randomUUID();
+        sessions.set(token, user.id);
+        send(res, 200, { token, user: publicUser(user) });
+        return;
+      }
+      const session = sessionUser(req);
+      if (req.method === 'GET' && rawId === 'session' && session) {
+        send(res, 200, { token: session.token, user: publicUser(session.user) });
+        return;
+      }
+      if (req.method === 'POST' && rawId === 'logout') {
+        if (session) sessions.delete(session.token);
+        send(res, 204);
+        return;
+      }
+      send(res, 401, { message: 'Not signed in' });
+    } catch {
+      send(res, 400, { message: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (resource === 'users') {
+    if (!can(req, 'users:manage')) {
+      send(res, 403, { message: 'Only admins can manage users' });
+      return;
+    }
+    const id = rawId ? decodeURIComponent(rawId) : undefined;
+    try {
+      if (req.method === 'GET' && !id) {
+        send(res, 200, users.map(publicUser));
+        return;
+      }
+      if (req.method === 'POST' && !id) {
+        const body = await readBody(req);
+        const created = { ...body, id: randomUUID() };
+        users.push(created);
+        send(res, 201, publicUser(created));
+        return;
+      }
+      const index = users.findIndex((user) => user.id === id);
+      if (index === -1) {
+        send(res, 404, { message: 'User not found' });
+        return;
+      }
+      if (req.method === 'PUT') {
+        const body = await readBody(req);
+        users[index] = {
+          ...users[index],
+          ...body,
+          id,
+          password: body.password || users[index].password
+        };
+        send(res, 200, publicUser(users[index]));
+        return;
+      }
+      if (req.method === 'DELETE') {
+        users = users.filter((user) => user.id !== id);
+        send(res, 204);
+        return;
+      }
+      send(res, 405, { message: 'Method not allowed' });
+    } catch {
+      send(res, 400, { message: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (resource === 'history' && !rawId) {
+    if (req.method === 'GET') {
+      const universityId = searchParams.get('universityId');
+      send(res, 200, history.filter((entry) => !universityId || entry.universityId === universityId));
+      return;
+    }
+    if (req.method === 'POST') {
+      if (!can(req, 'university:write')) {
+        send(res, 403, { message: 'Sign in as an editor or admin to make changes' });
+        return;
+      }
+      try {
+        // A list of entries is appended as one batch; a single entry is still accepted.
+        const body = await readBody(req);
+        const entries = Array.isArray(body) ? body : [body];
+        const isEntry = (entry) => entry && typeof entry === 'object' && !Array.isArray(entry);
+        if (!entries.every(isEntry)) {
+          send(res, 400, { message: 'History entries must be objects' });
+          return;
+        }
+        history.push(...entries);
+        send(res, 201, body);
+      } catch {
+        send(res, 400, { message: 'Invalid JSON body' });
+      }
+      return;
+    }
+  }
+
+  if (resource === 'students' || resource === 'applications') {
+    if (!can(req, 'applications:manage')) {
+      send(res, 403, { message: 'Only editors and admins can track applications' });
+      return;
+    }
+    const records = resource === 'students' ? students : applications;
+    const id = rawId ? decodeURIComponent(rawId) : undefined;
+    try {
+      if (req.method === 'GET' && !id) {
+        const universityId = searchParams.get('universityId');
+        send(
+          res,
+          200,
+          records.filter((item) => !universityId || item.universityId === universityId)
+        );
+        return;
+      }
+      const index = records.findIndex((item) => item.id === id);
+      if (req.method === 'PUT' && id) {
+        const body = { ...(await readBody(req)), id };
+        if (index === -1) records.push(body);
+        else records[index] = body;
+        send(res, 200, body);
+        return;
+      }
+      if (req.method === 'DELETE' && id) {
+        if (index === -1) {
+          send(res, 404, { message: 'Application not found' });
+          return;
+        }
+        records.splice(index, 1);
+        send(res, 204);
+        return;
+      }
+      send(res, 405, { message: 'Method not allowed' });
+    } catch {
+      send(res, 400, { message: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (resource !== 'universities') {
+    send(res, 404, { message: 'Not found' });
+    return;
+  }
+  const id = rawId ? decodeURIComponent(rawId) : undefined;
+  const isWrite = req.method === 'POST' || req.method === 'PUT' || req.method === 'DELETE';
+  if (isWrite && !can(req, 'university:write')) {
+    send(res, 403, { message: 'Sign in as an editor or admin to make changes' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && !id) {
+      send(res, 200, universities);
+      return;
+    }
+    if (req.method === 'POST' && !id) {
+      const body = await readBody(req);
+      const created = { ...body, id: body.id ?? randomUUID() };
+      universities.push(created);
+      send(res, 201, created);
+      return;
+    }
+
+    const index = universities.findIndex((uni) => uni.id === id);
+    if (index === -1) {
+      send(res, 404, { message: 'University not found' });
+      return;
+    }
+    if (req.method === 'GET') {
+      send(res, 200, universities[index]);
+      return;
+    }
+    if (req.method === 'PUT') {
+      const body = await readBody(req);
+      // Moving a record into or out of the trash is a delete permission, like in the app.
+      const trashChange = (body.deletedAt ?? null) !== (universities[index].deletedAt ?? null);
+      if (trashChange && !can(req, 'university:delete')) {
+        send(res, 403, { message: 'Only admins can delete or restore universities' });
+        return;
+      }
+      universities[index] = { ...body, id };
+      send(res, 200, universities[index]);
+      return;
+    }
+    if (req.method === 'DELETE') {
+      if (!can(req, 'university:delete')) {
+        send(res, 403, { message: 'Only admins can delete universities' });
+        return;
+      }
+      universities.splice(index, 1);
+      send(res, 204);
+      return;
+    }
+    send(res, 405, { message: 'Method not allowed' });
+  } catch {
+    send(res, 400, { message: 'Invalid JSON body' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock university API listening on http://localhost:${PORT}`);
+});
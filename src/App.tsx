@@ -1,22 +1,100 @@
-import { NavLink, Route, Routes } from 'react-router-dom';
+import { useEffect } from 'react';
+import { Link, NavLink, Route, Routes } from 'react-router-dom';
 import UniversitiesPage from './pages/UniversitiesPage';
 import UniversityDetailPage from './pages/UniversityDetailPage';
+import ProgramDetailPage from './pages/ProgramDetailPage';
 import AdminPage from './pages/AdminPage';
+import DeadlinesPage from './pages/DeadlinesPage';
+import ComparePage from './pages/ComparePage';
+import MatcherPage from './pages/MatcherPage';
+import ImportPage from './pages/ImportPage';
+import TrashPage from './pages/TrashPage';
+import MergePage from './pages/MergePage';
+import LoginPage from './pages/LoginPage';
+import UsersPage from './pages/UsersPage';
+import ApplicationsPage from './pages/ApplicationsPage';
+import RequireRole from './components/RequireRole';
+import { useAuth } from './hooks/useAuth';
+import { useDisplayCurrency } from './hooks/useDisplayCurrency';
+import { useI18n } from './hooks/useI18n';
+import { restoreSession, signOut } from './services/authService';
+import { exchangeRates, setDisplayCurrency, supportedCurrencies } from './services/currency';
+import { isLocale, localeNames, setLocale } from './services/i18n';
+import { locales } from './types/i18n';
 
 function App() {
+  const auth = useAuth();
+  const currency = useDisplayCurrency();
+  const { locale, dir, t, formatDate } = useI18n();
+
+  useEffect(() => {
+    restoreSession();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
   return (
     <div className="app-shell">
       <header className="app-header">
         <div>
-          <p className="eyebrow">Manara Scholars</p>
-          <h1>University Knowledge Base</h1>
+          <p className="eyebrow">{t('app.eyebrow')}</p>
+          <h1>{t('app.title')}</h1>
         </div>
         <nav className="main-nav">
           <NavLink to="/" end>
-            Directory
+            {t('nav.directory')}
           </NavLink>
-          <NavLink to="/admin">
-            Admin</NavLink>
+          <NavLink to="/match">{t('nav.match')}</NavLink>
+          <NavLink to="/deadlines">{t('nav.deadlines')}</NavLink>
+          {auth.can('applications:manage') && (
+            <NavLink to="/applications">{t('nav.applications')}</NavLink>
+          )}
+          {auth.can('university:write') && <NavLink to="/admin">{t('nav.admin')}</NavLink>}
+          <label className="language-picker">
+            <select
+              aria-label={t('nav.language')}
+              value={locale}
+              onChange={(event) => {
+                if (isLocale(event.target.value)) setLocale(event.target.value);
+              }}
+            >
+              {locales.map((code) => (
+                <option key={code} value={code} lang={code}>
+                  {localeNames[code]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label
+            className="currency-picker"
+            title={t('nav.ratesAsOf', { date: formatDate(exchangeRates.asOf) })}
+          >
+            <select
+              aria-label={t('nav.displayCurrency')}
+              value={currency}
+              onChange={(event) => setDisplayCurrency(event.target.value)}
+            >
+              {supportedCurrencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </label>
+          {auth.user ? (
+            <span className="nav-user">
+              {auth.user.name}
+              <span className="badge">{t(`role.${auth.user.role}`)}</span>
+              <button type="button" className="link" onClick={() => signOut()}>
+                {t('nav.signOut')}
+              </button>
+            </span>
+          ) : (
+            auth.status === 'ready' && <Link to="/login">{t('nav.signIn')}</Link>
+          )}
         </nav>
       </header>
 
@@ -24,7 +102,62 @@ function App() {
         <Routes>
           <Route path="/" element={<UniversitiesPage />} />
           <Route path="/universities/:id" element={<UniversityDetailPage />} />
-          <Route path="/admin" element={<AdminPage />} />
+          <Route
+            path="/universities/:id/programs/:programId"
+            element={<ProgramDetailPage />}
+          />
+          <Route path="/compare" element={<ComparePage />} />
+          <Route path="/match" element={<MatcherPage />} />
+          <Route path="/deadlines" element={<DeadlinesPage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route
+            path="/applications"
+            element={
+              <RequireRole permission="applications:manage">
+                <ApplicationsPage />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin"
+            element={
+              <RequireRole permission="university:write">
+                <AdminPage />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin/import"
+            element={
+              <RequireRole permission="university:write">
+                <ImportPage />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin/trash"
+            element={
+              <RequireRole permission="university:delete">
+                <TrashPage />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin/merge"
+            element={
+              <RequireRole permission="university:delete">
+                <MergePage />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/admin/users"
+            element={
+              <RequireRole permission="users:manage">
+                <UsersPage />
+              </RequireRole>
+            }
+          />
         </Routes>
       </main>
     </div>
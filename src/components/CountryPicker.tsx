@@ -0,0 +1,98 @@
+import { useId, useMemo, useState } from 'react';
+import { countryName, searchCountries } from '../services/countries';
+import { useI18n } from '../hooks/useI18n';
+
+interface CountryPickerProps {
+  /** Codes already chosen; they are left out of the suggestions. */
+  selected: string[];
+  onSelect: (code: string) => void;
+  placeholder?: string;
+  invalid?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/** Text box that suggests countries by name, code or alias and hands back the chosen code. */
+function CountryPicker({ selected, onSelect, placeholder, invalid }: CountryPickerProps) {
+  const { locale } = useI18n();
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+
+  const suggestions = useMemo(
+    () =>
+      searchCountries(query, MAX_SUGGESTIONS + selected.length, locale)
+        .filter((country) => !selected.includes(country.code))
+        .slice(0, MAX_SUGGESTIONS),
+    [query, selected, locale]
+  );
+
+  const choose = (code: string) => {
+    onSelect(code);
+    setQuery('');
+    setActive(0);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (suggestions.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const country = suggestions[active];
+      if (country) choose(country.code);
+    } else if (event.key === 'Escape') {
+      setQuery('');
+    }
+  };
+
+  const isOpen = isFocused && suggestions.length > 0;
+
+  return (
+    <div className="country-picker">
+      <input
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={isOpen ? `${listId}-${active}` : undefined}
+        aria-invalid={invalid}
+        value={query}
+        placeholder={placeholder}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setActive(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+      />
+      {isOpen && (
+        <ul id={listId} role="listbox" className="country-suggestions">
+          {suggestions.map((country, index) => (
+            <li
+              key={country.code}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              className={index === active ? 'active' : undefined}
+              // Picking on mouse down keeps the input from losing focus first.
+              onMouseDown={(event) => {
+                event.preventDefault();
+                choose(country.code);
+              }}
+            >
+              {countryName(country.code, locale)}
+              <span className="muted"> {country.code}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default CountryPicker;
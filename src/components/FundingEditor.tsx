@@ -0,0 +1,179 @@
+import { fundingTypes, stipendPeriods } from '../types/university';
+import type { FundingType, MoneyAmount, ScholarshipFunding } from '../types/university';
+import { useI18n } from '../hooks/useI18n';
+
+interface FundingEditorProps {
+  funding: ScholarshipFunding | null;
+  /** Field errors for this scholarship's funding, keyed by the part after `funding.`. */
+  errors: Record<string, string | undefined>;
+  onChange: (funding: ScholarshipFunding | null) => void;
+}
+
+const defaultMoney: MoneyAmount = { amount: 0, currency: 'USD' };
+
+const createFunding = (
+  type: FundingType,
+  previous: ScholarshipFunding | null
+): ScholarshipFunding => {
+  const cap = previous?.cap ? { cap: previous.cap } : {};
+  const money =
+    previous && (previous.type === 'fixed' || previous.type === 'stipend')
+      ? { amount: previous.amount, currency: previous.currency }
+      : defaultMoney;
+  switch (type) {
+    case 'full-tuition':
+      return { type, ...cap };
+    case 'percentage':
+      return { type, percent: 50, ...cap };
+    case 'fixed':
+      return { type, ...money, ...cap };
+    case 'stipend':
+      return { type, period: 'month', ...money, ...cap };
+  }
+};
+
+const ErrorText = ({ message }: { message?: string }) =>
+  message ? <span className="field-error">{message}</span> : null;
+
+function FundingEditor({ funding, errors, onChange }: FundingEditorProps) {
+  const { t } = useI18n();
+  const update = (changes: Partial<ScholarshipFunding>) => {
+    if (!funding) return;
+    onChange({ ...funding, ...changes } as ScholarshipFunding);
+  };
+
+  const updateCap = (changes: Partial<MoneyAmount>) => {
+    if (!funding) return;
+    const cap = { ...(funding.cap ?? defaultMoney), ...changes };
+    update({ cap });
+  };
+
+  return (
+    <div className="funding-editor">
+      <label>
+        {t('fundingEditor.funding')}
+        <select
+          value={funding?.type ?? ''}
+          onChange={(event) => {
+            const type = event.target.value as FundingType | '';
+            onChange(type === '' ? null : createFunding(type, funding));
+          }}
+        >
+          <option value="">{t('common.notSpecified')}</option>
+          {fundingTypes.map((type) => (
+            <option key={type} value={type}>
+              {t(`funding.type.${type}`)}
+            </option>
+          ))}
+        </select>
+        <ErrorText message={errors.type} />
+      </label>
+
+      {funding?.type === 'percentage' && (
+        <>
+          <label>
+            {t('fundingEditor.percent')}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={funding.percent}
+              onChange={(event) => update({ percent: Number(event.target.value) })}
+            />
+            <ErrorText message={errors.percent} />
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={Boolean(funding.upTo)}
+              onChange={(event) => update({ upTo: event.target.checked || undefined })}
+            />
+            {t('fundingEditor.upTo')}
+          </label>
+        </>
+      )}
+
+      {(funding?.type === 'fixed' || funding?.type === 'stipend') && (
+        <>
+          <label>
+            {t('fundingEditor.amount')}
+            <input
+              type="number"
+              min={0}
+              value={funding.amount}
+              onChange={(event) => update({ amount: Number(event.target.value) })}
+            />
+            <ErrorText message={errors.amount} />
+          </label>
+          <label>
+            {t('fundingEditor.currency')}
+            <input
+              value={funding.currency}
+              maxLength={3}
+              onChange={(event) => update({ currency: event.target.value.toUpperCase() })}
+            />
+            <ErrorText message={errors.currency} />
+          </label>
+        </>
+      )}
+
+      {(funding?.type === 'fixed' || funding?.type === 'stipend') && (
+        <label>
+          {t('fundingEditor.paidPer')}
+          <select
+            value={funding.period ?? ''}
+            onChange={(event) =>
+              update({
+                period: (event.target.value || undefined) as (typeof stipendPeriods)[number]
+              })
+            }
+          >
+            {funding.type === 'fixed' && <option value="">{t('fundingEditor.once')}</option>}
+            {stipendPeriods.map((period) => (
+              <option key={period} value={period}>
+                {t(`funding.period.${period}`)}
+              </option>
+            ))}
+          </select>
+          <ErrorText message={errors.period} />
+        </label>
+      )}
+
+      {funding && (
+        <div className="funding-cap">
+          <label>
+            {t('fundingEditor.cap')}
+            <input
+              type="number"
+              min={0}
+              value={funding.cap?.amount ?? ''}
+              onChange={(event) => {
+                const value = event.target.value;
+                if (value === '') {
+                  const { cap: _cap, ...rest } = funding;
+                  onChange(rest as ScholarshipFunding);
+                } else {
+                  updateCap({ amount: Number(value) });
+                }
+              }}
+            />
+            <ErrorText message={errors['cap.amount']} />
+          </label>
+          {funding.cap && (
+            <label>
+              {t('fundingEditor.capCurrency')}
+              <input
+                value={funding.cap.currency}
+                maxLength={3}
+                onChange={(event) => updateCap({ currency: event.target.value.toUpperCase() })}
+              />
+              <ErrorText message={errors['cap.currency']} />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FundingEditor;
@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Character ranges to wrap in <mark>, as [start, end). */
+  ranges: [number, number][];
+  /** When set, long text is cut down to a window around the first highlighted range. */
+  maxLength?: number;
+}
+
+function HighlightedText({ text, ranges, maxLength }: HighlightedTextProps) {
+  let from = 0;
+  let to = text.length;
+  if (maxLength && text.length > maxLength) {
+    const anchor = ranges[0]?.[0] ?? 0;
+    from = Math.max(0, Math.min(anchor - Math.floor(maxLength / 3), text.length - maxLength));
+    to = from + maxLength;
+  }
+
+  const parts: ReactNode[] = [];
+  let cursor = from;
+  ranges
+    .filter(([start, end]) => start >= from && end <= to)
+    .forEach(([start, end]) => {
+      if (start < cursor) return;
+      if (start > cursor) parts.push(text.slice(cursor, start));
+      parts.push(<mark key={start}>{text.slice(start, end)}</mark>);
+      cursor = end;
+    });
+  if (cursor < to) parts.push(text.slice(cursor, to));
+
+  return (
+    <>
+      {from > 0 && '…'}
+      {parts}
+      {to < text.length && '…'}
+    </>
+  );
+}
+
+export default HighlightedText;
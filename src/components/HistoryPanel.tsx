@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import type { UniversityHistoryEntry } from '../types/history';
+import type { University } from '../types/university';
+import { getUniversityHistory, restoreUniversityVersion } from '../services/universityService';
+import { describeValue } from '../services/universityDiff';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface HistoryPanelProps {
+  universityId: string;
+  /** Bump to reload after the record is saved elsewhere on the page. */
+  refreshToken?: unknown;
+  onRestored: (university: University) => void;
+}
+
+function HistoryPanel({ universityId, refreshToken, onRestored }: HistoryPanelProps) {
+  const { t, formatDateTime } = useI18n();
+  const [entries, setEntries] = useState<UniversityHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let keep = true;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await getUniversityHistory(universityId);
+        if (!keep) return;
+        setEntries(data);
+      } catch (err) {
+        if (!keep) return;
+        setError(errorMessage(err, 'history.loadFailed'));
+      } finally {
+        if (keep) {
+          setIsLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      keep = false;
+    };
+  }, [universityId, refreshToken]);
+
+  const handleRestore = async (entry: UniversityHistoryEntry, which: 'snapshot' | 'previous') => {
+    const params = { name: entry.universityName, time: formatDateTime(entry.timestamp) };
+    const confirmed = window.confirm(
+      which === 'snapshot'
+        ? t('history.confirmSnapshot', params)
+        : t('history.confirmPrevious', params)
+    );
+    if (!confirmed) return;
+    try {
+      setRestoringId(entry.id);
+      const restored = await restoreUniversityVersion(entry.id, which);
+      setEntries(await getUniversityHistory(universityId));
+      onRestored(restored);
+    } catch (err) {
+      setError(errorMessage(err, 'history.restoreFailed'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <section className="history-panel">
+      <h3>{t('history.title')}</h3>
+      {isLoading && <p className="muted">{t('history.loading')}</p>}
+      {error && <p className="error-text">{error}</p>}
+      {!isLoading && entries.length === 0 && (
+        <p className="muted">{t('history.empty')}</p>
+      )}
+      <ol className="history-list">
+        {entries.map((entry) => (
+          <li key={entry.id} className="inline-card">
+            <div className="degree-title">
+              <div>
+                <span className="badge">{t(`history.action.${entry.action}`)}</span>{' '}
+                <strong>{formatDateTime(entry.timestamp)}</strong>
+                <span className="muted"> · {entry.actor}</span>
+              </div>
+              <div className="editor-actions">
+                {entry.snapshot && (
+                  <button
+                    type="button"
+                    className="link"
+                    disabled={restoringId !== null}
+                    onClick={() => handleRestore(entry, 'snapshot')}
+                  >
+                    {t('history.restoreThis')}
+                  </button>
+                )}
+                {entry.previous && (
+                  <button
+                    type="button"
+                    className="link"
+                    disabled={restoringId !== null}
+                    onClick={() => handleRestore(entry, 'previous')}
+                  >
+                    {t('history.restoreBefore')}
+                  </button>
+                )}
+              </div>
+            </div>
+            {entry.changes.length > 0 && entry.action !== 'create' && entry.action !== 'delete' && (
+              <div className="table-like diff-table">
+                <header>
+                  <span>{t('diff.field')}</span>
+                  <span>{t('diff.before')}</span>
+                  <span>{t('diff.after')}</span>
+                </header>
+                {entry.changes.map((change) => (
+                  <div key={change.field} className="row">
+                    <span>{change.field}</span>
+                    <span className="diff-before">{describeValue(change.before)}</span>
+                    <span className="diff-after">{describeValue(change.after)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+export default HistoryPanel;
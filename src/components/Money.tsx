@@ -0,0 +1,29 @@
+import type { MoneyAmount } from '../types/university';
+import { displayMoney, exchangeRates } from '../services/currency';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { useI18n } from '../hooks/useI18n';
+
+interface MoneyProps {
+  value?: MoneyAmount;
+}
+
+/** An amount in the user's display currency; hovering shows what is actually charged. */
+function Money({ value }: MoneyProps) {
+  const currency = useDisplayCurrency();
+  const { t, formatDate } = useI18n();
+  const { text, original } = displayMoney(value, currency);
+  if (!original) return <>{text}</>;
+  return (
+    <span
+      className="converted-amount"
+      title={t('money.converted', {
+        amount: original,
+        date: formatDate(exchangeRates.asOf)
+      })}
+    >
+      {text}
+    </span>
+  );
+}
+
+export default Money;
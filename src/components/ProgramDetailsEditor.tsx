@@ -0,0 +1,171 @@
+import { admissionTests } from '../types/university';
+import type { AdmissionTest, Program, TestRequirement } from '../types/university';
+import { MAX_GPA, monthName, testScoreRanges } from '../services/programs';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProgramDetailsEditorProps {
+  program: Program;
+  /** Fee currency of the university; program tuition is entered in it. */
+  currency: string;
+  /** Field errors for this program, keyed by the part after `programs.<level>.<index>.`. */
+  errors: Record<string, string | undefined>;
+  onChange: (changes: Partial<Program>) => void;
+}
+
+const months = Array.from({ length: 12 }, (_, index) => index + 1);
+
+// Blank number inputs clear the value rather than storing 0.
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const numberValue = (value: number | undefined) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : '';
+
+const ErrorText = ({ message }: { message?: string }) =>
+  message ? <span className="field-error">{message}</span> : null;
+
+/** Language, intakes, tuition and admission requirements of one program. */
+function ProgramDetailsEditor({ program, currency, errors, onChange }: ProgramDetailsEditorProps) {
+  const { t, locale } = useI18n();
+  const tests = program.requiredTests ?? [];
+  const intakeMonths = program.intakeMonths ?? [];
+  const unusedTest = admissionTests.find((test) => !tests.some((item) => item.test === test));
+
+  const updateTest = (index: number, changes: Partial<TestRequirement>) =>
+    onChange({
+      requiredTests: tests.map((item, idx) => (idx === index ? { ...item, ...changes } : item))
+    });
+
+  const toggleMonth = (month: number, checked: boolean) =>
+    onChange({
+      intakeMonths: checked
+        ? [...intakeMonths, month].sort((a, b) => a - b)
+        : intakeMonths.filter((item) => item !== month)
+    });
+
+  return (
+    <div className="program-details-editor">
+      <div className="inline-card-grid">
+        <label>
+          {t('programEditor.language')}
+          <input
+            value={program.language ?? ''}
+            placeholder={t('programEditor.languagePlaceholder')}
+            onChange={(event) => onChange({ language: event.target.value })}
+          />
+          <ErrorText message={errors.language} />
+        </label>
+        <label>
+          {t('programEditor.tuition', { currency })}
+          <input
+            type="number"
+            min={0}
+            value={numberValue(program.tuition)}
+            placeholder={t('programEditor.tuitionPlaceholder')}
+            onChange={(event) => onChange({ tuition: toOptionalNumber(event.target.value) })}
+          />
+          <ErrorText message={errors.tuition} />
+        </label>
+        <label>
+          {t('programEditor.minimumGpa', { max: MAX_GPA })}
+          <input
+            type="number"
+            min={0}
+            max={MAX_GPA}
+            step={0.1}
+            value={numberValue(program.minimumGpa)}
+            onChange={(event) => onChange({ minimumGpa: toOptionalNumber(event.target.value) })}
+          />
+          <ErrorText message={errors.minimumGpa} />
+        </label>
+      </div>
+
+      <fieldset className="month-picker">
+        <legend>{t('programEditor.intakes')}</legend>
+        {months.map((month) => (
+          <label key={month} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={intakeMonths.includes(month)}
+              onChange={(event) => toggleMonth(month, event.target.checked)}
+            />
+            {monthName(month, locale, 'short')}
+          </label>
+        ))}
+        <ErrorText message={errors.intakeMonths} />
+      </fieldset>
+
+      <div className="test-requirements">
+        <span>{t('programEditor.tests')}</span>
+        {tests.map((requirement, index) => {
+          const range = testScoreRanges[requirement.test];
+          return (
+            <div key={index} className="test-requirement">
+              <select
+                aria-label={t('programEditor.test')}
+                value={requirement.test}
+                onChange={(event) =>
+                  updateTest(index, { test: event.target.value as AdmissionTest })
+                }
+              >
+                {admissionTests.map((test) => (
+                  <option key={test} value={test}>
+                    {test}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                aria-label={t('programEditor.minimumScore', { test: requirement.test })}
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={numberValue(requirement.minimumScore)}
+                placeholder={`${range.min}–${range.max}`}
+                onChange={(event) =>
+                  updateTest(index, { minimumScore: Number(event.target.value) })
+                }
+              />
+              <button
+                type="button"
+                className="link danger"
+                onClick={() =>
+                  onChange({ requiredTests: tests.filter((_, idx) => idx !== index) })
+                }
+              >
+                {t('programEditor.remove')}
+              </button>
+              <ErrorText message={errors[`requiredTests.${index}.test`]} />
+              <ErrorText message={errors[`requiredTests.${index}.minimumScore`]} />
+            </div>
+          );
+        })}
+        {unusedTest && (
+          <button
+            type="button"
+            className="link"
+            onClick={() =>
+              onChange({
+                requiredTests: [...tests, { test: unusedTest, minimumScore: Number.NaN }]
+              })
+            }
+          >
+            {t('programEditor.addTest')}
+          </button>
+        )}
+        <ErrorText message={errors.requiredTests} />
+      </div>
+
+      <label>
+        {t('programEditor.documents')}
+        <textarea
+          value={(program.requiredDocuments ?? []).join('\n')}
+          placeholder={t('programEditor.documentsPlaceholder')}
+          onChange={(event) => onChange({ requiredDocuments: event.target.value.split('\n') })}
+        />
+        <ErrorText message={errors.requiredDocuments} />
+      </label>
+    </div>
+  );
+}
+
+export default ProgramDetailsEditor;
@@ -0,0 +1,45 @@
+import type { ReactNode } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import type { Permission } from '../types/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useI18n } from '../hooks/useI18n';
+
+interface RequireRoleProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+/** Route guard: sends signed-out visitors to the login page and blocks roles without access. */
+function RequireRole({ permission, children }: RequireRoleProps) {
+  const location = useLocation();
+  const auth = useAuth();
+  const { t } = useI18n();
+
+  if (auth.status === 'loading') {
+    return (
+      <section className="card">
+        <p className="muted">{t('access.checking')}</p>
+      </section>
+    );
+  }
+
+  if (!auth.user) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (!auth.can(permission)) {
+    return (
+      <section className="card">
+        <p className="eyebrow">{t('access.deniedEyebrow')}</p>
+        <h2>{t('access.deniedTitle')}</h2>
+        <p className="muted">
+          {t('access.deniedHint')} <Link to="/">{t('access.backToDirectory')}</Link>
+        </p>
+      </section>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+export default RequireRole;
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { deleteSavedView, getSavedViews, saveView } from '../services/savedViews';
+import type { SavedView } from '../services/savedViews';
+import { useAuth } from '../hooks/useAuth';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SavedViewsPanelProps {
+  /** Query string of the directory as it is currently filtered, without the leading "?". */
+  currentQuery: string;
+}
+
+function SavedViewsPanel({ currentQuery }: SavedViewsPanelProps) {
+  const [views, setViews] = useState<SavedView[]>(() => getSavedViews());
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const userId = useAuth().user?.id;
+  const { t } = useI18n();
+
+  // Views belong to the signed-in user, so reload them when that changes.
+  useEffect(() => {
+    setViews(getSavedViews());
+  }, [userId]);
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      saveView(name, currentQuery);
+      setViews(getSavedViews());
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'savedViews.saveFailed'));
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteSavedView(id);
+    setViews(getSavedViews());
+  };
+
+  return (
+    <aside className="card saved-views">
+      <p className="eyebrow">{t('savedViews.title')}</p>
+      {views.length === 0 ? (
+        <p className="muted">{t('savedViews.empty')}</p>
+      ) : (
+        <ul className="saved-view-list">
+          {views.map((view) => (
+            <li key={view.id} className={view.query === currentQuery ? 'active' : undefined}>
+              <Link to={{ pathname: '/', search: view.query ? `?${view.query}` : '' }}>
+                {view.name}
+              </Link>
+              <button
+                type="button"
+                className="toast-close"
+                aria-label={t('savedViews.delete', { name: view.name })}
+                onClick={() => handleDelete(view.id)}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className="saved-view-form" onSubmit={handleSave}>
+        <input
+          placeholder={t('savedViews.placeholder')}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="submit" className="button-secondary" disabled={!currentQuery}>
+          {t('savedViews.save')}
+        </button>
+        {error && <p className="field-error">{error}</p>}
+      </form>
+    </aside>
+  );
+}
+
+export default SavedViewsPanel;
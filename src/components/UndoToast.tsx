@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** How long the toast stays up before dismissing itself. */
+  timeoutMs?: number;
+}
+
+function UndoToast({ message, onUndo, onDismiss, timeoutMs = 8000 }: UndoToastProps) {
+  const { t } = useI18n();
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, timeoutMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, timeoutMs]);
+
+  return (
+    <div className="toast" role="status" aria-live="polite">
+      <span>{message}</span>
+      <button type="button" className="link" onClick={onUndo}>
+        {t('common.undo')}
+      </button>
+      <button
+        type="button"
+        className="toast-close"
+        aria-label={t('common.dismiss')}
+        onClick={onDismiss}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+export default UndoToast;
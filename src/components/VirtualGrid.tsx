@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  /** Columns are as many of these as fit, like `repeat(auto-fill, minmax(...))`. */
+  minColumnWidth?: number;
+  gap?: number;
+  /** Used for rows that have not been measured yet. */
+  estimatedRowHeight?: number;
+  /** Extra rows rendered above and below the viewport. */
+  overscan?: number;
+}
+
+interface MeasuredRowProps {
+  row: number;
+  columns: number;
+  gap: number;
+  onHeight: (row: number, height: number) => void;
+  children: ReactNode;
+}
+
+function MeasuredRow({ row, columns, gap, onHeight, children }: MeasuredRowProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const node = ref.current;
+    if (!node) return undefined;
+    onHeight(row, node.offsetHeight);
+    if (typeof ResizeObserver === 'undefined') return undefined;
+    const observer = new ResizeObserver(() => onHeight(row, node.offsetHeight));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [row, onHeight]);
+
+  return (
+    <div
+      ref={ref}
+      className="grid"
+      style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap }}
+    >
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Card grid that only mounts the rows near the window's viewport. Row heights are measured as
+ * rows render, so cards may vary in height.
+ */
+function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  minColumnWidth = 280,
+  gap = 16,
+  estimatedRowHeight = 320,
+  overscan = 2
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  const [heights, setHeights] = useState<Record<string, number>>({});
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+  const rowCount = Math.ceil(items.length / columns);
+
+  useLayoutEffect(() => {
+    const node = containerRef.current;
+    if (!node) return undefined;
+    setWidth(node.clientWidth);
+    if (typeof ResizeObserver === 'undefined') return undefined;
+    const observer = new ResizeObserver(() => setWidth(node.clientWidth));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const update = () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setViewport({ top: -rect.top, height: window.innerHeight });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [items]);
+
+  // Measurements are keyed by column count too, since a row's contents change with the layout.
+  const handleHeight = useCallback(
+    (row: number, height: number) => {
+      const key = `${columns}:${row}`;
+      setHeights((prev) => (prev[key] === height ? prev : { ...prev, [key]: height }));
+    },
+    [columns]
+  );
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (let row = 0; row < rowCount; row += 1) {
+      result.push(result[row] + (heights[`${columns}:${row}`] ?? estimatedRowHeight) + gap);
+    }
+    return result;
+  }, [rowCount, columns, heights, estimatedRowHeight, gap]);
+
+  const totalHeight = Math.max(0, offsets[rowCount] - gap);
+  let first = 0;
+  while (first < rowCount && offsets[first + 1] <= viewport.top) first += 1;
+  let last = first;
+  while (last < rowCount && offsets[last] < viewport.top + viewport.height) last += 1;
+  first = Math.max(0, first - overscan);
+  last = Math.min(rowCount, last + overscan);
+
+  const rows = [];
+  for (let row = first; row < last; row += 1) {
+    const rowItems = items.slice(row * columns, (row + 1) * columns);
+    rows.push(
+      <MeasuredRow key={row} row={row} columns={columns} gap={gap} onHeight={handleHeight}>
+        {rowItems.map((item, index) => (
+          <div key={getKey(item)} className="virtual-grid-cell">
+            {renderItem(item, row * columns + index)}
+          </div>
+        ))}
+      </MeasuredRow>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="virtual-grid" style={{ height: totalHeight }}>
+      <div
+        style={{
+          transform: `translateY(${offsets[first] ?? 0}px)`,
+          display: 'flex',
+          flexDirection: 'column',
+          gap
+        }}
+      >
+        {rows}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualGrid;
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { can, getAuthState, subscribeToAuth } from '../services/authService';
+import type { Permission } from '../types/auth';
+
+/** Current session state, re-rendering whenever the user signs in, out or changes role. */
+export const useAuth = () => {
+  const state = useSyncExternalStore(subscribeToAuth, getAuthState);
+  return {
+    ...state,
+    can: (permission: Permission) => can(permission, state.user)
+  };
+};
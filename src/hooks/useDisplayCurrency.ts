@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getDisplayCurrency, subscribeToDisplayCurrency } from '../services/currency';
+
+/** Currency amounts are shown in, re-rendering whenever the user picks another one. */
+export const useDisplayCurrency = () =>
+  useSyncExternalStore(subscribeToDisplayCurrency, getDisplayCurrency);
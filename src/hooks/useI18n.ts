@@ -0,0 +1,29 @@
+import { useSyncExternalStore } from 'react';
+import {
+  formatDate,
+  formatDateTime,
+  formatList,
+  formatNumber,
+  getLocale,
+  localize,
+  subscribeToLocale,
+  t,
+  textDirection,
+  tp
+} from '../services/i18n';
+
+/** Translation helpers for the active language, re-rendering whenever the user switches. */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeToLocale, getLocale);
+  return {
+    locale,
+    dir: textDirection(locale),
+    t,
+    tp,
+    formatNumber,
+    formatDate,
+    formatDateTime,
+    formatList,
+    localize
+  };
+};
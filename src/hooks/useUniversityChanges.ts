@@ -0,0 +1,13 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToUniversityChanges } from '../services/universityService';
+import type { UniversityChange } from '../services/universityService';
+
+/** Calls `onChange` whenever directory records are saved, here or in another tab. */
+export const useUniversityChanges = (onChange: (change: UniversityChange) => void) => {
+  // Always the latest callback, so it sees current state without resubscribing every render.
+  const latest = useRef(onChange);
+  useEffect(() => {
+    latest.current = onChange;
+  });
+  useEffect(() => subscribeToUniversityChanges((change) => latest.current(change)), []);
+};
@@ -0,0 +1,775 @@
+import type { Catalog } from './en';
+
+/**
+ * Arabic strings. Arabic plurals distinguish zero, one, two, few (3–10) and many (11–99), so
+ * counted messages carry all six categories. Arrows point the other way for right-to-left.
+ */
+const ar: Catalog = {
+  'app.eyebrow': 'منارة للمنح',
+  'app.title': 'دليل الجامعات',
+  'nav.directory': 'الدليل',
+  'nav.match': 'مطابقة طالب',
+  'nav.deadlines': 'المواعيد النهائية',
+  'nav.applications': 'الطلبات',
+  'nav.admin': 'الإدارة',
+  'nav.signIn': 'تسجيل الدخول',
+  'nav.signOut': 'تسجيل الخروج',
+  'nav.language': 'اللغة',
+  'nav.displayCurrency': 'عملة العرض',
+  'nav.ratesAsOf': 'أسعار الصرف بتاريخ {date}',
+
+  'degree.bachelor': 'البكالوريوس',
+  'degree.masters': 'الماجستير',
+  'degree.phd': 'الدكتوراه',
+  'delivery.on-campus': 'في الحرم الجامعي',
+  'delivery.hybrid': 'مدمج',
+  'delivery.online': 'عن بُعد',
+  'role.viewer': 'مشاهد',
+  'role.editor': 'محرر',
+  'role.admin': 'مدير',
+
+  'count.programs.zero': 'لا برامج',
+  'count.programs.one': 'برنامج واحد',
+  'count.programs.two': 'برنامجان',
+  'count.programs.few': '{count} برامج',
+  'count.programs.many': '{count} برنامجًا',
+  'count.programs.other': '{count} برنامج',
+  'count.scholarships.zero': 'لا منح',
+  'count.scholarships.one': 'منحة واحدة',
+  'count.scholarships.two': 'منحتان',
+  'count.scholarships.few': '{count} منح',
+  'count.scholarships.many': '{count} منحة',
+  'count.scholarships.other': '{count} منحة',
+  'count.universities.zero': 'لا جامعات',
+  'count.universities.one': 'جامعة واحدة',
+  'count.universities.two': 'جامعتان',
+  'count.universities.few': '{count} جامعات',
+  'count.universities.many': '{count} جامعة',
+  'count.universities.other': '{count} جامعة',
+
+  'common.location': 'الموقع',
+  'location.separator': '، ',
+  'common.country': 'الدولة',
+  'common.region': 'المنطقة',
+  'common.degreeLevel': 'المرحلة الدراسية',
+  'common.allDegrees': 'كل المراحل',
+  'common.allCountries': 'كل الدول',
+  'common.allRegions': 'كل المناطق',
+  'common.applicationFee': 'رسوم التقديم',
+  'common.averageTuition': 'متوسط الرسوم الدراسية',
+  'common.tuitionAt': 'رسوم {level}',
+  'common.programs': 'البرامج',
+  'common.scholarships': 'المنح',
+  'common.restrictedCountries': 'الدول المستثناة',
+  'common.name': 'الاسم',
+  'common.duration': 'المدة',
+  'common.delivery': 'نمط الدراسة',
+  'common.deadline': 'الموعد النهائي: {date}',
+  'common.rolling': 'مفتوح',
+  'common.deadlineToConfirm': '«{text}» (التاريخ بانتظار التأكيد)',
+  'common.notAvailable': 'غير متوفر',
+  'common.none': 'لا يوجد',
+  'common.noneListed': 'لا توجد بيانات',
+  'common.compare': 'قارن',
+  'common.undo': 'تراجع',
+  'common.dismiss': 'إغلاق',
+  'common.remove': 'إزالة {name}',
+
+  'funding.type.full-tuition': 'الرسوم كاملة',
+  'funding.type.percentage': 'نسبة من الرسوم',
+  'funding.type.fixed': 'مبلغ ثابت',
+  'funding.type.stipend': 'مخصص شهري',
+  'funding.period.month': 'شهر',
+  'funding.period.semester': 'فصل دراسي',
+  'funding.period.year': 'سنة',
+  'funding.fullTuition': 'تغطية الرسوم كاملة',
+  'funding.percentage': '{percent}% من الرسوم',
+  'funding.percentageUpTo': 'حتى {percent}% من الرسوم',
+  'funding.stipend': 'مخصص {amount} لكل {period}',
+  'funding.fixedPeriod': '{amount} لكل {period}',
+  'funding.cap': '{funding} (بحد أقصى {cap})',
+
+  'money.converted': 'المبلغ الأصلي {amount}؛ محوّل بأسعار {date}',
+
+  'access.checking': 'جارٍ التحقق من الجلسة…',
+  'access.deniedEyebrow': 'الوصول مرفوض',
+  'access.deniedTitle': 'هذا القسم غير متاح لدورك',
+  'access.deniedHint': 'اطلب الصلاحية من أحد المديرين إذا احتجت إليها.',
+  'access.backToDirectory': 'العودة إلى الدليل',
+
+  'savedViews.title': 'العروض المحفوظة',
+  'savedViews.empty': 'احفظ الدليل بعد تصفيته للرجوع إليه أو مشاركته لاحقًا.',
+  'savedViews.delete': 'حذف {name}',
+  'savedViews.placeholder': 'مثال: ماجستير في بريطانيا بأقل من 30 ألف دولار',
+  'savedViews.save': 'حفظ العرض الحالي',
+  'savedViews.saveFailed': 'تعذّر حفظ العرض',
+
+  'search.field.name': 'الاسم',
+  'search.field.location': 'الموقع',
+  'search.field.overview': 'النبذة',
+  'search.field.program': 'البرنامج',
+  'search.field.scholarship': 'المنحة',
+  'search.field.eligibility': 'الأهلية',
+  'search.fieldAtLevel': '{field} ({level})',
+
+  'sort.relevance': 'الأكثر تطابقًا',
+  'sort.name': 'الاسم',
+  'sort.applicationFee': 'رسوم التقديم',
+  'sort.scholarships': 'عدد المنح',
+  'sort.deadline': 'أقرب موعد نهائي',
+
+  'tuitionBand.under': 'أقل من {amount}',
+  'tuitionBand.from': '{amount} فأكثر',
+  'tuitionBand.between': '{min}–{max}',
+
+  'directory.eyebrow': 'تصفية الدليل',
+  'directory.title': 'استكشف الجامعات الشريكة',
+  'directory.intro':
+    'ابحث في الأسماء والبرامج والمنح وشروط الأهلية، ثم صفِّ النتائج حسب التكلفة أو نمط ' +
+    'الدراسة أو الجنسية لتصل إلى الفرص المناسبة للمرشحين.',
+  'directory.search': 'بحث',
+  'directory.searchPlaceholder': 'مثال: علم البيانات، GPA 3.7، تورنتو',
+  'directory.funding': 'تمويل المنحة',
+  'directory.anyFunding': 'أي تمويل',
+  'directory.fullyFunded': 'تمويل كامل',
+  'directory.averageTuitionAt': 'متوسط الرسوم ({level})',
+  'directory.anyTuition': 'أي رسوم',
+  'directory.anyFee': 'أي رسوم',
+  'directory.noFee': 'بلا رسوم',
+  'directory.feeUpTo': 'حتى {amount}',
+  'directory.delivery': 'نمط الدراسة',
+  'directory.anyDelivery': 'أي نمط',
+  'directory.eligibleFrom': 'متاحة للمتقدمين من',
+  'directory.anyCountry': 'أي دولة',
+  'directory.eligibleCount': '{count} متاحة',
+  'directory.hasScholarships': 'تقدم منحًا',
+  'directory.hasScholarshipsAtLevel': 'تقدم منحًا في هذه المرحلة',
+  'directory.withCount': '{label} ({count})',
+  'directory.universities': 'الجامعات',
+  'directory.noResults': 'لا نتائج',
+  'directory.showing': 'عرض {from}–{to} من {total}',
+  'directory.sortBy': 'الترتيب حسب',
+  'directory.toggleDirection': 'عكس اتجاه الترتيب',
+  'directory.ascending': '↑ تصاعدي',
+  'directory.descending': '↓ تنازلي',
+  'directory.refreshing': 'جارٍ تحديث البيانات…',
+  'directory.export': 'تصدير',
+  'directory.exportReport': 'طباعة تقرير',
+  'directory.empty': 'لا توجد جامعات تطابق عوامل التصفية الحالية.',
+  'directory.view': 'عرض',
+  'directory.delete': 'حذف',
+  'directory.exploreProfile': 'استعرض الملف ←',
+  'directory.restricted': 'مستثناة: {countries}',
+  'directory.previousPage': '→ السابق',
+  'directory.nextPage': 'التالي ←',
+  'directory.pageOf': 'الصفحة {page} من {count}',
+  'directory.perPage': 'لكل صفحة',
+  'directory.compareTray': 'الجامعات المختارة للمقارنة',
+  'directory.compareCount': 'قارن {count}/{max}:',
+  'directory.clear': 'مسح',
+  'directory.movedToTrash': 'نُقلت {name} إلى سلة المحذوفات.',
+  'directory.loadFailed': 'تعذّر تحميل الجامعات',
+  'directory.deleteFailed': 'تعذّر حذف الجامعة',
+  'directory.restoreFailed': 'تعذّر استعادة الجامعة',
+  'directory.exportFailed': 'تعذّر تصدير الجامعات',
+
+  'detail.loading': 'جارٍ تحميل بيانات الجامعة…',
+  'detail.loadFailed': 'تعذّر تحميل الجامعة',
+  'detail.notFound': 'لم يتم العثور على الجامعة.',
+  'detail.goBack': 'رجوع',
+  'detail.back': '→ العودة إلى الدليل',
+  'detail.edit': 'تعديل في الإدارة',
+  'detail.addToCalendar': 'أضف المواعيد إلى التقويم',
+  'detail.visitPortal': 'زيارة البوابة',
+  'detail.campuses': 'الفروع',
+  'detail.restrictedHint': 'المتقدمون من هذه الدول غير مؤهلين حاليًا.',
+  'detail.opportunities': 'فرص {level}',
+  'detail.noPrograms': 'لم تُضف أي برامج بعد.',
+  'detail.noScholarships': 'بيانات المنح غير متوفرة.',
+  'detail.applications': 'الطلبات المفتوحة',
+  'detail.noApplications': 'لا توجد طلبات مفتوحة لهذه الجامعة.',
+  'detail.trackApplication': 'متابعة طلب جديد',
+  'detail.openBoard': 'افتح لوحة الطلبات',
+  'detail.student': 'الطالب',
+  'detail.program': 'البرنامج',
+  'detail.stage': 'المرحلة',
+  'detail.deadline': 'الموعد النهائي',
+  'detail.applicationSince': 'منذ {date}',
+  'detail.unknownStudent': 'طالب غير معروف',
+
+  'application.status.shortlisted': 'في القائمة المختصرة',
+  'application.status.preparing': 'قيد التحضير',
+  'application.status.submitted': 'مُقدَّم',
+  'application.status.interview': 'مقابلة',
+  'application.status.admitted': 'مقبول',
+  'application.status.rejected': 'مرفوض',
+  'application.status.enrolled': 'مُسجَّل',
+
+  'program.loading': 'جارٍ تحميل بيانات البرنامج…',
+  'program.notFound': 'لم يتم العثور على البرنامج.',
+  'program.back': '→ العودة إلى {university}',
+  'program.language': 'لغة الدراسة',
+  'program.intakes': 'مواعيد القبول',
+  'program.tuition': 'الرسوم الدراسية سنويًا',
+  'program.tuitionAverage': 'متوسط الجامعة لمرحلة {level}',
+  'program.admission': 'شروط القبول',
+  'program.minimumGpa': 'الحد الأدنى للمعدل',
+  'program.gpaValue': '{gpa} من 4.0',
+  'program.requiredTests': 'الاختبارات المطلوبة',
+  'program.test': 'الاختبار',
+  'program.minimumScore': 'الحد الأدنى للدرجة',
+  'program.requiredDocuments': 'المستندات المطلوبة',
+  'program.noRequirements': 'لم تُضف شروط القبول بعد.',
+  'program.notListed': 'غير مذكور',
+  'program.scholarships': 'منح {level} في {university}',
+
+  'compare.loading': 'جارٍ تحميل المقارنة…',
+  'compare.loadFailed': 'تعذّر تحميل المقارنة',
+  'compare.eyebrow': 'مقارنة',
+  'compare.pick': 'اختر جامعات لمقارنتها',
+  'compare.comparing.zero': 'لا جامعات للمقارنة',
+  'compare.comparing.one': 'مقارنة جامعة واحدة',
+  'compare.comparing.two': 'مقارنة جامعتين',
+  'compare.comparing.few': 'مقارنة {count} جامعات',
+  'compare.comparing.many': 'مقارنة {count} جامعة',
+  'compare.comparing.other': 'مقارنة {count} جامعة',
+  'compare.onlyDifferences': 'إظهار الفروق فقط',
+  'compare.missing.one': 'تعذّر العثور على جامعة واحدة في هذا الرابط فاستُبعدت.',
+  'compare.missing.two': 'تعذّر العثور على جامعتين في هذا الرابط فاستُبعدتا.',
+  'compare.missing.few': 'تعذّر العثور على {count} جامعات في هذا الرابط فاستُبعدت.',
+  'compare.missing.many': 'تعذّر العثور على {count} جامعة في هذا الرابط فاستُبعدت.',
+  'compare.missing.other': 'تعذّر العثور على {count} جامعة في هذا الرابط فاستُبعدت.',
+  'compare.hint': 'اختر من جامعتين إلى أربع في الدليل ثم اضغط «قارن».',
+  'compare.openDirectory': 'افتح الدليل',
+  'compare.remove': 'إزالة {name} من المقارنة',
+  'compare.overview': 'نظرة عامة',
+  'compare.studies': 'دراسات {level}',
+
+  'matcher.eyebrow': 'مطابقة الأهلية',
+  'matcher.title': 'ابحث عن جامعات لطالب',
+  'matcher.intro':
+    'أدخل بيانات الطالب لترتيب الجامعات حسب ملاءمة البرامج والميزانية والأهلية للمنح. ' +
+    'توضح كل نتيجة ما يناسب الطالب وما لا يناسبه.',
+  'matcher.nationality': 'الجنسية',
+  'matcher.nationalityAny': 'غير محددة',
+  'matcher.targetDegree': 'المرحلة المطلوبة',
+  'matcher.field': 'مجال الاهتمام',
+  'matcher.fieldPlaceholder': 'مثال: علم البيانات',
+  'matcher.gpa': 'المعدل (من 4.0)',
+  'matcher.budget': 'ميزانية الرسوم السنوية ({currency})',
+  'matcher.matching': 'جارٍ المطابقة…',
+  'matcher.submit': 'ابحث عن نتائج',
+  'matcher.failed': 'تعذّرت مطابقة الجامعات',
+  'matcher.results': 'النتائج',
+  'matcher.summary.zero': '{eligible} من أصل {count} جامعة مناسبة',
+  'matcher.summary.one': '{eligible} من أصل جامعة واحدة مناسبة',
+  'matcher.summary.two': '{eligible} من أصل جامعتين مناسبة',
+  'matcher.summary.few': '{eligible} من أصل {count} جامعات مناسبة',
+  'matcher.summary.many': '{eligible} من أصل {count} جامعة مناسبة',
+  'matcher.summary.other': '{eligible} من أصل {count} جامعة مناسبة',
+  'matcher.score': '{score}/100',
+  'matcher.notEligible': 'غير مؤهل',
+  'matcher.minimumGpa': 'معدل {gpa} فأعلى',
+
+  'match.restricted': 'لا تقبل المتقدمين من {country}',
+  'match.noPrograms': 'لا توجد برامج في هذه المرحلة',
+  'match.offers': 'تقدم {programs}',
+  'match.noProgramMatch': 'لا يوجد برنامج يطابق «{field}»',
+  'match.tuitionMissing': 'الرسوم غير مدرجة لهذه المرحلة',
+  'match.withinBudget': 'الرسوم {tuition} ضمن ميزانية {budget}',
+  'match.overBudget': 'الرسوم {tuition} تتجاوز الميزانية بمقدار {over}',
+  'match.scholarshipsOpen.one': 'منحة واحدة متاحة: {name} ({funding})',
+  'match.scholarshipsOpen.two': 'منحتان متاحتان، منها {name} ({funding})',
+  'match.scholarshipsOpen.few': '{count} منح متاحة، منها {name} ({funding})',
+  'match.scholarshipsOpen.many': '{count} منحة متاحة، منها {name} ({funding})',
+  'match.scholarshipsOpen.other': '{count} منحة متاحة، منها {name} ({funding})',
+  'match.scholarshipGpa': 'تتطلب المنح معدلًا لا يقل عن {gpa}',
+  'match.noScholarships': 'لا توجد منح في هذه المرحلة',
+
+  'deadlines.eyebrow': 'تقويم المنح',
+  'deadlines.title': 'المواعيد النهائية القادمة',
+  'deadlines.month': 'شهري',
+  'deadlines.list': 'قائمة',
+  'deadlines.download': 'تنزيل ملف ‎.ics',
+  'deadlines.university': 'الجامعة',
+  'deadlines.allUniversities': 'كل الجامعات',
+  'deadlines.loading': 'جارٍ تحميل المواعيد…',
+  'deadlines.loadFailed': 'تعذّر تحميل المواعيد',
+  'deadlines.previousMonth': 'الشهر السابق',
+  'deadlines.nextMonth': 'الشهر التالي',
+  'deadlines.rollingNote.one': 'منحة واحدة موعدها مفتوح أو غير محدد؛ راجع عرض القائمة.',
+  'deadlines.rollingNote.two': 'منحتان موعدهما مفتوح أو غير محدد؛ راجع عرض القائمة.',
+  'deadlines.rollingNote.few': '{count} منح مواعيدها مفتوحة أو غير محددة؛ راجع عرض القائمة.',
+  'deadlines.rollingNote.many': '{count} منحة مواعيدها مفتوحة أو غير محددة؛ راجع عرض القائمة.',
+  'deadlines.rollingNote.other':
+    '{count} منحة مواعيدها مفتوحة أو غير محددة؛ راجع عرض القائمة.',
+  'deadlines.upcoming': 'القادمة',
+  'deadlines.rollingGroup': 'مفتوحة أو غير محددة',
+  'deadlines.past': 'السابقة',
+  'deadlines.empty': 'لا توجد منح تطابق عوامل التصفية الحالية.',
+  'deadlines.icsSummary': 'الموعد النهائي لـ{scholarship} — {university}',
+  'deadlines.icsFunding': 'التمويل: {funding}',
+  'deadlines.icsEligibility': 'الأهلية: {eligibility}',
+  'deadlines.icsCalendarName': 'مواعيد منح منارة النهائية',
+
+  'login.eyebrow': 'تسجيل الدخول',
+  'login.title': 'مرحبًا بعودتك',
+  'login.email': 'البريد الإلكتروني',
+  'login.password': 'كلمة المرور',
+  'login.submitting': 'جارٍ تسجيل الدخول…',
+  'login.submit': 'تسجيل الدخول',
+  'login.failed': 'تعذّر تسجيل الدخول',
+  'login.devAccounts':
+    'حسابات التطوير: admin@manara.dev وeditor@manara.dev وviewer@manara.dev، وكلمة مرور ' +
+    'كل منها اسم الدور.',
+
+  'report.title': 'منارة للمنح — قائمة الجامعات المختارة',
+  'report.generated': 'أُعدّ في {date}',
+  'report.allUniversities': 'كل الجامعات',
+  'report.search': 'البحث عن «{query}»',
+  'report.country': 'في {country}',
+  'report.region': 'المنطقة {region}',
+  'report.degree': 'برامج {level}',
+  'report.funding': 'منح {type}',
+  'report.tuition': 'الرسوم {min}–{max}',
+  'report.anyAmount': 'أي مبلغ',
+  'report.maxFee': 'رسوم تقديم حتى {amount}',
+  'report.delivery': 'دراسة {mode}',
+  'report.withScholarships': 'تقدم منحًا',
+  'report.eligibleCountry': 'متاحة للمتقدمين من {country}',
+  'report.restricted': 'غير متاحة للمتقدمين من: {countries}',
+
+  'common.notSpecified': 'غير محدد',
+  'diff.field': 'الحقل',
+  'diff.before': 'قبل',
+  'diff.after': 'بعد',
+  'diff.nowSaved': 'المحفوظ الآن',
+  'diff.saved': 'المحفوظ',
+  'diff.draft': 'المسودة',
+  'diff.current': 'الحالي',
+  'diff.incoming': 'الوارد',
+  'diff.now': 'الآن',
+  'diff.afterMerge': 'بعد الدمج',
+
+  'admin.eyebrow': 'لوحة الإدارة',
+  'admin.backToEditor': '→ العودة إلى المحرر',
+  'admin.newUniversity': 'جامعة جديدة',
+  'admin.bulkImport': 'استيراد جماعي',
+  'admin.mergeDuplicates': 'دمج المكررات',
+  'admin.trash': 'سلة المحذوفات',
+  'admin.users': 'المستخدمون',
+  'admin.loadRecord': 'فتح سجل',
+  'admin.addNew': '+ إضافة جامعة جديدة',
+  'admin.confirmLeave':
+    'في {name} تغييرات غير محفوظة. هل تريد المغادرة على أي حال؟ ستبقى محفوظة كمسودة في هذا ' +
+    'المتصفح ويمكنك استئنافها لاحقًا.',
+  'admin.confirmDuplicate':
+    'تبدو {name} مثل {matches} الموجودة في الدليل. هل تريد إضافتها جامعةً جديدة على أي حال؟',
+  'admin.added': 'أُضيفت الجامعة إلى الدليل.',
+  'admin.updated': 'حُدّثت بيانات الجامعة.',
+  'admin.saveFailed': 'تعذّر حفظ الجامعة.',
+  'admin.versionRestored': 'استُعيدت نسخة سابقة.',
+  'admin.quarantined':
+    'تعذّر تحميل بيانات الدليل المحفوظة في هذا المتصفح ({reason}). حُفظت نسخة احتياطية منها في ' +
+    '{date} واستُعيد الدليل من آخر نسخة سليمة.',
+  'admin.remoteTrashed':
+    'نقل {actor} جامعة {name} إلى سلة المحذوفات من علامة تبويب أخرى في {time}. لا يمكن حفظها ما ' +
+    'لم تُستعد.',
+  'admin.remoteApplied':
+    'حدّث {actor} جامعة {name} من علامة تبويب أخرى في {time}. يعرض النموذج الآن النسخة المحفوظة.',
+  'admin.remoteConflict':
+    'حدّث {actor} جامعة {name} من علامة تبويب أخرى في {time} أثناء تحريرك لها. حفظ تغييراتك ' +
+    'سيستبدل تغييراته، أما تحميل النسخة المحفوظة فيُبقي تعديلاتك مسودة.',
+  'admin.loadSaved': 'تحميل النسخة المحفوظة',
+  'admin.keepEdits': 'الإبقاء على تعديلاتي',
+  'admin.draftFound': 'لديك مسودة غير محفوظة من {name} بتاريخ {time}.',
+  'admin.draftStale':
+    'تغيّر السجل المحفوظ منذ ذلك الحين، واستئناف المسودة وحفظها سيستبدل تلك التغييرات.',
+  'admin.resumeDraft': 'استئناف المسودة',
+  'admin.discardDraft': 'تجاهل المسودة',
+  'admin.duplicateOfNew': 'تبدو هذه الجامعة موجودة في الدليل من قبل:',
+  'admin.duplicateOfExisting': 'يبدو هذا السجل مثل جامعة أخرى في الدليل:',
+  'admin.open': 'فتح',
+  'admin.mergeInto': 'دمج فيها…',
+  'admin.name': 'اسم الجامعة',
+  'admin.namePlaceholder': 'مثال: جامعة ستانفورد',
+  'admin.portal': 'رابط البوابة',
+  'admin.chooseCountry': 'اختر دولة',
+  'admin.regionPlaceholder': 'الولاية أو المقاطعة، مثال: كاليفورنيا',
+  'admin.city': 'المدينة',
+  'admin.cityPlaceholder': 'مثال: ستانفورد',
+  'admin.feeCurrency': 'عملة الرسوم',
+  'admin.applicationFee': 'رسوم التقديم ({currency})',
+  'admin.locationNote':
+    'حُوّل الموقع من «{text}» وربما قُسّم بشكل خاطئ. تحقق من الدولة والمنطقة والمدينة أعلاه، ثم ' +
+    'علّمه على أنه رُوجع.',
+  'admin.markReviewed': 'تعليم كمُراجَع',
+  'admin.overview': 'نبذة',
+  'admin.overviewPlaceholder': 'ما الذي يميّز هذه الجامعة لطلاب منارة؟',
+  'admin.overviewArabic': 'النبذة (بالعربية)',
+  'admin.overviewArabicPlaceholder': 'تظهر بدل النبذة عندما يكون الموقع بالعربية',
+  'admin.campusesHint':
+    'الفروع الأخرى غير الموقع الرئيسي أعلاه، إن وُجدت. تظهر في صفحة التفاصيل ويمكن العثور عليها ' +
+    'في بحث الدليل.',
+  'admin.campusNamePlaceholder': 'مثال: فرع قطر',
+  'admin.campusCityPlaceholder': 'مثال: الدوحة',
+  'admin.removeCampus': 'إزالة الفرع',
+  'admin.addCampus': '+ فرع',
+  'admin.restrictedHint':
+    'أدرج الدول التي لا يحق لمواطنيها التقديم. ستظهر كوسوم تحذيرية في الدليل وصفحة التفاصيل.',
+  'admin.restrictedPlaceholder': 'اكتب اسم دولة، مثال: إيران',
+  'admin.unmatchedCountry':
+    'حُفظت «{entry}» قبل أن تُختار الدول من قائمة، ولا تطابق أي دولة. أضف الدولة المقصودة ' +
+    'أعلاه، ثم علّمها على أنها عُولجت.',
+  'admin.markResolved': 'تعليم كمُعالَج',
+  'admin.noRestrictions': 'لا توجد قيود مسجلة.',
+  'admin.tuitionByDegree': 'متوسط الرسوم الدراسية حسب الدرجة',
+  'admin.tuitionIn': '{level} ({currency})',
+  'admin.chargedIn': 'تُدفع بعملة',
+  'admin.sameAsFees': 'عملة الرسوم ({currency})',
+  'admin.programsAndScholarships': 'البرامج والمنح',
+  'admin.programsHint': 'تابِع كل فرص البكالوريوس والماجستير والدكتوراه المتاحة لطلاب منارة.',
+  'admin.addProgram': '+ برنامج',
+  'admin.addScholarship': '+ منحة',
+  'admin.noPrograms': 'لا برامج بعد.',
+  'admin.noScholarships': 'لا منح بعد.',
+  'admin.nameArabic': 'الاسم (بالعربية)',
+  'admin.viewProgram': 'عرض صفحة البرنامج',
+  'admin.removeProgram': 'إزالة البرنامج',
+  'admin.fundingNote': 'ملاحظة التمويل',
+  'admin.fundingNotePlaceholder': 'مثال: إضافة إلى بدل سفر',
+  'admin.eligibility': 'الأهلية',
+  'admin.deadline': 'الموعد النهائي',
+  'admin.deadlinePlaceholder': 'YYYY-MM-DD أو Rolling',
+  'admin.fundingReview': 'حُوّل التمويل من «{text}» ويحتاج إلى مراجعة.',
+  'admin.deadlineReview':
+    'أُدخل الموعد النهائي على أنه «{text}» وهو ليس تاريخاً. أدخل التاريخ أعلاه، ثم علّمه على أنه ' +
+    'رُوجع.',
+  'admin.blank': 'فارغ',
+  'admin.removeScholarship': 'إزالة المنحة',
+  'admin.unsaved': 'تغييرات غير محفوظة، محفوظة كمسودة في هذا المتصفح',
+  'admin.discardChanges': 'تجاهل التغييرات',
+  'admin.saving': 'جارٍ الحفظ…',
+  'admin.add': 'إضافة الجامعة',
+  'admin.update': 'تحديث الجامعة',
+
+  'fundingEditor.funding': 'التمويل',
+  'fundingEditor.percent': 'النسبة من الرسوم الدراسية',
+  'fundingEditor.upTo': 'حتى (تختلف حسب المرشح)',
+  'fundingEditor.amount': 'المبلغ',
+  'fundingEditor.currency': 'العملة',
+  'fundingEditor.paidPer': 'تُدفع كل',
+  'fundingEditor.once': 'منحة لمرة واحدة',
+  'fundingEditor.cap': 'الحد الأعلى سنويًا (اختياري)',
+  'fundingEditor.capCurrency': 'عملة الحد الأعلى',
+
+  'programEditor.language': 'لغة الدراسة',
+  'programEditor.languagePlaceholder': 'مثال: الإنجليزية',
+  'programEditor.tuition': 'الرسوم الدراسية السنوية ({currency})',
+  'programEditor.tuitionPlaceholder': 'متوسط المرحلة',
+  'programEditor.minimumGpa': 'الحد الأدنى للمعدل (من {max})',
+  'programEditor.intakes': 'أشهر القبول',
+  'programEditor.tests': 'الاختبارات المطلوبة',
+  'programEditor.test': 'الاختبار',
+  'programEditor.minimumScore': 'الحد الأدنى لدرجة {test}',
+  'programEditor.remove': 'إزالة',
+  'programEditor.addTest': '+ اختبار',
+  'programEditor.documents': 'المستندات المطلوبة (واحد في كل سطر)',
+  'programEditor.documentsPlaceholder': 'خطاب الغرض من الدراسة\nخطابا توصية',
+
+  'history.action.create': 'إنشاء',
+  'history.action.update': 'تحديث',
+  'history.action.delete': 'حذف',
+  'history.action.restore': 'استعادة',
+  'history.action.purge': 'حذف نهائي',
+  'history.title': 'سجل التغييرات',
+  'history.loading': 'جارٍ تحميل السجل…',
+  'history.loadFailed': 'تعذّر تحميل السجل',
+  'history.empty': 'لم تُسجَّل أي تغييرات لهذه الجامعة بعد.',
+  'history.confirmSnapshot': 'هل تريد استعادة {name} إلى النسخة المحفوظة في {time}؟',
+  'history.confirmPrevious': 'هل تريد استعادة {name} إلى ما كانت عليه قبل التغيير في {time}؟',
+  'history.restoreFailed': 'تعذّرت استعادة هذه النسخة',
+  'history.restoreThis': 'استعادة هذه النسخة',
+  'history.restoreBefore': 'استعادة النسخة السابقة',
+
+  'trash.loadFailed': 'تعذّر تحميل سلة المحذوفات.',
+  'trash.restored': 'عادت {name} إلى الدليل.',
+  'trash.confirmPurge': 'هل تريد حذف {name} نهائيًا؟ لا يمكن التراجع عن ذلك.',
+  'trash.purged': 'حُذفت {name} نهائيًا.',
+  'trash.loading': 'جارٍ تحميل الجامعات المحذوفة…',
+  'trash.empty': 'سلة المحذوفات فارغة.',
+  'trash.university': 'الجامعة',
+  'trash.deleted': 'تاريخ الحذف',
+  'trash.restore': 'استعادة',
+  'trash.purge': 'حذف نهائي',
+
+  'import.status.added': 'جديدة',
+  'import.status.changed': 'معدّلة',
+  'import.status.restored': 'مستعادة من سلة المحذوفات',
+  'import.status.unchanged': 'دون تغيير',
+  'import.matchedById': 'طوبقت بالمعرّف',
+  'import.matchedByName': 'طوبقت بالاسم',
+  'import.possibleDuplicateOf': 'قد تكون مكررة من {matches}',
+  'import.readFailed': 'تعذّرت قراءة ملف الاستيراد.',
+  'import.applied.zero': 'طُبّق الاستيراد: لم تُكتب أي جامعة.',
+  'import.applied.one': 'طُبّق الاستيراد: كُتبت جامعة واحدة.',
+  'import.applied.two': 'طُبّق الاستيراد: كُتبت جامعتان.',
+  'import.applied.few': 'طُبّق الاستيراد: كُتبت {count} جامعات.',
+  'import.applied.many': 'طُبّق الاستيراد: كُتبت {count} جامعة.',
+  'import.applied.other': 'طُبّق الاستيراد: كُتبت {count} جامعة.',
+  'import.failed': 'فشل الاستيراد. لم تُحفظ أي تغييرات.',
+  'import.help':
+    'ارفع ملف JSON بصيغة تصدير الدليل، أو ملف CSV فيه صف لكل برنامج أو منحة (الأعمدة: ' +
+    'university_id وuniversity_name وportal_url وcountry وregion وcity وcampuses وoverview ' +
+    'وoverview_ar وfee_currency وapplication_fee وtuition_bachelor وtuition_masters ' +
+    'وtuition_phd وrestricted_countries وdegree_level وtype وprogram_id وscholarship_id ' +
+    'وname وname_ar ' +
+    'وduration وdelivery وlanguage وintake_months وprogram_tuition وrequired_tests وminimum_gpa ' +
+    'وrequired_documents وamount وeligibility وdeadline). تحمل أعمدة _ar الترجمات العربية ' +
+    'الاختيارية. مبالغ الرسوم بعملة fee_currency، وهي رمز ISO مثل GBP؛ والرسوم المدفوعة ' +
+    'بعملة أخرى تُكتب عملتها قبل المبلغ، مثل "USD 75". أشهر القبول أرقام من 1 ' +
+    'إلى 12، والاختبارات المطلوبة تُكتب هكذا: "IELTS 6.5; GRE 310". البرنامج أو المنحة ' +
+    'بلا معرّف يحتفظ بمعرّف ما يحل محله بالاسم، فتبقى الروابط وأحداث التقويم صالحة. تُطابق ' +
+    'الصفوف مع الجامعات الموجودة بالمعرّف ثم بالاسم. يمكن كتابة الدول برموز ISO مثل IR أو ' +
+    'بأسمائها؛ وفي CSV افصل بين الدول المقيدة وبين الفروع بفواصل منقوطة، واكتب الفرع هكذا: ' +
+    '"Name (City)". ما زال عمود location القديم يُقرأ ويُقسم إلى دولة ومنطقة ومدينة. تُعلَّم ' +
+    'الجامعات الجديدة التي يشبه اسمها أو موقعها جامعة موجودة على أنها قد تكون مكررة. لا تُستبدل ' +
+    'البرامج والمنح إلا لمراحل الدراسة الموجودة في الملف.',
+  'import.file': 'ملف الاستيراد',
+  'import.possibleDuplicates': 'مكررات محتملة',
+  'import.issues': 'مشكلات',
+  'import.hasProblems': 'في {file} مشكلات يجب إصلاحها قبل الاستيراد:',
+  'import.unchangedList': 'دون تغيير: {names}',
+  'import.acceptDuplicates.zero': 'تحققت من المكررات المحتملة؛ استوردها جامعات جديدة',
+  'import.acceptDuplicates.one': 'تحققت من المكررة المحتملة؛ استوردها جامعةً جديدة',
+  'import.acceptDuplicates.two': 'تحققت من المكررتين المحتملتين؛ استوردهما جامعتين جديدتين',
+  'import.acceptDuplicates.few': 'تحققت من {count} مكررات محتملة؛ استوردها جامعات جديدة',
+  'import.acceptDuplicates.many': 'تحققت من {count} مكررة محتملة؛ استوردها جامعات جديدة',
+  'import.acceptDuplicates.other': 'تحققت من {count} مكررة محتملة؛ استوردها جامعات جديدة',
+  'import.importing': 'جارٍ الاستيراد…',
+  'import.apply': 'تطبيق الاستيراد',
+
+  'merge.confirm': 'هل تريد دمج {duplicate} في {keep}؟ ستُنقل {duplicate} إلى سلة المحذوفات.',
+  'merge.merged': 'دُمجت {duplicate} في {keep} ونُقلت إلى سلة المحذوفات.',
+  'merge.failed': 'تعذّر دمج الجامعتين.',
+  'merge.hint':
+    'تُعلَّم الجامعات على أنها مكررة على الأرجح إذا تطابقت أسماؤها بعد تجاهل الإملاء وعلامات ' +
+    'الترقيم وكلمات مثل "University"، أو إذا كانت روابط بواباتها على الموقع نفسه. يُبقي الدمج ' +
+    'سجلًا واحدًا ويضيف إليه برامج السجل الآخر ومنحه ودوله المقيدة، ثم ينقل الآخر إلى سلة ' +
+    'المحذوفات.',
+  'merge.searching': 'جارٍ البحث عن المكررات…',
+  'merge.none': 'لا توجد مكررات محتملة في الدليل.',
+  'merge.universities': 'الجامعات',
+  'merge.why': 'السبب',
+  'merge.review': 'مراجعة',
+  'merge.keep': 'الإبقاء على',
+  'merge.mergeInto': 'دمجها فيها ونقلها إلى سلة المحذوفات',
+  'merge.choose': 'اختر جامعة',
+  'merge.swap': 'تبديل السجل الذي يُبقى عليه',
+  'merge.conflicts': 'التعارضات',
+  'merge.conflictsHint':
+    'يحمل السجلان قيمًا مختلفة لهذه الحقول. تُستخدم قيمة السجل المُبقى عليه ما لم تختر الأخرى.',
+  'merge.changesTo': 'التغييرات على {name}',
+  'merge.nothingNew': 'لا تضيف {name} شيئًا جديدًا؛ الدمج ينقلها إلى سلة المحذوفات فقط.',
+  'merge.merging': 'جارٍ الدمج…',
+  'merge.submit': 'الدمج في {name}',
+  'merge.label.name': 'الاسم',
+  'merge.label.portalUrl': 'رابط البوابة',
+  'merge.label.overview': 'النبذة',
+  'merge.label.overviewIn': 'النبذة ({language})',
+  'merge.label.location': 'الموقع',
+  'merge.label.fees': 'الرسوم',
+  'merge.label.program': 'برنامج {level} «{name}»',
+  'merge.label.scholarship': 'منحة {level} «{name}»',
+  'duplicates.sameName': 'الاسم نفسه بعد تجاهل الإملاء وعلامات الترقيم',
+  'duplicates.similarName': 'اسم مشابه (تشابه {percent}٪)',
+  'duplicates.sameWebsite': 'الموقع الإلكتروني نفسه ({domain})',
+
+  'users.title': 'المستخدمون والأدوار',
+  'users.loadFailed': 'تعذّر تحميل المستخدمين.',
+  'users.updateFailed': 'تعذّر تحديث المستخدمين.',
+  'users.roleChanged': 'أصبح دور {name}: {role}.',
+  'users.confirmRemove': 'هل تريد إزالة {name}؟ لن يتمكن بعد ذلك من تسجيل الدخول.',
+  'users.removed': 'أُزيل {name}.',
+  'users.added': 'أُضيف {name}.',
+  'users.rolesHint':
+    'يستطيع المشاهدون تصفح الدليل. ويستطيع المحررون كذلك إنشاء الجامعات وتحديثها ومتابعة طلبات ' +
+    'الطلاب. ويستطيع المديرون إضافة إلى ذلك حذف الجامعات وإدارة المستخدمين.',
+  'users.loading': 'جارٍ تحميل المستخدمين…',
+  'users.user': 'المستخدم',
+  'users.role': 'الدور',
+  'users.you': 'أنت',
+  'users.roleFor': 'دور {name}',
+  'users.remove': 'إزالة',
+  'users.addTitle': 'إضافة مستخدم',
+  'users.name': 'الاسم',
+  'users.email': 'البريد الإلكتروني',
+  'users.password': 'كلمة المرور الأولية',
+  'users.add': 'إضافة المستخدم',
+
+  'applications.eyebrow': 'القبول',
+  'applications.title': 'مسار الطلبات',
+  'applications.loadFailed': 'تعذّر تحميل الطلبات.',
+  'applications.updateFailed': 'تعذّر تحديث الطلبات.',
+  'applications.unknownUniversity': 'جامعة غير معروفة',
+  'applications.describe': '{student} في {university}',
+  'applications.confirmRemove': 'هل تريد إزالة طلب {application}؟',
+  'applications.removed': 'أُزيل الطلب.',
+  'applications.studentAdded': 'أُضيف {name}.',
+  'applications.added': 'أُضيف الطلب.',
+  'applications.universityGone': 'الجامعة لم تعد مدرجة',
+  'applications.noProgram': 'لم يُختر برنامج',
+  'applications.since': 'منذ {date}',
+  'applications.deadline': 'الموعد النهائي',
+  'applications.stageFor': 'مرحلة {application}',
+  'applications.remove': 'إزالة',
+  'applications.student': 'الطالب',
+  'applications.allStudents': 'كل الطلاب',
+  'applications.hint':
+    'اسحب البطاقة إلى عمود آخر، أو اختر مرحلتها من القائمة، لتسجيل حالة الطلب. تُؤرَّخ كل نقلة.',
+  'applications.loading': 'جارٍ تحميل الطلبات…',
+  'applications.addStudentTitle': 'إضافة طالب',
+  'applications.name': 'الاسم',
+  'applications.email': 'البريد الإلكتروني',
+  'applications.nationality': 'الجنسية',
+  'applications.addStudent': 'إضافة الطالب',
+  'applications.addApplicationTitle': 'إضافة طلب',
+  'applications.chooseStudent': 'اختر طالبًا',
+  'applications.university': 'الجامعة',
+  'applications.chooseUniversity': 'اختر جامعة',
+  'applications.program': 'البرنامج',
+  'applications.undecided': 'لم يُحدد بعد',
+  'applications.stage': 'المرحلة',
+  'applications.notes': 'ملاحظات',
+  'applications.addApplication': 'إضافة الطلب',
+
+  'field.id': 'المعرّف',
+  'field.name': 'الاسم',
+  'field.portalUrl': 'رابط البوابة',
+  'field.overview': 'النبذة',
+  'field.locationNote': 'ملاحظة الموقع',
+  'field.region': 'المنطقة',
+  'field.city': 'المدينة',
+  'field.campuses': 'الفروع',
+  'field.campusName': 'اسم الفرع',
+  'field.campusCity': 'مدينة الفرع',
+  'field.programs': 'البرامج',
+  'field.programId': 'معرّف البرنامج',
+  'field.programName': 'اسم البرنامج',
+  'field.duration': 'المدة',
+  'field.delivery': 'نمط الدراسة',
+  'field.language': 'اللغة',
+  'field.requiredTests': 'الاختبارات المطلوبة',
+  'field.scholarships': 'المنح',
+  'field.scholarshipName': 'اسم المنحة',
+  'field.fundingNote': 'ملاحظة التمويل',
+  'field.deadlineNote': 'ملاحظة الموعد النهائي',
+  'field.eligibility': 'الأهلية',
+  'field.amount': 'المبلغ',
+  'field.cap': 'الحد الأعلى',
+
+  'validation.fieldsNeedAttention.zero': 'لا حقول تحتاج إلى مراجعة',
+  'validation.fieldsNeedAttention.one': 'حقل واحد يحتاج إلى مراجعة',
+  'validation.fieldsNeedAttention.two': 'حقلان يحتاجان إلى مراجعة',
+  'validation.fieldsNeedAttention.few': '{count} حقول تحتاج إلى مراجعة',
+  'validation.fieldsNeedAttention.many': '{count} حقلًا يحتاج إلى مراجعة',
+  'validation.fieldsNeedAttention.other': '{count} حقل يحتاج إلى مراجعة',
+  'validation.required': 'حقل «{label}» مطلوب',
+  'validation.listRequired': 'حقل «{label}» مطلوب',
+  'validation.text': 'يجب أن يكون «{label}» نصًا',
+  'validation.list': 'يجب أن يكون «{label}» قائمة',
+  'validation.nonNegative': 'يجب أن يكون «{label}» رقمًا غير سالب',
+  'validation.translationsKeyed': 'يجب أن تكون ترجمات «{label}» مفهرسة باللغة',
+  'validation.translationText': 'يجب أن تكون ترجمة «{label}» نصًا',
+  'validation.unknownLanguage': 'لغة غير معروفة "{locale}"',
+  'validation.universityObject': 'يجب أن تكون الجامعة كائنًا',
+  'validation.programObject': 'يجب أن يكون البرنامج كائنًا',
+  'validation.scholarshipObject': 'يجب أن تكون المنحة كائنًا',
+  'validation.campusObject': 'يجب أن يكون الفرع كائنًا',
+  'validation.feesRequired': 'الرسوم مطلوبة',
+  'validation.feeCurrency': 'يجب أن تكون عملة الرسوم إحدى: {currencies}',
+  'validation.applicationFee': 'يجب أن تكون رسوم التقديم رقمًا غير سالب',
+  'validation.averageTuition': 'متوسط الرسوم الدراسية مطلوب',
+  'validation.unknownLevel': 'درجة علمية غير معروفة "{level}"',
+  'validation.feeCurrencies': 'يجب أن تكون عملات الرسوم كائناً مفاتيحه أسماء الرسوم',
+  'validation.unknownFee': 'رسوم غير معروفة "{fee}"',
+  'validation.tuition': 'يجب أن تكون الرسوم الدراسية رقمًا غير سالب',
+  'validation.locationRequired': 'الموقع مطلوب',
+  'validation.countryRequired': 'الدولة مطلوبة',
+  'validation.unknownCountry': 'رمز دولة غير معروف: {codes}',
+  'validation.intakeMonths': 'يجب أن تكون أشهر القبول قائمة بأرقام الأشهر من 1 إلى 12',
+  'validation.minimumGpa': 'يجب أن يكون الحد الأدنى للمعدل بين 0 و{max}',
+  'validation.testChoice': 'يجب أن يكون الاختبار أحد: {tests}',
+  'validation.testTwice': '{test} مدرج مرتين',
+  'validation.testScore': 'يجب أن تكون درجة {test} بين {min} و{max}',
+  'validation.documents': 'يجب أن تكون المستندات المطلوبة قائمة بأسماء',
+  'validation.programIdTwice': 'معرّف البرنامج "{id}" مستخدم أكثر من مرة',
+  'validation.currencyCode': 'يجب أن تكون العملة رمز ISO من 3 أحرف، مثل USD',
+  'validation.fundingType': 'اختر نوع التمويل',
+  'validation.percentage': 'يجب أن تكون النسبة بين 0 و100',
+  'validation.fundingPeriod': 'اختر كم مرة تُدفع المنحة',
+  'validation.capShape': 'يجب أن يكون الحد الأعلى مبلغًا وعملة',
+  'validation.deadlineText': 'يجب أن يكون الموعد النهائي نصًا',
+  'validation.deadline':
+    'يجب أن يكون الموعد النهائي تاريخًا حقيقيًا (YYYY-MM-DD) أو "Rolling" أو فارغًا',
+  'validation.deletedAt': 'يجب أن يكون تاريخ الحذف طابعًا زمنيًا',
+  'validation.portalUrl': 'يجب أن يكون رابط البوابة عنوان http(s) كاملًا، مثل https://example.edu',
+  'validation.restrictedList': 'يجب أن تكون الدول المقيدة قائمة برموز دول',
+  'validation.unmatchedList': 'يجب أن تكون الدول المقيدة غير المطابقة قائمة بأسماء',
+
+  'errors.universityNotFound': 'الجامعة غير موجودة',
+  'errors.universityInTrash': 'الجامعة في سلة المحذوفات. استعدها قبل التعديل.',
+  'errors.mergeSameUniversity': 'اختر جامعتين مختلفتين للدمج',
+  'errors.purgeNotTrashed': 'لا يمكن الحذف النهائي إلا للجامعات الموجودة في سلة المحذوفات',
+  'errors.duplicateUniversity': 'يبدو أن هذه الجامعة موجودة بالفعل في الدليل: {names}',
+  'errors.historyEntryNotFound': 'سجل التغيير غير موجود',
+  'errors.noSavedVersion': 'لا توجد نسخة محفوظة لاستعادتها من هذا السجل',
+  'errors.studentNameRequired': 'اسم الطالب مطلوب',
+  'errors.studentEmail': 'أدخل بريداً إلكترونياً صالحاً أو اتركه فارغاً',
+  'errors.studentExists': 'يوجد طالب بهذا البريد الإلكتروني بالفعل',
+  'errors.studentNotFound': 'الطالب غير موجود',
+  'errors.noSuchProgram': 'لا يوجد في {university} هذا البرنامج لهذه الدرجة',
+  'errors.applicationDeadline': 'يجب أن يكون الموعد النهائي تاريخاً صحيحاً (YYYY-MM-DD) أو فارغاً',
+  'errors.duplicateApplication': 'لدى هذا الطالب طلب مفتوح لهذا البرنامج بالفعل',
+  'errors.applicationNotFound': 'الطلب غير موجود',
+  'errors.noPermission': 'ليست لديك صلاحية للقيام بذلك',
+  'errors.signInToChange': 'سجّل الدخول لإجراء تغييرات',
+  'errors.credentialsRequired': 'أدخل بريدك الإلكتروني وكلمة المرور',
+  'errors.wrongCredentials': 'البريد الإلكتروني أو كلمة المرور غير صحيحة',
+  'errors.keepOneAdmin': 'يجب أن يبقى مسؤول واحد على الأقل',
+  'errors.userNameEmailRequired': 'الاسم والبريد الإلكتروني مطلوبان',
+  'errors.removeSelf': 'لا يمكنك حذف حسابك',
+  'errors.emailTaken': 'يستخدم مستخدم آخر هذا البريد الإلكتروني',
+  'errors.passwordRequired': 'يحتاج المستخدمون الجدد إلى كلمة مرور',
+  'errors.viewName': 'أعطِ العرض اسماً',
+  'errors.noExchangeRate': 'لا يوجد سعر صرف مدرج لـ{currency}',
+  'errors.importHasIssues': 'عالج مشكلات الاستيراد قبل التطبيق',
+  'errors.requestFailed': 'فشل الطلب برمز الحالة {status}',
+  'errors.apiBaseUrl': 'يلزم VITE_API_BASE_URL لواجهة التخزين http',
+  'errors.authBaseUrl': 'يلزم VITE_AUTH_BASE_URL أو VITE_API_BASE_URL للمصادقة عبر http',
+  'errors.localAuthDevOnly':
+    'مزوّد الهوية المحلي متاح في بيئة التطوير فقط؛ استخدم VITE_AUTH_PROVIDER=http',
+  'errors.authProviderRequired': 'يجب ضبط VITE_AUTH_PROVIDER على http لهذا الإصدار',
+
+  'import.source.file': 'الملف',
+  'import.source.row': 'الصف {row}',
+  'import.source.rows': 'الصفوف {first}–{last}',
+  'import.source.item': 'العنصر {index}',
+  'import.source.itemNamed': 'العنصر {index} ({name})',
+  'import.issue.invalidJson': 'الملف ليس JSON صالحاً',
+  'import.issue.notAList': 'يُتوقع أن يحتوي الملف على قائمة جامعات',
+  'import.issue.notAnObject': 'يجب أن يكون كل عنصر كائن جامعة',
+  'import.issue.sameUniversity': 'يشير إلى الجامعة نفسها التي يشير إليها {source}',
+  'import.issue.unknownCountries': 'restrictedCountries: دولة غير معروفة: {countries}',
+  'import.issue.field': '{field}: {message}',
+
+  'csv.missingColumn': 'عمود مفقود: {columns}',
+  'csv.needsName': 'يحتاج الصف إلى university_id أو university_name',
+  'csv.notANumber': 'يجب أن يكون {column} رقماً',
+  'csv.degreeLevel': 'يجب أن يكون degree_level أحد: {levels}',
+  'csv.intakeMonths': 'يجب أن تكون intake_months أرقام أشهر من 1 إلى 12',
+  'csv.requiredTests': 'يجب أن تكون required_tests مدخلات مثل "IELTS 6.5": {entries}',
+  'csv.type': 'يجب أن يكون type إما "program" أو "scholarship"'
+};
+
+export default ar;
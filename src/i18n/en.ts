@@ -0,0 +1,753 @@
+/**
+ * English source strings, grouped by the screen or service that uses them. Keys ending in a
+ * plural category (`.one`, `.other`) are read with `tp`; other languages may add the extra
+ * categories they need, such as Arabic's `.two` and `.few`.
+ */
+const en = {
+  'app.eyebrow': 'Manara Scholars',
+  'app.title': 'University Knowledge Base',
+  'nav.directory': 'Directory',
+  'nav.match': 'Match a student',
+  'nav.deadlines': 'Deadlines',
+  'nav.applications': 'Applications',
+  'nav.admin': 'Admin',
+  'nav.signIn': 'Sign in',
+  'nav.signOut': 'Sign out',
+  'nav.language': 'Language',
+  'nav.displayCurrency': 'Display currency',
+  'nav.ratesAsOf': 'Exchange rates as of {date}',
+
+  'degree.bachelor': 'Bachelor',
+  'degree.masters': 'Masters',
+  'degree.phd': 'PhD',
+  'delivery.on-campus': 'On-campus',
+  'delivery.hybrid': 'Hybrid',
+  'delivery.online': 'Online',
+  'role.viewer': 'Viewer',
+  'role.editor': 'Editor',
+  'role.admin': 'Admin',
+
+  'count.programs.one': '{count} program',
+  'count.programs.other': '{count} programs',
+  'count.scholarships.one': '{count} scholarship',
+  'count.scholarships.other': '{count} scholarships',
+  'count.universities.one': '{count} university',
+  'count.universities.other': '{count} universities',
+
+  'common.location': 'Location',
+  'location.separator': ', ',
+  'common.country': 'Country',
+  'common.region': 'Region',
+  'common.degreeLevel': 'Degree level',
+  'common.allDegrees': 'All degrees',
+  'common.allCountries': 'All countries',
+  'common.allRegions': 'All regions',
+  'common.applicationFee': 'Application fee',
+  'common.averageTuition': 'Average tuition',
+  'common.tuitionAt': '{level} tuition',
+  'common.programs': 'Programs',
+  'common.scholarships': 'Scholarships',
+  'common.restrictedCountries': 'Restricted countries',
+  'common.name': 'Name',
+  'common.duration': 'Duration',
+  'common.delivery': 'Delivery',
+  'common.deadline': 'Deadline: {date}',
+  'common.rolling': 'Rolling',
+  'common.deadlineToConfirm': '“{text}” (date to be confirmed)',
+  'common.notAvailable': 'N/A',
+  'common.none': 'None',
+  'common.noneListed': 'None listed',
+  'common.compare': 'Compare',
+  'common.undo': 'Undo',
+  'common.dismiss': 'Dismiss',
+  'common.remove': 'Remove {name}',
+
+  'funding.type.full-tuition': 'Full tuition',
+  'funding.type.percentage': 'Percentage of tuition',
+  'funding.type.fixed': 'Fixed amount',
+  'funding.type.stipend': 'Stipend',
+  'funding.period.month': 'month',
+  'funding.period.semester': 'semester',
+  'funding.period.year': 'year',
+  'funding.fullTuition': 'Full tuition',
+  'funding.percentage': '{percent}% of tuition',
+  'funding.percentageUpTo': 'Up to {percent}% of tuition',
+  'funding.stipend': '{amount} per {period} stipend',
+  'funding.fixedPeriod': '{amount} per {period}',
+  'funding.cap': '{funding} (max {cap})',
+
+  'money.converted': 'Charged as {amount}; converted at rates as of {date}',
+
+  'access.checking': 'Checking your session…',
+  'access.deniedEyebrow': 'Access denied',
+  'access.deniedTitle': 'This area is not available for your role',
+  'access.deniedHint': 'Ask an admin for access if you need it.',
+  'access.backToDirectory': 'Back to the directory',
+
+  'savedViews.title': 'Saved views',
+  'savedViews.empty': 'Save a filtered directory to come back to it or share it later.',
+  'savedViews.delete': 'Delete {name}',
+  'savedViews.placeholder': 'e.g. UK masters under $30k',
+  'savedViews.save': 'Save current view',
+  'savedViews.saveFailed': 'Unable to save view',
+
+  'search.field.name': 'Name',
+  'search.field.location': 'Location',
+  'search.field.overview': 'Overview',
+  'search.field.program': 'Program',
+  'search.field.scholarship': 'Scholarship',
+  'search.field.eligibility': 'Eligibility',
+  'search.fieldAtLevel': '{field} ({level})',
+
+  'sort.relevance': 'Best match',
+  'sort.name': 'Name',
+  'sort.applicationFee': 'Application fee',
+  'sort.scholarships': 'Number of scholarships',
+  'sort.deadline': 'Nearest deadline',
+
+  'tuitionBand.under': 'Under {amount}',
+  'tuitionBand.from': '{amount} and above',
+  'tuitionBand.between': '{min}–{max}',
+
+  'directory.eyebrow': 'Directory filters',
+  'directory.title': 'Explore partner universities',
+  'directory.intro':
+    'Search across names, programs, scholarships and eligibility, then narrow by cost, ' +
+    'delivery or nationality to surface the right opportunities for candidates.',
+  'directory.search': 'Search',
+  'directory.searchPlaceholder': 'e.g. Data Science, GPA 3.7, Toronto',
+  'directory.funding': 'Scholarship funding',
+  'directory.anyFunding': 'Any funding',
+  'directory.fullyFunded': 'Fully funded',
+  'directory.averageTuitionAt': 'Average tuition ({level})',
+  'directory.anyTuition': 'Any tuition',
+  'directory.anyFee': 'Any fee',
+  'directory.noFee': 'No fee',
+  'directory.feeUpTo': 'Up to {amount}',
+  'directory.delivery': 'Program delivery',
+  'directory.anyDelivery': 'Any delivery',
+  'directory.eligibleFrom': 'Eligible for applicants from',
+  'directory.anyCountry': 'Any country',
+  'directory.eligibleCount': '{count} eligible',
+  'directory.hasScholarships': 'Has scholarships',
+  'directory.hasScholarshipsAtLevel': 'Has scholarships at this level',
+  'directory.withCount': '{label} ({count})',
+  'directory.universities': 'Universities',
+  'directory.noResults': 'No results',
+  'directory.showing': 'Showing {from}–{to} of {total}',
+  'directory.sortBy': 'Sort by',
+  'directory.toggleDirection': 'Toggle sort direction',
+  'directory.ascending': '↑ Ascending',
+  'directory.descending': '↓ Descending',
+  'directory.refreshing': 'Refreshing data…',
+  'directory.export': 'Export',
+  'directory.exportReport': 'Print report',
+  'directory.empty': 'No universities match the current filters.',
+  'directory.view': 'View',
+  'directory.delete': 'Delete',
+  'directory.exploreProfile': 'Explore profile →',
+  'directory.restricted': 'Restricted: {countries}',
+  'directory.previousPage': '← Previous',
+  'directory.nextPage': 'Next →',
+  'directory.pageOf': 'Page {page} of {count}',
+  'directory.perPage': 'Per page',
+  'directory.compareTray': 'Comparison selection',
+  'directory.compareCount': 'Compare {count}/{max}:',
+  'directory.clear': 'Clear',
+  'directory.movedToTrash': '{name} moved to the trash.',
+  'directory.loadFailed': 'Unable to load universities',
+  'directory.deleteFailed': 'Unable to delete university',
+  'directory.restoreFailed': 'Unable to restore university',
+  'directory.exportFailed': 'Unable to export universities',
+
+  'detail.loading': 'Loading university details…',
+  'detail.loadFailed': 'Unable to load university',
+  'detail.notFound': 'University not found.',
+  'detail.goBack': 'Go back',
+  'detail.back': '← Back to directory',
+  'detail.edit': 'Edit in Admin',
+  'detail.addToCalendar': 'Add deadlines to calendar',
+  'detail.visitPortal': 'Visit portal',
+  'detail.campuses': 'Campuses',
+  'detail.restrictedHint': 'Applicants from these countries are currently not eligible.',
+  'detail.opportunities': '{level} opportunities',
+  'detail.noPrograms': 'No programs have been added yet.',
+  'detail.noScholarships': 'Scholarship data is not available.',
+  'detail.applications': 'Open applications',
+  'detail.noApplications': 'No open applications for this university.',
+  'detail.trackApplication': 'Track an application',
+  'detail.openBoard': 'Open the pipeline board',
+  'detail.student': 'Student',
+  'detail.program': 'Program',
+  'detail.stage': 'Stage',
+  'detail.deadline': 'Deadline',
+  'detail.applicationSince': 'since {date}',
+  'detail.unknownStudent': 'Unknown student',
+
+  'application.status.shortlisted': 'Shortlisted',
+  'application.status.preparing': 'Preparing',
+  'application.status.submitted': 'Submitted',
+  'application.status.interview': 'Interview',
+  'application.status.admitted': 'Admitted',
+  'application.status.rejected': 'Rejected',
+  'application.status.enrolled': 'Enrolled',
+
+  'program.loading': 'Loading program details…',
+  'program.notFound': 'Program not found.',
+  'program.back': '← Back to {university}',
+  'program.language': 'Language of instruction',
+  'program.intakes': 'Intakes',
+  'program.tuition': 'Tuition per year',
+  'program.tuitionAverage': 'University average for {level} studies',
+  'program.admission': 'Admission requirements',
+  'program.minimumGpa': 'Minimum GPA',
+  'program.gpaValue': '{gpa} out of 4.0',
+  'program.requiredTests': 'Required tests',
+  'program.test': 'Test',
+  'program.minimumScore': 'Minimum score',
+  'program.requiredDocuments': 'Required documents',
+  'program.noRequirements': 'No admission requirements have been added yet.',
+  'program.notListed': 'Not listed',
+  'program.scholarships': '{level} scholarships at {university}',
+
+  'compare.loading': 'Loading comparison…',
+  'compare.loadFailed': 'Unable to load comparison',
+  'compare.eyebrow': 'Compare',
+  'compare.pick': 'Pick universities to compare',
+  'compare.comparing.one': 'Comparing {count} university',
+  'compare.comparing.other': 'Comparing {count} universities',
+  'compare.onlyDifferences': 'Only show differences',
+  'compare.missing.one':
+    'One university in this link could not be found and was left out.',
+  'compare.missing.other':
+    '{count} universities in this link could not be found and were left out.',
+  'compare.hint': 'Select two to four universities in the directory and choose Compare.',
+  'compare.openDirectory': 'Open the directory',
+  'compare.remove': 'Remove {name} from comparison',
+  'compare.overview': 'Overview',
+  'compare.studies': '{level} studies',
+
+  'matcher.eyebrow': 'Eligibility matcher',
+  'matcher.title': 'Find universities for a student',
+  'matcher.intro':
+    "Enter the student's profile to rank universities by program fit, budget and " +
+    'scholarship eligibility. Each result explains what fits and what does not.',
+  'matcher.nationality': 'Nationality',
+  'matcher.nationalityAny': 'Not specified',
+  'matcher.targetDegree': 'Target degree',
+  'matcher.field': 'Field of interest',
+  'matcher.fieldPlaceholder': 'e.g. Data Science',
+  'matcher.gpa': 'GPA (4.0 scale)',
+  'matcher.budget': 'Annual tuition budget ({currency})',
+  'matcher.matching': 'Matching…',
+  'matcher.submit': 'Find matches',
+  'matcher.failed': 'Unable to match universities',
+  'matcher.results': 'Results',
+  'matcher.summary.one': '{eligible} of {count} university is a possible fit',
+  'matcher.summary.other': '{eligible} of {count} universities are a possible fit',
+  'matcher.score': '{score}/100',
+  'matcher.notEligible': 'Not eligible',
+  'matcher.minimumGpa': 'GPA {gpa}+',
+
+  'match.restricted': 'Does not accept applicants from {country}',
+  'match.noPrograms': 'No programs listed at this degree level',
+  'match.offers': 'Offers {programs}',
+  'match.noProgramMatch': 'No program matching "{field}"',
+  'match.tuitionMissing': 'Tuition is not listed for this level',
+  'match.withinBudget': 'Tuition {tuition} is within the {budget} budget',
+  'match.overBudget': 'Tuition {tuition} is {over} over budget',
+  'match.scholarshipsOpen.one': '{count} scholarship open, e.g. {name} ({funding})',
+  'match.scholarshipsOpen.other': '{count} scholarships open, e.g. {name} ({funding})',
+  'match.scholarshipGpa': 'Scholarships need a GPA of at least {gpa}',
+  'match.noScholarships': 'No scholarships listed at this level',
+
+  'deadlines.eyebrow': 'Scholarship calendar',
+  'deadlines.title': 'Upcoming deadlines',
+  'deadlines.month': 'Month',
+  'deadlines.list': 'List',
+  'deadlines.download': 'Download .ics',
+  'deadlines.university': 'University',
+  'deadlines.allUniversities': 'All universities',
+  'deadlines.loading': 'Loading deadlines…',
+  'deadlines.loadFailed': 'Unable to load deadlines',
+  'deadlines.previousMonth': 'Previous month',
+  'deadlines.nextMonth': 'Next month',
+  'deadlines.rollingNote.one':
+    '{count} scholarship has a rolling or undated deadline; see the list view.',
+  'deadlines.rollingNote.other':
+    '{count} scholarships have rolling or undated deadlines; see the list view.',
+  'deadlines.upcoming': 'Upcoming',
+  'deadlines.rollingGroup': 'Rolling or undated',
+  'deadlines.past': 'Past',
+  'deadlines.empty': 'No scholarships match the current filters.',
+  'deadlines.icsSummary': '{scholarship} deadline — {university}',
+  'deadlines.icsFunding': 'Funding: {funding}',
+  'deadlines.icsEligibility': 'Eligibility: {eligibility}',
+  'deadlines.icsCalendarName': 'Manara scholarship deadlines',
+
+  'login.eyebrow': 'Sign in',
+  'login.title': 'Welcome back',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.submitting': 'Signing in…',
+  'login.submit': 'Sign in',
+  'login.failed': 'Unable to sign in',
+  'login.devAccounts':
+    'Development accounts: admin@manara.dev, editor@manara.dev and viewer@manara.dev, each ' +
+    'with the role name as password.',
+
+  'report.title': 'Manara Scholars — University shortlist',
+  'report.generated': 'Generated {date}',
+  'report.allUniversities': 'All universities',
+  'report.search': 'search "{query}"',
+  'report.country': 'in {country}',
+  'report.region': 'region {region}',
+  'report.degree': '{level} programs',
+  'report.funding': '{type} scholarships',
+  'report.tuition': 'tuition {min}–{max}',
+  'report.anyAmount': 'any',
+  'report.maxFee': 'application fee up to {amount}',
+  'report.delivery': '{mode} delivery',
+  'report.withScholarships': 'with scholarships',
+  'report.eligibleCountry': 'open to applicants from {country}',
+  'report.restricted': 'Not open to applicants from: {countries}',
+
+  'common.notSpecified': 'Not specified',
+  'diff.field': 'Field',
+  'diff.before': 'Before',
+  'diff.after': 'After',
+  'diff.nowSaved': 'Now saved',
+  'diff.saved': 'Saved',
+  'diff.draft': 'Draft',
+  'diff.current': 'Current',
+  'diff.incoming': 'Incoming',
+  'diff.now': 'Now',
+  'diff.afterMerge': 'After merge',
+
+  'admin.eyebrow': 'Admin console',
+  'admin.backToEditor': '← Back to editor',
+  'admin.newUniversity': 'New university',
+  'admin.bulkImport': 'Bulk import',
+  'admin.mergeDuplicates': 'Merge duplicates',
+  'admin.trash': 'Trash',
+  'admin.users': 'Users',
+  'admin.loadRecord': 'Load record',
+  'admin.addNew': '+ Add new university',
+  'admin.confirmLeave':
+    '{name} has unsaved changes. Leave anyway? They stay saved as a draft in this browser and ' +
+    'you can resume them later.',
+  'admin.confirmDuplicate':
+    '{name} looks like {matches}, already in the directory. Add it as a new university anyway?',
+  'admin.added': 'University added to the directory.',
+  'admin.updated': 'University details updated.',
+  'admin.saveFailed': 'Unable to save university.',
+  'admin.versionRestored': 'Earlier version restored.',
+  'admin.quarantined':
+    'Saved directory data from this browser could not be loaded ({reason}). It was backed up on ' +
+    '{date} and the directory was restored from the last good copy.',
+  'admin.remoteTrashed':
+    '{name} was moved to the trash in another tab by {actor} at {time}. It cannot be saved ' +
+    'unless it is restored.',
+  'admin.remoteApplied':
+    '{name} was updated in another tab by {actor} at {time}. The form now shows the saved version.',
+  'admin.remoteConflict':
+    '{name} was updated in another tab by {actor} at {time} while you were editing. Saving your ' +
+    'changes will replace theirs; loading the saved version keeps your edits as a draft.',
+  'admin.loadSaved': 'Load saved version',
+  'admin.keepEdits': 'Keep my edits',
+  'admin.draftFound': 'You have an unsaved draft of {name} from {time}.',
+  'admin.draftStale':
+    'The saved record has changed since; resuming and saving will replace those changes.',
+  'admin.resumeDraft': 'Resume draft',
+  'admin.discardDraft': 'Discard draft',
+  'admin.duplicateOfNew': 'This looks like a university already in the directory:',
+  'admin.duplicateOfExisting': 'This record looks like another university in the directory:',
+  'admin.open': 'Open',
+  'admin.mergeInto': 'Merge into it…',
+  'admin.name': 'University name',
+  'admin.namePlaceholder': 'e.g., Stanford University',
+  'admin.portal': 'Portal link',
+  'admin.chooseCountry': 'Choose a country',
+  'admin.regionPlaceholder': 'State or province, e.g. California',
+  'admin.city': 'City',
+  'admin.cityPlaceholder': 'e.g. Stanford',
+  'admin.feeCurrency': 'Fee currency',
+  'admin.applicationFee': 'Application fee ({currency})',
+  'admin.locationNote':
+    'The location was converted from “{text}” and may have been split wrongly. Check the ' +
+    'country, region and city above, then mark it as reviewed.',
+  'admin.markReviewed': 'Mark as reviewed',
+  'admin.overview': 'Overview',
+  'admin.overviewPlaceholder': 'What makes this university unique for Manara Scholars?',
+  'admin.overviewArabic': 'Overview (Arabic)',
+  'admin.overviewArabicPlaceholder': 'Shown instead of the overview when the site is in Arabic',
+  'admin.campusesHint':
+    'Other campuses besides the main location above, if any. They are listed on the detail page ' +
+    'and found by the directory search.',
+  'admin.campusNamePlaceholder': 'e.g. Qatar campus',
+  'admin.campusCityPlaceholder': 'e.g. Doha',
+  'admin.removeCampus': 'Remove campus',
+  'admin.addCampus': '+ Campus',
+  'admin.restrictedHint':
+    'List any countries whose citizens are not eligible to apply. This will show as warning ' +
+    'tags on the directory and detail pages.',
+  'admin.restrictedPlaceholder': 'Type a country, e.g. Iran',
+  'admin.unmatchedCountry':
+    '“{entry}” was saved before countries were picked from a list and matches no country. Add ' +
+    'the country it means above, then mark it as resolved.',
+  'admin.markResolved': 'Mark as resolved',
+  'admin.noRestrictions': 'No restrictions captured.',
+  'admin.tuitionByDegree': 'Average tuition by degree',
+  'admin.tuitionIn': '{level} ({currency})',
+  'admin.chargedIn': 'Charged in',
+  'admin.sameAsFees': 'Fee currency ({currency})',
+  'admin.programsAndScholarships': 'Programs & scholarships',
+  'admin.programsHint':
+    'Track every bachelor, masters, and PhD opportunity offered to Manara Scholars.',
+  'admin.addProgram': '+ Program',
+  'admin.addScholarship': '+ Scholarship',
+  'admin.noPrograms': 'No programs yet.',
+  'admin.noScholarships': 'No scholarships yet.',
+  'admin.nameArabic': 'Name (Arabic)',
+  'admin.viewProgram': 'View program page',
+  'admin.removeProgram': 'Remove program',
+  'admin.fundingNote': 'Funding note',
+  'admin.fundingNotePlaceholder': 'e.g., plus travel allowance',
+  'admin.eligibility': 'Eligibility',
+  'admin.deadline': 'Deadline',
+  'admin.deadlinePlaceholder': 'YYYY-MM-DD or Rolling',
+  'admin.fundingReview': 'Funding was converted from “{text}” and needs checking.',
+  'admin.deadlineReview':
+    'The deadline was entered as “{text}”, which is not a date. Enter the date above, then ' +
+    'mark it as reviewed.',
+  'admin.blank': 'blank',
+  'admin.removeScholarship': 'Remove scholarship',
+  'admin.unsaved': 'Unsaved changes, kept as a draft in this browser',
+  'admin.discardChanges': 'Discard changes',
+  'admin.saving': 'Saving…',
+  'admin.add': 'Add university',
+  'admin.update': 'Update university',
+
+  'fundingEditor.funding': 'Funding',
+  'fundingEditor.percent': 'Percent of tuition',
+  'fundingEditor.upTo': 'Up to (varies by candidate)',
+  'fundingEditor.amount': 'Amount',
+  'fundingEditor.currency': 'Currency',
+  'fundingEditor.paidPer': 'Paid per',
+  'fundingEditor.once': 'One-off award',
+  'fundingEditor.cap': 'Upper bound per year (optional)',
+  'fundingEditor.capCurrency': 'Bound currency',
+
+  'programEditor.language': 'Language of instruction',
+  'programEditor.languagePlaceholder': 'e.g. English',
+  'programEditor.tuition': 'Tuition per year ({currency})',
+  'programEditor.tuitionPlaceholder': 'Level average',
+  'programEditor.minimumGpa': 'Minimum GPA (out of {max})',
+  'programEditor.intakes': 'Intake months',
+  'programEditor.tests': 'Required tests',
+  'programEditor.test': 'Test',
+  'programEditor.minimumScore': 'Minimum {test} score',
+  'programEditor.remove': 'Remove',
+  'programEditor.addTest': '+ Test',
+  'programEditor.documents': 'Required documents (one per line)',
+  'programEditor.documentsPlaceholder': 'Statement of purpose\nTwo letters of recommendation',
+
+  'history.action.create': 'Created',
+  'history.action.update': 'Updated',
+  'history.action.delete': 'Deleted',
+  'history.action.restore': 'Restored',
+  'history.action.purge': 'Permanently deleted',
+  'history.title': 'Change history',
+  'history.loading': 'Loading history…',
+  'history.loadFailed': 'Unable to load history',
+  'history.empty': 'No changes have been recorded for this university yet.',
+  'history.confirmSnapshot': 'Restore {name} to the version saved on {time}?',
+  'history.confirmPrevious': 'Restore {name} to how it was before the change on {time}?',
+  'history.restoreFailed': 'Unable to restore this version',
+  'history.restoreThis': 'Restore this version',
+  'history.restoreBefore': 'Restore version before',
+
+  'trash.loadFailed': 'Unable to load the trash.',
+  'trash.restored': '{name} is back in the directory.',
+  'trash.confirmPurge': 'Permanently delete {name}? This cannot be undone.',
+  'trash.purged': '{name} was permanently deleted.',
+  'trash.loading': 'Loading deleted universities…',
+  'trash.empty': 'The trash is empty.',
+  'trash.university': 'University',
+  'trash.deleted': 'Deleted',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete permanently',
+
+  'import.status.added': 'Added',
+  'import.status.changed': 'Changed',
+  'import.status.restored': 'Restored from trash',
+  'import.status.unchanged': 'Unchanged',
+  'import.matchedById': 'matched by id',
+  'import.matchedByName': 'matched by name',
+  'import.possibleDuplicateOf': 'Possible duplicate of {matches}',
+  'import.readFailed': 'Unable to read the import file.',
+  'import.applied.one': 'Import applied: {count} university written.',
+  'import.applied.other': 'Import applied: {count} universities written.',
+  'import.failed': 'Import failed. No changes were saved.',
+  'import.help':
+    'Upload a JSON file shaped like the directory export, or a CSV with one row per program or ' +
+    'scholarship (columns: university_id, university_name, portal_url, country, region, city, ' +
+    'campuses, overview, overview_ar, fee_currency, application_fee, tuition_bachelor, ' +
+    'tuition_masters, tuition_phd, restricted_countries, degree_level, type, program_id, ' +
+    'scholarship_id, name, ' +
+    'name_ar, duration, delivery, language, intake_months, program_tuition, required_tests, ' +
+    'minimum_gpa, required_documents, amount, eligibility, deadline). The _ar columns hold ' +
+    'optional Arabic translations. Fee amounts are in fee_currency, an ISO code such as GBP; ' +
+    'a fee charged in another currency names it before the amount, like "USD 75". ' +
+    'Intake months are numbers from 1 to 12 and required tests are written like "IELTS 6.5; GRE ' +
+    '310". A program or scholarship without an id keeps the id of the one it replaces by name, ' +
+    'so links and calendar events for it keep working. Rows are matched to existing ' +
+    'universities by id, then by name. ' +
+    'Countries may be ISO codes such as IR or country names; in a CSV, separate restricted ' +
+    'countries and campuses with semicolons, writing a campus as "Name (City)". An older single ' +
+    'location column is still read and split into country, region and city. New universities ' +
+    'whose name or website resembles an existing one are flagged as possible duplicates. ' +
+    'Programs and scholarships are replaced only for the degree levels the file includes.',
+  'import.file': 'Import file',
+  'import.possibleDuplicates': 'Possible duplicates',
+  'import.issues': 'Issues',
+  'import.hasProblems': '{file} has problems that must be fixed before importing:',
+  'import.unchangedList': 'Unchanged: {names}',
+  'import.acceptDuplicates.one': 'I checked the possible duplicate; import it as a new university',
+  'import.acceptDuplicates.other':
+    'I checked the {count} possible duplicates; import them as new universities',
+  'import.importing': 'Importing…',
+  'import.apply': 'Apply import',
+
+  'merge.confirm': 'Merge {duplicate} into {keep}? {duplicate} will be moved to the trash.',
+  'merge.merged': '{duplicate} was merged into {keep} and moved to the trash.',
+  'merge.failed': 'Unable to merge universities.',
+  'merge.hint':
+    'Universities are flagged as likely duplicates when their names match once spelling, ' +
+    'punctuation and words like "University" are ignored, or when their portal links share a ' +
+    "website. Merging keeps one record, adds the other's programs, scholarships and restricted " +
+    'countries to it, and moves the other to the trash.',
+  'merge.searching': 'Looking for duplicates…',
+  'merge.none': 'No likely duplicates in the directory.',
+  'merge.universities': 'Universities',
+  'merge.why': 'Why',
+  'merge.review': 'Review',
+  'merge.keep': 'Keep',
+  'merge.mergeInto': 'Merge into it and move to the trash',
+  'merge.choose': 'Choose a university',
+  'merge.swap': 'Swap which record is kept',
+  'merge.conflicts': 'Conflicts',
+  'merge.conflictsHint':
+    "Both records hold different values for these. The kept record's value is used unless you " +
+    'pick the other.',
+  'merge.changesTo': 'Changes to {name}',
+  'merge.nothingNew': '{name} adds nothing new; merging only moves it to the trash.',
+  'merge.merging': 'Merging…',
+  'merge.submit': 'Merge into {name}',
+  'merge.label.name': 'Name',
+  'merge.label.portalUrl': 'Portal link',
+  'merge.label.overview': 'Overview',
+  'merge.label.overviewIn': 'Overview ({language})',
+  'merge.label.location': 'Location',
+  'merge.label.fees': 'Fees',
+  'merge.label.program': '{level} program "{name}"',
+  'merge.label.scholarship': '{level} scholarship "{name}"',
+  'duplicates.sameName': 'Same name once spelling and punctuation are ignored',
+  'duplicates.similarName': 'Similar name ({percent}% alike)',
+  'duplicates.sameWebsite': 'Same website ({domain})',
+
+  'users.title': 'Users and roles',
+  'users.loadFailed': 'Unable to load users.',
+  'users.updateFailed': 'Unable to update users.',
+  'users.roleChanged': '{name} is now {role}.',
+  'users.confirmRemove': 'Remove {name}? They will no longer be able to sign in.',
+  'users.removed': '{name} was removed.',
+  'users.added': '{name} was added.',
+  'users.rolesHint':
+    'Viewers can browse the directory. Editors can also create and update universities and ' +
+    'track student applications. Admins can additionally delete universities and manage users.',
+  'users.loading': 'Loading users…',
+  'users.user': 'User',
+  'users.role': 'Role',
+  'users.you': 'You',
+  'users.roleFor': 'Role for {name}',
+  'users.remove': 'Remove',
+  'users.addTitle': 'Add a user',
+  'users.name': 'Name',
+  'users.email': 'Email',
+  'users.password': 'Initial password',
+  'users.add': 'Add user',
+
+  'applications.eyebrow': 'Admissions',
+  'applications.title': 'Application pipeline',
+  'applications.loadFailed': 'Unable to load applications.',
+  'applications.updateFailed': 'Unable to update applications.',
+  'applications.unknownUniversity': 'an unknown university',
+  'applications.describe': '{student} at {university}',
+  'applications.confirmRemove': 'Remove the application for {application}?',
+  'applications.removed': 'Application removed.',
+  'applications.studentAdded': '{name} was added.',
+  'applications.added': 'Application added.',
+  'applications.universityGone': 'University no longer listed',
+  'applications.noProgram': 'No program chosen',
+  'applications.since': 'Since {date}',
+  'applications.deadline': 'Deadline',
+  'applications.stageFor': 'Stage for {application}',
+  'applications.remove': 'Remove',
+  'applications.student': 'Student',
+  'applications.allStudents': 'All students',
+  'applications.hint':
+    'Drag a card to another column, or pick its stage from the list, to record where the ' +
+    'application stands. Each move is dated.',
+  'applications.loading': 'Loading applications…',
+  'applications.addStudentTitle': 'Add a student',
+  'applications.name': 'Name',
+  'applications.email': 'Email',
+  'applications.nationality': 'Nationality',
+  'applications.addStudent': 'Add student',
+  'applications.addApplicationTitle': 'Add an application',
+  'applications.chooseStudent': 'Choose a student',
+  'applications.university': 'University',
+  'applications.chooseUniversity': 'Choose a university',
+  'applications.program': 'Program',
+  'applications.undecided': 'Undecided',
+  'applications.stage': 'Stage',
+  'applications.notes': 'Notes',
+  'applications.addApplication': 'Add application',
+
+  'field.id': 'Id',
+  'field.name': 'Name',
+  'field.portalUrl': 'Portal link',
+  'field.overview': 'Overview',
+  'field.locationNote': 'Location note',
+  'field.region': 'Region',
+  'field.city': 'City',
+  'field.campuses': 'Campuses',
+  'field.campusName': 'Campus name',
+  'field.campusCity': 'Campus city',
+  'field.programs': 'Programs',
+  'field.programId': 'Program id',
+  'field.programName': 'Program name',
+  'field.duration': 'Duration',
+  'field.delivery': 'Delivery',
+  'field.language': 'Language',
+  'field.requiredTests': 'Required tests',
+  'field.scholarships': 'Scholarships',
+  'field.scholarshipName': 'Scholarship name',
+  'field.fundingNote': 'Funding note',
+  'field.deadlineNote': 'Deadline note',
+  'field.eligibility': 'Eligibility',
+  'field.amount': 'Amount',
+  'field.cap': 'Upper bound',
+
+  'validation.fieldsNeedAttention.one': '{count} field needs attention',
+  'validation.fieldsNeedAttention.other': '{count} fields need attention',
+  'validation.required': '{label} is required',
+  'validation.listRequired': '{label} are required',
+  'validation.text': '{label} must be text',
+  'validation.list': '{label} must be a list',
+  'validation.nonNegative': '{label} must be a non-negative number',
+  'validation.translationsKeyed': '{label} translations must be keyed by language',
+  'validation.translationText': '{label} translation must be text',
+  'validation.unknownLanguage': 'Unknown language "{locale}"',
+  'validation.universityObject': 'University must be an object',
+  'validation.programObject': 'Program must be an object',
+  'validation.scholarshipObject': 'Scholarship must be an object',
+  'validation.campusObject': 'Campus must be an object',
+  'validation.feesRequired': 'Fees are required',
+  'validation.feeCurrency': 'Fee currency must be one of {currencies}',
+  'validation.applicationFee': 'Application fee must be a non-negative number',
+  'validation.averageTuition': 'Average tuition is required',
+  'validation.unknownLevel': 'Unknown degree level "{level}"',
+  'validation.feeCurrencies': 'Fee currencies must be an object keyed by fee',
+  'validation.unknownFee': 'Unknown fee "{fee}"',
+  'validation.tuition': 'Tuition must be a non-negative number',
+  'validation.locationRequired': 'Location is required',
+  'validation.countryRequired': 'Country is required',
+  'validation.unknownCountry': 'Unknown country code: {codes}',
+  'validation.intakeMonths': 'Intake months must be a list of month numbers from 1 to 12',
+  'validation.minimumGpa': 'Minimum GPA must be between 0 and {max}',
+  'validation.testChoice': 'Test must be one of {tests}',
+  'validation.testTwice': '{test} is listed twice',
+  'validation.testScore': '{test} score must be between {min} and {max}',
+  'validation.documents': 'Required documents must be a list of names',
+  'validation.programIdTwice': 'Program id "{id}" is used more than once',
+  'validation.currencyCode': 'Currency must be a 3-letter ISO code, e.g. USD',
+  'validation.fundingType': 'Choose a funding type',
+  'validation.percentage': 'Percentage must be between 0 and 100',
+  'validation.fundingPeriod': 'Choose how often the award is paid',
+  'validation.capShape': 'Upper bound must be an amount and currency',
+  'validation.deadlineText': 'Deadline must be text',
+  'validation.deadline': 'Deadline must be a real date (YYYY-MM-DD), "Rolling", or left blank',
+  'validation.deletedAt': 'Deleted date must be a timestamp',
+  'validation.portalUrl': 'Portal link must be a full http(s) URL, e.g. https://example.edu',
+  'validation.restrictedList': 'Restricted countries must be a list of country codes',
+  'validation.unmatchedList': 'Unmatched restricted countries must be a list of names',
+
+  'errors.universityNotFound': 'University not found',
+  'errors.universityInTrash': 'University is in the trash. Restore it before editing.',
+  'errors.mergeSameUniversity': 'Choose two different universities to merge',
+  'errors.purgeNotTrashed': 'Only universities in the trash can be permanently deleted',
+  'errors.duplicateUniversity': 'This looks like a university already in the directory: {names}',
+  'errors.historyEntryNotFound': 'History entry not found',
+  'errors.noSavedVersion': 'No saved version to restore for this entry',
+  'errors.studentNameRequired': 'Student name is required',
+  'errors.studentEmail': 'Enter a valid email address or leave it blank',
+  'errors.studentExists': 'A student with this email already exists',
+  'errors.studentNotFound': 'Student not found',
+  'errors.noSuchProgram': '{university} has no such program at this degree level',
+  'errors.applicationDeadline': 'Deadline must be a real date (YYYY-MM-DD) or left blank',
+  'errors.duplicateApplication': 'This student already has an open application for that program',
+  'errors.applicationNotFound': 'Application not found',
+  'errors.noPermission': 'You do not have permission to do that',
+  'errors.signInToChange': 'Sign in to make changes',
+  'errors.credentialsRequired': 'Enter your email and password',
+  'errors.wrongCredentials': 'Email or password is incorrect',
+  'errors.keepOneAdmin': 'At least one admin must remain',
+  'errors.userNameEmailRequired': 'Name and email are required',
+  'errors.removeSelf': 'You cannot remove your own account',
+  'errors.emailTaken': 'Another user already has this email',
+  'errors.passwordRequired': 'New users need a password',
+  'errors.viewName': 'Give the view a name',
+  'errors.noExchangeRate': 'No exchange rate is listed for {currency}',
+  'errors.importHasIssues': 'Resolve the import issues before applying',
+  'errors.requestFailed': 'Request failed with status {status}',
+  'errors.apiBaseUrl': 'VITE_API_BASE_URL is required for the http storage backend',
+  'errors.authBaseUrl': 'VITE_AUTH_BASE_URL or VITE_API_BASE_URL is required for http auth',
+  'errors.localAuthDevOnly':
+    'The local identity provider is only available in development; use VITE_AUTH_PROVIDER=http',
+  'errors.authProviderRequired': 'VITE_AUTH_PROVIDER must be set to http for this build',
+
+  'import.source.file': 'File',
+  'import.source.row': 'Row {row}',
+  'import.source.rows': 'Rows {first}–{last}',
+  'import.source.item': 'Item {index}',
+  'import.source.itemNamed': 'Item {index} ({name})',
+  'import.issue.invalidJson': 'File is not valid JSON',
+  'import.issue.notAList': 'Expected a list of universities',
+  'import.issue.notAnObject': 'Each item must be a university object',
+  'import.issue.sameUniversity': 'Refers to the same university as {source}',
+  'import.issue.unknownCountries': 'restrictedCountries: Unknown country: {countries}',
+  'import.issue.field': '{field}: {message}',
+
+  'csv.missingColumn': 'Missing column: {columns}',
+  'csv.needsName': 'Row needs a university_id or university_name',
+  'csv.notANumber': '{column} must be a number',
+  'csv.degreeLevel': 'degree_level must be one of {levels}',
+  'csv.intakeMonths': 'intake_months must be month numbers from 1 to 12',
+  'csv.requiredTests': 'required_tests must be entries like "IELTS 6.5": {entries}',
+  'csv.type': 'type must be "program" or "scholarship"'
+};
+
+export type MessageKey = keyof typeof en;
+
+/** Base keys of plural messages, e.g. `count.programs` for `count.programs.one`. */
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+/** A complete catalog; plural messages may add the categories the language needs. */
+export type Catalog = Record<MessageKey, string> &
+  Partial<Record<`${PluralKey}.${Intl.LDMLPluralRule}`, string>>;
+
+export default en;
@@ -1,14 +1,64 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { degreeLevels } from '../types/university';
-import type { DegreeLevel, Program, Scholarship, University } from '../types/university';
+import { Link, useBlocker, useLocation, useNavigate } from 'react-router-dom';
+import { degreeLevels, deliveryModes } from '../types/university';
+import type {
+  Campus,
+  DegreeLevel,
+  FeeKind,
+  Program,
+  Scholarship,
+  ScholarshipFunding,
+  University,
+  UniversityLocation
+} from '../types/university';
 import {
+  acknowledgeQuarantinedData,
   createUniversity,
+  getLoadIssues,
+  getQuarantinedData,
   getUniversities,
+  getUniversity,
   updateUniversity
 } from '../services/universityService';
+import type { UniversityChange } from '../services/universityService';
+import type { QuarantineRecord } from '../services/storage';
+import { deliveryModeLabels } from '../services/directoryFilters';
+import { BASE_CURRENCY, supportedCurrencies } from '../services/currency';
+import HistoryPanel from '../components/HistoryPanel';
+import FundingEditor from '../components/FundingEditor';
+import ProgramDetailsEditor from '../components/ProgramDetailsEditor';
+import CountryPicker from '../components/CountryPicker';
+import { useAuth } from '../hooks/useAuth';
+import {
+  toFieldErrorMap,
+  UniversityValidationError,
+  validateUniversity
+} from '../services/universityValidation';
+import type { FieldError } from '../services/universityValidation';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useUniversityChanges } from '../hooks/useUniversityChanges';
+import type { LocalizedText } from '../types/i18n';
+import { describeValue, diffUniversities } from '../services/universityDiff';
+import type { FieldChange } from '../services/universityDiff';
+import { discardDraft, getDraft, saveDraft } from '../services/universityDrafts';
+import { DuplicateUniversityError, findDuplicates } from '../services/duplicateDetection';
+import { countryName, isCountryCode, sortedCountries } from '../services/countries';
+import { assignProgramIds, assignScholarshipIds, programUrl } from '../services/programs';
+import type { EditableUniversity, UniversityDraft } from '../services/universityDrafts';
+
+// Typing is saved to the draft once it pauses for this long.
+const DRAFT_SAVE_DELAY_MS = 500;
 
-type EditableUniversity = Omit<University, 'id'> & { id?: string };
+/** A save to the open record made in another tab. */
+interface RemoteEdit extends Pick<UniversityChange, 'actor' | 'at'> {
+  /** The record as now saved; null once it has left the directory. */
+  record: University | null;
+  /** From what this form was loaded with to what is now saved. */
+  changes: FieldChange[];
+  /** The form had no edits, so it was switched to the saved version straight away. */
+  applied: boolean;
+}
 
 const emptyPrograms = (): Record<DegreeLevel, Program[]> =>
   degreeLevels.reduce(
@@ -32,9 +82,10 @@ const createDefaultForm = (): EditableUniversity => ({
   id: undefined,
   name: '',
   portalUrl: '',
-  location: '',
+  location: { country: '' },
   overview: '',
   fees: {
+    currency: BASE_CURRENCY,
     application: 0,
     averageTuition: {}
   },
@@ -43,12 +94,26 @@ const createDefaultForm = (): EditableUniversity => ({
   restrictedCountries: []
 });
 
+/** Trims translations and drops blank ones, leaving undefined when none are left. */
+const cleanTranslations = (translations?: LocalizedText): LocalizedText | undefined => {
+  const entries = Object.entries(translations ?? {})
+    .map(([locale, text]) => [locale, text?.trim() ?? ''])
+    .filter(([, text]) => text !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
 const toEditable = (university: University): EditableUniversity => ({
   ...university,
+  location: {
+    ...university.location,
+    campuses: university.location.campuses?.map((campus) => ({ ...campus }))
+  },
   overview: university.overview ?? '',
   fees: {
+    currency: university.fees?.currency ?? BASE_CURRENCY,
     application: university.fees?.application ?? 0,
-    averageTuition: { ...(university.fees?.averageTuition ?? {}) }
+    averageTuition: { ...(university.fees?.averageTuition ?? {}) },
+    currencies: { ...(university.fees?.currencies ?? {}) }
   },
   programs: degreeLevels.reduce(
     (acc, level) => {
@@ -64,18 +129,46 @@ const toEditable = (university: University): EditableUniversity => ({
     },
     {} as Record<DegreeLevel, Scholarship[]>
   ),
-  restrictedCountries: [...(university.restrictedCountries ?? [])]
+  restrictedCountries: [...(university.restrictedCountries ?? [])],
+  unmatchedRestrictedCountries: university.unmatchedRestrictedCountries && [
+    ...university.unmatchedRestrictedCountries
+  ]
 });
 
-const degreeLabels: Record<DegreeLevel, string> = {
-  bachelor: 'Bachelor',
-  masters: 'Masters',
-  phd: 'PhD'
-};
+type RowIndexMap = Record<'programs' | 'scholarships', Record<DegreeLevel, number[]>>;
+
+const isBlankRow = (row: object) =>
+  Object.values(row).every((value) => typeof value !== 'string' || value.trim() === '');
+
+/** Points errors raised against the cleaned payload back at the rows shown in the form. */
+const remapRowErrors = (errors: FieldError[], indexMap: RowIndexMap): FieldError[] =>
+  errors.map((error) => {
+    const match = /^(programs|scholarships)\.(\w+)\.(\d+)(.*)$/.exec(error.field);
+    if (!match) return error;
+    const [, kind, level, index, rest] = match;
+    const formIndex = indexMap[kind as keyof RowIndexMap]?.[level as DegreeLevel]?.[Number(index)];
+    return formIndex === undefined
+      ? error
+      : { ...error, field: `${kind}.${level}.${formIndex}${rest}` };
+  });
+
+const emptyIndexMap = (): Record<DegreeLevel, number[]> =>
+  degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = [];
+      return acc;
+    },
+    {} as Record<DegreeLevel, number[]>
+  );
+
+const FieldErrorText = ({ message }: { message?: string }) =>
+  message ? <span className="field-error">{message}</span> : null;
 
 const AdminPage = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { t, locale, formatDateTime, formatList } = useI18n();
+  const auth = useAuth();
   const pendingEditId = (location.state as { editId?: string } | null)?.editId;
   const [universities, setUniversities] = useState<University[]>([]);
   const [selectedId, setSelectedId] = useState<'new' | string>('new');
@@ -84,17 +177,28 @@ const AdminPage = () => {
   const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
     null
   );
-  const [restrictedInput, setRestrictedInput] = useState('');
+  const [quarantined, setQuarantined] = useState<QuarantineRecord[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // What the form held when the record was loaded or saved; edits are measured against it.
+  const [baseline, setBaseline] = useState<EditableUniversity>(createDefaultForm());
+  // A stored draft the user has not yet resumed or discarded.
+  const [pendingDraft, setPendingDraft] = useState<UniversityDraft | null>(() => {
+    const draft = getDraft('new');
+    return draft && diffUniversities(createDefaultForm(), draft.form).length > 0 ? draft : null;
+  });
+  const [remoteEdit, setRemoteEdit] = useState<RemoteEdit | null>(null);
 
   const loadUniversities = useCallback(async () => {
     try {
       const data = await getUniversities();
       setUniversities(data);
+      const backups = await getQuarantinedData();
+      setQuarantined(backups.filter((record) => !record.acknowledged));
       return data;
     } catch (err) {
       setStatus({
         type: 'error',
-        message: err instanceof Error ? err.message : 'Unable to load universities.'
+        message: errorMessage(err, 'directory.loadFailed')
       });
       return [];
     }
@@ -104,46 +208,215 @@ const AdminPage = () => {
     loadUniversities();
   }, [loadUniversities]);
 
+  /** Loads a saved record, or a blank form for `null`, and looks for a draft to offer. */
+  const openRecord = useCallback((record: University | null) => {
+    const form = record ? toEditable(record) : createDefaultForm();
+    const recordId = record?.id ?? 'new';
+    setSelectedId(recordId);
+    setFormState(form);
+    setBaseline(form);
+    setFieldErrors(record ? toFieldErrorMap(getLoadIssues()[record.id] ?? []) : {});
+    const draft = getDraft(recordId);
+    const hasChanges = draft !== null && diffUniversities(form, draft.form).length > 0;
+    if (draft && !hasChanges) discardDraft(recordId);
+    setPendingDraft(hasChanges ? draft : null);
+    setRemoteEdit(null);
+  }, []);
+
   useEffect(() => {
     if (!pendingEditId || universities.length === 0) {
       return;
     }
     const match = universities.find((uni) => uni.id === pendingEditId);
     if (match) {
-      setSelectedId(match.id);
-      setFormState(toEditable(match));
+      openRecord(match);
       navigate('.', { replace: true, state: null });
     }
-  }, [pendingEditId, universities, navigate]);
+  }, [pendingEditId, universities, navigate, openRecord]);
 
-  const selectedUniversityName = useMemo(
-    () => universities.find((uni) => uni.id === selectedId)?.name ?? 'New university',
+  const savedRecord = useMemo(
+    () => universities.find((uni) => uni.id === selectedId) ?? null,
     [universities, selectedId]
   );
+  const selectedUniversityName = savedRecord?.name ?? t('admin.newUniversity');
+
+  const unsavedChanges = useMemo(
+    () => diffUniversities(baseline, formState),
+    [baseline, formState]
+  );
+  const isDirty = unsavedChanges.length > 0;
+
+  const duplicates = useMemo(
+    () =>
+      findDuplicates(
+        {
+          name: formState.name,
+          portalUrl: formState.portalUrl,
+          id: selectedId === 'new' ? undefined : selectedId
+        },
+        universities
+      ),
+    [formState.name, formState.portalUrl, selectedId, universities]
+  );
+
+  const countryOptions = useMemo(() => sortedCountries(locale), [locale]);
+
+  // Regions already used for the chosen country, offered as suggestions to keep spelling
+  // consistent for the directory's region filter.
+  const regionOptions = useMemo(() => {
+    const regions = universities
+      .filter((university) => university.location.country === formState.location.country)
+      .map((university) => university.location.region?.trim() ?? '')
+      .filter(Boolean);
+    return Array.from(new Set(regions)).sort((a, b) => a.localeCompare(b));
+  }, [universities, formState.location.country]);
+
+  /** Keeps the draft in step with the form: stored while it has changes, dropped once it has none. */
+  const persistDraft = useCallback(() => {
+    if (isDirty) {
+      saveDraft(selectedId, formState, savedRecord);
+    } else if (!pendingDraft) {
+      // An offered draft stays until the user resumes or discards it.
+      discardDraft(selectedId);
+    }
+  }, [isDirty, selectedId, formState, savedRecord, pendingDraft]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(persistDraft, DRAFT_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [persistDraft]);
+
+  /** Asks before unsaved changes are left behind; they are kept as a draft either way. */
+  const confirmLeave = useCallback(() => {
+    if (!isDirty) return true;
+    const confirmed = window.confirm(t('admin.confirmLeave', { name: selectedUniversityName }));
+    if (confirmed) persistDraft();
+    return confirmed;
+  }, [isDirty, selectedUniversityName, persistDraft, t]);
+
+  // Moving to another page; staying on /admin (e.g. clearing the edit hand-off) is not blocked.
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      isDirty && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+    if (confirmLeave()) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, confirmLeave]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      persistDraft();
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty, persistDraft]);
+
+  // Another tab saved: refresh the record list, and if the open record changed, either show the
+  // new version (no edits here) or warn that saving would overwrite it.
+  useUniversityChanges(async (change) => {
+    if (change.source !== 'remote') return;
+    await loadUniversities();
+    if (selectedId === 'new' || !change.ids.includes(selectedId)) return;
+    const latest = await getUniversity(selectedId).catch(() => null);
+    const changes = latest ? diffUniversities(baseline, toEditable(latest)) : [];
+    if (latest && changes.length === 0) return;
+    const applied = latest !== null && !isDirty;
+    if (applied) {
+      setFormState(toEditable(latest));
+      setBaseline(toEditable(latest));
+      setFieldErrors(toFieldErrorMap(getLoadIssues()[latest.id] ?? []));
+    }
+    setRemoteEdit({ actor: change.actor, at: change.at, record: latest, changes, applied });
+  });
+
+  // Keeps the edits but measures them against the newly saved version, so the unsaved changes
+  // list shows what saving would overwrite.
+  const keepEditsOverRemote = () => {
+    if (remoteEdit?.record) setBaseline(toEditable(remoteEdit.record));
+    setRemoteEdit(null);
+  };
+
+  const loadRemoteVersion = () => {
+    if (!remoteEdit?.record) return;
+    // Stored first so the edits are offered back as a draft of the new version.
+    persistDraft();
+    openRecord(remoteEdit.record);
+  };
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    setFormState(pendingDraft.form);
+    setFieldErrors({});
+    setPendingDraft(null);
+  };
+
+  const discardPendingDraft = () => {
+    discardDraft(selectedId);
+    setPendingDraft(null);
+  };
+
+  const discardChanges = () => {
+    setFormState(baseline);
+    setFieldErrors({});
+  };
+
+  const dismissQuarantine = async (id: string) => {
+    await acknowledgeQuarantinedData(id);
+    setQuarantined((prev) => prev.filter((record) => record.id !== id));
+  };
+
+  const clearFieldError = (field: string) => {
+    setFieldErrors((prev) => {
+      if (!(field in prev)) return prev;
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+  };
+
+  const clearRowErrors = (kind: keyof RowIndexMap, level: DegreeLevel) => {
+    const prefix = `${kind}.${level}.`;
+    setFieldErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([field]) => !field.startsWith(prefix)))
+    );
+  };
 
   const updateForm = (updates: Partial<EditableUniversity>) => {
+    Object.keys(updates).forEach((field) => clearFieldError(field));
     setFormState((prev) => ({ ...prev, ...updates }));
   };
 
   const handleSelectChange = (value: string) => {
+    if (value === selectedId || !confirmLeave()) return;
     if (value === 'new') {
-      setSelectedId('new');
-      setFormState(createDefaultForm());
+      openRecord(null);
       return;
     }
     const selection = universities.find((uni) => uni.id === value);
     if (selection) {
-      setSelectedId(selection.id);
-      setFormState(toEditable(selection));
+      openRecord(selection);
     }
   };
 
+  const openDuplicate = (record: University) => {
+    if (confirmLeave()) openRecord(record);
+  };
+
   const handleProgramChange = (
     level: DegreeLevel,
     index: number,
     field: keyof Program,
     value: string
   ) => {
+    clearFieldError(`programs.${level}.${index}.${field}`);
     setFormState((prev) => {
       const programs = [...prev.programs[level]];
       programs[index] = { ...programs[index], [field]: value };
@@ -154,12 +427,34 @@ const AdminPage = () => {
     });
   };
 
+  const handleProgramDetailsChange = (
+    level: DegreeLevel,
+    index: number,
+    changes: Partial<Program>
+  ) => {
+    const prefixes = Object.keys(changes).map((field) => `programs.${level}.${index}.${field}`);
+    setFieldErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([key]) => !prefixes.some((prefix) => key.startsWith(prefix)))
+      )
+    );
+    setFormState((prev) => {
+      const programs = [...prev.programs[level]];
+      programs[index] = { ...programs[index], ...changes };
+      return {
+        ...prev,
+        programs: { ...prev.programs, [level]: programs }
+      };
+    });
+  };
+
   const handleScholarshipChange = (
     level: DegreeLevel,
     index: number,
-    field: keyof Scholarship,
+    field: 'name' | 'eligibility' | 'deadline' | 'fundingNote',
     value: string
   ) => {
+    clearFieldError(`scholarships.${level}.${index}.${field}`);
     setFormState((prev) => {
       const scholarships = [...prev.scholarships[level]];
       scholarships[index] = { ...scholarships[index], [field]: value };
@@ -170,17 +465,82 @@ const AdminPage = () => {
     });
   };
 
+  /** Drops a deadline's original text once an editor has entered the date it stood for. */
+  const resolveDeadlineNote = (level: DegreeLevel, index: number) =>
+    setFormState((prev) => {
+      const scholarships = [...prev.scholarships[level]];
+      const { deadlineNote: _deadlineNote, ...scholarship } = scholarships[index];
+      scholarships[index] = scholarship;
+      return {
+        ...prev,
+        scholarships: { ...prev.scholarships, [level]: scholarships }
+      };
+    });
+
+  const handleNameTranslationChange = (
+    kind: 'programs' | 'scholarships',
+    level: DegreeLevel,
+    index: number,
+    value: string
+  ) => {
+    clearFieldError(`${kind}.${level}.${index}.nameTranslations.ar`);
+    setFormState((prev) => {
+      const rows: (Program | Scholarship)[] = [...prev[kind][level]];
+      rows[index] = {
+        ...rows[index],
+        nameTranslations: { ...rows[index].nameTranslations, ar: value }
+      };
+      return { ...prev, [kind]: { ...prev[kind], [level]: rows } };
+    });
+  };
+
+  const handleFundingChange = (
+    level: DegreeLevel,
+    index: number,
+    funding: ScholarshipFunding | null
+  ) => {
+    clearRowErrors('scholarships', level);
+    setFormState((prev) => {
+      const scholarships = [...prev.scholarships[level]];
+      // Editing the structured value counts as reviewing it.
+      scholarships[index] = { ...scholarships[index], funding, fundingNeedsReview: undefined };
+      return {
+        ...prev,
+        scholarships: { ...prev.scholarships, [level]: scholarships }
+      };
+    });
+  };
+
+  const programErrors = (level: DegreeLevel, index: number) => {
+    const prefix = `programs.${level}.${index}.`;
+    return Object.fromEntries(
+      Object.entries(fieldErrors)
+        .filter(([field]) => field.startsWith(prefix))
+        .map(([field, message]) => [field.slice(prefix.length), message])
+    );
+  };
+
+  const fundingErrors = (level: DegreeLevel, index: number) => {
+    const prefix = `scholarships.${level}.${index}.funding.`;
+    return Object.fromEntries(
+      Object.entries(fieldErrors)
+        .filter(([field]) => field.startsWith(prefix))
+        .map(([field, message]) => [field.slice(prefix.length), message])
+    );
+  };
+
   const addProgram = (level: DegreeLevel) => {
     setFormState((prev) => ({
       ...prev,
       programs: {
         ...prev.programs,
-        [level]: [...prev.programs[level], { name: '', duration: '', delivery: '' }]
+        [level]: [...prev.programs[level], { id: '', name: '', duration: '', delivery: '' }]
       }
     }));
   };
 
   const removeProgram = (level: DegreeLevel, index: number) => {
+    clearRowErrors('programs', level);
     setFormState((prev) => {
       const programs = prev.programs[level].filter((_, idx) => idx !== index);
       return {
@@ -197,13 +557,14 @@ const AdminPage = () => {
         ...prev.scholarships,
         [level]: [
           ...prev.scholarships[level],
-          { name: '', amount: '', eligibility: '', deadline: '' }
+          { id: '', name: '', funding: null, eligibility: '', deadline: '' }
         ]
       }
     }));
   };
 
   const removeScholarship = (level: DegreeLevel, index: number) => {
+    clearRowErrors('scholarships', level);
     setFormState((prev) => {
       const scholarships = prev.scholarships[level].filter((_, idx) => idx !== index);
       return {
@@ -213,14 +574,46 @@ const AdminPage = () => {
     });
   };
 
-  const sanitizePayload = (): EditableUniversity => {
+  const sanitizePayload = (): { payload: EditableUniversity; indexMap: RowIndexMap } => {
+    const indexMap: RowIndexMap = { programs: emptyIndexMap(), scholarships: emptyIndexMap() };
+
     const cleanPrograms = degreeLevels.reduce((acc, level) => {
-      acc[level] = formState.programs[level].filter((program) => program.name.trim());
+      acc[level] = formState.programs[level]
+        .filter((program, index) => {
+          // The id alone does not make a row worth keeping.
+          if (isBlankRow({ ...program, id: undefined })) return false;
+          indexMap.programs[level].push(index);
+          return true;
+        })
+        .map((program) => {
+          const documents = (program.requiredDocuments ?? [])
+            .map((document) => document.trim())
+            .filter(Boolean);
+          return {
+            ...program,
+            nameTranslations: cleanTranslations(program.nameTranslations),
+            language: program.language?.trim() || undefined,
+            intakeMonths: program.intakeMonths?.length ? program.intakeMonths : undefined,
+            tuition: Number.isFinite(program.tuition) ? program.tuition : undefined,
+            minimumGpa: Number.isFinite(program.minimumGpa) ? program.minimumGpa : undefined,
+            requiredTests: program.requiredTests?.length ? program.requiredTests : undefined,
+            requiredDocuments: documents.length > 0 ? documents : undefined
+          };
+        });
       return acc;
     }, {} as Record<DegreeLevel, Program[]>);
 
     const cleanScholarships = degreeLevels.reduce((acc, level) => {
-      acc[level] = formState.scholarships[level].filter((scholarship) => scholarship.name.trim());
+      acc[level] = formState.scholarships[level]
+        .filter((scholarship, index) => {
+          if (isBlankRow({ ...scholarship, id: undefined })) return false;
+          indexMap.scholarships[level].push(index);
+          return true;
+        })
+        .map((scholarship) => ({
+          ...scholarship,
+          nameTranslations: cleanTranslations(scholarship.nameTranslations)
+        }));
       return acc;
     }, {} as Record<DegreeLevel, Scholarship[]>);
 
@@ -230,40 +623,137 @@ const AdminPage = () => {
       )
     ) as Partial<Record<DegreeLevel, number>>;
 
-    const restrictedCountries = Array.from(
-      new Set(
-        (formState.restrictedCountries ?? [])
-          .map((country) => country.trim())
-          .filter((country) => country.length > 0)
+    // A fee set to the university's own currency needs no entry of its own.
+    const currencies = Object.fromEntries(
+      Object.entries(formState.fees.currencies ?? {}).filter(
+        ([, code]) => code && code !== formState.fees.currency
       )
-    );
+    ) as Partial<Record<FeeKind, string>>;
 
-    return {
+    const restrictedCountries = Array.from(new Set(formState.restrictedCountries ?? []));
+    const unmatchedRestrictedCountries = formState.unmatchedRestrictedCountries?.length
+      ? formState.unmatchedRestrictedCountries
+      : undefined;
+
+    const campuses = formState.location.campuses?.map((campus) => ({
+      name: campus.name.trim(),
+      city: campus.city?.trim() || undefined
+    }));
+
+    const payload: EditableUniversity = {
       ...formState,
       name: formState.name.trim(),
       portalUrl: formState.portalUrl.trim(),
-      location: formState.location.trim(),
+      location: {
+        country: formState.location.country,
+        region: formState.location.region?.trim() || undefined,
+        city: formState.location.city?.trim() || undefined,
+        campuses: campuses?.length ? campuses : undefined
+      },
       overview: formState.overview?.trim(),
+      overviewTranslations: cleanTranslations(formState.overviewTranslations),
       fees: {
+        currency: formState.fees.currency,
         application: Number(formState.fees.application) || 0,
-        averageTuition
+        averageTuition,
+        ...(Object.keys(currencies).length > 0 && { currencies })
       },
-      programs: cleanPrograms,
-      scholarships: cleanScholarships,
-      restrictedCountries
+      programs: assignProgramIds(cleanPrograms),
+      scholarships: assignScholarshipIds(cleanScholarships),
+      restrictedCountries,
+      unmatchedRestrictedCountries
     };
+    return { payload, indexMap };
   };
 
-  const addRestrictedCountry = () => {
-    const value = restrictedInput.trim();
-    if (!value) return;
+  const feeCurrency = (kind: FeeKind) =>
+    formState.fees.currencies?.[kind] || formState.fees.currency;
+
+  const updateFeeCurrency = (kind: FeeKind, currency: string) => {
+    clearFieldError(`fees.currencies.${kind}`);
     setFormState((prev) => {
-      const nextList = Array.from(
-        new Set([...(prev.restrictedCountries ?? []), value])
-      );
-      return { ...prev, restrictedCountries: nextList };
+      const { [kind]: _previous, ...currencies } = prev.fees.currencies ?? {};
+      return {
+        ...prev,
+        fees: {
+          ...prev.fees,
+          currencies: currency ? { ...currencies, [kind]: currency } : currencies
+        }
+      };
+    });
+  };
+
+  const renderFeeCurrency = (kind: FeeKind) => (
+    <label>
+      {t('admin.chargedIn')}
+      <select
+        value={formState.fees.currencies?.[kind] ?? ''}
+        onChange={(event) => updateFeeCurrency(kind, event.target.value)}
+        aria-invalid={Boolean(fieldErrors[`fees.currencies.${kind}`])}
+      >
+        <option value="">{t('admin.sameAsFees', { currency: formState.fees.currency })}</option>
+        {supportedCurrencies.map((code) => (
+          <option key={code} value={code}>
+            {code}
+          </option>
+        ))}
+      </select>
+      <FieldErrorText message={fieldErrors[`fees.currencies.${kind}`]} />
+    </label>
+  );
+
+  const updateLocation = (updates: Partial<UniversityLocation>) => {
+    Object.keys(updates).forEach((field) => clearFieldError(`location.${field}`));
+    setFormState((prev) => ({ ...prev, location: { ...prev.location, ...updates } }));
+  };
+
+  const handleCampusChange = (index: number, field: keyof Campus, value: string) => {
+    clearFieldError(`location.campuses.${index}.${field}`);
+    setFormState((prev) => {
+      const campuses = [...(prev.location.campuses ?? [])];
+      campuses[index] = { ...campuses[index], [field]: value };
+      return { ...prev, location: { ...prev.location, campuses } };
+    });
+  };
+
+  const addCampus = () =>
+    setFormState((prev) => ({
+      ...prev,
+      location: {
+        ...prev.location,
+        campuses: [...(prev.location.campuses ?? []), { name: '', city: '' }]
+      }
+    }));
+
+  const removeCampus = (index: number) => {
+    setFieldErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([field]) => !field.startsWith('location.campuses.'))
+      )
+    );
+    setFormState((prev) => ({
+      ...prev,
+      location: {
+        ...prev.location,
+        campuses: (prev.location.campuses ?? []).filter((_, idx) => idx !== index)
+      }
+    }));
+  };
+
+  /** Drops the free-text location once an editor has checked the split against it. */
+  const resolveLocationNote = () =>
+    setFormState((prev) => {
+      const next = { ...prev };
+      delete next.locationNote;
+      return next;
     });
-    setRestrictedInput('');
+
+  const addRestrictedCountry = (code: string) => {
+    clearFieldError('restrictedCountries');
+    setFormState((prev) => ({
+      ...prev,
+      restrictedCountries: Array.from(new Set([...(prev.restrictedCountries ?? []), code]))
+    }));
   };
 
   const removeRestrictedCountry = (index: number) => {
@@ -273,36 +763,82 @@ const AdminPage = () => {
     }));
   };
 
+  /** Drops a legacy entry once an editor has dealt with it. */
+  const resolveUnmatchedCountry = (index: number) => {
+    setFormState((prev) => ({
+      ...prev,
+      unmatchedRestrictedCountries: (prev.unmatchedRestrictedCountries ?? []).filter(
+        (_, idx) => idx !== index
+      )
+    }));
+  };
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!formState.name || !formState.portalUrl || !formState.location) {
-      setStatus({ type: 'error', message: 'Name, portal link, and location are required.' });
+    const { payload, indexMap } = sanitizePayload();
+    const showErrors = (errors: FieldError[]) => {
+      const remapped = remapRowErrors(errors, indexMap);
+      setFieldErrors(toFieldErrorMap(remapped));
+      const unplaced = remapped.filter((error) => error.field === '' || error.field === 'id');
+      setStatus(
+        unplaced.length > 0
+          ? { type: 'error', message: unplaced.map((error) => error.message).join('. ') }
+          : null
+      );
+    };
+
+    const errors = validateUniversity({ ...payload, id: payload.id ?? 'new' });
+    if (errors.length > 0) {
+      showErrors(errors);
+      return;
+    }
+
+    const isNew = selectedId === 'new';
+    if (
+      isNew &&
+      duplicates.length > 0 &&
+      !window.confirm(
+        t('admin.confirmDuplicate', {
+          name: payload.name,
+          matches: formatList(duplicates.map((match) => match.university.name))
+        })
+      )
+    ) {
       return;
     }
 
     try {
       setIsSaving(true);
       setStatus(null);
-      const payload = sanitizePayload();
-      const saved =
-        selectedId === 'new'
-          ? await createUniversity(payload)
-          : await updateUniversity(selectedId, payload);
+      setFieldErrors({});
+      const saved = isNew
+        ? await createUniversity(payload, { allowDuplicate: duplicates.length > 0 })
+        : await updateUniversity(selectedId, payload);
 
       await loadUniversities();
+      // Cleared after the reload, in case autosave stored the form while the save was running.
+      discardDraft(selectedId);
+      setPendingDraft(null);
       setSelectedId(saved.id);
       setFormState(toEditable(saved));
+      setBaseline(toEditable(saved));
+      setRemoteEdit(null);
       setStatus({
         type: 'success',
-        message:
-          selectedId === 'new'
-            ? 'University added to the directory.'
-            : 'University details updated.'
+        message: isNew ? t('admin.added') : t('admin.updated')
       });
     } catch (err) {
+      if (err instanceof UniversityValidationError) {
+        showErrors(err.errors);
+        return;
+      }
+      if (err instanceof DuplicateUniversityError) {
+        // Someone else added a match since the directory was loaded; show it in the warning.
+        await loadUniversities();
+      }
       setStatus({
         type: 'error',
-        message: err instanceof Error ? err.message : 'Unable to save university.'
+        message: errorMessage(err, 'admin.saveFailed')
       });
     } finally {
       setIsSaving(false);
@@ -313,14 +849,32 @@ const AdminPage = () => {
     <section className="card">
       <header className="form-header">
         <div>
-          <p className="eyebrow">Admin console</p>
+          <p className="eyebrow">{t('admin.eyebrow')}</p>
           <h2>{selectedUniversityName}</h2>
         </div>
         <div className="form-controls">
+          <Link to="/admin/import" className="button-secondary">
+            {t('admin.bulkImport')}
+          </Link>
+          {auth.can('university:delete') && (
+            <Link to="/admin/merge" className="button-secondary">
+              {t('admin.mergeDuplicates')}
+            </Link>
+          )}
+          {auth.can('university:delete') && (
+            <Link to="/admin/trash" className="button-secondary">
+              {t('admin.trash')}
+            </Link>
+          )}
+          {auth.can('users:manage') && (
+            <Link to="/admin/users" className="button-secondary">
+              {t('admin.users')}
+            </Link>
+          )}
           <label>
-            Load record
+            {t('admin.loadRecord')}
             <select value={selectedId} onChange={(e) => handleSelectChange(e.target.value)}>
-              <option value="new">+ Add new university</option>
+              <option value="new">{t('admin.addNew')}</option>
               {universities.map((uni) => (
                 <option key={uni.id} value={uni.id}>
                   {uni.name}
@@ -331,6 +885,20 @@ const AdminPage = () => {
         </div>
       </header>
 
+      {quarantined.map((record) => (
+        <div key={record.id} className="status-banner warning">
+          <p>
+            {t('admin.quarantined', {
+              reason: record.reason,
+              date: formatDateTime(record.quarantinedAt)
+            })}
+          </p>
+          <button type="button" className="link" onClick={() => dismissQuarantine(record.id)}>
+            {t('common.dismiss')}
+          </button>
+        </div>
+      ))}
+
       <form className="admin-form" onSubmit={handleSubmit}>
         {status && (
           <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
@@ -338,93 +906,350 @@ const AdminPage = () => {
           </div>
         )}
 
+        {remoteEdit && (
+          <div className="status-banner warning draft-banner">
+            <p>
+              {t(
+                !remoteEdit.record
+                  ? 'admin.remoteTrashed'
+                  : remoteEdit.applied
+                    ? 'admin.remoteApplied'
+                    : 'admin.remoteConflict',
+                {
+                  name: selectedUniversityName,
+                  actor: remoteEdit.actor,
+                  time: formatDateTime(remoteEdit.at)
+                }
+              )}
+            </p>
+            {remoteEdit.changes.length > 0 && (
+              <div className="table-like diff-table">
+                <header>
+                  <span>{t('diff.field')}</span>
+                  <span>{t('diff.before')}</span>
+                  <span>{t('diff.nowSaved')}</span>
+                </header>
+                {remoteEdit.changes.map((change) => (
+                  <div key={change.field} className="row">
+                    <span>{change.field}</span>
+                    <span className="diff-before">{describeValue(change.before)}</span>
+                    <span className="diff-after">{describeValue(change.after)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="editor-actions">
+              {remoteEdit.record && !remoteEdit.applied ? (
+                <>
+                  <button
+                    type="button"
+                    className="button-primary"
+                    onClick={loadRemoteVersion}
+                  >
+                    {t('admin.loadSaved')}
+                  </button>
+                  <button type="button" className="link" onClick={keepEditsOverRemote}>
+                    {t('admin.keepEdits')}
+                  </button>
+                </>
+              ) : (
+                <button type="button" className="link" onClick={() => setRemoteEdit(null)}>
+                  {t('common.dismiss')}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {pendingDraft && (
+          <div className="status-banner warning draft-banner">
+            <p>
+              {t('admin.draftFound', {
+                name: selectedUniversityName,
+                time: formatDateTime(pendingDraft.savedAt)
+              })}
+              {savedRecord &&
+                diffUniversities(pendingDraft.base ?? undefined, savedRecord).length > 0 &&
+                ` ${t('admin.draftStale')}`}
+            </p>
+            <div className="table-like diff-table">
+              <header>
+                <span>{t('diff.field')}</span>
+                <span>{t('diff.saved')}</span>
+                <span>{t('diff.draft')}</span>
+              </header>
+              {diffUniversities(baseline, pendingDraft.form).map((change) => (
+                <div key={change.field} className="row">
+                  <span>{change.field}</span>
+                  <span className="diff-before">{describeValue(change.before)}</span>
+                  <span className="diff-after">{describeValue(change.after)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="editor-actions">
+              <button type="button" className="button-primary" onClick={resumeDraft}>
+                {t('admin.resumeDraft')}
+              </button>
+              <button type="button" className="link danger" onClick={discardPendingDraft}>
+                {t('admin.discardDraft')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {duplicates.length > 0 && (
+          <div className="status-banner warning duplicate-banner">
+            <p>
+              {selectedId === 'new'
+                ? t('admin.duplicateOfNew')
+                : t('admin.duplicateOfExisting')}
+            </p>
+            <ul className="issue-list">
+              {duplicates.map((match) => (
+                <li key={match.university.id}>
+                  <strong>{match.university.name}</strong> ({match.reasons.join('; ')}){' '}
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => openDuplicate(match.university)}
+                  >
+                    {t('admin.open')}
+                  </button>
+                  {selectedId !== 'new' && auth.can('university:delete') && (
+                    <>
+                      {' · '}
+                      <Link
+                        to={`/admin/merge?keep=${match.university.id}&merge=${selectedId}`}
+                        className="link"
+                      >
+                        {t('admin.mergeInto')}
+                      </Link>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid">
           <label>
-            University name
+            {t('admin.name')}
             <input
               value={formState.name}
               onChange={(event) => updateForm({ name: event.target.value })}
-              placeholder="e.g., Stanford University"
+              placeholder={t('admin.namePlaceholder')}
+              aria-invalid={Boolean(fieldErrors.name)}
               required
             />
+            <FieldErrorText message={fieldErrors.name} />
           </label>
 
           <label>
-            Portal link
+            {t('admin.portal')}
             <input
               value={formState.portalUrl}
               onChange={(event) => updateForm({ portalUrl: event.target.value })}
               placeholder="https://"
+              aria-invalid={Boolean(fieldErrors.portalUrl)}
               required
             />
+            <FieldErrorText message={fieldErrors.portalUrl} />
           </label>
 
           <label>
-            Location
-            <input
-              value={formState.location}
-              onChange={(event) => updateForm({ location: event.target.value })}
-              placeholder="City, Country"
+            {t('common.country')}
+            <select
+              value={formState.location.country}
+              onChange={(event) => updateLocation({ country: event.target.value })}
+              aria-invalid={Boolean(fieldErrors['location.country'])}
               required
+            >
+              <option value="">{t('admin.chooseCountry')}</option>
+              {formState.location.country && !isCountryCode(formState.location.country) && (
+                <option value={formState.location.country}>{formState.location.country}</option>
+              )}
+              {countryOptions.map((country) => (
+                <option key={country.code} value={country.code}>
+                  {countryName(country.code, locale)}
+                </option>
+              ))}
+            </select>
+            <FieldErrorText message={fieldErrors['location.country']} />
+          </label>
+
+          <label>
+            {t('common.region')}
+            <input
+              value={formState.location.region ?? ''}
+              onChange={(event) => updateLocation({ region: event.target.value })}
+              placeholder={t('admin.regionPlaceholder')}
+              list="admin-region-options"
+              aria-invalid={Boolean(fieldErrors['location.region'])}
+            />
+            <datalist id="admin-region-options">
+              {regionOptions.map((region) => (
+                <option key={region} value={region} />
+              ))}
+            </datalist>
+            <FieldErrorText message={fieldErrors['location.region']} />
+          </label>
+
+          <label>
+            {t('admin.city')}
+            <input
+              value={formState.location.city ?? ''}
+              onChange={(event) => updateLocation({ city: event.target.value })}
+              placeholder={t('admin.cityPlaceholder')}
+              aria-invalid={Boolean(fieldErrors['location.city'])}
             />
+            <FieldErrorText message={fieldErrors['location.city']} />
           </label>
 
           <label>
-            Application fee (USD)
+            {t('admin.feeCurrency')}
+            <select
+              value={formState.fees.currency}
+              onChange={(event) => {
+                clearFieldError('fees.currency');
+                updateForm({ fees: { ...formState.fees, currency: event.target.value } });
+              }}
+              aria-invalid={Boolean(fieldErrors['fees.currency'])}
+            >
+              {supportedCurrencies.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+            <FieldErrorText message={fieldErrors['fees.currency']} />
+          </label>
+
+          <label>
+            {t('admin.applicationFee', { currency: feeCurrency('application') })}
             <input
               type="number"
               min={0}
               value={formState.fees.application}
-              onChange={(event) =>
+              onChange={(event) => {
+                clearFieldError('fees.application');
                 updateForm({
                   fees: {
                     ...formState.fees,
                     application: Number(event.target.value)
                   }
-                })
-              }
+                });
+              }}
+              aria-invalid={Boolean(fieldErrors['fees.application'])}
             />
+            <FieldErrorText message={fieldErrors['fees.application']} />
           </label>
+          {renderFeeCurrency('application')}
         </div>
 
+        {formState.locationNote && (
+          <p className="review-note">
+            {t('admin.locationNote', { text: formState.locationNote })}{' '}
+            <button type="button" className="link" onClick={resolveLocationNote}>
+              {t('admin.markReviewed')}
+            </button>
+          </p>
+        )}
+
         <label>
-          Overview
+          {t('admin.overview')}
           <textarea
             value={formState.overview}
             onChange={(event) => updateForm({ overview: event.target.value })}
-            placeholder="What makes this university unique for Manara Scholars?"
+            placeholder={t('admin.overviewPlaceholder')}
+          />
+          <FieldErrorText message={fieldErrors.overview} />
+        </label>
+
+        <label>
+          {t('admin.overviewArabic')}
+          <textarea
+            dir="rtl"
+            lang="ar"
+            value={formState.overviewTranslations?.ar ?? ''}
+            onChange={(event) =>
+              updateForm({
+                overviewTranslations: { ...formState.overviewTranslations, ar: event.target.value }
+              })
+            }
+            placeholder={t('admin.overviewArabicPlaceholder')}
           />
+          <FieldErrorText message={fieldErrors['overviewTranslations.ar']} />
         </label>
 
         <section>
-          <h3>Restricted countries</h3>
-          <p className="muted">
-            List any countries whose citizens are not eligible to apply. This will show as warning
-            tags on the directory and detail pages.
-          </p>
+          <h3>{t('detail.campuses')}</h3>
+          <p className="muted">{t('admin.campusesHint')}</p>
+          {(formState.location.campuses ?? []).map((campus, index) => (
+            <div key={`campus-${index}`} className="inline-card">
+              <div className="inline-card-grid">
+                <label>
+                  {t('common.name')}
+                  <input
+                    value={campus.name}
+                    onChange={(event) => handleCampusChange(index, 'name', event.target.value)}
+                    placeholder={t('admin.campusNamePlaceholder')}
+                    aria-invalid={Boolean(fieldErrors[`location.campuses.${index}.name`])}
+                  />
+                  <FieldErrorText message={fieldErrors[`location.campuses.${index}.name`]} />
+                </label>
+                <label>
+                  {t('admin.city')}
+                  <input
+                    value={campus.city ?? ''}
+                    onChange={(event) => handleCampusChange(index, 'city', event.target.value)}
+                    placeholder={t('admin.campusCityPlaceholder')}
+                    aria-invalid={Boolean(fieldErrors[`location.campuses.${index}.city`])}
+                  />
+                  <FieldErrorText message={fieldErrors[`location.campuses.${index}.city`]} />
+                </label>
+              </div>
+              <button type="button" className="link danger" onClick={() => removeCampus(index)}>
+                {t('admin.removeCampus')}
+              </button>
+            </div>
+          ))}
+          <button type="button" className="button-secondary" onClick={addCampus}>
+            {t('admin.addCampus')}
+          </button>
+        </section>
+
+        <section>
+          <h3>{t('common.restrictedCountries')}</h3>
+          <p className="muted">{t('admin.restrictedHint')}</p>
+          <FieldErrorText message={fieldErrors.restrictedCountries} />
           <div className="restricted-input">
-            <input
-              value={restrictedInput}
-              onChange={(event) => setRestrictedInput(event.target.value)}
-              placeholder="e.g., Iran"
-              onKeyDown={(event) => {
-                if (event.key === 'Enter') {
-                  event.preventDefault();
-                  addRestrictedCountry();
-                }
-              }}
+            <CountryPicker
+              selected={formState.restrictedCountries ?? []}
+              onSelect={addRestrictedCountry}
+              placeholder={t('admin.restrictedPlaceholder')}
+              invalid={Boolean(fieldErrors.restrictedCountries)}
             />
-            <button type="button" className="button-secondary" onClick={addRestrictedCountry}>
-              Add
-            </button>
           </div>
+          {(formState.unmatchedRestrictedCountries ?? []).map((entry, index) => (
+            <p key={`${entry}-${index}`} className="review-note">
+              {t('admin.unmatchedCountry', { entry })}{' '}
+              <button
+                type="button"
+                className="link"
+                onClick={() => resolveUnmatchedCountry(index)}
+              >
+                {t('admin.markResolved')}
+              </button>
+            </p>
+          ))}
           {(formState.restrictedCountries ?? []).length === 0 ? (
-            <p className="muted">No restrictions captured.</p>
+            <p className="muted">{t('admin.noRestrictions')}</p>
           ) : (
             <div className="pill-row">
-              {formState.restrictedCountries?.map((country, index) => (
-                <span key={`${country}-${index}`} className="pill removable">
-                  {country}
+              {formState.restrictedCountries?.map((code, index) => (
+                <span key={`${code}-${index}`} className="pill removable">
+                  {countryName(code)} ({code})
                   <button type="button" onClick={() => removeRestrictedCountry(index)}>
                     ×
                   </button>
@@ -435,131 +1260,237 @@ const AdminPage = () => {
         </section>
 
         <section>
-          <h3>Average tuition by degree</h3>
+          <h3>{t('admin.tuitionByDegree')}</h3>
           <div className="grid grid-3">
             {degreeLevels.map((level) => (
-              <label key={level}>
-                {degreeLabels[level]}
-                <input
-                  type="number"
-                  min={0}
-                  value={formState.fees.averageTuition?.[level] ?? ''}
-                  onChange={(event) => {
-                    const value = event.target.value;
-                    setFormState((prev) => ({
-                      ...prev,
-                      fees: {
-                        ...prev.fees,
-                        averageTuition: {
-                          ...prev.fees.averageTuition,
-                          [level]: value === '' ? undefined : Number(value)
+              <div key={level} className="fee-field">
+                <label>
+                  {t('admin.tuitionIn', {
+                    level: t(`degree.${level}`),
+                    currency: feeCurrency(level)
+                  })}
+                  <input
+                    type="number"
+                    min={0}
+                    value={formState.fees.averageTuition?.[level] ?? ''}
+                    aria-invalid={Boolean(fieldErrors[`fees.averageTuition.${level}`])}
+                    onChange={(event) => {
+                      const value = event.target.value;
+                      clearFieldError(`fees.averageTuition.${level}`);
+                      setFormState((prev) => ({
+                        ...prev,
+                        fees: {
+                          ...prev.fees,
+                          averageTuition: {
+                            ...prev.fees.averageTuition,
+                            [level]: value === '' ? undefined : Number(value)
+                          }
                         }
-                      }
-                    }));
-                  }}
-                />
-              </label>
+                      }));
+                    }}
+                  />
+                  <FieldErrorText message={fieldErrors[`fees.averageTuition.${level}`]} />
+                </label>
+                {renderFeeCurrency(level)}
+              </div>
             ))}
           </div>
         </section>
 
         <section>
-          <h3>Programs & scholarships</h3>
-          <p className="muted">
-            Track every bachelor, masters, and PhD opportunity offered to Manara Scholars.
-          </p>
+          <h3>{t('admin.programsAndScholarships')}</h3>
+          <p className="muted">{t('admin.programsHint')}</p>
 
           {degreeLevels.map((level) => (
             <div key={level} className="degree-editor">
               <div className="degree-title">
-                <span className="badge">{degreeLabels[level]}</span>
+                <span className="badge">{t(`degree.${level}`)}</span>
                 <div className="editor-actions">
                   <button
                     type="button"
                     className="button-secondary"
                     onClick={() => addProgram(level)}
                   >
-                    + Program
+                    {t('admin.addProgram')}
                   </button>
                   <button
                     type="button"
                     className="button-secondary"
                     onClick={() => addScholarship(level)}
                   >
-                    + Scholarship
+                    {t('admin.addScholarship')}
                   </button>
                 </div>
               </div>
 
               <div className="degree-editor-grid">
                 <div>
-                  <h4>Programs</h4>
+                  <h4>{t('common.programs')}</h4>
                   {formState.programs[level].length === 0 ? (
-                    <p className="muted">No programs yet.</p>
+                    <p className="muted">{t('admin.noPrograms')}</p>
                   ) : (
                     formState.programs[level].map((program, index) => (
                       <div key={`${level}-program-${index}`} className="inline-card">
                         <div className="inline-card-grid">
                           <label>
-                            Name
+                            {t('common.name')}
                             <input
                               value={program.name}
                               onChange={(event) =>
                                 handleProgramChange(level, index, 'name', event.target.value)
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`programs.${level}.${index}.name`]}
+                            />
+                          </label>
+                          <label>
+                            {t('admin.nameArabic')}
+                            <input
+                              dir="rtl"
+                              lang="ar"
+                              value={program.nameTranslations?.ar ?? ''}
+                              onChange={(event) =>
+                                handleNameTranslationChange(
+                                  'programs',
+                                  level,
+                                  index,
+                                  event.target.value
+                                )
+                              }
+                            />
+                            <FieldErrorText
+                              message={
+                                fieldErrors[`programs.${level}.${index}.nameTranslations.ar`]
+                              }
+                            />
                           </label>
                           <label>
-                            Duration
+                            {t('common.duration')}
                             <input
                               value={program.duration}
                               onChange={(event) =>
                                 handleProgramChange(level, index, 'duration', event.target.value)
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`programs.${level}.${index}.duration`]}
+                            />
+                          </label>
+                          <label>
+                            {t('common.delivery')}
+                            <select
+                              value={program.delivery}
+                              onChange={(event) =>
+                                handleProgramChange(level, index, 'delivery', event.target.value)
+                              }
+                            >
+                              <option value="">{t('common.notSpecified')}</option>
+                              {deliveryModes.map((mode) => (
+                                <option key={mode} value={deliveryModeLabels[mode]}>
+                                  {t(`delivery.${mode}`)}
+                                </option>
+                              ))}
+                              {program.delivery &&
+                                !deliveryModes.some(
+                                  (mode) => deliveryModeLabels[mode] === program.delivery
+                                ) && <option value={program.delivery}>{program.delivery}</option>}
+                            </select>
+                            <FieldErrorText
+                              message={fieldErrors[`programs.${level}.${index}.delivery`]}
+                            />
                           </label>
-                       
                         </div>
-                        <button
-                          type="button"
-                          className="link danger"
-                          onClick={() => removeProgram(level, index)}
-                        >
-                          Remove program
-                        </button>
+                        <ProgramDetailsEditor
+                          program={program}
+                          currency={feeCurrency(level)}
+                          errors={programErrors(level, index)}
+                          onChange={(changes) => handleProgramDetailsChange(level, index, changes)}
+                        />
+                        <div className="editor-actions">
+                          {program.id && selectedId !== 'new' && (
+                            <Link
+                              to={programUrl(selectedId, program.id)}
+                              className="link"
+                              target="_blank"
+                            >
+                              {t('admin.viewProgram')}
+                            </Link>
+                          )}
+                          <button
+                            type="button"
+                            className="link danger"
+                            onClick={() => removeProgram(level, index)}
+                          >
+                            {t('admin.removeProgram')}
+                          </button>
+                        </div>
                       </div>
                     ))
                   )}
                 </div>
 
                 <div>
-                  <h4>Scholarships</h4>
+                  <h4>{t('common.scholarships')}</h4>
                   {formState.scholarships[level].length === 0 ? (
-                    <p className="muted">No scholarships yet.</p>
+                    <p className="muted">{t('admin.noScholarships')}</p>
                   ) : (
                     formState.scholarships[level].map((scholarship, index) => (
                       <div key={`${level}-scholarship-${index}`} className="inline-card">
                         <div className="inline-card-grid">
                           <label>
-                            Name
+                            {t('common.name')}
                             <input
                               value={scholarship.name}
                               onChange={(event) =>
                                 handleScholarshipChange(level, index, 'name', event.target.value)
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`scholarships.${level}.${index}.name`]}
+                            />
+                          </label>
+                          <label>
+                            {t('admin.nameArabic')}
+                            <input
+                              dir="rtl"
+                              lang="ar"
+                              value={scholarship.nameTranslations?.ar ?? ''}
+                              onChange={(event) =>
+                                handleNameTranslationChange(
+                                  'scholarships',
+                                  level,
+                                  index,
+                                  event.target.value
+                                )
+                              }
+                            />
+                            <FieldErrorText
+                              message={
+                                fieldErrors[`scholarships.${level}.${index}.nameTranslations.ar`]
+                              }
+                            />
                           </label>
                           <label>
-                            Amount
+                            {t('admin.fundingNote')}
                             <input
-                              value={scholarship.amount}
+                              value={scholarship.fundingNote ?? ''}
+                              placeholder={t('admin.fundingNotePlaceholder')}
                               onChange={(event) =>
-                                handleScholarshipChange(level, index, 'amount', event.target.value)
+                                handleScholarshipChange(
+                                  level,
+                                  index,
+                                  'fundingNote',
+                                  event.target.value
+                                )
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`scholarships.${level}.${index}.fundingNote`]}
+                            />
                           </label>
                           <label>
-                            Eligibility
+                            {t('admin.eligibility')}
                             <input
                               value={scholarship.eligibility}
                               onChange={(event) =>
@@ -571,23 +1502,63 @@ const AdminPage = () => {
                                 )
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`scholarships.${level}.${index}.eligibility`]}
+                            />
                           </label>
                           <label>
-                            Deadline
+                            {t('admin.deadline')}
                             <input
                               value={scholarship.deadline}
+                              placeholder={t('admin.deadlinePlaceholder')}
                               onChange={(event) =>
                                 handleScholarshipChange(level, index, 'deadline', event.target.value)
                               }
                             />
+                            <FieldErrorText
+                              message={fieldErrors[`scholarships.${level}.${index}.deadline`]}
+                            />
                           </label>
                         </div>
+                        {scholarship.deadlineNote && (
+                          <p className="review-note">
+                            {t('admin.deadlineReview', { text: scholarship.deadlineNote })}{' '}
+                            <button
+                              type="button"
+                              className="link"
+                              onClick={() => resolveDeadlineNote(level, index)}
+                            >
+                              {t('admin.markReviewed')}
+                            </button>
+                          </p>
+                        )}
+                        <FundingEditor
+                          funding={scholarship.funding}
+                          errors={fundingErrors(level, index)}
+                          onChange={(funding) => handleFundingChange(level, index, funding)}
+                        />
+                        {scholarship.fundingNeedsReview && (
+                          <p className="review-note">
+                            {t('admin.fundingReview', {
+                              text: scholarship.fundingNote || t('admin.blank')
+                            })}{' '}
+                            <button
+                              type="button"
+                              className="link"
+                              onClick={() =>
+                                handleFundingChange(level, index, scholarship.funding)
+                              }
+                            >
+                              {t('admin.markReviewed')}
+                            </button>
+                          </p>
+                        )}
                         <button
                           type="button"
                           className="link danger"
                           onClick={() => removeScholarship(level, index)}
                         >
-                          Remove scholarship
+                          {t('admin.removeScholarship')}
                         </button>
                       </div>
                     ))
@@ -599,15 +1570,37 @@ const AdminPage = () => {
         </section>
 
         <div className="form-actions">
+          {isDirty && (
+            <>
+              <span className="muted">{t('admin.unsaved')}</span>
+              <button type="button" className="button-secondary" onClick={discardChanges}>
+                {t('admin.discardChanges')}
+              </button>
+            </>
+          )}
           <button type="submit" className="button-primary" disabled={isSaving}>
             {isSaving
-              ? 'Saving…'
+              ? t('admin.saving')
               : selectedId === 'new'
-                ? 'Add university'
-                : 'Update university'}
+                ? t('admin.add')
+                : t('admin.update')}
           </button>
         </div>
       </form>
+
+      {selectedId !== 'new' && (
+        <HistoryPanel
+          universityId={selectedId}
+          refreshToken={universities}
+          onRestored={async (restored) => {
+            await loadUniversities();
+            setFormState(toEditable(restored));
+            setBaseline(toEditable(restored));
+            setFieldErrors({});
+            setStatus({ type: 'success', message: t('admin.versionRestored') });
+          }}
+        />
+      )}
     </section>
   );
 };
@@ -0,0 +1,461 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { DragEvent, FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { applicationStatuses } from '../types/application';
+import type { Application, ApplicationStatus, Student } from '../types/application';
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University } from '../types/university';
+import {
+  createApplication,
+  createStudent,
+  deleteApplication,
+  listApplications,
+  listStudents,
+  moveApplication,
+  updateApplication
+} from '../services/applicationService';
+import { getUniversities } from '../services/universityService';
+import { countryName, sortedCountries } from '../services/countries';
+import { findProgram, programUrl } from '../services/programs';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const emptyStudent = { name: '', email: '', nationality: '' };
+
+const emptyApplication = {
+  studentId: '',
+  universityId: '',
+  level: 'bachelor' as DegreeLevel,
+  programId: '',
+  status: 'shortlisted' as ApplicationStatus,
+  deadline: '',
+  notes: ''
+};
+
+// Card ids travel through drag and drop under this type so other drops are ignored.
+const DRAG_TYPE = 'application/x-manara-application';
+
+function ApplicationsPage() {
+  const { t, locale, formatDate } = useI18n();
+  const [searchParams] = useSearchParams();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [studentFilter, setStudentFilter] = useState('');
+  const [studentDraft, setStudentDraft] = useState(emptyStudent);
+  const [applicationDraft, setApplicationDraft] = useState(() => ({
+    ...emptyApplication,
+    universityId: searchParams.get('university') ?? ''
+  }));
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+
+  const loadBoard = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [nextApplications, nextStudents, nextUniversities] = await Promise.all([
+        listApplications(),
+        listStudents(),
+        // Applications can outlive a university moving to the trash; keep their names.
+        getUniversities({ includeDeleted: true })
+      ]);
+      setApplications(nextApplications);
+      setStudents(nextStudents);
+      setUniversities(nextUniversities);
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'applications.loadFailed')
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const studentsById = useMemo(
+    () => new Map(students.map((student) => [student.id, student])),
+    [students]
+  );
+  const universitiesById = useMemo(
+    () => new Map(universities.map((university) => [university.id, university])),
+    [universities]
+  );
+  const countryOptions = useMemo(() => sortedCountries(locale), [locale]);
+
+  const columns = useMemo(() => {
+    const visible = applications.filter(
+      (application) => !studentFilter || application.studentId === studentFilter
+    );
+    return applicationStatuses.map((stage) => ({
+      stage,
+      items: visible.filter((application) => application.status === stage)
+    }));
+  }, [applications, studentFilter]);
+
+  const draftUniversity = universitiesById.get(applicationDraft.universityId);
+  const draftPrograms = draftUniversity?.programs?.[applicationDraft.level] ?? [];
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      setStatus(success ? { type: 'success', message: success } : null);
+      await loadBoard();
+      return true;
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'applications.updateFailed')
+      });
+      return false;
+    }
+  };
+
+  const describe = (application: Application) => {
+    const student = studentsById.get(application.studentId)?.name ?? t('detail.unknownStudent');
+    const university =
+      universitiesById.get(application.universityId)?.name ?? t('applications.unknownUniversity');
+    return t('applications.describe', { student, university });
+  };
+
+  const handleMove = (application: Application, stage: ApplicationStatus) => {
+    if (application.status === stage) return;
+    // Move the card straight away so the board does not lag behind the drop.
+    setApplications((prev) =>
+      prev.map((item) => (item.id === application.id ? { ...item, status: stage } : item))
+    );
+    run(() => moveApplication(application.id, stage));
+  };
+
+  const handleDrop = (event: DragEvent, stage: ApplicationStatus) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const application = applications.find(
+      (item) => item.id === event.dataTransfer.getData(DRAG_TYPE)
+    );
+    if (application) handleMove(application, stage);
+  };
+
+  const handleRemove = (application: Application) => {
+    if (!window.confirm(t('applications.confirmRemove', { application: describe(application) }))) {
+      return;
+    }
+    run(() => deleteApplication(application.id), t('applications.removed'));
+  };
+
+  const handleAddStudent = async (event: FormEvent) => {
+    event.preventDefault();
+    const added = await run(
+      () => createStudent(studentDraft),
+      t('applications.studentAdded', { name: studentDraft.name.trim() })
+    );
+    if (added) setStudentDraft(emptyStudent);
+  };
+
+  const handleAddApplication = async (event: FormEvent) => {
+    event.preventDefault();
+    const added = await run(
+      () => createApplication(applicationDraft),
+      t('applications.added')
+    );
+    if (added) {
+      setApplicationDraft((prev) => ({ ...emptyApplication, studentId: prev.studentId }));
+    }
+  };
+
+  const updateApplicationDraft = (changes: Partial<typeof emptyApplication>) =>
+    setApplicationDraft((prev) => ({
+      ...prev,
+      ...changes,
+      // A program only makes sense for the university and level it was picked for.
+      ...((changes.universityId !== undefined || changes.level !== undefined) && {
+        programId: ''
+      })
+    }));
+
+  const renderCard = (application: Application) => {
+    const university = universitiesById.get(application.universityId);
+    const student = studentsById.get(application.studentId);
+    const program =
+      university && application.programId
+        ? findProgram(university, application.programId)?.program
+        : undefined;
+    const since = application.statusDates[application.status];
+    return (
+      <article
+        key={application.id}
+        className="kanban-card"
+        draggable
+        onDragStart={(event) => {
+          event.dataTransfer.setData(DRAG_TYPE, application.id);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+      >
+        <strong>{student?.name ?? t('detail.unknownStudent')}</strong>
+        {university ? (
+          <Link to={`/universities/${university.id}`} className="link">
+            {university.name}
+          </Link>
+        ) : (
+          <span className="muted">{t('applications.universityGone')}</span>
+        )}
+        <span>
+          <span className="badge">{t(`degree.${application.level}`)}</span>{' '}
+          {program && university ? (
+            <Link to={programUrl(university.id, program.id)} className="link">
+              {program.name}
+            </Link>
+          ) : (
+            <span className="muted">{t('applications.noProgram')}</span>
+          )}
+        </span>
+        {since && (
+          <span className="muted">{t('applications.since', { date: formatDate(since) })}</span>
+        )}
+        <label>
+          {t('applications.deadline')}
+          <input
+            type="date"
+            value={application.deadline ?? ''}
+            onChange={(event) =>
+              run(() => updateApplication(application.id, { deadline: event.target.value }))
+            }
+          />
+        </label>
+        {application.notes && <p className="muted">{application.notes}</p>}
+        <div className="editor-actions">
+          <select
+            aria-label={t('applications.stageFor', { application: describe(application) })}
+            value={application.status}
+            onChange={(event) => handleMove(application, event.target.value as ApplicationStatus)}
+          >
+            {applicationStatuses.map((stage) => (
+              <option key={stage} value={stage}>
+                {t(`application.status.${stage}`)}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="link danger" onClick={() => handleRemove(application)}>
+            {t('applications.remove')}
+          </button>
+        </div>
+      </article>
+    );
+  };
+
+  return (
+    <section className="card">
+      <header className="form-header">
+        <div>
+          <p className="eyebrow">{t('applications.eyebrow')}</p>
+          <h2>{t('applications.title')}</h2>
+        </div>
+        <div className="form-controls">
+          <label>
+            {t('applications.student')}
+            <select
+              value={studentFilter}
+              onChange={(event) => setStudentFilter(event.target.value)}
+            >
+              <option value="">{t('applications.allStudents')}</option>
+              {students.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </header>
+
+      <div className="admin-form">
+        {status && (
+          <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
+            {status.message}
+          </div>
+        )}
+
+        <p className="muted">{t('applications.hint')}</p>
+
+        {isLoading && applications.length === 0 ? (
+          <p className="muted">{t('applications.loading')}</p>
+        ) : (
+          <div className="kanban-board">
+            {columns.map(({ stage, items }) => (
+              <div
+                key={stage}
+                className={`kanban-column${dropTarget === stage ? ' drop-target' : ''}`}
+                onDragOver={(event) => {
+                  if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+                  event.preventDefault();
+                  setDropTarget(stage);
+                }}
+                onDragLeave={() => setDropTarget((prev) => (prev === stage ? null : prev))}
+                onDrop={(event) => handleDrop(event, stage)}
+              >
+                <h3>
+                  {t(`application.status.${stage}`)} <span className="muted">{items.length}</span>
+                </h3>
+                {items.map(renderCard)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="inline-card-grid">
+          <form className="inline-card" onSubmit={handleAddStudent}>
+            <h4>{t('applications.addStudentTitle')}</h4>
+            <label>
+              {t('applications.name')}
+              <input
+                value={studentDraft.name}
+                onChange={(event) =>
+                  setStudentDraft((prev) => ({ ...prev, name: event.target.value }))
+                }
+              />
+            </label>
+            <label>
+              {t('applications.email')}
+              <input
+                type="email"
+                value={studentDraft.email}
+                onChange={(event) =>
+                  setStudentDraft((prev) => ({ ...prev, email: event.target.value }))
+                }
+              />
+            </label>
+            <label>
+              {t('applications.nationality')}
+              <select
+                value={studentDraft.nationality}
+                onChange={(event) =>
+                  setStudentDraft((prev) => ({ ...prev, nationality: event.target.value }))
+                }
+              >
+                <option value="">{t('common.notSpecified')}</option>
+                {countryOptions.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {countryName(country.code, locale)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="submit" className="button-secondary">
+              {t('applications.addStudent')}
+            </button>
+          </form>
+
+          <form className="inline-card" onSubmit={handleAddApplication}>
+            <h4>{t('applications.addApplicationTitle')}</h4>
+            <label>
+              {t('applications.student')}
+              <select
+                value={applicationDraft.studentId}
+                onChange={(event) => updateApplicationDraft({ studentId: event.target.value })}
+              >
+                <option value="">{t('applications.chooseStudent')}</option>
+                {students.map((student) => (
+                  <option key={student.id} value={student.id}>
+                    {student.name}
+                    {student.nationality ? ` (${countryName(student.nationality, locale)})` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('applications.university')}
+              <select
+                value={applicationDraft.universityId}
+                onChange={(event) => updateApplicationDraft({ universityId: event.target.value })}
+              >
+                <option value="">{t('applications.chooseUniversity')}</option>
+                {universities
+                  .filter((university) => !university.deletedAt)
+                  .map((university) => (
+                    <option key={university.id} value={university.id}>
+                      {university.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label>
+              {t('common.degreeLevel')}
+              <select
+                value={applicationDraft.level}
+                onChange={(event) =>
+                  updateApplicationDraft({ level: event.target.value as DegreeLevel })
+                }
+              >
+                {degreeLevels.map((level) => (
+                  <option key={level} value={level}>
+                    {t(`degree.${level}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('applications.program')}
+              <select
+                value={applicationDraft.programId}
+                disabled={draftPrograms.length === 0}
+                onChange={(event) => updateApplicationDraft({ programId: event.target.value })}
+              >
+                <option value="">{t('applications.undecided')}</option>
+                {draftPrograms.map((program) => (
+                  <option key={program.id} value={program.id}>
+                    {program.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('applications.stage')}
+              <select
+                value={applicationDraft.status}
+                onChange={(event) =>
+                  updateApplicationDraft({ status: event.target.value as ApplicationStatus })
+                }
+              >
+                {applicationStatuses.map((stage) => (
+                  <option key={stage} value={stage}>
+                    {t(`application.status.${stage}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('applications.deadline')}
+              <input
+                type="date"
+                value={applicationDraft.deadline}
+                onChange={(event) => updateApplicationDraft({ deadline: event.target.value })}
+              />
+            </label>
+            <label>
+              {t('applications.notes')}
+              <textarea
+                value={applicationDraft.notes}
+                onChange={(event) => updateApplicationDraft({ notes: event.target.value })}
+              />
+            </label>
+            <button
+              type="submit"
+              className="button-primary"
+              disabled={!applicationDraft.studentId || !applicationDraft.universityId}
+            >
+              {t('applications.addApplication')}
+            </button>
+          </form>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default ApplicationsPage;
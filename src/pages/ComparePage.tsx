@@ -0,0 +1,291 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import type { DegreeLevel, University } from '../types/university';
+import {
+  bestIndices,
+  comparedLevels,
+  compareUrl,
+  countAt,
+  getComparison,
+  parseCompareIds,
+  tuitionAt,
+  valuesDiffer
+} from '../services/compareService';
+import { feeAmount, feeInBase, formatMoney } from '../services/currency';
+import type { FeeKind } from '../services/currency';
+import { formatFunding } from '../services/funding';
+import { formatDeadline } from '../services/deadlineService';
+import { countryName } from '../services/countries';
+import { describeDelivery } from '../services/directoryFilters';
+import { formatLocation } from '../services/locations';
+import { errorMessage, formatList, localize, t, tp } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import Money from '../components/Money';
+
+interface CompareRow {
+  label: string;
+  cells: ReactNode[];
+  /** Plain-text form of each cell, used to spot rows where the universities differ. */
+  text: string[];
+  best?: number[];
+}
+
+// Cells show the display currency; differences are judged on the amounts as charged.
+const feeCells = (universities: University[], kind: FeeKind) => {
+  const amounts = universities.map((uni) => feeAmount(uni, kind));
+  return {
+    cells: amounts.map((amount, index) => <Money key={index} value={amount} />),
+    text: amounts.map((amount) => (amount ? formatMoney(amount) : '—'))
+  };
+};
+
+const buildRows = (universities: University[], level?: DegreeLevel): CompareRow[] => {
+  if (!level) {
+    const fees = universities.map((uni) => feeInBase(uni, 'application'));
+    const restrictions = universities.map((uni) =>
+      (uni.restrictedCountries ?? []).map((code) => countryName(code))
+    );
+    return [
+      {
+        label: t('common.location'),
+        cells: universities.map((uni) => formatLocation(uni.location)),
+        text: universities.map((uni) => formatLocation(uni.location))
+      },
+      {
+        label: t('common.applicationFee'),
+        ...feeCells(universities, 'application'),
+        best: bestIndices(fees, 'lowest')
+      },
+      {
+        label: t('common.restrictedCountries'),
+        cells: restrictions.map((list) => (list.length > 0 ? formatList(list) : t('common.none'))),
+        text: restrictions.map((list) => [...list].sort().join(',')),
+        best: bestIndices(restrictions.map((list) => list.length), 'lowest')
+      }
+    ];
+  }
+
+  const tuition = universities.map((uni) => tuitionAt(uni, level));
+  const programCounts = universities.map((uni) => countAt(uni, 'programs', level));
+  const scholarshipCounts = universities.map((uni) => countAt(uni, 'scholarships', level));
+  return [
+    {
+      label: t('common.averageTuition'),
+      ...feeCells(universities, level),
+      best: bestIndices(tuition, 'lowest')
+    },
+    {
+      label: t('common.programs'),
+      cells: universities.map((uni) =>
+        (uni.programs?.[level] ?? []).length === 0 ? (
+          <span className="muted">{t('common.noneListed')}</span>
+        ) : (
+          <ul className="compare-list">
+            {uni.programs[level].map((program, index) => (
+              <li key={`${program.name}-${index}`}>
+                <strong>{localize(program.name, program.nameTranslations)}</strong>
+                <span className="muted">
+                  {[program.duration, program.delivery && describeDelivery(program.delivery)]
+                    .filter(Boolean)
+                    .join(' · ') || t('common.notAvailable')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )
+      ),
+      text: universities.map((uni) =>
+        (uni.programs?.[level] ?? [])
+          .map((program) => `${program.name}|${program.duration}|${program.delivery}`)
+          .join(';')
+      ),
+      best: bestIndices(programCounts, 'highest')
+    },
+    {
+      label: t('common.scholarships'),
+      cells: universities.map((uni) =>
+        (uni.scholarships?.[level] ?? []).length === 0 ? (
+          <span className="muted">{t('common.noneListed')}</span>
+        ) : (
+          <ul className="compare-list">
+            {uni.scholarships[level].map((scholarship, index) => (
+              <li key={`${scholarship.name}-${index}`}>
+                <strong>{localize(scholarship.name, scholarship.nameTranslations)}</strong>
+                <span>{formatFunding(scholarship.funding)}</span>
+                <span className="muted">
+                  {t('common.deadline', { date: formatDeadline(scholarship) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )
+      ),
+      text: universities.map((uni) =>
+        (uni.scholarships?.[level] ?? [])
+          .map((scholarship) => `${scholarship.name}|${formatFunding(scholarship.funding)}`)
+          .join(';')
+      ),
+      best: bestIndices(scholarshipCounts, 'highest')
+    }
+  ];
+};
+
+function ComparePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const idsKey = parseCompareIds(searchParams).join(',');
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const { locale } = useI18n();
+
+  useEffect(() => {
+    let keep = true;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await getComparison(idsKey ? idsKey.split(',') : []);
+        if (!keep) return;
+        setUniversities(data.universities);
+        setMissing(data.missing);
+      } catch (err) {
+        if (!keep) return;
+        setError(errorMessage(err, 'compare.loadFailed'));
+      } finally {
+        if (keep) {
+          setIsLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      keep = false;
+    };
+  }, [idsKey]);
+
+  const sections = useMemo(
+    () => [
+      { title: t('compare.overview'), rows: buildRows(universities) },
+      ...comparedLevels(universities).map((level) => ({
+        title: t('compare.studies', { level: t(`degree.${level}`) }),
+        rows: buildRows(universities, level)
+      }))
+    ],
+    // Row labels and cell text are translated, so they are rebuilt when the language changes.
+    [universities, locale]
+  );
+
+  const removeUniversity = (id: string) =>
+    navigate(compareUrl(universities.map((uni) => uni.id).filter((other) => other !== id)));
+
+  if (isLoading) {
+    return (
+      <section className="card">
+        <p className="muted">{t('compare.loading')}</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="card">
+      <div className="section-heading">
+        <div>
+          <p className="eyebrow">{t('compare.eyebrow')}</p>
+          <h2>
+            {universities.length < 2
+              ? t('compare.pick')
+              : tp('compare.comparing', universities.length)}
+          </h2>
+        </div>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(event) => setOnlyDifferences(event.target.checked)}
+          />
+          {t('compare.onlyDifferences')}
+        </label>
+      </div>
+
+      {error && <p className="error-text">{error}</p>}
+      {missing.length > 0 && (
+        <div className="status-banner warning" role="status">
+          {tp('compare.missing', missing.length)}
+        </div>
+      )}
+
+      {universities.length < 2 ? (
+        <p className="muted">
+          {t('compare.hint')}{' '}
+          <Link to="/" className="link">
+            {t('compare.openDirectory')}
+          </Link>
+        </p>
+      ) : (
+        <div className="compare-scroll">
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <th scope="col" />
+                {universities.map((uni) => (
+                  <th key={uni.id} scope="col">
+                    <Link to={`/universities/${uni.id}`} className="link">
+                      {uni.name}
+                    </Link>
+                    <button
+                      type="button"
+                      className="toast-close"
+                      aria-label={t('compare.remove', { name: uni.name })}
+                      onClick={() => removeUniversity(uni.id)}
+                    >
+                      ×
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sections.map((section) => {
+                const rows = section.rows.filter(
+                  (row) => !onlyDifferences || valuesDiffer(row.text)
+                );
+                if (rows.length === 0) return null;
+                return (
+                  <Fragment key={section.title}>
+                    <tr className="compare-section">
+                      <th scope="colgroup" colSpan={universities.length + 1}>
+                        {section.title}
+                      </th>
+                    </tr>
+                    {rows.map((row) => (
+                      <tr
+                        key={`${section.title}-${row.label}`}
+                        className={valuesDiffer(row.text) ? 'differs' : undefined}
+                      >
+                        <th scope="row">{row.label}</th>
+                        {row.cells.map((cell, index) => (
+                          <td
+                            key={universities[index].id}
+                            className={row.best?.includes(index) ? 'best' : undefined}
+                          >
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default ComparePage;
@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University } from '../types/university';
+import { getUniversities } from '../services/universityService';
+import { formatDeadline, getScholarshipDeadlines, toIcs } from '../services/deadlineService';
+import type { DeadlineFilters, ScholarshipDeadline } from '../services/deadlineService';
+import { downloadFile } from '../services/exportService';
+import { formatFunding } from '../services/funding';
+import { countryName } from '../services/countries';
+import { formatLocation } from '../services/locations';
+import { errorMessage, formatDate, localize } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+// 2023-01-01 was a Sunday, so these are Sunday to Saturday.
+const weekdayDates = Array.from({ length: 7 }, (_, day) => `2023-01-0${day + 1}`);
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+
+/** Calendar cells for a month, padded with nulls so the first day lands on its weekday. */
+const buildMonth = (year: number, month: number) => {
+  const first = new Date(year, month, 1);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array.from({ length: first.getDay() }, () => null);
+  for (let day = 1; day <= daysInMonth; day += 1) {
+    cells.push(toIsoDate(new Date(year, month, day)));
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+  return cells;
+};
+
+const scholarshipName = ({ scholarship }: ScholarshipDeadline) =>
+  localize(scholarship.name, scholarship.nameTranslations);
+
+const DeadlineChip = ({ deadline }: { deadline: ScholarshipDeadline }) => (
+  <Link
+    to={`/universities/${deadline.universityId}`}
+    className="deadline-chip"
+    title={`${scholarshipName(deadline)} · ${deadline.universityName}`}
+  >
+    {scholarshipName(deadline)}
+    <span>{deadline.universityName}</span>
+  </Link>
+);
+
+function DeadlinesPage() {
+  const today = toIsoDate(new Date());
+  const { locale, dir, t, tp, formatNumber } = useI18n();
+  const [filters, setFilters] = useState<DeadlineFilters>({});
+  const [view, setView] = useState<'month' | 'list'>('month');
+  const [cursor, setCursor] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [deadlines, setDeadlines] = useState<ScholarshipDeadline[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getUniversities()
+      .then(setUniversities)
+      .catch(() => setUniversities([]));
+  }, []);
+
+  useEffect(() => {
+    let keep = true;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await getScholarshipDeadlines(filters);
+        if (!keep) return;
+        setDeadlines(data);
+      } catch (err) {
+        if (!keep) return;
+        setError(errorMessage(err, 'deadlines.loadFailed'));
+      } finally {
+        if (keep) {
+          setIsLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      keep = false;
+    };
+  }, [filters]);
+
+  const countryOptions = useMemo(
+    () =>
+      Array.from(new Set(universities.map((uni) => uni.location.country).filter(Boolean)))
+        .map((code) => ({ code, name: countryName(code, locale) }))
+        .sort((a, b) => a.name.localeCompare(b.name, locale)),
+    [universities, locale]
+  );
+
+  const regionOptions = useMemo(
+    () =>
+      Array.from(
+        new Map(
+          universities
+            .filter((uni) => uni.location.country === filters.country)
+            .map((uni) => uni.location.region?.trim() ?? '')
+            .filter(Boolean)
+            .map((region) => [region.toLowerCase(), region] as const)
+        ).values()
+      ).sort((a, b) => a.localeCompare(b, locale)),
+    [universities, filters.country, locale]
+  );
+
+  const byDate = useMemo(() => {
+    const map = new Map<string, ScholarshipDeadline[]>();
+    deadlines.forEach((deadline) => {
+      if (!deadline.date) return;
+      map.set(deadline.date, [...(map.get(deadline.date) ?? []), deadline]);
+    });
+    return map;
+  }, [deadlines]);
+
+  const dated = deadlines.filter((deadline) => deadline.date);
+  const upcoming = dated.filter((deadline) => deadline.date! >= today);
+  const past = dated.filter((deadline) => deadline.date! < today).reverse();
+  const rolling = deadlines.filter((deadline) => !deadline.date);
+
+  const updateFilter = <K extends keyof DeadlineFilters>(key: K, value: DeadlineFilters[K]) => {
+    setFilters((prev) => {
+      const next = { ...prev };
+      if (value === undefined || value === '') {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+  };
+
+  // Regions belong to one country, so picking another country clears the region.
+  const handleCountryChange = (country: string) => {
+    setFilters((prev) => {
+      const next = { ...prev };
+      delete next.region;
+      if (country) {
+        next.country = country;
+      } else {
+        delete next.country;
+      }
+      return next;
+    });
+  };
+
+  const shiftMonth = (delta: number) =>
+    setCursor(({ year, month }) => {
+      const date = new Date(year, month + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+
+  const handleExport = () => {
+    const university = universities.find((uni) => uni.id === filters.universityId);
+    const slug = university ? university.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') : 'all';
+    downloadFile(`manara-deadlines-${slug}.ics`, toIcs(deadlines), 'text/calendar;charset=utf-8');
+  };
+
+  const renderListItem = (deadline: ScholarshipDeadline) => (
+    <div key={deadline.id} className="row">
+      <span>{formatDeadline(deadline.scholarship)}</span>
+      <span>
+        <strong>{scholarshipName(deadline)}</strong>
+        <br />
+        <Link to={`/universities/${deadline.universityId}`} className="link">
+          {deadline.universityName}
+        </Link>{' '}
+        <span className="muted">· {formatLocation(deadline.location)}</span>
+      </span>
+      <span>
+        <span className="badge">{t(`degree.${deadline.level}`)}</span>{' '}
+        {formatFunding(deadline.scholarship.funding)}
+      </span>
+    </div>
+  );
+
+  const monthLabel = formatDate(toIsoDate(new Date(cursor.year, cursor.month, 1)), {
+    month: 'long',
+    year: 'numeric'
+  });
+  // The month header is mirrored right-to-left, so "previous" sits on the right.
+  const [previousArrow, nextArrow] = dir === 'rtl' ? ['→', '←'] : ['←', '→'];
+
+  return (
+    <>
+      <section className="card filters-card">
+        <div className="filters-header">
+          <div>
+            <p className="eyebrow">{t('deadlines.eyebrow')}</p>
+            <h2>{t('deadlines.title')}</h2>
+          </div>
+          <div className="export-actions">
+            <button
+              type="button"
+              className={view === 'month' ? 'button-primary' : 'button-secondary'}
+              onClick={() => setView('month')}
+            >
+              {t('deadlines.month')}
+            </button>
+            <button
+              type="button"
+              className={view === 'list' ? 'button-primary' : 'button-secondary'}
+              onClick={() => setView('list')}
+            >
+              {t('deadlines.list')}
+            </button>
+            <button
+              type="button"
+              className="button-secondary"
+              disabled={dated.length === 0}
+              onClick={handleExport}
+            >
+              {t('deadlines.download')}
+            </button>
+          </div>
+        </div>
+        <form className="filters-form" onSubmit={(event) => event.preventDefault()}>
+          <label>
+            {t('common.degreeLevel')}
+            <select
+              value={filters.degreeLevel ?? ''}
+              onChange={(event) => {
+                const value = event.target.value as DegreeLevel | '';
+                updateFilter('degreeLevel', value === '' ? undefined : value);
+              }}
+            >
+              <option value="">{t('common.allDegrees')}</option>
+              {degreeLevels.map((level) => (
+                <option key={level} value={level}>
+                  {t(`degree.${level}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('common.country')}
+            <select
+              value={filters.country ?? ''}
+              onChange={(event) => handleCountryChange(event.target.value)}
+            >
+              <option value="">{t('common.allCountries')}</option>
+              {countryOptions.map((country) => (
+                <option key={country.code} value={country.code}>
+                  {country.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('common.region')}
+            <select
+              value={filters.region ?? ''}
+              disabled={!filters.country}
+              onChange={(event) => updateFilter('region', event.target.value)}
+            >
+              <option value="">{t('common.allRegions')}</option>
+              {regionOptions.map((region) => (
+                <option key={region} value={region}>
+                  {region}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('deadlines.university')}
+            <select
+              value={filters.universityId ?? ''}
+              onChange={(event) => updateFilter('universityId', event.target.value)}
+            >
+              <option value="">{t('deadlines.allUniversities')}</option>
+              {universities.map((uni) => (
+                <option key={uni.id} value={uni.id}>
+                  {uni.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </form>
+      </section>
+
+      <section className="card">
+        {isLoading && <p className="muted">{t('deadlines.loading')}</p>}
+        {error && <p className="error-text">{error}</p>}
+
+        {view === 'month' ? (
+          <>
+            <div className="section-header">
+              <button
+                type="button"
+                className="button-secondary"
+                aria-label={t('deadlines.previousMonth')}
+                onClick={() => shiftMonth(-1)}
+              >
+                {previousArrow}
+              </button>
+              <h2>{monthLabel}</h2>
+              <button
+                type="button"
+                className="button-secondary"
+                aria-label={t('deadlines.nextMonth')}
+                onClick={() => shiftMonth(1)}
+              >
+                {nextArrow}
+              </button>
+            </div>
+            <div className="calendar-grid">
+              {weekdayDates.map((day) => (
+                <div key={day} className="calendar-weekday">
+                  {formatDate(day, { weekday: 'short' })}
+                </div>
+              ))}
+              {buildMonth(cursor.year, cursor.month).map((date, index) => (
+                <div
+                  key={date ?? `blank-${index}`}
+                  className={`calendar-day${date === today ? ' today' : ''}${date ? '' : ' empty'}`}
+                >
+                  {date && (
+                    <span className="calendar-date">{formatNumber(Number(date.slice(8)))}</span>
+                  )}
+                  {date && byDate.get(date)?.map((deadline) => (
+                    <DeadlineChip key={deadline.id} deadline={deadline} />
+                  ))}
+                </div>
+              ))}
+            </div>
+            {rolling.length > 0 && (
+              <p className="muted">{tp('deadlines.rollingNote', rolling.length)}</p>
+            )}
+          </>
+        ) : (
+          <div className="deadline-list">
+            {[
+              { title: t('deadlines.upcoming'), items: upcoming },
+              { title: t('deadlines.rollingGroup'), items: rolling },
+              { title: t('deadlines.past'), items: past }
+            ]
+              .filter((group) => group.items.length > 0)
+              .map((group) => (
+                <div key={group.title}>
+                  <h3>{group.title}</h3>
+                  <div className="table-like">{group.items.map(renderListItem)}</div>
+                </div>
+              ))}
+            {!isLoading && deadlines.length === 0 && (
+              <p className="muted">{t('deadlines.empty')}</p>
+            )}
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
+
+export default DeadlinesPage;
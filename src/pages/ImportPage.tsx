@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { applyImport, previewImport } from '../services/importService';
+import type { ImportEntry, ImportPlan, ImportStatus } from '../services/importService';
+import { describeValue } from '../services/universityDiff';
+import { errorMessage, translate } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const ImportEntryCard = ({ entry }: { entry: ImportEntry }) => {
+  const { t } = useI18n();
+  return (
+    <div className="inline-card">
+      <div className="degree-title">
+        <strong>{entry.university.name}</strong>
+        <span className={`badge import-${entry.status}`}>
+          {t(`import.status.${entry.status}`)}
+        </span>
+      </div>
+      <p className="muted">
+        {translate(entry.source)}
+        {entry.matchedBy &&
+          ` · ${t(entry.matchedBy === 'id' ? 'import.matchedById' : 'import.matchedByName')}`}
+      </p>
+      {entry.possibleDuplicates && entry.possibleDuplicates.length > 0 && (
+        <div className="review-note">
+          {t('import.possibleDuplicateOf', {
+            matches: entry.possibleDuplicates
+              .map((match) => `${match.university.name} (${match.reasons.join('; ')})`)
+              .join(', ')
+          })}
+        </div>
+      )}
+      {entry.changes.length > 0 && (
+        <div className="table-like diff-table">
+          <header>
+            <span>{t('diff.field')}</span>
+            <span>{t('diff.current')}</span>
+            <span>{t('diff.incoming')}</span>
+          </header>
+          {entry.changes.map((change) => (
+            <div key={change.field} className="row">
+              <span>{change.field}</span>
+              <span className="diff-before">{describeValue(change.before)}</span>
+              <span className="diff-after">{describeValue(change.after)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+function ImportPage() {
+  const { t, tp } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [acceptDuplicates, setAcceptDuplicates] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setIsWorking(true);
+      setStatus(null);
+      setFileName(file.name);
+      setAcceptDuplicates(false);
+      setPlan(await previewImport(file.name, await file.text()));
+    } catch (err) {
+      setPlan(null);
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'import.readFailed')
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    try {
+      setIsWorking(true);
+      const saved = await applyImport(plan);
+      setPlan(null);
+      setFileName('');
+      setStatus({ type: 'success', message: tp('import.applied', saved.length) });
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'import.failed')
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const byStatus = (value: ImportStatus) =>
+    plan?.entries.filter((entry) => entry.status === value) ?? [];
+  const added = byStatus('added');
+  const changed = byStatus('changed');
+  const restored = byStatus('restored');
+  const unchanged = byStatus('unchanged');
+  const possibleDuplicates = added.filter((entry) => entry.possibleDuplicates?.length);
+  const canApply =
+    Boolean(plan) &&
+    plan!.issues.length === 0 &&
+    added.length + changed.length + restored.length > 0 &&
+    (possibleDuplicates.length === 0 || acceptDuplicates);
+
+  return (
+    <section className="card">
+      <header className="form-header">
+        <div>
+          <p className="eyebrow">{t('admin.eyebrow')}</p>
+          <h2>{t('admin.bulkImport')}</h2>
+        </div>
+        <Link to="/admin" className="link inline">
+          {t('admin.backToEditor')}
+        </Link>
+      </header>
+
+      <div className="admin-form">
+        {status && (
+          <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
+            {status.message}
+          </div>
+        )}
+
+        <p className="muted">{t('import.help')}</p>
+
+        <form onSubmit={(event) => event.preventDefault()}>
+          <label>
+            {t('import.file')}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              disabled={isWorking}
+              onChange={(event) => handleFile(event.target.files?.[0])}
+            />
+          </label>
+        </form>
+
+        {plan && (
+          <>
+            <div className="stat-grid">
+              <div className="stat-card">
+                <p className="muted">{t('import.status.added')}</p>
+                <strong>{added.length}</strong>
+              </div>
+              <div className="stat-card">
+                <p className="muted">{t('import.status.changed')}</p>
+                <strong>{changed.length}</strong>
+              </div>
+              <div className="stat-card">
+                <p className="muted">{t('import.status.restored')}</p>
+                <strong>{restored.length}</strong>
+              </div>
+              <div className="stat-card">
+                <p className="muted">{t('import.status.unchanged')}</p>
+                <strong>{unchanged.length}</strong>
+              </div>
+              <div className="stat-card">
+                <p className="muted">{t('import.possibleDuplicates')}</p>
+                <strong>{possibleDuplicates.length}</strong>
+              </div>
+              <div className="stat-card">
+                <p className="muted">{t('import.issues')}</p>
+                <strong>{plan.issues.length}</strong>
+              </div>
+            </div>
+
+            {plan.issues.length > 0 && (
+              <div className="status-banner error">
+                <p>{t('import.hasProblems', { file: fileName })}</p>
+                <ul className="issue-list">
+                  {plan.issues.map((issue, index) => (
+                    <li key={`${translate(issue.source)}-${index}`}>
+                      <strong>{translate(issue.source)}:</strong> {translate(issue.message)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {[...added, ...changed, ...restored].map((entry) => (
+              <ImportEntryCard
+                key={`${translate(entry.source)}-${entry.university.id}`}
+                entry={entry}
+              />
+            ))}
+
+            {unchanged.length > 0 && (
+              <p className="muted">
+                {t('import.unchangedList', {
+                  names: unchanged.map((entry) => entry.university.name).join(', ')
+                })}
+              </p>
+            )}
+
+            {possibleDuplicates.length > 0 && (
+              <form onSubmit={(event) => event.preventDefault()}>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={acceptDuplicates}
+                    onChange={(event) => setAcceptDuplicates(event.target.checked)}
+                  />
+                  {tp('import.acceptDuplicates', possibleDuplicates.length)}
+                </label>
+              </form>
+            )}
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="button-primary"
+                disabled={!canApply || isWorking}
+                onClick={handleApply}
+              >
+                {isWorking ? t('import.importing') : t('import.apply')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default ImportPage;
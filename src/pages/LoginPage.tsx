@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { signIn } from '../services/authService';
+import { resolveAuthConfig } from '../services/auth';
+import { useAuth } from '../hooks/useAuth';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+function LoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const auth = useAuth();
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const destination = from ? `${from.pathname}${from.search}` : '/';
+
+  if (auth.user && !isSubmitting) {
+    return <Navigate to={destination} replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await signIn(email, password);
+      navigate(destination, { replace: true });
+    } catch (err) {
+      setError(errorMessage(err, 'login.failed'));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="card login-card">
+      <p className="eyebrow">{t('login.eyebrow')}</p>
+      <h2>{t('login.title')}</h2>
+      <form className="login-form" onSubmit={handleSubmit}>
+        <label>
+          {t('login.email')}
+          <input
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+        </label>
+        <label>
+          {t('login.password')}
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </label>
+        {error && <p className="error-text">{error}</p>}
+        <button type="submit" className="button-primary" disabled={isSubmitting}>
+          {isSubmitting ? t('login.submitting') : t('login.submit')}
+        </button>
+      </form>
+      {import.meta.env.DEV && resolveAuthConfig().provider === 'local' && (
+        <p className="muted">{t('login.devAccounts')}</p>
+      )}
+    </section>
+  );
+}
+
+export default LoginPage;
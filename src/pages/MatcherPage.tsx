@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel } from '../types/university';
+import { matchUniversities } from '../services/matcherService';
+import type { MatchVerdict, StudentProfile, UniversityMatch } from '../services/matcherService';
+import { formatFunding } from '../services/funding';
+import { countryName, sortedCountries } from '../services/countries';
+import { formatLocation } from '../services/locations';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const verdictIcons: Record<MatchVerdict, string> = {
+  pass: '✓',
+  warn: '!',
+  fail: '✕'
+};
+
+interface ProfileForm {
+  nationality: string;
+  degreeLevel: DegreeLevel;
+  field: string;
+  gpa: string;
+  budget: string;
+}
+
+const emptyProfile: ProfileForm = {
+  nationality: '',
+  degreeLevel: 'masters',
+  field: '',
+  gpa: '',
+  budget: ''
+};
+
+const toNumber = (value: string) => {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function MatcherPage() {
+  const currency = useDisplayCurrency();
+  const { locale, t, tp, localize } = useI18n();
+  const countryOptions = useMemo(() => sortedCountries(locale), [locale]);
+  const [form, setForm] = useState<ProfileForm>(emptyProfile);
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
+  const [matches, setMatches] = useState<UniversityMatch[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reasons are written in the active language, so a language switch matches again.
+  useEffect(() => {
+    if (!profile) return;
+    let keep = true;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await matchUniversities(profile);
+        if (!keep) return;
+        setMatches(data);
+      } catch (err) {
+        if (!keep) return;
+        setError(errorMessage(err, 'matcher.failed'));
+      } finally {
+        if (keep) {
+          setIsLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      keep = false;
+    };
+  }, [profile, locale]);
+
+  const updateForm = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setProfile({
+      nationality: form.nationality,
+      degreeLevel: form.degreeLevel,
+      field: form.field,
+      gpa: toNumber(form.gpa),
+      budget: toNumber(form.budget),
+      currency
+    });
+  };
+
+  const eligibleCount = matches?.filter((match) => match.eligible).length ?? 0;
+
+  return (
+    <>
+      <section className="card filters-card">
+        <div className="filters-header">
+          <div>
+            <p className="eyebrow">{t('matcher.eyebrow')}</p>
+            <h2>{t('matcher.title')}</h2>
+          </div>
+          <p className="muted">{t('matcher.intro')}</p>
+        </div>
+        <form className="filters-form" onSubmit={handleSubmit}>
+          <label>
+            {t('matcher.nationality')}
+            <select
+              value={form.nationality}
+              onChange={(event) => updateForm('nationality', event.target.value)}
+            >
+              <option value="">{t('matcher.nationalityAny')}</option>
+              {countryOptions.map((country) => (
+                <option key={country.code} value={country.code}>
+                  {countryName(country.code, locale)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('matcher.targetDegree')}
+            <select
+              value={form.degreeLevel}
+              onChange={(event) => updateForm('degreeLevel', event.target.value as DegreeLevel)}
+            >
+              {degreeLevels.map((level) => (
+                <option key={level} value={level}>
+                  {t(`degree.${level}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('matcher.field')}
+            <input
+              placeholder={t('matcher.fieldPlaceholder')}
+              value={form.field}
+              onChange={(event) => updateForm('field', event.target.value)}
+            />
+          </label>
+          <label>
+            {t('matcher.gpa')}
+            <input
+              type="number"
+              min="0"
+              max="4"
+              step="0.01"
+              value={form.gpa}
+              onChange={(event) => updateForm('gpa', event.target.value)}
+            />
+          </label>
+          <label>
+            {t('matcher.budget', { currency })}
+            <input
+              type="number"
+              min="0"
+              step="1000"
+              value={form.budget}
+              onChange={(event) => updateForm('budget', event.target.value)}
+            />
+          </label>
+          <div className="form-controls">
+            <button type="submit" className="button-primary" disabled={isLoading}>
+              {isLoading ? t('matcher.matching') : t('matcher.submit')}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {error && <p className="error-text">{error}</p>}
+
+      {matches && (
+        <section>
+          <div className="section-heading">
+            <div>
+              <p className="eyebrow">{t('matcher.results')}</p>
+              <h2>{tp('matcher.summary', matches.length, { eligible: eligibleCount })}</h2>
+            </div>
+          </div>
+          <div className="match-results">
+            {matches.map((match) => (
+              <article
+                key={match.university.id}
+                className={`card match-card${match.eligible ? '' : ' ineligible'}`}
+              >
+                <div className="card-header">
+                  <div>
+                    <h3>
+                      <Link to={`/universities/${match.university.id}`} className="link">
+                        {match.university.name}
+                      </Link>
+                    </h3>
+                    <p className="muted">{formatLocation(match.university.location)}</p>
+                  </div>
+                  <span className="match-score">
+                    {match.eligible
+                      ? t('matcher.score', { score: match.score })
+                      : t('matcher.notEligible')}
+                  </span>
+                </div>
+                <ul className="reason-list">
+                  {match.reasons.map((reason) => (
+                    <li key={reason.message} className={`reason ${reason.verdict}`}>
+                      <span aria-hidden="true">{verdictIcons[reason.verdict]}</span>
+                      {reason.message}
+                    </li>
+                  ))}
+                </ul>
+                {match.eligible && match.scholarships.length > 0 && (
+                  <div className="pill-row">
+                    {match.scholarships.map((fit) => (
+                      <span
+                        key={fit.scholarship.name}
+                        className={`pill${fit.qualifies ? '' : ' warning'}`}
+                        title={fit.scholarship.eligibility}
+                      >
+                        {localize(fit.scholarship.name, fit.scholarship.nameTranslations)} ·{' '}
+                        {formatFunding(fit.scholarship.funding)}
+                        {fit.minimumGpa !== undefined &&
+                          ` · ${t('matcher.minimumGpa', { gpa: fit.minimumGpa })}`}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        </section>
+      )}
+    </>
+  );
+}
+
+export default MatcherPage;
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { University } from '../types/university';
+import { getUniversities, mergeUniversities } from '../services/universityService';
+import { findDuplicatePairs } from '../services/duplicateDetection';
+import { combineUniversities } from '../services/universityMerge';
+import type { MergeChoices, MergeSide } from '../services/universityMerge';
+import { describeValue, diffUniversities } from '../services/universityDiff';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+// Programs, scholarships and fee blocks read better as "field: value" than as raw JSON.
+const describeConflictValue = (value: unknown) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? Object.entries(value)
+        .filter(([, item]) => item !== undefined && item !== null && item !== '')
+        .map(([key, item]) => `${key}: ${describeValue(item)}`)
+        .join('; ')
+    : describeValue(value);
+
+function MergePage() {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [choices, setChoices] = useState<MergeChoices>({});
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+
+  const keepId = searchParams.get('keep') ?? '';
+  const mergeId = searchParams.get('merge') ?? '';
+
+  const loadUniversities = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setUniversities(await getUniversities());
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'directory.loadFailed')
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUniversities();
+  }, [loadUniversities]);
+
+  // Choices belong to one pair of records.
+  useEffect(() => {
+    setChoices({});
+  }, [keepId, mergeId]);
+
+  const pairs = useMemo(() => findDuplicatePairs(universities), [universities]);
+  const keep = universities.find((university) => university.id === keepId) ?? null;
+  const duplicate = universities.find((university) => university.id === mergeId) ?? null;
+  const canCompare = keep !== null && duplicate !== null && keep.id !== duplicate.id;
+
+  const result = useMemo(
+    () => (canCompare ? combineUniversities(keep!, duplicate!, choices) : null),
+    [canCompare, keep, duplicate, choices]
+  );
+  const preview = useMemo(
+    () => (result && keep ? diffUniversities(keep, result.university) : []),
+    [result, keep]
+  );
+
+  const selectPair = (nextKeep: string, nextMerge: string) => {
+    const params = new URLSearchParams();
+    if (nextKeep) params.set('keep', nextKeep);
+    if (nextMerge) params.set('merge', nextMerge);
+    setSearchParams(params, { replace: true });
+  };
+
+  const choose = (field: string, side: MergeSide) =>
+    setChoices((prev) => ({ ...prev, [field]: side }));
+
+  const handleMerge = async () => {
+    if (!keep || !duplicate) return;
+    const names = { duplicate: duplicate.name, keep: keep.name };
+    const confirmed = window.confirm(t('merge.confirm', names));
+    if (!confirmed) return;
+    try {
+      setIsMerging(true);
+      await mergeUniversities(keep.id, duplicate.id, choices);
+      setStatus({ type: 'success', message: t('merge.merged', names) });
+      selectPair(keep.id, '');
+      await loadUniversities();
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'merge.failed')
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <section className="card">
+      <header className="form-header">
+        <div>
+          <p className="eyebrow">{t('admin.eyebrow')}</p>
+          <h2>{t('admin.mergeDuplicates')}</h2>
+        </div>
+        <Link to="/admin" className="link inline">
+          {t('admin.backToEditor')}
+        </Link>
+      </header>
+
+      <form className="admin-form" onSubmit={(event) => event.preventDefault()}>
+        {status && (
+          <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
+            {status.message}
+          </div>
+        )}
+
+        <p className="muted">{t('merge.hint')}</p>
+
+        {isLoading ? (
+          <p className="muted">{t('merge.searching')}</p>
+        ) : pairs.length === 0 ? (
+          <p className="muted">{t('merge.none')}</p>
+        ) : (
+          <div className="table-like merge-table">
+            <header>
+              <span>{t('merge.universities')}</span>
+              <span>{t('merge.why')}</span>
+              <span />
+            </header>
+            {pairs.map((pair) => (
+              <div key={`${pair.first.id}-${pair.second.id}`} className="row">
+                <span>
+                  <strong>{pair.first.name}</strong>
+                  <br />
+                  <strong>{pair.second.name}</strong>
+                </span>
+                <span className="muted">{pair.reasons.join('; ')}</span>
+                <button
+                  type="button"
+                  className="button-secondary"
+                  onClick={() => selectPair(pair.first.id, pair.second.id)}
+                >
+                  {t('merge.review')}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid">
+          <label>
+            {t('merge.keep')}
+            <select value={keepId} onChange={(event) => selectPair(event.target.value, mergeId)}>
+              <option value="">{t('merge.choose')}</option>
+              {universities.map((university) => (
+                <option key={university.id} value={university.id}>
+                  {university.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {t('merge.mergeInto')}
+            <select value={mergeId} onChange={(event) => selectPair(keepId, event.target.value)}>
+              <option value="">{t('merge.choose')}</option>
+              {universities
+                .filter((university) => university.id !== keepId)
+                .map((university) => (
+                  <option key={university.id} value={university.id}>
+                    {university.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+        </div>
+
+        {canCompare && (
+          <div className="editor-actions">
+            <button
+              type="button"
+              className="link"
+              onClick={() => selectPair(duplicate!.id, keep!.id)}
+            >
+              {t('merge.swap')}
+            </button>
+          </div>
+        )}
+
+        {result && keep && duplicate && (
+          <>
+            {result.conflicts.length > 0 && (
+              <div className="degree-editor">
+                <h3>{t('merge.conflicts')}</h3>
+                <p className="muted">{t('merge.conflictsHint')}</p>
+                {result.conflicts.map((conflict) => {
+                  const side = choices[conflict.field] ?? 'keep';
+                  return (
+                    <fieldset key={conflict.field} className="merge-conflict">
+                      <legend>{conflict.label}</legend>
+                      <label className="checkbox-label">
+                        <input
+                          type="radio"
+                          name={conflict.field}
+                          checked={side === 'keep'}
+                          onChange={() => choose(conflict.field, 'keep')}
+                        />
+                        {keep.name}: {describeConflictValue(conflict.keep)}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="radio"
+                          name={conflict.field}
+                          checked={side === 'duplicate'}
+                          onChange={() => choose(conflict.field, 'duplicate')}
+                        />
+                        {duplicate.name}: {describeConflictValue(conflict.duplicate)}
+                      </label>
+                    </fieldset>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="degree-editor">
+              <h3>{t('merge.changesTo', { name: keep.name })}</h3>
+              {preview.length === 0 ? (
+                <p className="muted">{t('merge.nothingNew', { name: duplicate.name })}</p>
+              ) : (
+                <div className="table-like diff-table">
+                  <header>
+                    <span>{t('diff.field')}</span>
+                    <span>{t('diff.now')}</span>
+                    <span>{t('diff.afterMerge')}</span>
+                  </header>
+                  {preview.map((change) => (
+                    <div key={change.field} className="row">
+                      <span>{change.field}</span>
+                      <span className="diff-before">{describeValue(change.before)}</span>
+                      <span className="diff-after">{describeValue(change.after)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="form-actions">
+              <button
+                type="button"
+                className="button-primary"
+                disabled={isMerging}
+                onClick={handleMerge}
+              >
+                {isMerging ? t('merge.merging') : t('merge.submit', { name: keep.name })}
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </section>
+  );
+}
+
+export default MergePage;
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import type { University } from '../types/university';
+import { getUniversity } from '../services/universityService';
+import { formatFunding } from '../services/funding';
+import { formatDeadline } from '../services/deadlineService';
+import { describeDelivery } from '../services/directoryFilters';
+import { formatLocation } from '../services/locations';
+import { findProgram, monthName } from '../services/programs';
+import { programTuition } from '../services/currency';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useUniversityChanges } from '../hooks/useUniversityChanges';
+import Money from '../components/Money';
+
+function ProgramDetailPage() {
+  const { id, programId } = useParams<{ id: string; programId: string }>();
+  const navigate = useNavigate();
+  const { locale, t, formatList, formatNumber, localize } = useI18n();
+  const [university, setUniversity] = useState<University | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) {
+      navigate('/', { replace: true });
+      return;
+    }
+    let keep = true;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const data = await getUniversity(id);
+        if (!keep) return;
+        setUniversity(data);
+      } catch (err) {
+        if (!keep) return;
+        setError(errorMessage(err, 'detail.loadFailed'));
+      } finally {
+        if (keep) {
+          setIsLoading(false);
+        }
+      }
+    };
+    load();
+    return () => {
+      keep = false;
+    };
+  }, [id, navigate]);
+
+  // An editor in another tab may change this program; show their version as it is saved.
+  useUniversityChanges((change) => {
+    if (change.source !== 'remote' || !id || !change.ids.includes(id)) return;
+    getUniversity(id)
+      .then((data) => {
+        setUniversity(data);
+        setError(null);
+      })
+      .catch((err) => setError(errorMessage(err, 'detail.loadFailed')));
+  });
+
+  if (isLoading) {
+    return (
+      <section className="card detail-shell">
+        <p className="muted">{t('program.loading')}</p>
+      </section>
+    );
+  }
+
+  const found = university && programId ? findProgram(university, programId) : null;
+  if (error || !university || !found) {
+    return (
+      <section className="card detail-shell">
+        <p className="error-text">
+          {error ?? (university ? t('program.notFound') : t('detail.notFound'))}
+        </p>
+        <button className="button-secondary" onClick={() => navigate(-1)}>
+          {t('detail.goBack')}
+        </button>
+      </section>
+    );
+  }
+
+  const { level, program } = found;
+  const levelLabel = t(`degree.${level}`);
+  const scholarships = university.scholarships?.[level] ?? [];
+  const tests = program.requiredTests ?? [];
+  const documents = program.requiredDocuments ?? [];
+  const hasRequirements =
+    program.minimumGpa !== undefined || tests.length > 0 || documents.length > 0;
+
+  const stats = [
+    {
+      label: t('program.tuition'),
+      value: <Money value={programTuition(university, level, program)} />,
+      hint:
+        program.tuition === undefined ? t('program.tuitionAverage', { level: levelLabel }) : null
+    },
+    { label: t('common.duration'), value: program.duration || t('common.notAvailable') },
+    {
+      label: t('common.delivery'),
+      value: program.delivery ? describeDelivery(program.delivery) : t('common.notAvailable')
+    },
+    { label: t('program.language'), value: program.language || t('program.notListed') },
+    {
+      label: t('program.intakes'),
+      value: program.intakeMonths?.length
+        ? formatList(program.intakeMonths.map((month) => monthName(month, locale)))
+        : t('program.notListed')
+    }
+  ];
+
+  return (
+    <div className="detail-shell">
+      <div className="detail-hero card">
+        <div className="hero-top">
+          <div>
+            <Link to={`/universities/${university.id}`} className="link inline">
+              {t('program.back', { university: university.name })}
+            </Link>
+            <span className="badge">{levelLabel}</span>
+            <h1>{localize(program.name, program.nameTranslations)}</h1>
+            <p className="muted">
+              {university.name} · {formatLocation(university.location)}
+            </p>
+          </div>
+          <div className="hero-actions">
+            <button
+              className="button-primary"
+              onClick={() => window.open(university.portalUrl, '_blank')}
+            >
+              {t('detail.visitPortal')}
+            </button>
+          </div>
+        </div>
+        <div className="stat-grid">
+          {stats.map((stat) => (
+            <div key={stat.label} className="stat-card">
+              <p className="muted">{stat.label}</p>
+              <strong>{stat.value}</strong>
+              {stat.hint && <p className="muted">{stat.hint}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <section className="card detail-section">
+        <h2>{t('program.admission')}</h2>
+        {!hasRequirements ? (
+          <p className="muted">{t('program.noRequirements')}</p>
+        ) : (
+          <div className="degree-detail-grid">
+            <div>
+              <h3>{t('program.minimumGpa')}</h3>
+              <p>
+                {program.minimumGpa !== undefined
+                  ? t('program.gpaValue', { gpa: program.minimumGpa })
+                  : t('program.notListed')}
+              </p>
+              <h3>{t('program.requiredTests')}</h3>
+              {tests.length === 0 ? (
+                <p className="muted">{t('program.notListed')}</p>
+              ) : (
+                <div className="table-like tests-table">
+                  <header>
+                    <span>{t('program.test')}</span>
+                    <span>{t('program.minimumScore')}</span>
+                  </header>
+                  {tests.map((requirement) => (
+                    <div key={requirement.test} className="row">
+                      <span>{requirement.test}</span>
+                      <span>{formatNumber(requirement.minimumScore)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <h3>{t('program.requiredDocuments')}</h3>
+              {documents.length === 0 ? (
+                <p className="muted">{t('program.notListed')}</p>
+              ) : (
+                <ul className="document-list">
+                  {documents.map((document) => (
+                    <li key={document}>{document}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="card detail-section">
+        <h2>{t('program.scholarships', { level: levelLabel, university: university.name })}</h2>
+        {scholarships.length === 0 ? (
+          <p className="muted">{t('detail.noScholarships')}</p>
+        ) : (
+          <div className="scholarship-grid">
+            {scholarships.map((scholarship) => (
+              <div key={scholarship.name} className="scholarship-card">
+                <div className="scholarship-header">
+                  <strong>{localize(scholarship.name, scholarship.nameTranslations)}</strong>
+                  <span>{formatFunding(scholarship.funding)}</span>
+                </div>
+                <p className="muted">{scholarship.eligibility}</p>
+                <p className="deadline">
+                  {t('common.deadline', { date: formatDeadline(scholarship) })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default ProgramDetailPage;
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { University } from '../types/university';
+import {
+  getDeletedUniversities,
+  purgeUniversity,
+  restoreUniversity
+} from '../services/universityService';
+import { formatLocation } from '../services/locations';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useUniversityChanges } from '../hooks/useUniversityChanges';
+
+function TrashPage() {
+  const { t, formatDateTime } = useI18n();
+  const [universities, setUniversities] = useState<University[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setUniversities(await getDeletedUniversities());
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'trash.loadFailed')
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  useUniversityChanges((change) => {
+    if (change.source === 'remote') loadTrash();
+  });
+
+  const handleRestore = async (university: University) => {
+    try {
+      await restoreUniversity(university.id);
+      setStatus({ type: 'success', message: t('trash.restored', { name: university.name }) });
+      await loadTrash();
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'directory.restoreFailed')
+      });
+    }
+  };
+
+  const handlePurge = async (university: University) => {
+    const confirmed = window.confirm(t('trash.confirmPurge', { name: university.name }));
+    if (!confirmed) return;
+    try {
+      await purgeUniversity(university.id);
+      setStatus({ type: 'success', message: t('trash.purged', { name: university.name }) });
+      await loadTrash();
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'directory.deleteFailed')
+      });
+    }
+  };
+
+  return (
+    <section className="card">
+      <header className="form-header">
+        <div>
+          <p className="eyebrow">{t('admin.eyebrow')}</p>
+          <h2>{t('admin.trash')}</h2>
+        </div>
+        <Link to="/admin" className="link inline">
+          {t('admin.backToEditor')}
+        </Link>
+      </header>
+
+      <div className="admin-form">
+        {status && (
+          <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
+            {status.message}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="muted">{t('trash.loading')}</p>
+        ) : universities.length === 0 ? (
+          <p className="muted">{t('trash.empty')}</p>
+        ) : (
+          <div className="table-like trash-table">
+            <header>
+              <span>{t('trash.university')}</span>
+              <span>{t('trash.deleted')}</span>
+              <span />
+            </header>
+            {universities.map((university) => (
+              <div key={university.id} className="row">
+                <span>
+                  <strong>{university.name}</strong>
+                  <br />
+                  <span className="muted">{formatLocation(university.location)}</span>
+                </span>
+                <span>{formatDateTime(university.deletedAt!)}</span>
+                <span className="editor-actions">
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    onClick={() => handleRestore(university)}
+                  >
+                    {t('trash.restore')}
+                  </button>
+                  <button
+                    type="button"
+                    className="button-danger"
+                    onClick={() => handlePurge(university)}
+                  >
+                    {t('trash.purge')}
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default TrashPage;
@@ -1,29 +1,99 @@
-import { useEffect, useMemo, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { degreeLevels } from '../types/university';
-import type { DegreeLevel, University } from '../types/university';
-import { deleteUniversity, getUniversities } from '../services/universityService';
+import type { DegreeLevel, DeliveryMode, FundingType, University } from '../types/university';
+import {
+  deleteUniversity,
+  getDirectoryFacets,
+  getUniversities,
+  restoreUniversity,
+  searchUniversities
+} from '../services/universityService';
 import type { UniversityFilters } from '../services/universityService';
+import { describeTuitionBand, tuitionBands } from '../services/directoryFilters';
+import type { DirectoryFacets, FacetOption } from '../services/directoryFilters';
+import {
+  directoryStateFromSearchParams,
+  directoryStateToSearchParams
+} from '../services/directoryUrlState';
+import { defaultDirection, pageSizes, sortKeys, sortLabel } from '../services/directorySort';
+import type {
+  SortKey,
+  UniversityPage,
+  UniversityQueryOptions
+} from '../services/directorySort';
+import { countryName, resolveCountry, sortedCountries } from '../services/countries';
+import { exportUniversities } from '../services/exportService';
+import { formatLocation } from '../services/locations';
+import type { ExportFormat } from '../services/exportService';
+import type { SearchMatch, SearchResult } from '../services/searchIndex';
+import UndoToast from '../components/UndoToast';
+import HighlightedText from '../components/HighlightedText';
+import SavedViewsPanel from '../components/SavedViewsPanel';
+import VirtualGrid from '../components/VirtualGrid';
+import { useAuth } from '../hooks/useAuth';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { useI18n } from '../hooks/useI18n';
+import { useUniversityChanges } from '../hooks/useUniversityChanges';
+import Money from '../components/Money';
+import { displayBaseAmount, feeAmount } from '../services/currency';
+import { MAX_COMPARE, compareUrl } from '../services/compareService';
+import { errorMessage, t } from '../services/i18n';
 
-const degreeLabels: Record<DegreeLevel, string> = {
-  bachelor: 'Bachelor',
-  masters: 'Masters',
-  phd: 'PhD'
+const describeMatch = (match: SearchMatch) => {
+  const field = t(`search.field.${match.field}`);
+  return match.level
+    ? t('search.fieldAtLevel', { field, level: t(`degree.${match.level}`) })
+    : field;
 };
 
-const formatCurrency = (value?: number) => {
-  if (value === undefined || value === null || Number.isNaN(value)) {
-    return '—';
-  }
-  return `$${value.toLocaleString()}`;
+const withCount = (label: string, option?: FacetOption<unknown>) =>
+  option ? t('directory.withCount', { label, count: option.count }) : label;
+
+const DEFAULT_PAGE_SIZE = 60;
+
+// Pause in typing before the search box updates the link and runs the search.
+const SEARCH_DELAY_MS = 250;
+
+const emptyPage: UniversityPage<SearchResult> = {
+  items: [],
+  total: 0,
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE
 };
 
+const exportFormats: ExportFormat[] = ['json', 'csv', 'report'];
+
 function UniversitiesPage() {
   const navigate = useNavigate();
-  const [filters, setFilters] = useState<UniversityFilters>({});
-  const [universities, setUniversities] = useState<University[]>([]);
+  const auth = useAuth();
+  const currency = useDisplayCurrency();
+  const { locale, t, formatList, localize } = useI18n();
+  const countryOptions = useMemo(() => sortedCountries(locale), [locale]);
+  // The query string is the source of truth, so refreshes, shared links and back/forward all
+  // restore the same view.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.toString();
+  const { filters, options } = useMemo(
+    () => directoryStateFromSearchParams(new URLSearchParams(query)),
+    [query]
+  );
+  const sort: SortKey = options.sort ?? (filters.search?.trim() ? 'relevance' : 'name');
+  const direction = options.direction ?? defaultDirection(sort);
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const [resultPage, setResultPage] = useState<UniversityPage<SearchResult>>(emptyPage);
+  const [facets, setFacets] = useState<DirectoryFacets | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [lastDeleted, setLastDeleted] = useState<{ id: string; name: string } | null>(null);
+  const [compared, setCompared] = useState<{ id: string; name: string }[]>([]);
+  const [searchText, setSearchText] = useState(filters.search ?? '');
+
+  // Back/forward and shared links change the search without typing.
+  useEffect(() => {
+    setSearchText(filters.search ?? '');
+  }, [filters.search]);
 
   useEffect(() => {
     let keep = true;
@@ -31,12 +101,16 @@ function UniversitiesPage() {
       try {
         setIsLoading(true);
         setError(null);
-        const data = await getUniversities(filters);
+        const [data, facetCounts] = await Promise.all([
+          searchUniversities(filters, { sort, direction, page: options.page, pageSize }),
+          getDirectoryFacets(filters)
+        ]);
         if (!keep) return;
-        setUniversities(data);
+        setResultPage(data);
+        setFacets(facetCounts);
       } catch (err) {
         if (!keep) return;
-        setError(err instanceof Error ? err.message : 'Unable to load universities');
+        setError(errorMessage(err, 'directory.loadFailed'));
       } finally {
         if (keep) {
           setIsLoading(false);
@@ -47,27 +121,90 @@ function UniversitiesPage() {
     return () => {
       keep = false;
     };
-  }, [filters]);
+  }, [filters, sort, direction, options.page, pageSize, reloadToken]);
+
+  // Saves made in another tab; this tab's own changes already update the list.
+  useUniversityChanges((change) => {
+    if (change.source === 'remote') setReloadToken((token) => token + 1);
+  });
+
+  const results = resultPage.items;
+  const universities = useMemo<University[]>(
+    () => results.map((result) => result.university),
+    [results]
+  );
+  const pageCount = Math.max(1, Math.ceil(resultPage.total / pageSize));
 
   const handleDelete = async (id: string, name: string) => {
-    const confirmed = window.confirm(`Are you sure you want to delete ${name}?`);
-    if (!confirmed) return;
     try {
       await deleteUniversity(id);
-      setUniversities((prev) => prev.filter((uni) => uni.id !== id));
+      setResultPage((prev) => ({
+        ...prev,
+        items: prev.items.filter((result) => result.university.id !== id),
+        total: prev.total - 1
+      }));
+      setLastDeleted({ id, name });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unable to delete university');
+      setError(errorMessage(err, 'directory.deleteFailed'));
     }
   };
 
-  const locationOptions = useMemo(() => {
-    const set = new Set(universities.map((uni) => uni.location));
-    return Array.from(set).sort();
-  }, [universities]);
+  const handleUndoDelete = async () => {
+    if (!lastDeleted) return;
+    try {
+      await restoreUniversity(lastDeleted.id);
+      setLastDeleted(null);
+      setReloadToken((token) => token + 1);
+    } catch (err) {
+      setError(errorMessage(err, 'directory.restoreFailed'));
+    }
+  };
+
+  const dismissToast = useCallback(() => setLastDeleted(null), []);
+
+  const toggleCompared = (id: string, name: string) =>
+    setCompared((prev) =>
+      prev.some((entry) => entry.id === id)
+        ? prev.filter((entry) => entry.id !== id)
+        : [...prev, { id, name }].slice(0, MAX_COMPARE)
+    );
+
+  const navigateTo = (
+    nextFilters: UniversityFilters,
+    nextOptions: UniversityQueryOptions,
+    history: { replace?: boolean } = {}
+  ) =>
+    setSearchParams(
+      directoryStateToSearchParams({ filters: nextFilters, options: nextOptions }),
+      history
+    );
+
+  // Any filter change starts again from the first page.
+  const setFilters = (
+    update: (prev: UniversityFilters) => UniversityFilters,
+    history: { replace?: boolean } = {}
+  ) => navigateTo(update(filters), { ...options, page: undefined }, history);
+
+  const setOptions = (next: UniversityQueryOptions) => {
+    navigateTo(filters, { ...options, ...next });
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      // Exports cover every match, not just the page on screen.
+      const all = await getUniversities(filters, { sort, direction });
+      exportUniversities(format, all, filters);
+    } catch (err) {
+      setError(errorMessage(err, 'directory.exportFailed'));
+    }
+  };
 
   const handleFilterChange = <K extends keyof UniversityFilters>(
     key: K,
-    value: UniversityFilters[K]
+    value: UniversityFilters[K],
+    // Typing should not leave one history entry per keystroke.
+    options: { replace?: boolean } = {}
   ) => {
     setFilters((prev) => {
       const next = { ...prev };
@@ -77,153 +214,507 @@ function UniversitiesPage() {
         next[key] = value;
       }
       return next;
+    }, options);
+  };
+
+  // Restarted by any other filter change, so the search is applied on top of the latest filters.
+  useEffect(() => {
+    if (searchText === (filters.search ?? '')) return;
+    const timer = window.setTimeout(
+      () => handleFilterChange('search', searchText, { replace: Boolean(filters.search) }),
+      SEARCH_DELAY_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [searchText, filters]);
+
+  // Regions belong to one country, so picking another country clears the region.
+  const handleCountryChange = (country: string) => {
+    setFilters((prev) => {
+      const next = { ...prev };
+      delete next.region;
+      if (country) {
+        next.country = country;
+      } else {
+        delete next.country;
+      }
+      return next;
     });
   };
 
+  const selectedBand = tuitionBands.findIndex(
+    (band) => band.min === filters.tuitionMin && band.max === filters.tuitionMax
+  );
+
+  const handleTuitionChange = (value: string) => {
+    const band = value === '' ? undefined : tuitionBands[Number(value)];
+    setFilters((prev) => {
+      const next = { ...prev };
+      delete next.tuitionMin;
+      delete next.tuitionMax;
+      if (band?.min !== undefined) next.tuitionMin = band.min;
+      if (band?.max !== undefined) next.tuitionMax = band.max;
+      return next;
+    });
+  };
+
+  const scholarshipsLabel = filters.degreeLevel
+    ? t('directory.hasScholarshipsAtLevel')
+    : t('directory.hasScholarships');
+
   return (
-    <>
-      <section className="card filters-card">
-        <div className="filters-header">
-          <div>
-            <p className="eyebrow">Directory filters</p>
-            <h2>Explore partner universities</h2>
+    <div className="directory-layout">
+      <SavedViewsPanel currentQuery={query} />
+      <div className="directory-main">
+        <section className="card filters-card">
+          <div className="filters-header">
+            <div>
+              <p className="eyebrow">{t('directory.eyebrow')}</p>
+              <h2>{t('directory.title')}</h2>
+            </div>
+            <p className="muted">{t('directory.intro')}</p>
           </div>
-          <p className="muted">
-            Filter by name, location, or degree level to quickly surface the right programs and
-            scholarships for candidates.
-          </p>
-        </div>
-        <form className="filters-form" onSubmit={(event) => event.preventDefault()}>
-          <label>
-            Search
-            <input
-              type="search"
-              placeholder="Search by university name"
-              value={filters.search ?? ''}
-              onChange={(event) => handleFilterChange('search', event.target.value)}
-            />
-          </label>
-          <label>
-            Location
-            <select
-              value={filters.location ?? ''}
-              onChange={(event) => handleFilterChange('location', event.target.value)}
-            >
-              <option value="">All locations</option>
-              {locationOptions.map((location) => (
-                <option key={location} value={location}>
-                  {location}
-                </option>
-              ))}
-            </select>
-          </label>
-          <label>
-            Degree level
-            <select
-              value={filters.degreeLevel ?? ''}
-              onChange={(event) => {
-                const value = event.target.value as DegreeLevel | '';
-                handleFilterChange('degreeLevel', value === '' ? undefined : value);
-              }}
-            >
-              <option value="">All degrees</option>
-              {degreeLevels.map((level) => (
-                <option key={level} value={level}>
-                  {degreeLabels[level]}
-                </option>
-              ))}
-            </select>
-          </label>
-        </form>
-      </section>
-
-      <section>
-        <div className="section-heading">
-          <div>
-            <p className="eyebrow">Universities</p>
-            <h2>Showing {universities.length} results</h2>
-          </div>
-          {isLoading && <p className="muted">Refreshing data…</p>}
-          {error && <p className="error-text">{error}</p>}
-        </div>
+          <form className="filters-form" onSubmit={(event) => event.preventDefault()}>
+            <label>
+              {t('directory.search')}
+              <input
+                type="search"
+                placeholder={t('directory.searchPlaceholder')}
+                value={searchText}
+                onChange={(event) => setSearchText(event.target.value)}
+              />
+            </label>
+            <label>
+              {t('common.country')}
+              <select
+                value={filters.country ?? ''}
+                onChange={(event) => handleCountryChange(event.target.value)}
+              >
+                <option value="">{t('common.allCountries')}</option>
+                {facets?.country.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {withCount(countryName(option.value, locale), option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('common.region')}
+              <select
+                value={filters.region ?? ''}
+                disabled={!filters.country}
+                onChange={(event) => handleFilterChange('region', event.target.value)}
+              >
+                <option value="">{t('common.allRegions')}</option>
+                {facets?.region.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {withCount(option.value, option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('common.degreeLevel')}
+              <select
+                value={filters.degreeLevel ?? ''}
+                onChange={(event) => {
+                  const value = event.target.value as DegreeLevel | '';
+                  handleFilterChange('degreeLevel', value === '' ? undefined : value);
+                }}
+              >
+                <option value="">{t('common.allDegrees')}</option>
+                {degreeLevels.map((level) => (
+                  <option key={level} value={level}>
+                    {withCount(
+                      t(`degree.${level}`),
+                      facets?.degreeLevel.find((option) => option.value === level)
+                    )}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('directory.funding')}
+              <select
+                value={filters.fundingType ?? ''}
+                onChange={(event) => {
+                  const value = event.target.value as FundingType | '';
+                  handleFilterChange('fundingType', value === '' ? undefined : value);
+                }}
+              >
+                <option value="">{t('directory.anyFunding')}</option>
+                {facets?.fundingType.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {withCount(
+                      option.value === 'full-tuition'
+                        ? t('directory.fullyFunded')
+                        : t(`funding.type.${option.value}`),
+                      option
+                    )}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {filters.degreeLevel
+                ? t('directory.averageTuitionAt', { level: t(`degree.${filters.degreeLevel}`) })
+                : t('common.averageTuition')}
+              <select
+                value={selectedBand === -1 ? '' : String(selectedBand)}
+                onChange={(event) => handleTuitionChange(event.target.value)}
+              >
+                <option value="">{t('directory.anyTuition')}</option>
+                {facets?.tuition.map((option, index) => (
+                  <option key={index} value={index}>
+                    {withCount(describeTuitionBand(option.value, currency), option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('common.applicationFee')}
+              <select
+                value={filters.maxApplicationFee ?? ''}
+                onChange={(event) =>
+                  handleFilterChange(
+                    'maxApplicationFee',
+                    event.target.value === '' ? undefined : Number(event.target.value)
+                  )
+                }
+              >
+                <option value="">{t('directory.anyFee')}</option>
+                {facets?.maxApplicationFee.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {withCount(
+                      option.value === 0
+                        ? t('directory.noFee')
+                        : t('directory.feeUpTo', {
+                            amount: displayBaseAmount(option.value, currency)
+                          }),
+                      option
+                    )}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('directory.delivery')}
+              <select
+                value={filters.delivery ?? ''}
+                onChange={(event) => {
+                  const value = event.target.value as DeliveryMode | '';
+                  handleFilterChange('delivery', value === '' ? undefined : value);
+                }}
+              >
+                <option value="">{t('directory.anyDelivery')}</option>
+                {facets?.delivery.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {withCount(t(`delivery.${option.value}`), option)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('directory.eligibleFrom')}
+              <select
+                value={resolveCountry(filters.eligibleCountry ?? '') ?? ''}
+                onChange={(event) =>
+                  handleFilterChange('eligibleCountry', event.target.value || undefined)
+                }
+              >
+                <option value="">{t('directory.anyCountry')}</option>
+                {countryOptions.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {withCount(
+                      countryName(country.code, locale),
+                      facets?.eligibleCountry.find((option) => option.value === country.code)
+                    )}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={filters.hasScholarships ?? false}
+                onChange={(event) =>
+                  handleFilterChange('hasScholarships', event.target.checked || undefined)
+                }
+              />
+              {facets
+                ? t('directory.withCount', {
+                    label: scholarshipsLabel,
+                    count: facets.hasScholarships
+                  })
+                : scholarshipsLabel}
+            </label>
+          </form>
+        </section>
 
-        {universities.length === 0 && !isLoading ? (
-          <div className="card">
-            <p>No universities match the current filters.</p>
-          </div>
-        ) : (
-          <div className="grid grid-3">
-            {universities.map((university) => {
-              const totalPrograms = degreeLevels.reduce(
-                (sum, level) => sum + (university.programs?.[level]?.length ?? 0),
-                0
-              );
-              const totalScholarships = degreeLevels.reduce(
-                (sum, level) => sum + (university.scholarships?.[level]?.length ?? 0),
-                0
-              );
-              const goToDetail = () => navigate(`/universities/${university.id}`);
-              return (
-                <article
-                  key={university.id}
-                  className="card university-card"
-                  role="button"
-                  tabIndex={0}
-                  onClick={goToDetail}
-                  onKeyDown={(event) => {
-                    if (event.key === 'Enter' || event.key === ' ') {
-                      event.preventDefault();
-                      goToDetail();
-                    }
+        <section>
+          <div className="section-heading">
+            <div>
+              <p className="eyebrow">{t('directory.universities')}</p>
+              <h2>
+                {resultPage.total === 0
+                  ? t('directory.noResults')
+                  : t('directory.showing', {
+                      from: (resultPage.page - 1) * pageSize + 1,
+                      to: (resultPage.page - 1) * pageSize + results.length,
+                      total: resultPage.total
+                    })}
+              </h2>
+            </div>
+            <div className="form-controls">
+              <label>
+                {t('directory.sortBy')}
+                <select
+                  value={sort}
+                  onChange={(event) => {
+                    const next = event.target.value as SortKey;
+                    setOptions({ sort: next, direction: undefined, page: undefined });
                   }}
                 >
-                  <div className="card-header">
-                    <div>
-                      <h3>{university.name}</h3>
-                      <p className="muted">{university.location}</p>
-                    </div>
-                    <div className="card-actions">
-                      <span className="badge">View</span>
-                      <button
-                        type="button"
-                        className="button-danger"
-                        onClick={(event) => {
-                          event.stopPropagation();
-                          handleDelete(university.id, university.name);
-                        }}
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </div>
-                  <p className="card-body">{university.overview}</p>
-                  <div className="card-meta">
-                    <div>
-                      <p className="muted label">Application fee</p>
-                      <strong>{formatCurrency(university.fees?.application)}</strong>
-                    </div>
-                    <div>
-                      <p className="muted label">Programs</p>
-                      <strong>{totalPrograms}</strong>
-                    </div>
-                    <div>
-                      <p className="muted label">Scholarships</p>
-                      <strong>{totalScholarships}</strong>
+                  {sortKeys
+                    .filter((key) => key !== 'relevance' || filters.search?.trim())
+                    .map((key) => (
+                      <option key={key} value={key}>
+                        {sortLabel(key)}
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="button-secondary"
+                aria-label={t('directory.toggleDirection')}
+                onClick={() =>
+                  setOptions({ direction: direction === 'asc' ? 'desc' : 'asc', page: undefined })
+                }
+              >
+                {direction === 'asc' ? t('directory.ascending') : t('directory.descending')}
+              </button>
+            </div>
+            {isLoading && <p className="muted">{t('directory.refreshing')}</p>}
+            {error && <p className="error-text">{error}</p>}
+            <div className="export-actions">
+              <span className="muted">{t('directory.export')}</span>
+              {exportFormats.map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  className="button-secondary"
+                  disabled={isLoading || universities.length === 0}
+                  onClick={() => handleExport(format)}
+                >
+                  {format === 'report' ? t('directory.exportReport') : format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {universities.length === 0 && !isLoading ? (
+            <div className="card">
+              <p>{t('directory.empty')}</p>
+            </div>
+          ) : (
+            <VirtualGrid
+              items={results}
+              getKey={(result) => result.university.id}
+              renderItem={({ university, matches }) => {
+                const totalPrograms = degreeLevels.reduce(
+                  (sum, level) => sum + (university.programs?.[level]?.length ?? 0),
+                  0
+                );
+                const totalScholarships = degreeLevels.reduce(
+                  (sum, level) => sum + (university.scholarships?.[level]?.length ?? 0),
+                  0
+                );
+                const nameMatch = matches.find((match) => match.field === 'name');
+                const otherMatches = matches.filter((match) => match.field !== 'name').slice(0, 3);
+                const goToDetail = () => navigate(`/universities/${university.id}`);
+                const isCompared = compared.some((entry) => entry.id === university.id);
+                return (
+                  <article
+                    key={university.id}
+                    className="card university-card"
+                    role="button"
+                    tabIndex={0}
+                    onClick={goToDetail}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter' || event.key === ' ') {
+                        event.preventDefault();
+                        goToDetail();
+                      }
+                    }}
+                  >
+                    <div className="card-header">
+                      <div>
+                        <h3>
+                          <HighlightedText
+                            text={university.name}
+                            ranges={nameMatch?.ranges ?? []}
+                          />
+                        </h3>
+                        <p className="muted">{formatLocation(university.location)}</p>
+                      </div>
+                      <div className="card-actions">
+                        <label
+                          className="compare-toggle"
+                          onClick={(event) => event.stopPropagation()}
+                          onKeyDown={(event) => event.stopPropagation()}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isCompared}
+                            disabled={!isCompared && compared.length >= MAX_COMPARE}
+                            onChange={() => toggleCompared(university.id, university.name)}
+                          />
+                          {t('common.compare')}
+                        </label>
+                        <span className="badge">{t('directory.view')}</span>
+                        {auth.can('university:delete') && (
+                          <button
+                            type="button"
+                            className="button-danger"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              handleDelete(university.id, university.name);
+                            }}
+                          >
+                            {t('directory.delete')}
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                  <div className="card-footer link-inline">Explore profile →</div>
-                  {(university.restrictedCountries?.length ?? 0) > 0 && (
-                    <p className="restricted-note">
-                      Restricted: {university.restrictedCountries!.join(', ')}
+                    <p className="card-body">
+                      {localize(university.overview ?? '', university.overviewTranslations)}
                     </p>
-                  )}
-                </article>
-              );
-            })}
+                    {otherMatches.length > 0 && (
+                      <ul className="match-list">
+                        {otherMatches.map((match, index) => (
+                          <li key={`${match.field}-${index}`}>
+                            <span className="muted label">{describeMatch(match)}</span>
+                            <HighlightedText
+                              text={match.text}
+                              ranges={match.ranges}
+                              maxLength={90}
+                            />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="card-meta">
+                      <div>
+                        <p className="muted label">{t('common.applicationFee')}</p>
+                        <strong>
+                          <Money value={feeAmount(university, 'application')} />
+                        </strong>
+                      </div>
+                      <div>
+                        <p className="muted label">{t('common.programs')}</p>
+                        <strong>{totalPrograms}</strong>
+                      </div>
+                      <div>
+                        <p className="muted label">{t('common.scholarships')}</p>
+                        <strong>{totalScholarships}</strong>
+                      </div>
+                    </div>
+                    <div className="card-footer link-inline">{t('directory.exploreProfile')}</div>
+                    {(university.restrictedCountries?.length ?? 0) > 0 && (
+                      <p className="restricted-note">
+                        {t('directory.restricted', {
+                          countries: formatList(
+                            university.restrictedCountries!.map((code) => countryName(code))
+                          )
+                        })}
+                      </p>
+                    )}
+                  </article>
+                );
+              }}
+            />
+          )}
+
+          {resultPage.total > 0 && (
+            <div className="pagination">
+              <button
+                type="button"
+                className="button-secondary"
+                disabled={resultPage.page <= 1}
+                onClick={() => setOptions({ page: resultPage.page - 1 })}
+              >
+                {t('directory.previousPage')}
+              </button>
+              <span className="muted">
+                {t('directory.pageOf', { page: resultPage.page, count: pageCount })}
+              </span>
+              <button
+                type="button"
+                className="button-secondary"
+                disabled={resultPage.page >= pageCount}
+                onClick={() => setOptions({ page: resultPage.page + 1 })}
+              >
+                {t('directory.nextPage')}
+              </button>
+              <label>
+                {t('directory.perPage')}
+                <select
+                  value={pageSize}
+                  onChange={(event) =>
+                    setOptions({ pageSize: Number(event.target.value), page: undefined })
+                  }
+                >
+                  {pageSizes.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </section>
+
+        {compared.length > 0 && (
+          <div className="compare-tray" role="region" aria-label={t('directory.compareTray')}>
+            <span className="muted">
+              {t('directory.compareCount', { count: compared.length, max: MAX_COMPARE })}
+            </span>
+            {compared.map((entry) => (
+              <span key={entry.id} className="pill removable">
+                {entry.name}
+                <button
+                  type="button"
+                  aria-label={t('common.remove', { name: entry.name })}
+                  onClick={() => toggleCompared(entry.id, entry.name)}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <button
+              type="button"
+              className="button-primary"
+              disabled={compared.length < 2}
+              onClick={() => navigate(compareUrl(compared.map((entry) => entry.id)))}
+            >
+              {t('common.compare')}
+            </button>
+            <button type="button" className="link" onClick={() => setCompared([])}>
+              {t('directory.clear')}
+            </button>
           </div>
         )}
-      </section>
-    </>
+
+        {lastDeleted && (
+          <UndoToast
+            message={t('directory.movedToTrash', { name: lastDeleted.name })}
+            onUndo={handleUndoDelete}
+            onDismiss={dismissToast}
+          />
+        )}
+      </div>
+    </div>
   );
 }
 
@@ -1,19 +1,23 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { degreeLevels } from '../types/university';
-import type { DegreeLevel, University } from '../types/university';
+import type { University } from '../types/university';
+import type { Application, Student } from '../types/application';
 import { getUniversity } from '../services/universityService';
-
-const degreeLabels: Record<DegreeLevel, string> = {
-  bachelor: 'Bachelor',
-  masters: 'Masters',
-  phd: 'PhD'
-};
-
-const formatCurrency = (value?: number) => {
-  if (value === undefined || value === null || Number.isNaN(value)) return '—';
-  return `$${value.toLocaleString()}`;
-};
+import { formatFunding } from '../services/funding';
+import { formatDeadline, getScholarshipDeadlines, toIcs } from '../services/deadlineService';
+import { downloadFile } from '../services/exportService';
+import { countryName } from '../services/countries';
+import { describeDelivery } from '../services/directoryFilters';
+import { formatCampus, formatLocation } from '../services/locations';
+import { findProgram, programUrl } from '../services/programs';
+import { listApplications, listStudents } from '../services/applicationService';
+import { useAuth } from '../hooks/useAuth';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useUniversityChanges } from '../hooks/useUniversityChanges';
+import { feeAmount } from '../services/currency';
+import Money from '../components/Money';
 
 const Pill = ({ children }: { children: React.ReactNode }) => (
   <span className="pill">{children}</span>
@@ -22,9 +26,14 @@ const Pill = ({ children }: { children: React.ReactNode }) => (
 function UniversityDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const auth = useAuth();
+  const { locale, t, tp, formatDate, formatList, localize } = useI18n();
   const [university, setUniversity] = useState<University | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const canTrack = auth.can('applications:manage');
 
   useEffect(() => {
     if (!id) {
@@ -40,7 +49,7 @@ function UniversityDetailPage() {
         setUniversity(data);
       } catch (err) {
         if (!keep) return;
-        setError(err instanceof Error ? err.message : 'Unable to load university');
+        setError(errorMessage(err, 'detail.loadFailed'));
       } finally {
         if (keep) {
           setIsLoading(false);
@@ -53,32 +62,55 @@ function UniversityDetailPage() {
     };
   }, [id, navigate]);
 
+  // Picks up saves made in another tab without flashing the loading state.
+  useUniversityChanges((change) => {
+    if (change.source !== 'remote' || !id || !change.ids.includes(id)) return;
+    getUniversity(id)
+      .then((data) => {
+        setUniversity(data);
+        setError(null);
+      })
+      .catch((err) => setError(errorMessage(err, 'detail.loadFailed')));
+  });
+
+  useEffect(() => {
+    if (!id || !canTrack) {
+      setApplications([]);
+      return;
+    }
+    let keep = true;
+    // Applications are extra context for staff; the page still works if they fail to load.
+    Promise.all([listApplications({ universityId: id, openOnly: true }), listStudents()])
+      .then(([nextApplications, nextStudents]) => {
+        if (!keep) return;
+        setApplications(nextApplications);
+        setStudents(nextStudents);
+      })
+      .catch(() => undefined);
+    return () => {
+      keep = false;
+    };
+  }, [id, canTrack]);
+
   const highlightStats = useMemo(() => {
     if (!university) return [];
     return [
       {
-        label: 'Application fee',
-        value: formatCurrency(university.fees?.application)
-      },
-      {
-        label: 'Bachelor tuition',
-        value: formatCurrency(university.fees?.averageTuition?.bachelor)
+        label: t('common.applicationFee'),
+        value: <Money value={feeAmount(university, 'application')} />
       },
-      {
-        label: 'Masters tuition',
-        value: formatCurrency(university.fees?.averageTuition?.masters)
-      },
-      {
-        label: 'PhD tuition',
-        value: formatCurrency(university.fees?.averageTuition?.phd)
-      }
+      ...degreeLevels.map((level) => ({
+        label: t('common.tuitionAt', { level: t(`degree.${level}`) }),
+        value: <Money value={feeAmount(university, level)} />
+      }))
     ];
-  }, [university]);
+    // The labels are translated, so they are rebuilt when the language changes.
+  }, [university, locale]);
 
   if (isLoading) {
     return (
       <section className="card detail-shell">
-        <p className="muted">Loading university details…</p>
+        <p className="muted">{t('detail.loading')}</p>
       </section>
     );
   }
@@ -86,42 +118,62 @@ function UniversityDetailPage() {
   if (error || !university) {
     return (
       <section className="card detail-shell">
-        <p className="error-text">{error ?? 'University not found.'}</p>
+        <p className="error-text">{error ?? t('detail.notFound')}</p>
         <button className="button-secondary" onClick={() => navigate(-1)}>
-          Go back
+          {t('detail.goBack')}
         </button>
       </section>
     );
   }
 
+  const handleCalendarExport = async () => {
+    const deadlines = await getScholarshipDeadlines({ universityId: university.id });
+    const slug = university.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadFile(`${slug}-deadlines.ics`, toIcs(deadlines), 'text/calendar;charset=utf-8');
+  };
+
   return (
     <div className="detail-shell">
       <div className="detail-hero card">
         <div className="hero-top">
           <div>
             <Link to="/" className="link inline">
-              ← Back to directory
+              {t('detail.back')}
             </Link>
             <h1>{university.name}</h1>
-            <p className="muted">{university.location}</p>
+            <p className="muted">{formatLocation(university.location)}</p>
+            {(university.location.campuses?.length ?? 0) > 0 && (
+              <p className="muted">
+                {t('detail.campuses')}:{' '}
+                {formatList(university.location.campuses!.map(formatCampus))}
+              </p>
+            )}
           </div>
           <div className="hero-actions">
-            <button
-              className="button-secondary"
-              onClick={() => navigate('/admin', { state: { editId: university.id } })}
-            >
-              Edit in Admin
+            {auth.can('university:write') && (
+              <button
+                className="button-secondary"
+                onClick={() => navigate('/admin', { state: { editId: university.id } })}
+              >
+                {t('detail.edit')}
+              </button>
+            )}
+            <button className="button-secondary" onClick={handleCalendarExport}>
+              {t('detail.addToCalendar')}
             </button>
             <button
               className="button-primary"
               onClick={() => window.open(university.portalUrl, '_blank')}
             >
-              Visit portal
+              {t('detail.visitPortal')}
             </button>
-           
           </div>
         </div>
-        {university.overview && <p className="hero-overview">{university.overview}</p>}
+        {university.overview && (
+          <p className="hero-overview">
+            {localize(university.overview, university.overviewTranslations)}
+          </p>
+        )}
         <div className="stat-grid">
           {highlightStats.map((stat) => (
             <div key={stat.label} className="stat-card">
@@ -134,12 +186,12 @@ function UniversityDetailPage() {
 
       {(university.restrictedCountries?.length ?? 0) > 0 && (
         <div className="card restriction-banner">
-          <strong>Restricted countries</strong>
-          <p className="muted">Applicants from these countries are currently not eligible.</p>
+          <strong>{t('common.restrictedCountries')}</strong>
+          <p className="muted">{t('detail.restrictedHint')}</p>
           <div className="pill-row">
-            {university.restrictedCountries!.map((country) => (
-              <span key={country} className="pill warning">
-                {country}
+            {university.restrictedCountries!.map((code) => (
+              <span key={code} className="pill warning">
+                {countryName(code, locale)}
               </span>
             ))}
           </div>
@@ -153,44 +205,53 @@ function UniversityDetailPage() {
           <section key={level} className="card detail-section">
             <div className="section-header">
               <div>
-                <span className="badge">{degreeLabels[level]}</span>
-                <h2>{degreeLabels[level]} opportunities</h2>
+                <span className="badge">{t(`degree.${level}`)}</span>
+                <h2>{t('detail.opportunities', { level: t(`degree.${level}`) })}</h2>
               </div>
               <p className="muted">
-                {programs.length} programs · {scholarships.length} scholarships
+                {tp('count.programs', programs.length)} ·{' '}
+                {tp('count.scholarships', scholarships.length)}
               </p>
             </div>
             <div className="pill-row">
               {programs.map((program) => (
-                <Pill key={`${level}-${program.name}`}>{program.name}</Pill>
+                <Pill key={program.id}>{localize(program.name, program.nameTranslations)}</Pill>
               ))}
             </div>
             <div className="degree-detail-grid">
               <div>
-                <h3>Programs</h3>
+                <h3>{t('common.programs')}</h3>
                 {programs.length === 0 ? (
-                  <p className="muted">No programs have been added yet.</p>
+                  <p className="muted">{t('detail.noPrograms')}</p>
                 ) : (
                   <div className="table-like">
                     <header>
-                      <span>Name</span>
-                      <span>Duration</span>
-                      <span>Delivery</span>
+                      <span>{t('common.name')}</span>
+                      <span>{t('common.duration')}</span>
+                      <span>{t('common.delivery')}</span>
                     </header>
                     {programs.map((program) => (
-                      <div key={`${level}-program-${program.name}`} className="row">
-                        <span>{program.name}</span>
-                        <span>{program.duration || 'N/A'}</span>
-                        <span>{program.delivery || 'N/A'}</span>
+                      <div key={program.id} className="row">
+                        <span>
+                          <Link to={programUrl(university.id, program.id)} className="link">
+                            {localize(program.name, program.nameTranslations)}
+                          </Link>
+                        </span>
+                        <span>{program.duration || t('common.notAvailable')}</span>
+                        <span>
+                          {program.delivery
+                            ? describeDelivery(program.delivery)
+                            : t('common.notAvailable')}
+                        </span>
                       </div>
                     ))}
                   </div>
                 )}
               </div>
               <div>
-                <h3>Scholarships</h3>
+                <h3>{t('common.scholarships')}</h3>
                 {scholarships.length === 0 ? (
-                  <p className="muted">Scholarship data is not available.</p>
+                  <p className="muted">{t('detail.noScholarships')}</p>
                 ) : (
                   <div className="scholarship-grid">
                     {scholarships.map((scholarship) => (
@@ -199,11 +260,18 @@ function UniversityDetailPage() {
                         className="scholarship-card"
                       >
                         <div className="scholarship-header">
-                          <strong>{scholarship.name}</strong>
-                          <span>{scholarship.amount || '—'}</span>
+                          <strong>
+                            {localize(scholarship.name, scholarship.nameTranslations)}
+                          </strong>
+                          <span>{formatFunding(scholarship.funding)}</span>
                         </div>
+                        {scholarship.fundingNote && (
+                          <p className="muted">{scholarship.fundingNote}</p>
+                        )}
                         <p className="muted">{scholarship.eligibility}</p>
-                        <p className="deadline">Deadline: {scholarship.deadline || 'Rolling'}</p>
+                        <p className="deadline">
+                          {t('common.deadline', { date: formatDeadline(scholarship) })}
+                        </p>
                       </div>
                     ))}
                   </div>
@@ -213,6 +281,73 @@ function UniversityDetailPage() {
           </section>
         );
       })}
+
+      {canTrack && (
+        <section className="card detail-section">
+          <div className="section-header">
+            <h2>{t('detail.applications')}</h2>
+            <div className="editor-actions">
+              <Link
+                to={`/applications?university=${encodeURIComponent(university.id)}`}
+                className="button-secondary"
+              >
+                {t('detail.trackApplication')}
+              </Link>
+              <Link to="/applications" className="link inline">
+                {t('detail.openBoard')}
+              </Link>
+            </div>
+          </div>
+          {applications.length === 0 ? (
+            <p className="muted">{t('detail.noApplications')}</p>
+          ) : (
+            <div className="table-like applications-table">
+              <header>
+                <span>{t('detail.student')}</span>
+                <span>{t('detail.program')}</span>
+                <span>{t('detail.stage')}</span>
+                <span>{t('detail.deadline')}</span>
+              </header>
+              {applications.map((application) => {
+                const program = application.programId
+                  ? findProgram(university, application.programId)?.program
+                  : undefined;
+                const since = application.statusDates[application.status];
+                return (
+                  <div key={application.id} className="row">
+                    <span>
+                      {students.find((student) => student.id === application.studentId)?.name ??
+                        t('detail.unknownStudent')}
+                    </span>
+                    <span>
+                      <span className="badge">{t(`degree.${application.level}`)}</span>{' '}
+                      {program && (
+                        <Link to={programUrl(university.id, program.id)} className="link">
+                          {localize(program.name, program.nameTranslations)}
+                        </Link>
+                      )}
+                    </span>
+                    <span>
+                      {t(`application.status.${application.status}`)}
+                      {since && (
+                        <span className="muted">
+                          {' '}
+                          {t('detail.applicationSince', { date: formatDate(since) })}
+                        </span>
+                      )}
+                    </span>
+                    <span>
+                      {application.deadline
+                        ? formatDate(application.deadline)
+                        : t('common.notAvailable')}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { roles } from '../types/auth';
+import type { AuthUser, Role } from '../types/auth';
+import { listUsers, removeUser, saveUser } from '../services/authService';
+import { useAuth } from '../hooks/useAuth';
+import { errorMessage } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+const emptyDraft = { name: '', email: '', role: 'viewer' as Role, password: '' };
+
+function UsersPage() {
+  const auth = useAuth();
+  const { t } = useI18n();
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [isLoading, setIsLoading] = useState(true);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(
+    null
+  );
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setUsers(await listUsers());
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'users.loadFailed')
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      setStatus({ type: 'success', message: success });
+      await loadUsers();
+      return true;
+    } catch (err) {
+      setStatus({
+        type: 'error',
+        message: errorMessage(err, 'users.updateFailed')
+      });
+      return false;
+    }
+  };
+
+  const handleRoleChange = (user: AuthUser, role: Role) =>
+    run(
+      () => saveUser({ ...user, role }),
+      t('users.roleChanged', { name: user.name, role: t(`role.${role}`).toLowerCase() })
+    );
+
+  const handleRemove = (user: AuthUser) => {
+    if (!window.confirm(t('users.confirmRemove', { name: user.name }))) return;
+    run(() => removeUser(user.id), t('users.removed', { name: user.name }));
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    const created = await run(
+      () => saveUser(draft),
+      t('users.added', { name: draft.name.trim() })
+    );
+    if (created) setDraft(emptyDraft);
+  };
+
+  return (
+    <section className="card">
+      <header className="form-header">
+        <div>
+          <p className="eyebrow">{t('admin.eyebrow')}</p>
+          <h2>{t('users.title')}</h2>
+        </div>
+        <Link to="/admin" className="link inline">
+          {t('admin.backToEditor')}
+        </Link>
+      </header>
+
+      <div className="admin-form">
+        {status && (
+          <div className={`status-banner ${status.type === 'success' ? 'success' : 'error'}`}>
+            {status.message}
+          </div>
+        )}
+
+        <p className="muted">{t('users.rolesHint')}</p>
+
+        {isLoading ? (
+          <p className="muted">{t('users.loading')}</p>
+        ) : (
+          <div className="table-like trash-table">
+            <header>
+              <span>{t('users.user')}</span>
+              <span>{t('users.role')}</span>
+              <span />
+            </header>
+            {users.map((user) => (
+              <div key={user.id} className="row">
+                <span>
+                  <strong>{user.name}</strong>
+                  {user.id === auth.user?.id && <span className="badge">{t('users.you')}</span>}
+                  <br />
+                  <span className="muted">{user.email}</span>
+                </span>
+                <span>
+                  <select
+                    value={user.role}
+                    aria-label={t('users.roleFor', { name: user.name })}
+                    onChange={(event) => handleRoleChange(user, event.target.value as Role)}
+                  >
+                    {roles.map((role) => (
+                      <option key={role} value={role}>
+                        {t(`role.${role}`)}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+                <span className="editor-actions">
+                  <button
+                    type="button"
+                    className="button-danger"
+                    disabled={user.id === auth.user?.id}
+                    onClick={() => handleRemove(user)}
+                  >
+                    {t('users.remove')}
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form className="inline-card" onSubmit={handleCreate}>
+          <h4>{t('users.addTitle')}</h4>
+          <div className="inline-card-grid">
+            <label>
+              {t('users.name')}
+              <input
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </label>
+            <label>
+              {t('users.email')}
+              <input
+                type="email"
+                value={draft.email}
+                onChange={(event) => setDraft((prev) => ({ ...prev, email: event.target.value }))}
+              />
+            </label>
+            <label>
+              {t('users.role')}
+              <select
+                value={draft.role}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, role: event.target.value as Role }))
+                }
+              >
+                {roles.map((role) => (
+                  <option key={role} value={role}>
+                    {t(`role.${role}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('users.password')}
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={draft.password}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, password: event.target.value }))
+                }
+              />
+            </label>
+          </div>
+          <button type="submit" className="button-primary">
+            {t('users.add')}
+          </button>
+        </form>
+      </div>
+    </section>
+  );
+}
+
+export default UsersPage;
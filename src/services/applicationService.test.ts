@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { makeUniversity, seedMemoryStore, signInAs } from '../test/fixtures';
+import {
+  createApplication,
+  createStudent,
+  listApplications,
+  listStudents,
+  moveApplication,
+  updateApplication
+} from './applicationService';
+import { AuthorizationError } from './authService';
+
+const university = makeUniversity({
+  id: 'uni-apply',
+  name: 'Gulf University',
+  programs: {
+    bachelor: [],
+    masters: [{ id: 'masters-law', name: 'Law', duration: '2 years', delivery: 'On campus' }],
+    phd: []
+  }
+});
+
+beforeEach(async () => {
+  seedMemoryStore([university]);
+  await signInAs('editor');
+});
+
+describe('createStudent', () => {
+  it('tidies the details and keeps emails unique', async () => {
+    const student = await createStudent({
+      name: ' Amal Hassan ',
+      email: 'Amal@Example.com',
+      nationality: 'qa'
+    });
+    expect(student).toMatchObject({
+      name: 'Amal Hassan',
+      email: 'amal@example.com',
+      nationality: 'QA'
+    });
+    await expect(createStudent({ name: 'Amal H.', email: 'amal@example.com' })).rejects.toThrow(
+      'A student with this email already exists'
+    );
+    await expect(createStudent({ name: 'No Email', email: 'not-an-email' })).rejects.toThrow(
+      'Enter a valid email address or leave it blank'
+    );
+    expect((await listStudents()).map((entry) => entry.name)).toEqual(['Amal Hassan']);
+  });
+
+  it('is limited to users who manage applications', async () => {
+    await signInAs('viewer');
+    await expect(createStudent({ name: 'Amal Hassan' })).rejects.toBeInstanceOf(
+      AuthorizationError
+    );
+  });
+});
+
+describe('applications', () => {
+  let studentId: string;
+
+  beforeEach(async () => {
+    studentId = (await createStudent({ name: 'Amal Hassan' })).id;
+  });
+
+  it('checks the program and deadline and refuses a second open application', async () => {
+    const draft = { studentId, universityId: university.id, level: 'masters' as const };
+    await expect(createApplication({ ...draft, programId: 'masters-medicine' })).rejects.toThrow(
+      'Gulf University has no such program at this degree level'
+    );
+    await expect(createApplication({ ...draft, deadline: '2026-02-30' })).rejects.toThrow(
+      'Deadline must be a real date'
+    );
+
+    const application = await createApplication({ ...draft, programId: 'masters-law' });
+    expect(application).toMatchObject({ status: 'shortlisted', programId: 'masters-law' });
+    await expect(createApplication({ ...draft, programId: 'masters-law' })).rejects.toThrow(
+      'This student already has an open application for that program'
+    );
+
+    // Once the first one is closed the student may apply again.
+    await moveApplication(application.id, 'rejected');
+    await expect(createApplication({ ...draft, programId: 'masters-law' })).resolves.toBeDefined();
+  });
+
+  it('stamps the date each stage is reached and clears blanked fields', async () => {
+    const application = await createApplication({
+      studentId,
+      universityId: university.id,
+      level: 'masters',
+      notes: 'Needs a reference'
+    });
+    const moved = await updateApplication(application.id, { status: 'submitted', notes: ' ' });
+    expect(moved.notes).toBeUndefined();
+    expect(Object.keys(moved.statusDates)).toEqual(['shortlisted', 'submitted']);
+    expect(moved.statusDates.submitted).toBe(moved.updatedAt);
+
+    await moveApplication(application.id, 'enrolled');
+    expect(await listApplications({ openOnly: true })).toEqual([]);
+    expect(await listApplications({ studentId })).toHaveLength(1);
+  });
+
+  it('only targets live universities', async () => {
+    await expect(
+      createApplication({ studentId, universityId: 'uni-missing', level: 'bachelor' })
+    ).rejects.toThrow('University not found');
+    await expect(
+      createApplication({ studentId: 'student-missing', universityId: university.id, level: 'phd' })
+    ).rejects.toThrow('Student not found');
+  });
+});
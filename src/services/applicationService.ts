@@ -0,0 +1,170 @@
+import { closedStatuses } from '../types/application';
+import type { Application, ApplicationStatus, Student } from '../types/application';
+import type { DegreeLevel } from '../types/university';
+import { assertCan } from './authService';
+import { findProgram } from './programs';
+import { getAdapter, getUniversity } from './universityService';
+import { isIsoDate } from './universityValidation';
+import { LocalizedError } from './i18n';
+
+export interface StudentDraft {
+  name: string;
+  email?: string;
+  nationality?: string;
+}
+
+export interface ApplicationDraft {
+  studentId: string;
+  universityId: string;
+  level: DegreeLevel;
+  programId?: string;
+  status?: ApplicationStatus;
+  deadline?: string;
+  notes?: string;
+}
+
+/** Fields that can change after an application is created; blank text clears a field. */
+export type ApplicationChanges = Partial<
+  Pick<Application, 'status' | 'programId' | 'deadline' | 'notes'>
+>;
+
+const nextId = (prefix: string) =>
+  (typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${prefix}-${Date.now()}`);
+
+const optionalText = (value: string | undefined) => value?.trim() || undefined;
+
+export const isOpenApplication = (application: Application) =>
+  !closedStatuses.includes(application.status);
+
+export const listStudents = async (): Promise<Student[]> => {
+  assertCan('applications:manage');
+  const students = await getAdapter().listStudents();
+  return students.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createStudent = async (draft: StudentDraft): Promise<Student> => {
+  assertCan('applications:manage');
+  const name = draft.name.trim();
+  const email = optionalText(draft.email)?.toLowerCase();
+  if (!name) {
+    throw new LocalizedError('errors.studentNameRequired');
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new LocalizedError('errors.studentEmail');
+  }
+  const existing = await getAdapter().listStudents();
+  if (email && existing.some((student) => student.email === email)) {
+    throw new LocalizedError('errors.studentExists');
+  }
+  return getAdapter().saveStudent({
+    id: nextId('student'),
+    name,
+    ...(email && { email }),
+    ...(optionalText(draft.nationality) && {
+      nationality: draft.nationality!.trim().toUpperCase()
+    }),
+    createdAt: new Date().toISOString()
+  });
+};
+
+/** Applications, most recently updated first; `openOnly` leaves out rejected and enrolled ones. */
+export const listApplications = async (
+  filters: { universityId?: string; studentId?: string; openOnly?: boolean } = {}
+): Promise<Application[]> => {
+  assertCan('applications:manage');
+  return (await getAdapter().listApplications(filters.universityId))
+    .filter((application) => !filters.studentId || application.studentId === filters.studentId)
+    .filter((application) => !filters.openOnly || isOpenApplication(application))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// The university must be live, and a chosen program must be offered at the chosen level.
+const assertTarget = async (universityId: string, level: DegreeLevel, programId?: string) => {
+  const university = await getUniversity(universityId);
+  if (programId && findProgram(university, programId)?.level !== level) {
+    throw new LocalizedError('errors.noSuchProgram', { university: university.name });
+  }
+};
+
+const assertDeadline = (deadline: string | undefined) => {
+  if (deadline && !isIsoDate(deadline)) {
+    throw new LocalizedError('errors.applicationDeadline');
+  }
+};
+
+export const createApplication = async (draft: ApplicationDraft): Promise<Application> => {
+  assertCan('applications:manage');
+  const students = await getAdapter().listStudents();
+  if (!students.some((student) => student.id === draft.studentId)) {
+    throw new LocalizedError('errors.studentNotFound');
+  }
+  const programId = optionalText(draft.programId);
+  const deadline = optionalText(draft.deadline);
+  await assertTarget(draft.universityId, draft.level, programId);
+  assertDeadline(deadline);
+
+  const open = await listApplications({ studentId: draft.studentId, openOnly: true });
+  const duplicate = open.some(
+    (application) =>
+      application.universityId === draft.universityId &&
+      application.level === draft.level &&
+      application.programId === programId
+  );
+  if (duplicate) {
+    throw new LocalizedError('errors.duplicateApplication');
+  }
+
+  const now = new Date().toISOString();
+  const status = draft.status ?? 'shortlisted';
+  return getAdapter().saveApplication({
+    id: nextId('application'),
+    studentId: draft.studentId,
+    universityId: draft.universityId,
+    level: draft.level,
+    ...(programId && { programId }),
+    status,
+    statusDates: { [status]: now },
+    ...(deadline && { deadline }),
+    ...(optionalText(draft.notes) && { notes: draft.notes!.trim() }),
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+/** Applies `changes`, stamping the date whenever the application enters a different stage. */
+export const updateApplication = async (
+  id: string,
+  changes: ApplicationChanges
+): Promise<Application> => {
+  assertCan('applications:manage');
+  const existing = (await getAdapter().listApplications()).find(
+    (application) => application.id === id
+  );
+  if (!existing) {
+    throw new LocalizedError('errors.applicationNotFound');
+  }
+  const next: Application = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  (['programId', 'deadline', 'notes'] as const).forEach((field) => {
+    const value = optionalText(next[field]);
+    if (value) next[field] = value;
+    else delete next[field];
+  });
+  if ('programId' in changes) {
+    await assertTarget(next.universityId, next.level, next.programId);
+  }
+  assertDeadline(next.deadline);
+  if (next.status !== existing.status) {
+    next.statusDates = { ...existing.statusDates, [next.status]: next.updatedAt };
+  }
+  return getAdapter().saveApplication(next);
+};
+
+export const moveApplication = (id: string, status: ApplicationStatus) =>
+  updateApplication(id, { status });
+
+export const deleteApplication = async (id: string) => {
+  assertCan('applications:manage');
+  await getAdapter().removeApplication(id);
+};
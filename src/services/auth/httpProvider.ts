@@ -0,0 +1,91 @@
+import type { AuthSession, AuthUser } from '../../types/auth';
+import { LocalizedError } from '../i18n';
+import type { IdentityProvider } from './types';
+
+export interface HttpIdentityProviderOptions {
+  baseUrl: string;
+  fetchImpl?: typeof fetch;
+}
+
+export const TOKEN_KEY = 'manara_auth_token';
+
+// The API's own message is shown as sent; without one the status is reported in our words.
+const readError = async (response: Response) => {
+  try {
+    const body = (await response.json()) as { message?: string };
+    if (body?.message) return new Error(body.message);
+  } catch {
+    // Fall through to the status text when the body is not JSON.
+  }
+  return new LocalizedError('errors.requestFailed', { status: response.status });
+};
+
+/**
+ * Identity provider for an API exposing `/auth/login`, `/auth/session`, `/auth/logout` and
+ * `/users`. The session token is kept in `localStorage` and sent as a bearer token.
+ */
+export const createHttpIdentityProvider = ({
+  baseUrl,
+  fetchImpl = fetch
+}: HttpIdentityProviderOptions): IdentityProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const storage = typeof window === 'undefined' ? null : window.localStorage;
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const token = storage?.getItem(TOKEN_KEY);
+    const response = await fetchImpl(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init?.headers ?? {})
+      }
+    });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    kind: 'http',
+    signIn: async (credentials) => {
+      const session = await request<AuthSession>('/auth/login', {
+        method: 'POST',
+        body: JSON.stringify(credentials)
+      });
+      storage?.setItem(TOKEN_KEY, session.token);
+      return session;
+    },
+    signOut: async () => {
+      try {
+        await request<void>('/auth/logout', { method: 'POST' });
+      } finally {
+        storage?.removeItem(TOKEN_KEY);
+      }
+    },
+    restoreSession: async () => {
+      if (!storage?.getItem(TOKEN_KEY)) return null;
+      try {
+        return await request<AuthSession>('/auth/session');
+      } catch {
+        storage.removeItem(TOKEN_KEY);
+        return null;
+      }
+    },
+    listUsers: () => request<AuthUser[]>('/users'),
+    saveUser: (user) =>
+      user.id
+        ? request<AuthUser>(`/users/${encodeURIComponent(user.id)}`, {
+            method: 'PUT',
+            body: JSON.stringify(user)
+          })
+        : request<AuthUser>('/users', { method: 'POST', body: JSON.stringify(user) }),
+    removeUser: async (id) => {
+      await request<void>(`/users/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    }
+  };
+};
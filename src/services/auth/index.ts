@@ -0,0 +1,43 @@
+import { createHttpIdentityProvider } from './httpProvider';
+import { createLocalIdentityProvider } from './localProvider';
+import type { AuthConfig, IdentityProvider, IdentityProviderKind } from './types';
+import { LocalizedError } from '../i18n';
+
+export type {
+  AuthConfig,
+  Credentials,
+  IdentityProvider,
+  IdentityProviderKind,
+  UserDraft
+} from './types';
+export { createHttpIdentityProvider, TOKEN_KEY } from './httpProvider';
+export { createLocalIdentityProvider } from './localProvider';
+
+const providers: IdentityProviderKind[] = ['local', 'http'];
+
+/** Development servers default to the local provider; builds must name one explicitly. */
+export const resolveAuthConfig = (): AuthConfig => {
+  const requested = import.meta.env.VITE_AUTH_PROVIDER as IdentityProviderKind | undefined;
+  const fallback = import.meta.env.DEV ? 'local' : null;
+  return {
+    provider: requested && providers.includes(requested) ? requested : fallback,
+    apiBaseUrl: import.meta.env.VITE_AUTH_BASE_URL ?? import.meta.env.VITE_API_BASE_URL
+  };
+};
+
+export const createIdentityProvider = (config: AuthConfig): IdentityProvider => {
+  if (config.provider === 'http') {
+    if (!config.apiBaseUrl) {
+      throw new LocalizedError('errors.authBaseUrl');
+    }
+    return createHttpIdentityProvider({ baseUrl: config.apiBaseUrl });
+  }
+  // The local provider seeds accounts with known passwords, so it is kept out of builds
+  // entirely; without a configured provider nobody can sign in.
+  if (config.provider === 'local' && import.meta.env.DEV) {
+    return createLocalIdentityProvider();
+  }
+  throw new LocalizedError(
+    config.provider === 'local' ? 'errors.localAuthDevOnly' : 'errors.authProviderRequired'
+  );
+};
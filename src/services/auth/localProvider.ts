@@ -0,0 +1,138 @@
+import type { AuthSession, AuthUser } from '../../types/auth';
+import type { IdentityProvider, UserDraft } from './types';
+import { LocalizedError } from '../i18n';
+
+export const USERS_KEY = 'manara_users';
+export const SESSION_KEY = 'manara_session';
+
+// Development stand-in only: passwords are kept in plain text in this browser's storage.
+interface LocalUserRecord extends AuthUser {
+  password: string;
+}
+
+const devUsers: LocalUserRecord[] = [
+  {
+    id: 'dev-admin',
+    name: 'Dev Admin',
+    email: 'admin@manara.dev',
+    role: 'admin',
+    password: 'admin'
+  },
+  {
+    id: 'dev-editor',
+    name: 'Dev Editor',
+    email: 'editor@manara.dev',
+    role: 'editor',
+    password: 'editor'
+  },
+  {
+    id: 'dev-viewer',
+    name: 'Dev Viewer',
+    email: 'viewer@manara.dev',
+    role: 'viewer',
+    password: 'viewer'
+  }
+];
+
+const newId = (prefix: string) =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const toUser = ({ password: _password, ...user }: LocalUserRecord): AuthUser => user;
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Identity provider backed by `localStorage`, seeded with one account per role so every part of
+ * the app can be exercised without a real identity service.
+ */
+export const createLocalIdentityProvider = (): IdentityProvider => {
+  const storage = typeof window === 'undefined' ? null : window.localStorage;
+  let memoryUsers = devUsers;
+  let memorySession: string | null = null;
+
+  const readUsers = (): LocalUserRecord[] => {
+    if (!storage) return memoryUsers;
+    try {
+      const parsed: unknown = JSON.parse(storage.getItem(USERS_KEY) ?? 'null');
+      return Array.isArray(parsed) ? (parsed as LocalUserRecord[]) : devUsers;
+    } catch {
+      return devUsers;
+    }
+  };
+
+  const writeUsers = (users: LocalUserRecord[]) => {
+    memoryUsers = users;
+    storage?.setItem(USERS_KEY, JSON.stringify(users));
+  };
+
+  const readSession = () => (storage ? storage.getItem(SESSION_KEY) : memorySession);
+
+  const writeSession = (userId: string | null) => {
+    memorySession = userId;
+    if (!storage) return;
+    if (userId) {
+      storage.setItem(SESSION_KEY, userId);
+    } else {
+      storage.removeItem(SESSION_KEY);
+    }
+  };
+
+  const sessionFor = (record: LocalUserRecord): AuthSession => ({
+    user: toUser(record),
+    token: `local-${record.id}`
+  });
+
+  return {
+    kind: 'local',
+    signIn: async ({ email, password }) => {
+      const record = readUsers().find((user) => sameEmail(user.email, email));
+      if (!record || record.password !== password) {
+        throw new LocalizedError('errors.wrongCredentials');
+      }
+      writeSession(record.id);
+      return sessionFor(record);
+    },
+    signOut: async () => {
+      writeSession(null);
+    },
+    restoreSession: async () => {
+      const userId = readSession();
+      // Looked up again so role changes made by an admin apply on the next load.
+      const record = userId ? readUsers().find((user) => user.id === userId) : undefined;
+      if (!record) {
+        writeSession(null);
+        return null;
+      }
+      return sessionFor(record);
+    },
+    listUsers: async () => readUsers().map(toUser),
+    saveUser: async (draft: UserDraft) => {
+      const users = readUsers();
+      const existing = draft.id ? users.find((user) => user.id === draft.id) : undefined;
+      if (users.some((user) => user.id !== draft.id && sameEmail(user.email, draft.email))) {
+        throw new LocalizedError('errors.emailTaken');
+      }
+      if (!existing && !draft.password) {
+        throw new LocalizedError('errors.passwordRequired');
+      }
+      const record: LocalUserRecord = {
+        id: existing?.id ?? newId('user'),
+        name: draft.name.trim(),
+        email: draft.email.trim(),
+        role: draft.role,
+        password: draft.password || existing?.password || ''
+      };
+      writeUsers(
+        existing
+          ? users.map((user) => (user.id === record.id ? record : user))
+          : [...users, record]
+      );
+      return toUser(record);
+    },
+    removeUser: async (id) => {
+      writeUsers(readUsers().filter((user) => user.id !== id));
+    }
+  };
+};
@@ -0,0 +1,31 @@
+import type { AuthSession, AuthUser } from '../../types/auth';
+
+export type IdentityProviderKind = 'local' | 'http';
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+/** A user as sent to `saveUser`; the password is only needed for new accounts or resets. */
+export interface UserDraft extends Omit<AuthUser, 'id'> {
+  id?: string;
+  password?: string;
+}
+
+export interface IdentityProvider {
+  readonly kind: IdentityProviderKind;
+  signIn: (credentials: Credentials) => Promise<AuthSession>;
+  signOut: (session: AuthSession) => Promise<void>;
+  /** Picks up a session left by an earlier visit, or null when signed out. */
+  restoreSession: () => Promise<AuthSession | null>;
+  listUsers: () => Promise<AuthUser[]>;
+  saveUser: (user: UserDraft) => Promise<AuthUser>;
+  removeUser: (id: string) => Promise<void>;
+}
+
+export interface AuthConfig {
+  /** null when none is configured, which only development servers tolerate. */
+  provider: IdentityProviderKind | null;
+  apiBaseUrl?: string;
+}
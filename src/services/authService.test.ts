@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { makeUniversity, seedMemoryStore, signInAs } from '../test/fixtures';
+import {
+  AuthorizationError,
+  can,
+  getCurrentUser,
+  listUsers,
+  removeUser,
+  saveUser,
+  signIn
+} from './authService';
+import {
+  createUniversity,
+  deleteUniversity,
+  getUniversities,
+  purgeUniversity,
+  updateUniversity
+} from './universityService';
+
+describe('signIn', () => {
+  beforeEach(() => signInAs(null));
+
+  it('starts a session for valid credentials', async () => {
+    const user = await signIn(' Editor@manara.dev ', 'editor');
+    expect(user.role).toBe('editor');
+    expect(getCurrentUser()?.id).toBe(user.id);
+  });
+
+  it('rejects a wrong password and leaves the visitor signed out', async () => {
+    await expect(signIn('editor@manara.dev', 'admin')).rejects.toThrow();
+    expect(getCurrentUser()).toBeNull();
+  });
+});
+
+describe('can', () => {
+  it('grants each role its permissions and nothing to signed-out visitors', () => {
+    const user = (role: 'viewer' | 'editor' | 'admin') => ({
+      id: role,
+      name: role,
+      email: `${role}@manara.dev`,
+      role
+    });
+    expect(can('university:write', null)).toBe(false);
+    expect(can('university:write', user('viewer'))).toBe(false);
+    expect(can('university:write', user('editor'))).toBe(true);
+    expect(can('university:delete', user('editor'))).toBe(false);
+    expect(can('users:manage', user('admin'))).toBe(true);
+  });
+});
+
+describe('user management', () => {
+  it('is limited to admins', async () => {
+    await signInAs('editor');
+    await expect(listUsers()).rejects.toBeInstanceOf(AuthorizationError);
+    await signInAs('admin');
+    expect((await listUsers()).map((user) => user.role).sort()).toEqual([
+      'admin',
+      'editor',
+      'viewer'
+    ]);
+  });
+
+  it('always keeps an admin and never removes the signed-in account', async () => {
+    await signInAs('admin');
+    const admin = getCurrentUser()!;
+    await expect(saveUser({ ...admin, role: 'editor' })).rejects.toThrow();
+    await expect(removeUser(admin.id)).rejects.toThrow();
+  });
+});
+
+describe('role checks in universityService', () => {
+  const university = makeUniversity();
+
+  beforeEach(() => {
+    seedMemoryStore([university]);
+  });
+
+  it('lets signed-out visitors and viewers read but not write', async () => {
+    for (const role of [null, 'viewer'] as const) {
+      await signInAs(role);
+      expect(await getUniversities()).toHaveLength(1);
+      await expect(updateUniversity(university.id, { overview: 'x' })).rejects.toBeInstanceOf(
+        AuthorizationError
+      );
+    }
+  });
+
+  it('lets editors write but not delete', async () => {
+    await signInAs('editor');
+    await updateUniversity(university.id, { overview: 'Updated' });
+    await createUniversity(
+      makeUniversity({
+        id: 'uni-atlas',
+        name: 'Atlas Institute',
+        portalUrl: 'https://atlas.example.org'
+      })
+    );
+    await expect(deleteUniversity(university.id)).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('lets admins delete and purge', async () => {
+    await signInAs('admin');
+    await deleteUniversity(university.id);
+    await purgeUniversity(university.id);
+    expect(await getUniversities({ includeDeleted: true })).toEqual([]);
+  });
+});
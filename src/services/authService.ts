@@ -0,0 +1,154 @@
+import type { AuthSession, AuthUser, Permission, Role } from '../types/auth';
+import { createIdentityProvider, resolveAuthConfig } from './auth';
+import type { IdentityProvider, UserDraft } from './auth';
+import { LocalizedError } from './i18n';
+import type { MessageKey } from './i18n';
+
+export type AuthStatus = 'loading' | 'ready';
+
+export interface AuthState {
+  status: AuthStatus;
+  user: AuthUser | null;
+}
+
+/** Raised when the signed-in user (or a signed-out visitor) may not perform an action. */
+export class AuthorizationError extends LocalizedError {
+  readonly permission: Permission;
+
+  constructor(permission: Permission, key: MessageKey = 'errors.noPermission') {
+    super(key);
+    this.name = 'AuthorizationError';
+    this.permission = permission;
+  }
+}
+
+const rolePermissions: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['university:write', 'applications:manage'],
+  admin: ['university:write', 'university:delete', 'users:manage', 'applications:manage']
+};
+
+let provider: IdentityProvider | null = null;
+
+const getProvider = (): IdentityProvider => {
+  if (!provider) {
+    provider = createIdentityProvider(resolveAuthConfig());
+  }
+  return provider;
+};
+
+let session: AuthSession | null = null;
+let state: AuthState = { status: 'loading', user: null };
+let restoring: Promise<AuthState> | null = null;
+const listeners = new Set<() => void>();
+
+const setSession = (next: AuthSession | null) => {
+  session = next;
+  state = { status: 'ready', user: next?.user ?? null };
+  listeners.forEach((listener) => listener());
+};
+
+/** Swaps the identity provider, e.g. for a hosted identity service or tests. */
+export const configureIdentityProvider = (next: IdentityProvider) => {
+  provider = next;
+  restoring = null;
+  setSession(null);
+};
+
+/** Snapshot for `useSyncExternalStore`; the object only changes when the session does. */
+export const getAuthState = (): AuthState => state;
+
+export const subscribeToAuth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Loads any session left by an earlier visit. Safe to call more than once. */
+export const restoreSession = (): Promise<AuthState> => {
+  if (!restoring) {
+    // A provider that cannot be created leaves everyone signed out rather than failing open.
+    restoring = Promise.resolve()
+      .then(() => getProvider().restoreSession())
+      .catch(() => null)
+      .then((restored) => {
+        setSession(restored);
+        return state;
+      });
+  }
+  return restoring;
+};
+
+export const getCurrentUser = () => session?.user ?? null;
+
+export const getSessionToken = () => session?.token ?? null;
+
+export const signIn = async (email: string, password: string): Promise<AuthUser> => {
+  if (!email.trim() || !password) {
+    throw new LocalizedError('errors.credentialsRequired');
+  }
+  const next = await getProvider().signIn({ email: email.trim(), password });
+  restoring = Promise.resolve(state);
+  setSession(next);
+  return next.user;
+};
+
+export const signOut = async () => {
+  if (session) {
+    await getProvider().signOut(session);
+  }
+  setSession(null);
+};
+
+/** Signed-out visitors can browse like viewers but cannot change anything. */
+export const can = (permission: Permission, user: AuthUser | null = getCurrentUser()) =>
+  rolePermissions[user?.role ?? 'viewer'].includes(permission);
+
+export const assertCan = (permission: Permission) => {
+  if (!can(permission)) {
+    throw new AuthorizationError(
+      permission,
+      getCurrentUser() ? undefined : 'errors.signInToChange'
+    );
+  }
+};
+
+export const listUsers = async (): Promise<AuthUser[]> => {
+  assertCan('users:manage');
+  const users = await getProvider().listUsers();
+  return [...users].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const assertKeepsAnAdmin = (remaining: AuthUser[]) => {
+  if (!remaining.some((user) => user.role === 'admin')) {
+    throw new LocalizedError('errors.keepOneAdmin');
+  }
+};
+
+export const saveUser = async (draft: UserDraft): Promise<AuthUser> => {
+  assertCan('users:manage');
+  if (!draft.name.trim() || !draft.email.trim()) {
+    throw new LocalizedError('errors.userNameEmailRequired');
+  }
+  const users = await getProvider().listUsers();
+  assertKeepsAnAdmin([
+    ...users.filter((user) => user.id !== draft.id),
+    { id: draft.id ?? '', name: draft.name, email: draft.email, role: draft.role }
+  ]);
+  const saved = await getProvider().saveUser(draft);
+  if (session && saved.id === session.user.id) {
+    setSession({ ...session, user: saved });
+  }
+  return saved;
+};
+
+export const removeUser = async (id: string) => {
+  assertCan('users:manage');
+  if (session?.user.id === id) {
+    throw new LocalizedError('errors.removeSelf');
+  }
+  const users = await getProvider().listUsers();
+  assertKeepsAnAdmin(users.filter((user) => user.id !== id));
+  await getProvider().removeUser(id);
+};
@@ -0,0 +1,73 @@
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University } from '../types/university';
+import { getUniversity } from './universityService';
+import { feeInBase } from './currency';
+
+export const MAX_COMPARE = 4;
+
+const IDS_PARAM = 'ids';
+
+/** Reads the compared ids from `/compare?ids=a,b`, dropping duplicates and any past the limit. */
+export const parseCompareIds = (params: URLSearchParams): string[] =>
+  Array.from(
+    new Set(
+      (params.get(IDS_PARAM) ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  ).slice(0, MAX_COMPARE);
+
+export const compareUrl = (ids: string[]) =>
+  ids.length > 0 ? `/compare?${IDS_PARAM}=${ids.map(encodeURIComponent).join(',')}` : '/compare';
+
+export interface Comparison {
+  universities: University[];
+  /** Ids in the link that no longer resolve, e.g. because the record was deleted. */
+  missing: string[];
+}
+
+export const getComparison = async (ids: string[]): Promise<Comparison> => {
+  const loaded = await Promise.all(ids.map((id) => getUniversity(id).catch(() => null)));
+  return {
+    universities: loaded.filter((uni): uni is University => uni !== null),
+    missing: ids.filter((_, index) => loaded[index] === null)
+  };
+};
+
+export type CompareValue = number | undefined;
+
+/**
+ * Indices of the best value in a row, or none when there is nothing to choose between, i.e.
+ * fewer than two universities have a value or they all share it.
+ */
+export const bestIndices = (values: CompareValue[], prefer: 'lowest' | 'highest') => {
+  const present = values.filter((value): value is number => value !== undefined);
+  if (present.length < 2 || present.every((value) => value === present[0])) return [];
+  const best = prefer === 'lowest' ? Math.min(...present) : Math.max(...present);
+  return values.flatMap((value, index) => (value === best ? [index] : []));
+};
+
+/** True when the rendered cells of a row are not all the same. */
+export const valuesDiffer = (values: string[]) => values.some((value) => value !== values[0]);
+
+/** Tuition in the base currency, so the cheapest can be picked across currencies. */
+export const tuitionAt = (university: University, level: DegreeLevel): CompareValue =>
+  feeInBase(university, level);
+
+export const countAt = (
+  university: University,
+  key: 'programs' | 'scholarships',
+  level: DegreeLevel
+) => university[key]?.[level]?.length ?? 0;
+
+/** Levels at least one compared university offers, so empty rows can be skipped. */
+export const comparedLevels = (universities: University[]) =>
+  degreeLevels.filter((level) =>
+    universities.some(
+      (uni) =>
+        countAt(uni, 'programs', level) > 0 ||
+        countAt(uni, 'scholarships', level) > 0 ||
+        tuitionAt(uni, level) !== undefined
+    )
+  );
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCountries, resolveCountry } from './countries';
+
+describe('resolveCountry', () => {
+  it('reads codes, names and aliases', () => {
+    expect(resolveCountry('IR', 'en')).toBe('IR');
+    expect(resolveCountry('Persia', 'en')).toBe('IR');
+    expect(resolveCountry('South Korea', 'en')).toBe('KR');
+    expect(resolveCountry('DR Congo', 'en')).toBe('CD');
+  });
+
+  it('leaves ambiguous names and lower-case tokens unmatched', () => {
+    expect(resolveCountry('Korea', 'en')).toBeNull();
+    expect(resolveCountry('Congo', 'en')).toBeNull();
+    expect(resolveCountry('in', 'en')).toBeNull();
+    expect(resolveCountries(['Iran', 'Korea'], 'en')).toEqual({
+      codes: ['IR'],
+      unmatched: ['Korea']
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import countryTable from '../data/countries.json';
+import type { Locale } from '../types/i18n';
+import { getLocale } from './i18n';
+
+export interface Country {
+  /** ISO 3166-1 alpha-2 code, e.g. IR. */
+  code: string;
+  /** English short name. */
+  name: string;
+  /** Other names people write, e.g. "Persia" or "Islamic Republic of Iran". */
+  aliases?: string[];
+}
+
+/** Every ISO 3166-1 country, from `src/data/countries.json`, ordered by code. */
+export const countries: Country[] = countryTable;
+
+const byCode = new Map(countries.map((country) => [country.code, country]));
+
+export const isCountryCode = (value: unknown): value is string =>
+  typeof value === 'string' && byCode.has(value);
+
+const displayNames = new Map<Locale, Intl.DisplayNames | null>();
+
+const regionNames = (locale: Locale) => {
+  if (!displayNames.has(locale)) {
+    try {
+      displayNames.set(locale, new Intl.DisplayNames([locale], { type: 'region' }));
+    } catch {
+      displayNames.set(locale, null);
+    }
+  }
+  return displayNames.get(locale) ?? null;
+};
+
+/**
+ * Name of a country in the given language. English uses the bundled short names; other
+ * languages come from the browser, falling back to English. Unknown codes are returned as is.
+ */
+export const countryName = (code: string, locale: Locale = getLocale()) => {
+  const country = byCode.get(code);
+  if (!country) return code;
+  if (locale === 'en') return country.name;
+  return regionNames(locale)?.of(code) ?? country.name;
+};
+
+/** Lowercases and strips accents and punctuation so "Côte d’Ivoire" finds "cote d ivoire". */
+const normalize = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Every name a country is known by, normalised: English name, aliases and the name in the
+// active language.
+const countryNames = (country: Country, locale: Locale) =>
+  [country.name, ...(country.aliases ?? []), countryName(country.code, locale)]
+    .map(normalize)
+    .filter(Boolean);
+
+// Names plus the code, for the autocomplete box.
+const searchNames = (country: Country, locale: Locale) =>
+  Array.from(new Set([normalize(country.code), ...countryNames(country, locale)]));
+
+/**
+ * The code for a country written as an upper-case code, a name in English or the active
+ * language, or a common alias. Returns null, leaving the entry for review, when nothing matches
+ * exactly or a name fits more than one country. Ambiguous short forms such as "Korea" or
+ * "Congo" are deliberately not aliases.
+ */
+export const resolveCountry = (text: string, locale: Locale = getLocale()): string | null => {
+  const value = text.trim();
+  if (!value) return null;
+  if (isCountryCode(value)) return value;
+  const query = normalize(value);
+  const matches = countries.filter((country) => countryNames(country, locale).includes(query));
+  return matches.length === 1 ? matches[0].code : null;
+};
+
+/**
+ * Countries for an autocomplete box, best first: names starting with the query, then names
+ * containing a word that starts with it.
+ */
+export const searchCountries = (query: string, limit = 8, locale: Locale = getLocale()) => {
+  const term = normalize(query);
+  if (!term) return [];
+  const ranked = countries
+    .map((country) => {
+      const names = searchNames(country, locale);
+      const rank = names.some((name) => name.startsWith(term))
+        ? 0
+        : names.some((name) => name.split(' ').some((word) => word.startsWith(term)))
+          ? 1
+          : -1;
+      return { country, rank };
+    })
+    .filter(({ rank }) => rank >= 0);
+  return ranked
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        countryName(a.country.code, locale).localeCompare(countryName(b.country.code, locale))
+    )
+    .slice(0, limit)
+    .map(({ country }) => country);
+};
+
+/** Every country sorted by its name in the given language, for select boxes. */
+export const sortedCountries = (locale: Locale = getLocale()) =>
+  [...countries].sort((a, b) =>
+    countryName(a.code, locale).localeCompare(countryName(b.code, locale), locale)
+  );
+
+/**
+ * Splits free-text country entries into codes and the entries that match no country, keeping
+ * the first spelling of each and dropping duplicates.
+ */
+export const resolveCountries = (entries: string[], locale: Locale = getLocale()) => {
+  const codes: string[] = [];
+  const unmatched: string[] = [];
+  entries.forEach((entry) => {
+    const text = entry.trim();
+    if (!text) return;
+    const code = resolveCountry(text, locale);
+    if (code) {
+      if (!codes.includes(code)) codes.push(code);
+    } else if (!unmatched.some((other) => other.toLowerCase() === text.toLowerCase())) {
+      unmatched.push(text);
+    }
+  });
+  return { codes, unmatched };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes cells holding commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 3, null]])).toBe(
+      '"a,b","say ""hi""","two\nlines",3,'
+    );
+  });
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'plain']])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),plain`
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields and skips blank lines', () => {
+    expect(parseCsv('\uFEFFname,note\r\n"Doha, QA","a ""b"""\n\n')).toEqual([
+      ['name', 'note'],
+      ['Doha, QA', 'a "b"']
+    ]);
+  });
+
+  it('reads back what toCsv wrote', () => {
+    const rows = [['=1+1', "'quoted", '-', 'multi\r\nline']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,61 @@
+// Spreadsheets run cells starting with these as formulas, so exported cells get a leading
+// apostrophe, which the spreadsheet hides and `parseCsv` drops again.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const unguard = (field: string) =>
+  field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+
+/**
+ * RFC 4180 style CSV parsing: quoted fields, escaped quotes and embedded newlines. The apostrophe
+ * `toCsv` puts before formula-like cells is removed, so exported files import unchanged.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unguard(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(unguard(field));
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(unguard(field));
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const escapeCell = (value: unknown) => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { makeUniversity } from '../test/fixtures';
+import { feeAmount, feeInBase, programTuition } from './currency';
+
+const university = makeUniversity({
+  fees: {
+    currency: 'GBP',
+    application: 75,
+    averageTuition: { bachelor: 9_250, masters: 30_000 },
+    currencies: { application: 'USD' }
+  }
+});
+
+describe('feeAmount', () => {
+  it('uses a fee’s own currency and falls back to the university’s', () => {
+    expect(feeAmount(university, 'application')).toEqual({ amount: 75, currency: 'USD' });
+    expect(feeAmount(university, 'bachelor')).toEqual({ amount: 9_250, currency: 'GBP' });
+    expect(feeAmount(university, 'phd')).toBeUndefined();
+  });
+
+  it('treats records without a currency as US dollars', () => {
+    const legacy = makeUniversity({ fees: { application: 50, averageTuition: {} } as never });
+    expect(feeAmount(legacy, 'application')).toEqual({ amount: 50, currency: 'USD' });
+  });
+});
+
+describe('programTuition', () => {
+  it('charges program tuition in its level’s currency', () => {
+    const priced = {
+      ...university,
+      fees: { ...university.fees, currencies: { masters: 'EUR' } }
+    };
+    const program = { id: 'masters-law', name: 'Law', duration: '1 year', delivery: 'Online' };
+    expect(programTuition(priced, 'masters', { ...program, tuition: 25_000 })).toEqual({
+      amount: 25_000,
+      currency: 'EUR'
+    });
+    expect(programTuition(priced, 'masters', program)).toEqual({
+      amount: 30_000,
+      currency: 'EUR'
+    });
+  });
+});
+
+describe('feeInBase', () => {
+  it('converts each fee from its own currency', () => {
+    expect(feeInBase(university, 'application')).toBe(75);
+    expect(feeInBase(university, 'bachelor')).toBeGreaterThan(9_250);
+  });
+});
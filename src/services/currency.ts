@@ -0,0 +1,151 @@
+import rateTable from '../data/exchangeRates.json';
+import type { DegreeLevel, FeeKind, MoneyAmount, Program, University } from '../types/university';
+import { formatNumber, getLocale, LocalizedError } from './i18n';
+
+export interface ExchangeRateTable {
+  /** Currency every rate is quoted against. */
+  base: string;
+  /** Day the table was last updated. */
+  asOf: string;
+  /** Units of each currency per one unit of `base`. */
+  rates: Record<string, number>;
+}
+
+/**
+ * Offline rates kept in `src/data/exchangeRates.json`; update the file and its `asOf` date when
+ * they drift. Converted amounts are for display and comparison only.
+ */
+export const exchangeRates: ExchangeRateTable = rateTable;
+
+export const BASE_CURRENCY = exchangeRates.base;
+
+export const supportedCurrencies = Object.keys(exchangeRates.rates).sort();
+
+export const isSupportedCurrency = (code: unknown): code is string =>
+  typeof code === 'string' && supportedCurrencies.includes(code);
+
+/** Converts between two listed currencies; undefined when either has no rate. */
+export const convertAmount = (amount: number, from: string, to: string): number | undefined => {
+  if (from === to) return amount;
+  if (!isSupportedCurrency(from) || !isSupportedCurrency(to)) return undefined;
+  return (amount / exchangeRates.rates[from]) * exchangeRates.rates[to];
+};
+
+export const formatMoney = (
+  { amount, currency }: MoneyAmount,
+  options: { compact?: boolean } = {}
+) => {
+  try {
+    return new Intl.NumberFormat(getLocale(), {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+      ...(options.compact ? { notation: 'compact' as const } : {})
+    }).format(amount);
+  } catch {
+    return `${currency} ${formatNumber(Math.round(amount))}`;
+  }
+};
+
+export type { FeeKind } from '../types/university';
+
+/**
+ * Currency one fee is charged in: its own when it has one, else the university's. Records from
+ * before fees carried a currency are in USD.
+ */
+export const feeCurrency = (university: University, kind?: FeeKind) =>
+  (kind && university.fees?.currencies?.[kind]) || university.fees?.currency || BASE_CURRENCY;
+
+/** One fee in the currency it is charged in, or undefined when it is not listed. */
+export const feeAmount = (university: University, kind: FeeKind): MoneyAmount | undefined => {
+  const amount =
+    kind === 'application'
+      ? university.fees?.application
+      : university.fees?.averageTuition?.[kind];
+  return typeof amount === 'number' && !Number.isNaN(amount)
+    ? { amount, currency: feeCurrency(university, kind) }
+    : undefined;
+};
+
+/**
+ * A program's own tuition, or the university's average for its level when it has none. Program
+ * tuition is charged in the same currency as the level's average.
+ */
+export const programTuition = (
+  university: University,
+  level: DegreeLevel,
+  program: Program
+): MoneyAmount | undefined =>
+  typeof program.tuition === 'number' && !Number.isNaN(program.tuition)
+    ? { amount: program.tuition, currency: feeCurrency(university, level) }
+    : feeAmount(university, level);
+
+/** A fee in the base currency, so fees charged in different currencies can be compared. */
+export const feeInBase = (university: University, kind: FeeKind): number | undefined => {
+  const fee = feeAmount(university, kind);
+  return fee && convertAmount(fee.amount, fee.currency, BASE_CURRENCY);
+};
+
+const DISPLAY_CURRENCY_KEY = 'manara_display_currency';
+
+const readDisplayCurrency = () => {
+  if (typeof window === 'undefined') return BASE_CURRENCY;
+  const stored = window.localStorage.getItem(DISPLAY_CURRENCY_KEY);
+  return isSupportedCurrency(stored) ? stored : BASE_CURRENCY;
+};
+
+let displayCurrency = readDisplayCurrency();
+const listeners = new Set<() => void>();
+
+export const getDisplayCurrency = () => displayCurrency;
+
+export const setDisplayCurrency = (currency: string) => {
+  if (!isSupportedCurrency(currency)) {
+    throw new LocalizedError('errors.noExchangeRate', { currency });
+  }
+  displayCurrency = currency;
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToDisplayCurrency = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export interface DisplayedMoney {
+  text: string;
+  /** The amount as charged, set only when `text` is a conversion. */
+  original?: string;
+}
+
+/**
+ * Formats an amount in the display currency. Amounts in a currency without a rate are shown
+ * as charged rather than guessed at.
+ */
+export const displayMoney = (
+  money: MoneyAmount | undefined,
+  currency = displayCurrency
+): DisplayedMoney => {
+  if (!money) return { text: '—' };
+  const converted = convertAmount(money.amount, money.currency, currency);
+  if (converted === undefined || money.currency === currency) {
+    return { text: formatMoney(money) };
+  }
+  return { text: formatMoney({ amount: converted, currency }), original: formatMoney(money) };
+};
+
+/** Formats a base-currency amount, such as a filter bound, in the display currency. */
+export const displayBaseAmount = (
+  amount: number,
+  currency = displayCurrency,
+  options: { compact?: boolean } = {}
+) =>
+  formatMoney(
+    { amount: convertAmount(amount, BASE_CURRENCY, currency) ?? amount, currency },
+    options
+  );
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Scholarship } from '../types/university';
+import { makeUniversity, seedMemoryStore } from '../test/fixtures';
+import { formatDeadline, getScholarshipDeadlines, toIcs } from './deadlineService';
+
+const scholarship = (id: string, name: string, deadline: string): Scholarship => ({
+  id,
+  name,
+  funding: { type: 'full-tuition' },
+  eligibility: 'Open to all',
+  deadline
+});
+
+const qatar = makeUniversity({
+  id: 'uni-qa',
+  name: 'Gulf University',
+  location: { country: 'QA', region: 'Al Rayyan', city: 'Education City' },
+  scholarships: {
+    bachelor: [scholarship('bachelor-merit', 'Merit Award', '2026-03-01')],
+    masters: [scholarship('masters-rolling', 'Research Grant', 'Rolling')],
+    phd: []
+  }
+});
+
+const uk = makeUniversity({
+  id: 'uni-uk',
+  name: 'Northern University',
+  location: { country: 'GB', city: 'Leeds' },
+  scholarships: {
+    bachelor: [],
+    masters: [scholarship('masters-chevening', 'Chevening; Partner, Award', '2026-01-15')],
+    phd: []
+  }
+});
+
+describe('getScholarshipDeadlines', () => {
+  beforeEach(() => {
+    seedMemoryStore([qatar, uk]);
+  });
+
+  it('lists dated deadlines by date, then rolling ones', async () => {
+    const deadlines = await getScholarshipDeadlines();
+    expect(deadlines.map((deadline) => [deadline.id, deadline.date])).toEqual([
+      ['uni-uk-masters-chevening', '2026-01-15'],
+      ['uni-qa-bachelor-merit', '2026-03-01'],
+      ['uni-qa-masters-rolling', null]
+    ]);
+  });
+
+  it('filters by degree level, country, region and university', async () => {
+    const ids = async (filters: Parameters<typeof getScholarshipDeadlines>[0]) =>
+      (await getScholarshipDeadlines(filters)).map((deadline) => deadline.id);
+    expect(await ids({ degreeLevel: 'masters' })).toEqual([
+      'uni-uk-masters-chevening',
+      'uni-qa-masters-rolling'
+    ]);
+    expect(await ids({ country: 'GB' })).toEqual(['uni-uk-masters-chevening']);
+    expect(await ids({ country: 'QA', region: 'al rayyan' })).toHaveLength(2);
+    expect(await ids({ country: 'QA', region: 'Doha' })).toEqual([]);
+    expect(await ids({ universityId: 'uni-qa', degreeLevel: 'bachelor' })).toEqual([
+      'uni-qa-bachelor-merit'
+    ]);
+  });
+});
+
+describe('formatDeadline', () => {
+  it('shows text that is not a date yet instead of calling it rolling', () => {
+    expect(formatDeadline({ deadline: '', deadlineNote: '21 jan' })).toBe(
+      '“21 jan” (date to be confirmed)'
+    );
+    expect(formatDeadline({ deadline: 'Rolling' })).toBe('Rolling');
+    expect(formatDeadline({ deadline: '2026-03-01' })).not.toBe('Rolling');
+  });
+});
+
+describe('toIcs', () => {
+  beforeEach(() => {
+    seedMemoryStore([qatar, uk]);
+  });
+
+  it('writes one all-day event per dated deadline with a stable UID', async () => {
+    const ics = toIcs(await getScholarshipDeadlines());
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines.at(-1)).toBe('END:VCALENDAR');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toContain('UID:uni-qa-bachelor-merit@manara-scholars');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260301');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260302');
+    expect(lines).toContain('X-WR-CALNAME:Manara scholarship deadlines');
+  });
+
+  it('escapes text and folds long lines', async () => {
+    const ics = toIcs(await getScholarshipDeadlines({ country: 'GB' }));
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(
+      'SUMMARY:Chevening\\; Partner\\, Award deadline — Northern University'
+    );
+    expect(unfolded).toContain('DESCRIPTION:Northern University · Masters\\n');
+    const encoder = new TextEncoder();
+    ics
+      .split('\r\n')
+      .forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+  });
+});
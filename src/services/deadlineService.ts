@@ -0,0 +1,160 @@
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, Scholarship, UniversityLocation } from '../types/university';
+import { formatFunding } from './funding';
+import { formatDate, localize, t } from './i18n';
+import { formatLocation } from './locations';
+import { getUniversities } from './universityService';
+import { isIsoDate } from './universityValidation';
+
+export interface ScholarshipDeadline {
+  /**
+   * Built from the university and scholarship ids, so it survives reloads, edits and reordering
+   * and calendar apps update events instead of duplicating them.
+   */
+  id: string;
+  universityId: string;
+  universityName: string;
+  location: UniversityLocation;
+  portalUrl: string;
+  level: DegreeLevel;
+  scholarship: Scholarship;
+  /** YYYY-MM-DD, or null for rolling and unparseable deadlines. */
+  date: string | null;
+}
+
+export interface DeadlineFilters {
+  degreeLevel?: DegreeLevel;
+  /** ISO country code. */
+  country?: string;
+  /** Region within the country, matched case-insensitively. */
+  region?: string;
+  universityId?: string;
+}
+
+/** A deadline for display: its date, text still to be confirmed as a date, or rolling. */
+export const formatDeadline = ({
+  deadline,
+  deadlineNote
+}: Pick<Scholarship, 'deadline' | 'deadlineNote'>) => {
+  if (isIsoDate(deadline?.trim() ?? '')) return formatDate(deadline.trim());
+  return deadlineNote ? t('common.deadlineToConfirm', { text: deadlineNote }) : t('common.rolling');
+};
+
+/** Every scholarship deadline in the directory, dated ones first in chronological order. */
+export const getScholarshipDeadlines = async (
+  filters: DeadlineFilters = {}
+): Promise<ScholarshipDeadline[]> => {
+  const universities = await getUniversities({ country: filters.country, region: filters.region });
+  return universities
+    .filter((uni) => !filters.universityId || uni.id === filters.universityId)
+    .flatMap((uni) =>
+      (filters.degreeLevel ? [filters.degreeLevel] : degreeLevels).flatMap((level) =>
+        (uni.scholarships?.[level] ?? []).map((scholarship) => {
+          const deadline = scholarship.deadline?.trim() ?? '';
+          return {
+            id: `${uni.id}-${scholarship.id}`,
+            universityId: uni.id,
+            universityName: uni.name,
+            location: uni.location,
+            portalUrl: uni.portalUrl,
+            level,
+            scholarship,
+            date: isIsoDate(deadline) ? deadline : null
+          };
+        })
+      )
+    )
+    .sort((a, b) => {
+      if (a.date && b.date) return a.date.localeCompare(b.date);
+      if (a.date) return -1;
+      if (b.date) return 1;
+      return a.universityName.localeCompare(b.universityName);
+    });
+};
+
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/** RFC 5545 limits content lines to 75 octets; longer ones continue on a space-indented line. */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+const nextDay = (isoDate: string) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * All-day iCalendar events for dated deadlines; rolling deadlines have no date and are skipped.
+ * The event text is written in the active language.
+ */
+export const toIcs = (deadlines: ScholarshipDeadline[]) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = deadlines
+    .filter((deadline): deadline is ScholarshipDeadline & { date: string } =>
+      Boolean(deadline.date)
+    )
+    .flatMap((deadline) => {
+      const { scholarship } = deadline;
+      const description = [
+        `${deadline.universityName} · ${t(`degree.${deadline.level}`)}`,
+        t('deadlines.icsFunding', { funding: formatFunding(scholarship.funding) }),
+        scholarship.eligibility &&
+          t('deadlines.icsEligibility', { eligibility: scholarship.eligibility }),
+        deadline.portalUrl
+      ]
+        .filter(Boolean)
+        .join('\n');
+      return [
+        'BEGIN:VEVENT',
+        `UID:${deadline.id}@manara-scholars`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(deadline.date)}`,
+        `DTEND;VALUE=DATE:${icsDate(nextDay(deadline.date))}`,
+        `SUMMARY:${escapeIcsText(
+          t('deadlines.icsSummary', {
+            scholarship: localize(scholarship.name, scholarship.nameTranslations),
+            university: deadline.universityName
+          })
+        )}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        `LOCATION:${escapeIcsText(formatLocation(deadline.location))}`,
+        `URL:${deadline.portalUrl}`,
+        'END:VEVENT'
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Manara Scholars//Scholarship deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(t('deadlines.icsCalendarName'))}`,
+    ...events,
+    'END:VCALENDAR'
+  ]
+    .map(foldLine)
+    .join('\r\n');
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { University } from '../types/university';
+import { filterUniversities, tuitionBands } from './directoryFilters';
+
+const withTuition = (currency: string, masters: number): University => ({
+  id: `uni-${currency}`,
+  name: 'Test University',
+  portalUrl: 'https://test.example.edu',
+  location: { country: 'CA', city: 'Toronto' },
+  overview: '',
+  fees: { currency, application: 0, averageTuition: { masters } },
+  programs: { bachelor: [], masters: [], phd: [] },
+  scholarships: { bachelor: [], masters: [], phd: [] },
+  restrictedCountries: []
+});
+
+describe('tuition bands', () => {
+  it('place every converted fee in exactly one band', () => {
+    // CAD 54,800.50 is USD 40,000.36, between the old integer band edges.
+    const universities = [
+      withTuition('CAD', 54_800.5),
+      withTuition('USD', 40_000),
+      withTuition('USD', 19_999.5)
+    ];
+    universities.forEach((university) => {
+      const bands = tuitionBands.filter(
+        ({ min, max }) =>
+          filterUniversities([university], { tuitionMin: min, tuitionMax: max }).length === 1
+      );
+      expect(bands).toHaveLength(1);
+    });
+  });
+});
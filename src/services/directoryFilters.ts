@@ -0,0 +1,241 @@
+import { degreeLevels, deliveryModes, fundingTypes } from '../types/university';
+import type { DegreeLevel, DeliveryMode, FundingType, University } from '../types/university';
+import { countryName, resolveCountry } from './countries';
+import { displayBaseAmount, feeInBase } from './currency';
+import { t } from './i18n';
+
+export interface UniversityFilters {
+  search?: string;
+  /** Country code of the university's main location. */
+  country?: string;
+  /** Region within `country`, matched without regard to case. */
+  region?: string;
+  degreeLevel?: DegreeLevel;
+  /** Keeps universities with a scholarship of this kind (at `degreeLevel`, when set). */
+  fundingType?: FundingType;
+  /**
+   * Average tuition bounds, checked at `degreeLevel` or, when unset, at any level: at least
+   * `tuitionMin` and below `tuitionMax`. Like `maxApplicationFee` they are in the base currency,
+   * so a shared link filters the same way whichever display currency the reader has picked.
+   */
+  tuitionMin?: number;
+  tuitionMax?: number;
+  maxApplicationFee?: number;
+  /** Keeps universities offering a program with this delivery (at `degreeLevel`, when set). */
+  delivery?: DeliveryMode;
+  /** Keeps universities listing at least one scholarship (at `degreeLevel`, when set). */
+  hasScholarships?: boolean;
+  /** Country code; drops universities whose `restrictedCountries` include it. */
+  eligibleCountry?: string;
+  /** Trashed records are hidden unless this is set. */
+  includeDeleted?: boolean;
+}
+
+export interface FacetOption<T> {
+  value: T;
+  count: number;
+}
+
+/** Half-open range `[min, max)`, so fees converted from other currencies fall in exactly one. */
+export interface TuitionBand {
+  min?: number;
+  max?: number;
+}
+
+export interface DirectoryFacets {
+  country: FacetOption<string>[];
+  /** Regions of the chosen country; empty until a country is picked. */
+  region: FacetOption<string>[];
+  degreeLevel: FacetOption<DegreeLevel>[];
+  fundingType: FacetOption<FundingType>[];
+  delivery: FacetOption<DeliveryMode>[];
+  tuition: FacetOption<TuitionBand>[];
+  maxApplicationFee: FacetOption<number>[];
+  hasScholarships: number;
+  /** Country codes in any restriction list, with how many universities accept them. */
+  eligibleCountry: FacetOption<string>[];
+}
+
+/** English delivery text stored on programs; translate `delivery.<mode>` for display. */
+export const deliveryModeLabels: Record<DeliveryMode, string> = {
+  'on-campus': 'On-campus',
+  hybrid: 'Hybrid',
+  online: 'Online'
+};
+
+export const tuitionBands: TuitionBand[] = [
+  { max: 20000 },
+  { min: 20000, max: 40000 },
+  { min: 40000, max: 60000 },
+  { min: 60000 }
+];
+
+export const applicationFeeLimits = [0, 50, 100, 150];
+
+/** Band label in the given currency, e.g. "£16K–£32K". */
+export const describeTuitionBand = ({ min, max }: TuitionBand, currency?: string) => {
+  const format = (amount: number) => displayBaseAmount(amount, currency, { compact: true });
+  if (min === undefined) return t('tuitionBand.under', { amount: format(max ?? 0) });
+  if (max === undefined) return t('tuitionBand.from', { amount: format(min) });
+  return t('tuitionBand.between', { min: format(min), max: format(max) });
+};
+
+/** Maps free-text program delivery such as "On campus" or "Online (part-time)" to a mode. */
+export const toDeliveryMode = (delivery: string | undefined): DeliveryMode | null => {
+  const text = (delivery ?? '').toLowerCase();
+  if (text.includes('hybrid') || text.includes('blended')) return 'hybrid';
+  if (text.includes('online') || text.includes('remote') || text.includes('distance')) {
+    return 'online';
+  }
+  if (text.includes('campus') || text.includes('in person') || text.includes('in-person')) {
+    return 'on-campus';
+  }
+  return null;
+};
+
+/** Program delivery for display: the standard modes are translated, free text is kept as is. */
+export const describeDelivery = (delivery: string) => {
+  const mode = deliveryModes.find((value) => deliveryModeLabels[value] === delivery.trim());
+  return mode ? t(`delivery.${mode}`) : delivery;
+};
+
+const levelsFor = (filters: UniversityFilters): DegreeLevel[] =>
+  filters.degreeLevel ? [filters.degreeLevel] : degreeLevels;
+
+type FacetKey = Exclude<keyof UniversityFilters, 'search' | 'includeDeleted'>;
+
+type Predicate = (university: University, filters: UniversityFilters) => boolean;
+
+/** One predicate per facet; `tuitionMin` is checked together with `tuitionMax`. */
+const predicates: Record<FacetKey, Predicate> = {
+  country: (university, { country }) => !country || university.location?.country === country,
+  region: (university, { region }) =>
+    !region?.trim() ||
+    (university.location?.region ?? '').trim().toLowerCase() === region.trim().toLowerCase(),
+  degreeLevel: (university, { degreeLevel }) =>
+    !degreeLevel ||
+    (Array.isArray(university.programs?.[degreeLevel]) &&
+      university.programs[degreeLevel].length > 0),
+  fundingType: (university, filters) =>
+    !filters.fundingType ||
+    levelsFor(filters).some((level) =>
+      (university.scholarships?.[level] ?? []).some(
+        (scholarship) => scholarship.funding?.type === filters.fundingType
+      )
+    ),
+  tuitionMin: () => true,
+  tuitionMax: (university, filters) => {
+    const { tuitionMin, tuitionMax } = filters;
+    if (tuitionMin === undefined && tuitionMax === undefined) return true;
+    return levelsFor(filters).some((level) => {
+      const tuition = feeInBase(university, level);
+      return (
+        typeof tuition === 'number' &&
+        (tuitionMin === undefined || tuition >= tuitionMin) &&
+        (tuitionMax === undefined || tuition < tuitionMax)
+      );
+    });
+  },
+  maxApplicationFee: (university, { maxApplicationFee }) => {
+    if (maxApplicationFee === undefined) return true;
+    const fee = feeInBase(university, 'application');
+    return fee !== undefined && fee <= maxApplicationFee;
+  },
+  delivery: (university, filters) =>
+    !filters.delivery ||
+    levelsFor(filters).some((level) =>
+      (university.programs?.[level] ?? []).some(
+        (program) => toDeliveryMode(program.delivery) === filters.delivery
+      )
+    ),
+  hasScholarships: (university, filters) =>
+    !filters.hasScholarships ||
+    levelsFor(filters).some((level) => (university.scholarships?.[level]?.length ?? 0) > 0),
+  eligibleCountry: (university, { eligibleCountry }) =>
+    !eligibleCountry?.trim() ||
+    // Links saved before codes were stored may still name the country.
+    !(university.restrictedCountries ?? []).includes(
+      resolveCountry(eligibleCountry) ?? eligibleCountry.trim().toUpperCase()
+    )
+};
+
+const facetKeys = Object.keys(predicates) as FacetKey[];
+
+const matches = (university: University, filters: UniversityFilters) =>
+  facetKeys.every((key) => predicates[key](university, filters));
+
+/** Applies every facet in `filters`; free-text search is handled by the search index. */
+export const filterUniversities = (universities: University[], filters?: UniversityFilters) =>
+  filters ? universities.filter((university) => matches(university, filters)) : universities;
+
+/**
+ * Counts, for each option of each facet, how many universities would remain if that option
+ * were picked while every other active filter stays in place.
+ */
+export const computeFacets = (
+  universities: University[],
+  filters: UniversityFilters = {}
+): DirectoryFacets => {
+  const countWith = (override: UniversityFilters) =>
+    universities.filter((university) => matches(university, { ...filters, ...override })).length;
+
+  const locationCountries = Array.from(
+    new Set(universities.map((university) => university.location?.country))
+  )
+    .filter((code): code is string => Boolean(code))
+    .sort((a, b) => countryName(a).localeCompare(countryName(b)));
+  const regions = filters.country
+    ? Array.from(
+        new Map(
+          universities
+            .filter((university) => university.location?.country === filters.country)
+            .map((university) => university.location.region?.trim() ?? '')
+            .filter(Boolean)
+            .map((region) => [region.toLowerCase(), region] as const)
+        ).values()
+      ).sort((a, b) => a.localeCompare(b))
+    : [];
+  const restricted = Array.from(
+    new Set(universities.flatMap((university) => university.restrictedCountries ?? []))
+  ).sort((a, b) => countryName(a).localeCompare(countryName(b)));
+
+  return {
+    country: locationCountries.map((value) => ({
+      value,
+      // Picking another country drops the region, so count without it.
+      count: countWith({ country: value, region: undefined })
+    })),
+    region: regions.map((value) => ({
+      value,
+      count: countWith({ region: value })
+    })),
+    degreeLevel: degreeLevels.map((value) => ({
+      value,
+      count: countWith({ degreeLevel: value })
+    })),
+    fundingType: fundingTypes.map((value) => ({
+      value,
+      count: countWith({ fundingType: value })
+    })),
+    delivery: deliveryModes.map((value) => ({
+      value,
+      count: countWith({ delivery: value })
+    })),
+    tuition: tuitionBands.map((value) => ({
+      value,
+      count: countWith({
+        tuitionMin: value.min,
+        tuitionMax: value.max
+      })
+    })),
+    maxApplicationFee: applicationFeeLimits.map((value) => ({
+      value,
+      count: countWith({ maxApplicationFee: value })
+    })),
+    hasScholarships: countWith({ hasScholarships: true }),
+    eligibleCountry: restricted.map((value) => ({
+      value,
+      count: countWith({ eligibleCountry: value })
+    }))
+  };
+};
@@ -0,0 +1,132 @@
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University } from '../types/university';
+import type { SearchResult } from './searchIndex';
+import { feeInBase } from './currency';
+import { t } from './i18n';
+import { isIsoDate } from './universityValidation';
+
+export type SortKey =
+  | 'relevance'
+  | 'name'
+  | 'applicationFee'
+  | `tuition:${DegreeLevel}`
+  | 'scholarships'
+  | 'deadline';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface UniversityQueryOptions {
+  /** Defaults to relevance while searching and to name otherwise. */
+  sort?: SortKey;
+  direction?: SortDirection;
+  /** 1-based; ignored unless `pageSize` is set. */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface UniversityPage<T> {
+  items: T[];
+  /** Matches across all pages. */
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const sortKeys: SortKey[] = [
+  'relevance',
+  'name',
+  'applicationFee',
+  ...degreeLevels.map((level) => `tuition:${level}` as const),
+  'scholarships',
+  'deadline'
+];
+
+export const sortLabel = (key: SortKey) =>
+  key.startsWith('tuition:')
+    ? t('common.tuitionAt', { level: t(`degree.${key.slice(8) as DegreeLevel}`) })
+    : t(`sort.${key as Exclude<SortKey, `tuition:${string}`>}`);
+
+export const pageSizes = [30, 60, 120, 240];
+
+export const isSortKey = (value: string | null): value is SortKey =>
+  sortKeys.includes(value as SortKey);
+
+/** Best matches and most scholarships read naturally high-to-low; everything else low-to-high. */
+export const defaultDirection = (sort: SortKey): SortDirection =>
+  sort === 'relevance' || sort === 'scholarships' ? 'desc' : 'asc';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/** Earliest scholarship deadline that has not passed yet, or undefined when none is dated. */
+export const nearestDeadline = (university: University, from = today()) =>
+  degreeLevels
+    .flatMap((level) => university.scholarships?.[level] ?? [])
+    .map((scholarship) => scholarship.deadline?.trim())
+    .filter((deadline): deadline is string => isIsoDate(deadline) && deadline >= from)
+    .sort()[0];
+
+const sortValue = (university: University, key: SortKey): string | number | undefined => {
+  // Fees are compared in the base currency so GBP and USD tuition sort together.
+  if (key.startsWith('tuition:')) {
+    return feeInBase(university, key.slice(8) as DegreeLevel);
+  }
+  switch (key) {
+    case 'name':
+      return university.name;
+    case 'applicationFee':
+      return feeInBase(university, 'application');
+    case 'scholarships':
+      return degreeLevels.reduce(
+        (sum, level) => sum + (university.scholarships?.[level]?.length ?? 0),
+        0
+      );
+    case 'deadline':
+      return nearestDeadline(university);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Orders search results. Records missing the sorted value (no tuition at that level, no
+ * upcoming deadline) always go last, whichever direction is picked.
+ */
+export const sortResults = (
+  results: SearchResult[],
+  sort: SortKey,
+  direction: SortDirection = defaultDirection(sort)
+): SearchResult[] => {
+  if (sort === 'relevance') {
+    return direction === 'desc' ? results : [...results].reverse();
+  }
+  const sign = direction === 'asc' ? 1 : -1;
+  return results
+    .map((result) => ({ result, value: sortValue(result.university, sort) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value ? 0 : a.value === undefined ? 1 : -1;
+      }
+      const order =
+        typeof a.value === 'number' && typeof b.value === 'number'
+          ? a.value - b.value
+          : String(a.value).localeCompare(String(b.value));
+      return (
+        sign * order || a.result.university.name.localeCompare(b.result.university.name)
+      );
+    })
+    .map(({ result }) => result);
+};
+
+export const paginate = <T>(items: T[], page = 1, pageSize?: number): UniversityPage<T> => {
+  if (!pageSize) {
+    return { items, total: items.length, page: 1, pageSize: items.length };
+  }
+  const lastPage = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, Math.floor(page)), lastPage);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    total: items.length,
+    page: current,
+    pageSize
+  };
+};
@@ -0,0 +1,94 @@
+import { degreeLevels, deliveryModes, fundingTypes } from '../types/university';
+import type { UniversityFilters } from './directoryFilters';
+import { isSortKey, pageSizes } from './directorySort';
+import type { UniversityQueryOptions } from './directorySort';
+
+export interface DirectoryState {
+  filters: UniversityFilters;
+  options: UniversityQueryOptions;
+}
+
+/** Short, stable query-string names so shared links stay readable. */
+const paramNames = {
+  search: 'q',
+  country: 'country',
+  region: 'region',
+  degreeLevel: 'degree',
+  fundingType: 'funding',
+  tuitionMin: 'tuitionMin',
+  tuitionMax: 'tuitionMax',
+  maxApplicationFee: 'maxFee',
+  delivery: 'delivery',
+  hasScholarships: 'scholarships',
+  eligibleCountry: 'eligible'
+} satisfies Partial<Record<keyof UniversityFilters, string>>;
+
+const oneOf = <T extends string>(options: readonly T[], value: string | null): T | undefined =>
+  options.find((option) => option === value);
+
+const toNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const toText = (value: string | null) => (value?.trim() ? value : undefined);
+
+const readFilters = (params: URLSearchParams): UniversityFilters => {
+  const filters: UniversityFilters = {
+    search: toText(params.get(paramNames.search)),
+    country: toText(params.get(paramNames.country))?.toUpperCase(),
+    region: toText(params.get(paramNames.region)),
+    degreeLevel: oneOf(degreeLevels, params.get(paramNames.degreeLevel)),
+    fundingType: oneOf(fundingTypes, params.get(paramNames.fundingType)),
+    tuitionMin: toNumber(params.get(paramNames.tuitionMin)),
+    tuitionMax: toNumber(params.get(paramNames.tuitionMax)),
+    maxApplicationFee: toNumber(params.get(paramNames.maxApplicationFee)),
+    delivery: oneOf(deliveryModes, params.get(paramNames.delivery)),
+    hasScholarships: params.get(paramNames.hasScholarships) === '1' || undefined,
+    eligibleCountry: toText(params.get(paramNames.eligibleCountry))
+  };
+  (Object.keys(filters) as (keyof UniversityFilters)[]).forEach((key) => {
+    if (filters[key] === undefined) delete filters[key];
+  });
+  return filters;
+};
+
+const readOptions = (params: URLSearchParams): UniversityQueryOptions => {
+  const options: UniversityQueryOptions = {};
+  const sort = params.get('sort');
+  if (isSortKey(sort)) options.sort = sort;
+  const direction = params.get('dir');
+  if (direction === 'asc' || direction === 'desc') options.direction = direction;
+  const page = toNumber(params.get('page'));
+  if (page !== undefined && page >= 1) options.page = Math.floor(page);
+  const pageSize = toNumber(params.get('size'));
+  if (pageSize !== undefined && pageSizes.includes(pageSize)) options.pageSize = pageSize;
+  return options;
+};
+
+/**
+ * Reads directory filters, sorting and paging from a query string. Unknown or malformed values
+ * are ignored so a hand-edited or outdated link still opens a sensible view.
+ */
+export const directoryStateFromSearchParams = (params: URLSearchParams): DirectoryState => ({
+  filters: readFilters(params),
+  options: readOptions(params)
+});
+
+export const directoryStateToSearchParams = ({
+  filters,
+  options
+}: DirectoryState): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(paramNames) as (keyof typeof paramNames)[]).forEach((key) => {
+    const value = filters[key];
+    if (value === undefined || value === '' || value === false) return;
+    params.set(paramNames[key], value === true ? '1' : String(value));
+  });
+  if (options.sort) params.set('sort', options.sort);
+  if (options.direction) params.set('dir', options.direction);
+  if (options.page && options.page > 1) params.set('page', String(options.page));
+  if (options.pageSize) params.set('size', String(options.pageSize));
+  return params;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { makeUniversity } from '../test/fixtures';
+import {
+  findDuplicatePairs,
+  findDuplicates,
+  nameSimilarity,
+  normalizeName,
+  websiteDomain
+} from './duplicateDetection';
+
+describe('names and websites', () => {
+  it('compares names without accents, punctuation or generic words', () => {
+    expect(normalizeName('Univ. of São Paulo')).toBe('univ of sao paulo');
+    expect(nameSimilarity('Stanford University', 'Stanford')).toBe(1);
+    expect(nameSimilarity('Univ. of Doha', 'University of Doha')).toBe(1);
+    expect(nameSimilarity('Qatar University', 'Oxford University')).toBeLessThan(0.5);
+  });
+
+  it('reads the registered domain of a portal', () => {
+    expect(websiteDomain('https://apply.stanford.edu/grad')).toBe('stanford.edu');
+    expect(websiteDomain('www.ox.ac.uk')).toBe('ox.ac.uk');
+    expect(websiteDomain('')).toBeNull();
+    expect(websiteDomain('localhost')).toBeNull();
+  });
+});
+
+describe('findDuplicates', () => {
+  const stanford = makeUniversity({
+    id: 'uni-stanford',
+    name: 'Stanford University',
+    portalUrl: 'https://www.stanford.edu'
+  });
+
+  it('ranks a shared website above a similar name', () => {
+    const lookalike = makeUniversity({
+      id: 'uni-lookalike',
+      name: 'Stanfurd University',
+      portalUrl: 'https://stanfurd.example.org'
+    });
+    const matches = findDuplicates(
+      { name: 'Stanford', portalUrl: 'https://admission.stanford.edu' },
+      [lookalike, stanford]
+    );
+    expect(matches.map((match) => match.university.id)).toEqual(['uni-stanford', 'uni-lookalike']);
+    expect(matches[0].score).toBe(1);
+    expect(matches[0].reasons).toContain('Same website (stanford.edu)');
+  });
+
+  it('skips the candidate itself, trashed records and unnamed candidates', () => {
+    const trashed = { ...stanford, id: 'uni-old', deletedAt: '2026-01-01T00:00:00.000Z' };
+    expect(findDuplicates(stanford, [stanford, trashed])).toEqual([]);
+    expect(findDuplicates({ name: ' ', portalUrl: stanford.portalUrl }, [stanford])).toEqual([]);
+  });
+});
+
+describe('findDuplicatePairs', () => {
+  it('pairs live records that look alike, best match first', () => {
+    const record = (id: string, name: string, portalUrl: string) =>
+      makeUniversity({ id, name, portalUrl });
+    const pairs = findDuplicatePairs([
+      record('a', 'Doha Institute', 'https://dohainstitute.edu.qa'),
+      record('b', 'Doha Inst.', 'https://www.dohainstitute.edu.qa'),
+      record('c', 'Doha Institute', 'https://other.example.org'),
+      record('d', 'Lusail University', 'https://lu.edu.qa')
+    ]);
+    expect(pairs.map((pair) => [pair.first.id, pair.second.id])).toEqual([
+      ['a', 'b'],
+      ['a', 'c'],
+      ['b', 'c']
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import type { University } from '../types/university';
+import { LocalizedError, t } from './i18n';
+
+export interface DuplicateMatch {
+  university: University;
+  /** 0–1; matches at or above `DUPLICATE_THRESHOLD` are treated as likely duplicates. */
+  score: number;
+  /** Why the records look alike, e.g. "Same website (stanford.edu)". */
+  reasons: string[];
+}
+
+export interface DuplicatePair {
+  first: University;
+  second: University;
+  score: number;
+  reasons: string[];
+}
+
+/** Thrown when a new university looks like one already in the directory. */
+export class DuplicateUniversityError extends LocalizedError {
+  readonly matches: DuplicateMatch[];
+
+  constructor(matches: DuplicateMatch[]) {
+    super('errors.duplicateUniversity', {
+      names: matches.map((match) => match.university.name).join(', ')
+    });
+    this.name = 'DuplicateUniversityError';
+    this.matches = matches;
+  }
+}
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Sharing a website is strong evidence but not proof: portals can sit on shared platforms.
+const DOMAIN_BONUS = 0.35;
+
+/** Lowercases and strips accents and punctuation: "Univ. of São Paulo" → "univ of sao paulo". */
+export const normalizeName = (name: string) =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const abbreviations: Record<string, string> = {
+  univ: 'university',
+  uni: 'university',
+  inst: 'institute',
+  tech: 'technology',
+  st: 'saint',
+  coll: 'college'
+};
+
+const stopWords = new Set(['the', 'of', 'at', 'and', 'in', 'for', 'de', 'du', 'la']);
+
+// Words most names share; left out so "Stanford University" and "Stanford" compare equal.
+const genericWords = new Set(['university', 'college', 'institute', 'school', 'academy']);
+
+const nameTokens = (name: string) => {
+  const tokens = normalizeName(name)
+    .split(' ')
+    .map((token) => abbreviations[token] ?? token)
+    .filter((token) => token && !stopWords.has(token));
+  const distinctive = tokens.filter((token) => !genericWords.has(token));
+  return distinctive.length > 0 ? distinctive : tokens;
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How alike two university names are, from 0 to 1: the better of word overlap and spelling
+ * closeness, after dropping punctuation, filler words and generic words like "University".
+ */
+export const nameSimilarity = (a: string, b: string) => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  const setB = new Set(tokensB);
+  const shared = new Set(tokensA.filter((token) => setB.has(token))).size;
+  const overlap = shared / new Set([...tokensA, ...tokensB]).size;
+  const joinedA = [...tokensA].sort().join(' ');
+  const joinedB = [...tokensB].sort().join(' ');
+  const spelling = 1 - editDistance(joinedA, joinedB) / Math.max(joinedA.length, joinedB.length);
+  return Math.max(overlap, spelling);
+};
+
+// Second-level labels under which names are registered, as in "ox.ac.uk" or "unsw.edu.au".
+const registrySuffixes = new Set(['ac', 'edu', 'co', 'com', 'org', 'gov', 'net']);
+
+/** The registered domain of a portal URL, e.g. "stanford.edu" for "https://apply.stanford.edu". */
+export const websiteDomain = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (!trimmed) return null;
+  let host: string;
+  try {
+    host = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname;
+  } catch {
+    return null;
+  }
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length < 2) return null;
+  const keep =
+    labels.length > 2 &&
+    labels[labels.length - 1].length === 2 &&
+    registrySuffixes.has(labels[labels.length - 2])
+      ? 3
+      : 2;
+  return labels.slice(-keep).join('.');
+};
+
+const compare = (
+  candidate: Pick<University, 'name' | 'portalUrl'>,
+  other: University
+): { score: number; reasons: string[] } => {
+  const similarity = nameSimilarity(candidate.name, other.name);
+  const domain = websiteDomain(candidate.portalUrl);
+  const sameDomain = domain !== null && domain === websiteDomain(other.portalUrl);
+  const reasons: string[] = [];
+  if (similarity === 1) {
+    reasons.push(t('duplicates.sameName'));
+  } else if (similarity >= 0.5) {
+    reasons.push(t('duplicates.similarName', { percent: Math.round(similarity * 100) }));
+  }
+  if (sameDomain) {
+    reasons.push(t('duplicates.sameWebsite', { domain }));
+  }
+  return { score: sameDomain ? Math.min(1, similarity + DOMAIN_BONUS) : similarity, reasons };
+};
+
+/**
+ * Existing universities that look like the same institution as `candidate`, best match first.
+ * The candidate's own record and trashed records are skipped.
+ */
+export const findDuplicates = (
+  candidate: Pick<University, 'name' | 'portalUrl'> & { id?: string },
+  universities: University[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateMatch[] => {
+  if (!candidate.name.trim()) return [];
+  return universities
+    .filter((university) => university.id !== candidate.id && !university.deletedAt)
+    .map((university) => ({ university, ...compare(candidate, university) }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+};
+
+/** Pairs of directory records that look like duplicates of each other, best match first. */
+export const findDuplicatePairs = (
+  universities: University[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicatePair[] => {
+  const active = universities.filter((university) => !university.deletedAt);
+  const pairs: DuplicatePair[] = [];
+  active.forEach((first, index) => {
+    active.slice(index + 1).forEach((second) => {
+      const { score, reasons } = compare(first, second);
+      if (score >= threshold) pairs.push({ first, second, score, reasons });
+    });
+  });
+  return pairs.sort((a, b) => b.score - a.score);
+};
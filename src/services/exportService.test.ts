@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { makeUniversity } from '../test/fixtures';
+import { parseUniversityCsv } from './universityCsv';
+import { toCsvExport, toJsonExport, toPrintReport } from './exportService';
+
+const university = makeUniversity({
+  name: 'Gulf University',
+  fees: {
+    currency: 'QAR',
+    application: 50,
+    averageTuition: { bachelor: 40000 },
+    currencies: { application: 'USD' }
+  },
+  programs: {
+    bachelor: [{ id: 'bachelor-law', name: 'Law', duration: '4 years', delivery: 'On campus' }],
+    masters: [],
+    phd: []
+  },
+  scholarships: {
+    bachelor: [],
+    masters: [
+      {
+        id: 'masters-merit',
+        name: 'Merit <Award>',
+        funding: { type: 'full-tuition' },
+        eligibility: 'GPA 3.5',
+        deadline: '2026-03-01'
+      }
+    ],
+    phd: []
+  },
+  restrictedCountries: ['IR']
+});
+
+describe('toJsonExport', () => {
+  it('writes the records as they are stored', () => {
+    expect(JSON.parse(toJsonExport([university]))).toEqual([university]);
+  });
+});
+
+describe('toCsvExport', () => {
+  it('writes one row per program and scholarship that imports back the same', () => {
+    const csv = toCsvExport([university]);
+    expect(csv.split('\r\n')).toHaveLength(3);
+    const { records, issues } = parseUniversityCsv(csv);
+    expect(issues).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0].university).toMatchObject({
+      id: university.id,
+      fees: university.fees,
+      programs: university.programs,
+      scholarships: university.scholarships,
+      restrictedCountries: ['IR']
+    });
+  });
+});
+
+describe('toPrintReport', () => {
+  it('escapes record text and describes the filters', () => {
+    const report = toPrintReport([university], { country: 'QA', degreeLevel: 'masters' });
+    expect(report).toContain('Merit &lt;Award&gt;');
+    expect(report).not.toContain('<Award>');
+    expect(report).toContain('Qatar');
+    expect(report).toContain('<a href="https://test.example.edu">');
+  });
+
+  it('only links http and https portals', () => {
+    const report = toPrintReport([{ ...university, portalUrl: 'javascript:alert(1)' }]);
+    expect(report).not.toContain('href="javascript:');
+    expect(report).toContain('javascript:alert(1)');
+  });
+});
@@ -0,0 +1,206 @@
+import { degreeLevels } from '../types/university';
+import type { MoneyAmount, University } from '../types/university';
+import { toCsv } from './csv';
+import { countryName, resolveCountry } from './countries';
+import { describeDelivery } from './directoryFilters';
+import { formatLocation } from './locations';
+import { formatFunding } from './funding';
+import { formatDeadline } from './deadlineService';
+import { universitiesToCsvRows } from './universityCsv';
+import type { UniversityFilters } from './universityService';
+import { BASE_CURRENCY, feeAmount, formatMoney } from './currency';
+import { formatDate, formatList, getLocale, localize, t, textDirection, tp } from './i18n';
+import { isHttpUrl } from './universityValidation';
+
+export type ExportFormat = 'json' | 'csv' | 'report';
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Filter bounds are in the base currency; fees are reported as charged.
+const formatCurrency = (value?: number) => {
+  if (value === undefined || value === null || Number.isNaN(value)) return '—';
+  return formatMoney({ amount: value, currency: BASE_CURRENCY });
+};
+
+const formatFee = (money?: MoneyAmount) => (money ? formatMoney(money) : '—');
+
+const describeFilters = (filters: UniversityFilters) => {
+  const parts = [
+    filters.search && t('report.search', { query: filters.search }),
+    filters.country && t('report.country', { country: countryName(filters.country) }),
+    filters.region && t('report.region', { region: filters.region }),
+    filters.degreeLevel && t('report.degree', { level: t(`degree.${filters.degreeLevel}`) }),
+    filters.fundingType &&
+      t('report.funding', {
+        type: t(`funding.type.${filters.fundingType}`).toLocaleLowerCase(getLocale())
+      }),
+    (filters.tuitionMin !== undefined || filters.tuitionMax !== undefined) &&
+      t('report.tuition', {
+        min: formatCurrency(filters.tuitionMin ?? 0),
+        max:
+          filters.tuitionMax === undefined
+            ? t('report.anyAmount')
+            : formatCurrency(filters.tuitionMax)
+      }),
+    filters.maxApplicationFee !== undefined &&
+      t('report.maxFee', { amount: formatCurrency(filters.maxApplicationFee) }),
+    filters.delivery &&
+      t('report.delivery', {
+        mode: t(`delivery.${filters.delivery}`).toLocaleLowerCase(getLocale())
+      }),
+    filters.hasScholarships && t('report.withScholarships'),
+    filters.eligibleCountry &&
+      t('report.eligibleCountry', {
+        country: countryName(resolveCountry(filters.eligibleCountry) ?? filters.eligibleCountry)
+      })
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : t('report.allUniversities');
+};
+
+/** Full-fidelity export; the file can be fed straight back into the bulk import. */
+export const toJsonExport = (universities: University[]) => JSON.stringify(universities, null, 2);
+
+export const toCsvExport = (universities: University[]) =>
+  toCsv(universitiesToCsvRows(universities));
+
+const renderUniversity = (uni: University) => {
+  const levels = degreeLevels.filter(
+    (level) =>
+      (uni.programs?.[level]?.length ?? 0) > 0 || (uni.scholarships?.[level]?.length ?? 0) > 0
+  );
+  const portal = escapeHtml(uni.portalUrl);
+  // Records loaded with validation errors may hold other schemes, e.g. javascript: links.
+  const portalLink = isHttpUrl(uni.portalUrl?.trim() ?? '')
+    ? `<a href="${portal}">${portal}</a>`
+    : portal;
+  const location = escapeHtml(formatLocation(uni.location));
+  return `
+  <article>
+    <h2>${escapeHtml(uni.name)}</h2>
+    <p class="meta">${location} · ${portalLink}</p>
+    ${uni.overview ? `<p>${escapeHtml(localize(uni.overview, uni.overviewTranslations))}</p>` : ''}
+    <table>
+      <tr><th>${t('common.applicationFee')}</th>${degreeLevels
+        .map((level) => `<th>${t('common.tuitionAt', { level: t(`degree.${level}`) })}</th>`)
+        .join('')}</tr>
+      <tr><td>${formatFee(feeAmount(uni, 'application'))}</td>${degreeLevels
+        .map((level) => `<td>${formatFee(feeAmount(uni, level))}</td>`)
+        .join('')}</tr>
+    </table>
+    ${
+      (uni.restrictedCountries?.length ?? 0) > 0
+        ? `<p class="restricted">${escapeHtml(
+            t('report.restricted', {
+              countries: formatList(uni.restrictedCountries!.map((code) => countryName(code)))
+            })
+          )}</p>`
+        : ''
+    }
+    ${levels
+      .map(
+        (level) => `
+    <h3>${t(`degree.${level}`)}</h3>
+    <ul>
+      ${(uni.programs?.[level] ?? [])
+        .map(
+          (program) =>
+            `<li>${escapeHtml(localize(program.name, program.nameTranslations))}${
+              program.duration ? ` — ${escapeHtml(program.duration)}` : ''
+            }${
+              program.delivery ? `, ${escapeHtml(describeDelivery(program.delivery))}` : ''
+            }</li>`
+        )
+        .join('')}
+    </ul>
+    ${(uni.scholarships?.[level] ?? [])
+      .map(
+        (scholarship) =>
+          `<p class="scholarship"><strong>${escapeHtml(
+            localize(scholarship.name, scholarship.nameTranslations)
+          )}</strong> · ${escapeHtml(formatFunding(scholarship.funding))} · ${escapeHtml(
+            scholarship.eligibility
+          )} · ${escapeHtml(
+            t('common.deadline', { date: formatDeadline(scholarship) })
+          )}</p>`
+      )
+      .join('')}`
+      )
+      .join('')}
+  </article>`;
+};
+
+/** Standalone HTML shortlist laid out for printing or saving as PDF from the browser. */
+export const toPrintReport = (
+  universities: University[],
+  filters: UniversityFilters = {}
+) => `<!doctype html>
+<html lang="${getLocale()}" dir="${textDirection()}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(t('report.title'))}</title>
+<style>
+  body { font-family: "Inter", "Segoe UI", system-ui, sans-serif; color: #101828; margin: 2rem; }
+  header { border-bottom: 3px solid #ff790c; margin-bottom: 1.5rem; }
+  h1 { margin: 0; font-size: 1.6rem; }
+  h2 { margin: 0; color: #e26400; }
+  h3 { margin: 1rem 0 0.25rem; font-size: 1rem; }
+  .meta, .filters { color: #667085; margin: 0.25rem 0; }
+  article { padding: 1rem 0; border-bottom: 1px solid #e4e7ec; break-inside: avoid; }
+  table { border-collapse: collapse; margin-top: 0.5rem; }
+  th, td { border: 1px solid #e4e7ec; padding: 0.35rem 0.6rem; text-align: start; }
+  th, td { font-size: 0.85rem; }
+  .restricted { color: #b42318; font-weight: 600; }
+  .scholarship { margin: 0.25rem 0; font-size: 0.9rem; }
+  @page { margin: 1.5cm; }
+  @media print { body { margin: 0; } a { color: inherit; text-decoration: none; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(t('report.title'))}</h1>
+  <p class="filters">${escapeHtml(describeFilters(filters))} · ${escapeHtml(
+    tp('count.universities', universities.length)
+  )} ·
+    ${escapeHtml(t('report.generated', { date: formatDate(new Date()) }))}</p>
+</header>
+${universities.map(renderUniversity).join('')}
+</body>
+</html>`;
+
+const exportFiles: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  report: { extension: 'html', mimeType: 'text/html;charset=utf-8' }
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportUniversities = (
+  format: ExportFormat,
+  universities: University[],
+  filters: UniversityFilters = {}
+) => {
+  const content =
+    format === 'json'
+      ? toJsonExport(universities)
+      : format === 'csv'
+        ? toCsvExport(universities)
+        : toPrintReport(universities, filters);
+  const { extension, mimeType } = exportFiles[format];
+  const stamp = new Date().toISOString().slice(0, 10);
+  downloadFile(`manara-universities-${stamp}.${extension}`, content, mimeType);
+};
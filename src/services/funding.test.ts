@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { fundingToText, parseFundingText } from './funding';
+
+describe('parseFundingText', () => {
+  it('reads amounts in known currencies', () => {
+    expect(parseFundingText('CAD 25k')).toEqual({
+      funding: { type: 'fixed', currency: 'CAD', amount: 25_000 },
+      needsReview: false
+    });
+    expect(parseFundingText('$2,000 per month stipend')).toEqual({
+      funding: { type: 'stipend', period: 'month', currency: 'USD', amount: 2_000 },
+      needsReview: false
+    });
+  });
+
+  it('does not read abbreviations as currency codes', () => {
+    expect(parseFundingText('GPA 3.7 required')).toEqual({ funding: null, needsReview: true });
+    expect(parseFundingText('GPA 3.7 required, USD 5000').funding).toEqual({
+      type: 'fixed',
+      currency: 'USD',
+      amount: 5_000
+    });
+  });
+
+  it('flags real currencies that have no exchange rate', () => {
+    expect(parseFundingText('ISK 900000')).toEqual({
+      funding: { type: 'fixed', currency: 'ISK', amount: 900_000 },
+      needsReview: true
+    });
+  });
+
+  it('flags percentages outside 0–100', () => {
+    expect(parseFundingText('120%')).toEqual({ funding: null, needsReview: true });
+    expect(parseFundingText('up to 50%').funding).toEqual({
+      type: 'percentage',
+      percent: 50,
+      upTo: true
+    });
+  });
+
+  it('reads a recurring amount without the word stipend as fixed funding', () => {
+    const parsed = parseFundingText('EUR 10,000 per year');
+    expect(parsed).toEqual({
+      funding: { type: 'fixed', currency: 'EUR', amount: 10_000, period: 'year' },
+      needsReview: false
+    });
+    expect(parseFundingText(fundingToText(parsed.funding)).funding).toEqual(parsed.funding);
+  });
+});
@@ -0,0 +1,167 @@
+import type { MoneyAmount, ScholarshipFunding, StipendPeriod } from '../types/university';
+import { formatMoney, isSupportedCurrency } from './currency';
+import { t } from './i18n';
+
+const currencySymbols: Record<string, string> = { $: 'USD', '£': 'GBP', '€': 'EUR' };
+
+// Currency codes must be upper case so ordinary words ("Award 5000") are not read as codes, and
+// must be real ISO 4217 codes so abbreviations ("GPA 3.7 required") are not read as money.
+const CURRENCY = String.raw`(\b[A-Z]{3}|[$£€])`;
+
+const isoCurrencies = new Set(
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('currency') : []
+);
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?)\s*([kKmM]\b)?`;
+
+const multipliers: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+const toNumber = (digits: string, suffix?: string) =>
+  Number(digits.replace(/,/g, '')) * (multipliers[suffix?.toLowerCase() ?? ''] ?? 1);
+
+// Undefined for three-letter tokens that are not currencies.
+const toCurrency = (token: string) => {
+  const code = currencySymbols[token] ?? token;
+  return isoCurrencies.has(code) || isSupportedCurrency(code) ? code : undefined;
+};
+
+const toMoney = (token: string, digits: string, suffix?: string): MoneyAmount | undefined => {
+  const currency = toCurrency(token);
+  return currency ? { currency, amount: toNumber(digits, suffix) } : undefined;
+};
+
+const findMoney = (text: string): MoneyAmount | undefined => {
+  for (const prefixed of text.matchAll(new RegExp(`${CURRENCY}\\s*${NUMBER}`, 'g'))) {
+    const money = toMoney(prefixed[1], prefixed[2], prefixed[3]);
+    if (money) return money;
+  }
+  for (const suffixed of text.matchAll(new RegExp(`${NUMBER}\\s*([A-Z]{3})\\b`, 'g'))) {
+    const money = toMoney(suffixed[3], suffixed[1], suffixed[2]);
+    if (money) return money;
+  }
+  return undefined;
+};
+
+const findPeriod = (text: string): StipendPeriod | undefined => {
+  if (/\b(per|a|\/)\s*month\b|\bmonthly\b/i.test(text)) return 'month';
+  if (/\b(per|a|\/)\s*semester\b/i.test(text)) return 'semester';
+  if (/\b(per|a|\/)\s*(year|annum)\b|\b(annual|annually|yearly)\b/i.test(text)) return 'year';
+  return undefined;
+};
+
+export interface ParsedFunding {
+  funding: ScholarshipFunding | null;
+  /** True when the text could not be fully represented and an editor should check it. */
+  needsReview: boolean;
+}
+
+/**
+ * Best-effort reading of free-text award amounts such as "up to 50% tuition", "CAD 25k" or
+ * "$2,000 per month stipend". Anything ambiguous, including currencies without an exchange rate
+ * and percentages outside 0–100, is returned with `needsReview` set.
+ */
+export const parseFundingText = (input: string): ParsedFunding => {
+  const text = input.trim();
+  if (!text) return { funding: null, needsReview: false };
+
+  const capPattern = `\\((?:max|maximum|capped at)\\s+${CURRENCY}\\s*${NUMBER}\\)`;
+  const capMatch = new RegExp(capPattern).exec(text);
+  const cap = capMatch ? toMoney(capMatch[1], capMatch[2], capMatch[3]) : undefined;
+  const body = cap ? text.replace(capMatch![0], '').trim() : text;
+  const withCap = (funding: ScholarshipFunding): ScholarshipFunding =>
+    cap ? { ...funding, cap } : funding;
+  // A second component ("full tuition + stipend") cannot be stored, and amounts in currencies
+  // without a rate cannot be converted, so flag those for review.
+  const isCompound = /\+|\band\b/i.test(body);
+  const hasUnratedCap = Boolean(cap && !isSupportedCurrency(cap.currency));
+
+  if (/\b(full(y)?[\s-]*(tuition|ride|funded|scholarship))\b|^100\s*%/i.test(body)) {
+    return { funding: withCap({ type: 'full-tuition' }), needsReview: isCompound || hasUnratedCap };
+  }
+
+  const percentMatch = /(up to\s*)?(\d+(?:\.\d+)?)\s*%/i.exec(body);
+  if (percentMatch) {
+    const percent = Number(percentMatch[2]);
+    if (percent <= 0 || percent > 100) return { funding: null, needsReview: true };
+    return {
+      funding: withCap({ type: 'percentage', percent, ...(percentMatch[1] ? { upTo: true } : {}) }),
+      needsReview: isCompound || hasUnratedCap
+    };
+  }
+
+  const money = findMoney(body);
+  const period = findPeriod(body);
+  if (money) {
+    // A period alone ("EUR 10,000 per year") is a recurring award; only a stipend is a stipend.
+    const isStipend = /\bstipend\b/i.test(body);
+    return {
+      funding: withCap(
+        isStipend
+          ? { type: 'stipend', period: period ?? 'year', ...money }
+          : { type: 'fixed', ...money, ...(period ? { period } : {}) }
+      ),
+      needsReview:
+        isCompound ||
+        hasUnratedCap ||
+        !isSupportedCurrency(money.currency) ||
+        (isStipend && !period)
+    };
+  }
+
+  // A bare number is probably an amount, but the currency is a guess.
+  const bare = new RegExp(`^${NUMBER}$`).exec(body);
+  if (bare) {
+    return {
+      funding: withCap({ type: 'fixed', currency: 'USD', amount: toNumber(bare[1], bare[2]) }),
+      needsReview: true
+    };
+  }
+
+  return { funding: null, needsReview: true };
+};
+
+const describeFunding = (funding: ScholarshipFunding): string => {
+  switch (funding.type) {
+    case 'full-tuition':
+      return t('funding.fullTuition');
+    case 'percentage':
+      return t(funding.upTo ? 'funding.percentageUpTo' : 'funding.percentage', {
+        percent: funding.percent
+      });
+    case 'fixed':
+      return funding.period
+        ? t('funding.fixedPeriod', {
+            amount: formatMoney(funding),
+            period: t(`funding.period.${funding.period}`)
+          })
+        : formatMoney(funding);
+    case 'stipend':
+      return t('funding.stipend', {
+        amount: formatMoney(funding),
+        period: t(`funding.period.${funding.period}`)
+      });
+  }
+};
+
+/** Display text for detail pages and reports, e.g. "Up to 50% of tuition". */
+export const formatFunding = (funding: ScholarshipFunding | null | undefined): string => {
+  if (!funding) return '—';
+  const text = describeFunding(funding);
+  return funding.cap ? t('funding.cap', { funding: text, cap: formatMoney(funding.cap) }) : text;
+};
+
+/** Plain text that `parseFundingText` reads back to the same value; used for CSV columns. */
+export const fundingToText = (funding: ScholarshipFunding | null | undefined): string => {
+  if (!funding) return '';
+  const cap = funding.cap ? ` (max ${funding.cap.currency} ${funding.cap.amount})` : '';
+  const period = funding.type === 'fixed' && funding.period ? ` per ${funding.period}` : '';
+  switch (funding.type) {
+    case 'full-tuition':
+      return `full tuition${cap}`;
+    case 'percentage':
+      return `${funding.upTo ? 'up to ' : ''}${funding.percent}%${cap}`;
+    case 'fixed':
+      return `${funding.currency} ${funding.amount}${period}${cap}`;
+    case 'stipend':
+      return `${funding.currency} ${funding.amount} per ${funding.period} stipend${cap}`;
+  }
+};
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { errorMessage, LocalizedError, setLocale, translate } from './i18n';
+
+describe('LocalizedError', () => {
+  afterEach(() => setLocale('en'));
+
+  it('keeps English for logs and translates where it is shown', () => {
+    const error = new LocalizedError('errors.noExchangeRate', { currency: 'XYZ' });
+    expect(error.message).toBe('No exchange rate is listed for XYZ');
+    setLocale('ar');
+    expect(errorMessage(error, 'import.failed')).toBe('لا يوجد سعر صرف مدرج لـXYZ');
+    expect(error.message).toBe('No exchange rate is listed for XYZ');
+  });
+
+  it('shows other errors as sent and falls back for anything else', () => {
+    expect(errorMessage(new Error('Server said no'), 'import.failed')).toBe('Server said no');
+    expect(errorMessage('boom', 'import.failed')).toBe(translate({ key: 'import.failed' }));
+  });
+});
+
+describe('translate', () => {
+  afterEach(() => setLocale('en'));
+
+  it('translates messages nested in parameters', () => {
+    const message = {
+      key: 'import.issue.sameUniversity',
+      params: { source: { key: 'import.source.row', params: { row: 3 } } }
+    } as const;
+    expect(translate(message)).toBe('Refers to the same university as Row 3');
+    setLocale('ar');
+    expect(translate(message)).toBe('يشير إلى الجامعة نفسها التي يشير إليها الصف 3');
+  });
+});
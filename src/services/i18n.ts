@@ -0,0 +1,163 @@
+import { locales } from '../types/i18n';
+import type { Locale, LocalizedText } from '../types/i18n';
+import en from '../i18n/en';
+import ar from '../i18n/ar';
+import type { Catalog, MessageKey, PluralKey } from '../i18n/en';
+
+export type { MessageKey, PluralKey } from '../i18n/en';
+
+const catalogs: Record<Locale, Catalog> = { en, ar };
+
+/** Each language's name in that language, for the switcher. */
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  ar: 'العربية'
+};
+
+const rtlLocales: Locale[] = ['ar'];
+
+const LOCALE_KEY = 'manara_locale';
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+// A saved choice wins; otherwise Arabic browsers start in Arabic.
+const readLocale = (): Locale => {
+  if (typeof window === 'undefined') return 'en';
+  const stored = window.localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  return window.navigator.language?.toLowerCase().startsWith('ar') ? 'ar' : 'en';
+};
+
+let locale = readLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => locale;
+
+export const setLocale = (next: Locale) => {
+  locale = next;
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(LOCALE_KEY, next);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const textDirection = (value: Locale = locale): 'ltr' | 'rtl' =>
+  rtlLocales.includes(value) ? 'rtl' : 'ltr';
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+export type MessageParams = Record<string, string | number>;
+
+const interpolate = (template: string, params: MessageParams = {}) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+
+const lookup = (key: string, value: Locale = locale): string | undefined =>
+  (catalogs[value] as Record<string, string | undefined>)[key] ??
+  (en as Record<string, string | undefined>)[key];
+
+/**
+ * Message in the active language. `{name}` placeholders are filled from `params`, with numbers
+ * formatted for the locale. Missing translations fall back to English.
+ */
+export const t = (key: MessageKey, params?: MessageParams) =>
+  interpolate(lookup(key) ?? key, params);
+
+/**
+ * A catalog message kept as its key, so it is translated where it is shown rather than where it
+ * was made. A parameter may itself be a message, e.g. the import row an issue points back to.
+ */
+export interface Message {
+  key: MessageKey;
+  params?: Record<string, string | number | Message>;
+}
+
+const render = ({ key, params = {} }: Message, value: Locale): string =>
+  interpolate(
+    lookup(key, value) ?? key,
+    Object.fromEntries(
+      Object.entries(params).map(([name, param]) => [
+        name,
+        typeof param === 'object' ? render(param, value) : param
+      ])
+    )
+  );
+
+/** `t` for a `Message`, translating any messages among its parameters first. */
+export const translate = (message: Message) => render(message, locale);
+
+/**
+ * Raised by services for problems the user should read. Pages show it in the active language
+ * with `errorMessage`; `message` holds the English text for logs.
+ */
+export class LocalizedError extends Error {
+  readonly detail: Message;
+
+  constructor(key: MessageKey, params?: Message['params']) {
+    const detail: Message = { key, params };
+    super(render(detail, 'en'));
+    this.name = 'LocalizedError';
+    this.detail = detail;
+  }
+}
+
+/**
+ * Text for a caught error: translated for `LocalizedError`s, as sent for other errors (an API's
+ * own message, say), and `fallback` for anything that is not an error at all.
+ */
+export const errorMessage = (err: unknown, fallback: MessageKey) => {
+  if (err instanceof LocalizedError) return translate(err.detail);
+  return err instanceof Error ? err.message : t(fallback);
+};
+
+/** Like `t`, picking the plural form for `count`, which the message can show as `{count}`. */
+export const tp = (key: PluralKey, count: number, params?: MessageParams) => {
+  const category = new Intl.PluralRules(locale).select(count);
+  const template = lookup(`${key}.${category}`) ?? lookup(`${key}.other`) ?? key;
+  return interpolate(template, { count, ...params });
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Formats a date for the active locale. Plain `YYYY-MM-DD` dates are calendar days, so they are
+ * read as UTC to keep them from shifting a day in other time zones. Any other text, such as a
+ * "Rolling" deadline, is returned unchanged.
+ */
+export const formatDate = (
+  value: string | Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+) => {
+  const isDay = typeof value === 'string' && ISO_DATE.test(value.trim());
+  if (typeof value === 'string' && !isDay && !ISO_TIMESTAMP.test(value.trim())) return value;
+  const date =
+    typeof value === 'string' ? new Date(isDay ? `${value.trim()}T00:00:00Z` : value) : value;
+  if (Number.isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat(locale, {
+    ...options,
+    ...(isDay ? { timeZone: 'UTC' } : {})
+  }).format(date);
+};
+
+export const formatDateTime = (value: string | Date) =>
+  formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** "A, B, C" with the locale's separators. */
+export const formatList = (items: string[]) =>
+  new Intl.ListFormat(locale, { style: 'narrow', type: 'unit' }).format(items);
+
+/** Translated content for the active locale, falling back to the English original. */
+export const localize = (text: string, translations?: LocalizedText, value: Locale = locale) =>
+  translations?.[value]?.trim() || text;
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { University } from '../types/university';
+import { makeUniversity, seedMemoryStore, signInAs } from '../test/fixtures';
+import { AuthorizationError } from './authService';
+import { translate } from './i18n';
+import type { Message } from './i18n';
+import { applyImport, planImport, previewImport } from './importService';
+import { getUniversities } from './universityService';
+
+const university = makeUniversity({ deletedAt: '2026-01-01T00:00:00.000Z' });
+
+const row = (number: number): Message => ({ key: 'import.source.row', params: { row: number } });
+
+const incoming = (fields: Partial<University>) => ({
+  source: row(2),
+  university: fields,
+  programLevels: [],
+  scholarshipLevels: []
+});
+
+describe('planImport', () => {
+  it('plans a row matching a trashed record as a restore', () => {
+    const { entries, issues } = planImport([incoming({ id: university.id })], [university]);
+    expect(issues).toEqual([]);
+    expect(entries[0].status).toBe('restored');
+    expect(entries[0].university.deletedAt).toBeUndefined();
+  });
+
+  it('matches a shared name to the live record', () => {
+    const live = { ...university, id: 'uni-live', deletedAt: undefined };
+    const { entries } = planImport([incoming({ name: university.name })], [live, university]);
+    expect(entries[0].existing?.id).toBe('uni-live');
+    expect(entries[0].status).toBe('unchanged');
+  });
+});
+
+const csv = (...rows: string[]) =>
+  [
+    'university_id,university_name,portal_url,country,city,degree_level,type,name,amount,deadline',
+    ...rows
+  ].join('\n');
+
+describe('previewImport', () => {
+  beforeEach(async () => {
+    seedMemoryStore([makeUniversity({ id: 'uni-live', name: 'Qatar University' })]);
+    await signInAs('editor');
+  });
+
+  it('groups CSV rows into one university and resolves country names', async () => {
+    const { entries, issues } = await previewImport(
+      'universities.csv',
+      csv(
+        ',Lusail University,https://lu.example.edu,Qatar,Lusail,bachelor,program,Law,,',
+        ',Lusail University,,,,bachelor,scholarship,Merit Award,Full tuition,2026-03-01'
+      )
+    );
+    expect(issues).toEqual([]);
+    expect(entries).toHaveLength(1);
+    const [entry] = entries;
+    expect(entry.status).toBe('added');
+    expect(translate(entry.source)).toBe('Rows 2–3');
+    expect(entry.university.location).toEqual({ country: 'QA', city: 'Lusail' });
+    expect(entry.university.programs.bachelor.map((program) => program.name)).toEqual(['Law']);
+    expect(entry.university.scholarships.bachelor[0]).toMatchObject({
+      id: 'bachelor-merit-award',
+      funding: { type: 'full-tuition' },
+      deadline: '2026-03-01'
+    });
+  });
+
+  it('matches rows to stored records by name and reports what changes', async () => {
+    const { entries } = await previewImport(
+      'universities.csv',
+      csv(',QATAR UNIVERSITY,,,Lusail,,,,,')
+    );
+    expect(entries[0]).toMatchObject({ status: 'changed', matchedBy: 'name' });
+    expect(entries[0].university.id).toBe('uni-live');
+    expect(entries[0].university.name).toBe('QATAR UNIVERSITY');
+    expect(entries[0].changes.map((change) => change.field)).toEqual(['name', 'location.city']);
+  });
+
+  it('reports files that are not a list and unknown countries', async () => {
+    expect((await previewImport('data.json', '{"name": "x"}')).issues).toEqual([
+      { source: { key: 'import.source.file' }, message: { key: 'import.issue.notAList' } }
+    ]);
+    const { entries, issues } = await previewImport(
+      'data.json',
+      JSON.stringify([{ name: 'Gulf College', restrictedCountries: ['Atlantis'] }])
+    );
+    expect(entries).toEqual([]);
+    expect(
+      issues.map((issue) => `${translate(issue.source)}: ${translate(issue.message)}`)
+    ).toEqual(['Item 1 (Gulf College): restrictedCountries: Unknown country: Atlantis']);
+  });
+});
+
+describe('applyImport', () => {
+  beforeEach(async () => {
+    seedMemoryStore([makeUniversity({ id: 'uni-live', name: 'Qatar University' })]);
+    await signInAs('editor');
+  });
+
+  it('writes added and changed records and leaves unchanged ones alone', async () => {
+    const plan = await previewImport(
+      'universities.csv',
+      csv(
+        ',Lusail University,https://lu.example.edu,QA,Lusail,,,,,',
+        'uni-live,Qatar University,,,,,,,,'
+      )
+    );
+    const written = await applyImport(plan);
+    expect(written.map((university) => university.name)).toEqual(['Lusail University']);
+    expect((await getUniversities()).map((university) => university.name)).toEqual([
+      'Lusail University',
+      'Qatar University'
+    ]);
+  });
+
+  it('refuses a plan that still has issues', async () => {
+    const plan = await previewImport('data.json', 'not json');
+    await expect(applyImport(plan)).rejects.toThrow();
+    expect(await getUniversities()).toHaveLength(1);
+  });
+
+  it('needs a signed-in editor', async () => {
+    const plan = await previewImport(
+      'universities.csv',
+      csv(',Lusail University,https://lu.example.edu,QA,,,,,,')
+    );
+    expect(plan.issues).toEqual([]);
+    await signInAs('viewer');
+    await expect(applyImport(plan)).rejects.toBeInstanceOf(AuthorizationError);
+  });
+});
+
+describe('planImport duplicates', () => {
+  it('flags new rows that look like each other', () => {
+    const { entries, issues } = planImport(
+      [
+        incoming(makeUniversity({ id: 'uni-one', name: 'Gulf University' })),
+        {
+          ...incoming(
+            makeUniversity({
+              id: 'uni-two',
+              name: 'Gulf university',
+              portalUrl: 'https://gulf.example.org'
+            })
+          ),
+          source: row(3)
+        }
+      ],
+      []
+    );
+    expect(issues).toEqual([]);
+    expect(entries.map((entry) => entry.possibleDuplicates?.[0]?.university.id)).toEqual([
+      'uni-two',
+      'uni-one'
+    ]);
+  });
+});
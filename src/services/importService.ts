@@ -0,0 +1,355 @@
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University } from '../types/university';
+import { resolveCountries, resolveCountry } from './countries';
+import { parseLocation } from './locations';
+import { assignProgramIds, assignScholarshipIds } from './programs';
+import { findDuplicates, normalizeName } from './duplicateDetection';
+import type { DuplicateMatch } from './duplicateDetection';
+import { diffUniversities } from './universityDiff';
+import type { FieldChange } from './universityDiff';
+import { parseUniversityCsv } from './universityCsv';
+import { getUniversities, importUniversities } from './universityService';
+import { validateUniversity } from './universityValidation';
+import { LocalizedError } from './i18n';
+import type { Message, MessageKey } from './i18n';
+
+/** `restored` rows match a record in the trash; applying them takes it back out. */
+export type ImportStatus = 'added' | 'changed' | 'restored' | 'unchanged';
+
+export interface ImportIssue {
+  /** Where the problem came from, e.g. "Row 4" or "Item 2 (Stanford University)". */
+  source: Message;
+  message: Message;
+}
+
+export interface ImportEntry {
+  status: ImportStatus;
+  source: Message;
+  university: University;
+  existing?: University;
+  matchedBy?: 'id' | 'name';
+  changes: FieldChange[];
+  /** For added records: existing universities with a similar name or the same website. */
+  possibleDuplicates?: DuplicateMatch[];
+}
+
+export interface ImportPlan {
+  entries: ImportEntry[];
+  issues: ImportIssue[];
+}
+
+interface IncomingRecord {
+  source: Message;
+  university: Partial<University>;
+  /** Degree levels whose program or scholarship lists the import replaces. */
+  programLevels: DegreeLevel[];
+  scholarshipLevels: DegreeLevel[];
+}
+
+const levelsIn = (value: unknown) =>
+  typeof value === 'object' && value !== null
+    ? degreeLevels.filter((level) => level in value)
+    : [];
+
+const fileIssue = (key: MessageKey): ImportIssue => ({
+  source: { key: 'import.source.file' },
+  message: { key }
+});
+
+const rowSource = (row: number): Message => ({ key: 'import.source.row', params: { row } });
+
+const readJson = (text: string): { records: IncomingRecord[]; issues: ImportIssue[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { records: [], issues: [fileIssue('import.issue.invalidJson')] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { records: [], issues: [fileIssue('import.issue.notAList')] };
+  }
+  const issues: ImportIssue[] = [];
+  const records: IncomingRecord[] = [];
+  parsed.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      issues.push({
+        source: { key: 'import.source.item', params: { index: index + 1 } },
+        message: { key: 'import.issue.notAnObject' }
+      });
+      return;
+    }
+    const university = item as Partial<University>;
+    records.push({
+      source: university.name
+        ? { key: 'import.source.itemNamed', params: { index: index + 1, name: university.name } }
+        : { key: 'import.source.item', params: { index: index + 1 } },
+      university,
+      programLevels: levelsIn(university.programs),
+      scholarshipLevels: levelsIn(university.scholarships)
+    });
+  });
+  return { records, issues };
+};
+
+const readCsv = (text: string): { records: IncomingRecord[]; issues: ImportIssue[] } => {
+  const { records, issues } = parseUniversityCsv(text);
+  return {
+    records: records.map((record) => ({
+      source:
+        record.rows.length === 1
+          ? rowSource(record.rows[0])
+          : {
+              key: 'import.source.rows',
+              params: { first: record.rows[0], last: record.rows[record.rows.length - 1] }
+            },
+      university: record.university,
+      programLevels: record.programLevels,
+      scholarshipLevels: record.scholarshipLevels
+    })),
+    issues: issues.map((issue) => ({ source: rowSource(issue.row), message: issue.message }))
+  };
+};
+
+const emptyUniversity = (): Omit<University, 'id'> => ({
+  name: '',
+  portalUrl: '',
+  location: { country: '' },
+  overview: '',
+  fees: { currency: 'USD', application: 0, averageTuition: {} },
+  programs: { bachelor: [], masters: [], phd: [] },
+  scholarships: { bachelor: [], masters: [], phd: [] },
+  restrictedCountries: []
+});
+
+const mergeLevels = <T>(
+  base: Record<DegreeLevel, T[]>,
+  incoming: Partial<Record<DegreeLevel, T[]>> | undefined,
+  levels: DegreeLevel[]
+) =>
+  degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = levels.includes(level) ? (incoming?.[level] ?? []) : (base[level] ?? []);
+      return acc;
+    },
+    {} as Record<DegreeLevel, T[]>
+  );
+
+// Files without program or scholarship ids replace a level's list wholesale; an entry listed
+// again under the same name keeps its id so links and calendar events for it still work.
+const keepIds = <T extends { id: string; name: string }>(
+  previous: Record<DegreeLevel, T[]> | undefined,
+  incoming: Record<DegreeLevel, T[]>
+) =>
+  degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = incoming[level].map((entry) => {
+        if (entry.id) return entry;
+        const match = (previous?.[level] ?? []).find(
+          (existing) => normalizeName(existing.name) === normalizeName(entry.name)
+        );
+        return match ? { ...entry, id: match.id } : entry;
+      });
+      return acc;
+    },
+    {} as Record<DegreeLevel, T[]>
+  );
+
+const mergeRecord = (incoming: IncomingRecord, base: University): University => {
+  const { university } = incoming;
+  return {
+    ...base,
+    ...Object.fromEntries(
+      Object.entries(university).filter(([, value]) => value !== undefined && value !== '')
+    ),
+    id: base.id,
+    // Location parts left blank in the file keep what is on record.
+    location: {
+      ...base.location,
+      ...Object.fromEntries(
+        Object.entries(university.location ?? {}).filter(
+          ([, value]) => value !== undefined && value !== ''
+        )
+      )
+    },
+    fees: {
+      currency: university.fees?.currency || base.fees.currency,
+      application: university.fees?.application ?? base.fees.application,
+      averageTuition: { ...base.fees.averageTuition, ...university.fees?.averageTuition },
+      ...((base.fees.currencies || university.fees?.currencies) && {
+        currencies: { ...base.fees.currencies, ...university.fees?.currencies }
+      })
+    },
+    programs: assignProgramIds(
+      keepIds(
+        base.programs,
+        mergeLevels(base.programs, university.programs, incoming.programLevels)
+      )
+    ),
+    scholarships: assignScholarshipIds(
+      keepIds(
+        base.scholarships,
+        mergeLevels(base.scholarships, university.scholarships, incoming.scholarshipLevels)
+      )
+    )
+  };
+};
+
+/**
+ * Matches incoming records to the directory, trashed records included, and works out what
+ * applying them would change. A name shared by a live and a trashed record matches the live one.
+ */
+export const planImport = (records: IncomingRecord[], existing: University[]): ImportPlan => {
+  const byId = new Map(existing.map((uni) => [uni.id, uni]));
+  const byName = new Map(
+    [...existing]
+      .sort((a, b) => Number(Boolean(b.deletedAt)) - Number(Boolean(a.deletedAt)))
+      .map((uni) => [normalizeName(uni.name), uni])
+  );
+  const claimed = new Map<string, Message>();
+  const issues: ImportIssue[] = [];
+  const entries: ImportEntry[] = [];
+
+  // New records are compared with the directory and with the new rows before them, so a file
+  // listing one university twice under different ids is flagged too. Both rows get the match.
+  const findBatchDuplicates = (university: University) => {
+    // New records may not have ids yet, so each stands in under its place in the plan.
+    const earlier = new Map(
+      entries
+        .filter((entry) => entry.status === 'added')
+        .map((entry) => [`pending-${entries.indexOf(entry)}`, entry])
+    );
+    const inBatch = findDuplicates(
+      { ...university, id: `pending-${entries.length}` },
+      [...earlier].map(([id, entry]) => ({ ...entry.university, id }))
+    ).map((found) => {
+      const entry = earlier.get(found.university.id)!;
+      entry.possibleDuplicates = [...(entry.possibleDuplicates ?? []), { ...found, university }];
+      return { ...found, university: entry.university };
+    });
+    return [...findDuplicates(university, existing), ...inBatch].sort((a, b) => b.score - a.score);
+  };
+
+  records.forEach((record) => {
+    const { id, name } = record.university;
+    const idMatch = id ? byId.get(id) : undefined;
+    const nameMatch = !idMatch && name ? byName.get(normalizeName(name)) : undefined;
+    const match = idMatch ?? nameMatch;
+    const key = match ? match.id : `new:${id ?? normalizeName(name ?? '')}`;
+
+    const previous = claimed.get(key);
+    if (previous) {
+      issues.push({
+        source: record.source,
+        message: { key: 'import.issue.sameUniversity', params: { source: previous } }
+      });
+      return;
+    }
+    claimed.set(key, record.source);
+
+    // Files may name countries ("Iran", "Persia") rather than give codes, and JSON exported
+    // before locations were split up still holds them as text.
+    const { restrictedCountries } = record.university;
+    let incoming = record;
+    const location: unknown = record.university.location;
+    if (typeof location === 'string') {
+      const parsed = parseLocation(location);
+      incoming = {
+        ...incoming,
+        university: {
+          ...incoming.university,
+          location: parsed.location,
+          ...(parsed.needsReview ? { locationNote: location } : {})
+        }
+      };
+    }
+    const country = incoming.university.location?.country;
+    if (typeof country === 'string' && country) {
+      incoming = {
+        ...incoming,
+        university: {
+          ...incoming.university,
+          location: {
+            ...incoming.university.location!,
+            country: resolveCountry(country) ?? country
+          }
+        }
+      };
+    }
+    if (Array.isArray(restrictedCountries)) {
+      const { codes, unmatched } = resolveCountries(
+        restrictedCountries.filter((country) => typeof country === 'string')
+      );
+      if (unmatched.length > 0) {
+        issues.push({
+          source: record.source,
+          message: {
+            key: 'import.issue.unknownCountries',
+            params: { countries: unmatched.join(', ') }
+          }
+        });
+        return;
+      }
+      incoming = {
+        ...incoming,
+        university: { ...incoming.university, restrictedCountries: codes }
+      };
+    }
+
+    const { deletedAt: _deletedAt, ...university } = mergeRecord(
+      incoming,
+      match ?? { ...emptyUniversity(), id: id ?? '' }
+    );
+    const changes = match ? diffUniversities(match, university) : [];
+    // Unchanged records are never written, so existing problems in them don't block the import.
+    const errors =
+      match && changes.length === 0
+        ? []
+        : validateUniversity({ ...university, id: university.id || 'pending' });
+    if (errors.length > 0) {
+      errors.forEach((error) =>
+        issues.push({
+          source: record.source,
+          message: {
+            key: 'import.issue.field',
+            params: { field: error.field, message: error.message }
+          }
+        })
+      );
+      return;
+    }
+
+    entries.push({
+      status: !match
+        ? 'added'
+        : match.deletedAt
+          ? 'restored'
+          : changes.length > 0
+            ? 'changed'
+            : 'unchanged',
+      source: record.source,
+      university,
+      existing: match,
+      matchedBy: idMatch ? 'id' : nameMatch ? 'name' : undefined,
+      changes,
+      possibleDuplicates: match ? undefined : findBatchDuplicates(university)
+    });
+  });
+
+  return { entries, issues };
+};
+
+export const previewImport = async (fileName: string, text: string): Promise<ImportPlan> => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[');
+  const { records, issues } = isJson ? readJson(text) : readCsv(text);
+  const plan = planImport(records, await getUniversities({ includeDeleted: true }));
+  return { entries: plan.entries, issues: [...issues, ...plan.issues] };
+};
+
+/** Writes every added or changed record, or nothing if the plan has issues or a write fails. */
+export const applyImport = async (plan: ImportPlan) => {
+  if (plan.issues.length > 0) {
+    throw new LocalizedError('errors.importHasIssues');
+  }
+  const pending = plan.entries.filter((entry) => entry.status !== 'unchanged');
+  return importUniversities(pending.map((entry) => entry.university));
+};
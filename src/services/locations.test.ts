@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocation } from './locations';
+
+describe('parseLocation', () => {
+  it('splits city, region and country', () => {
+    expect(parseLocation('Toronto, Ontario, Canada')).toEqual({
+      location: { country: 'CA', city: 'Toronto', region: 'Ontario' },
+      needsReview: false
+    });
+  });
+
+  it('reads a two-letter code after a city as a US state', () => {
+    expect(parseLocation('Stanford, CA').location).toEqual({
+      country: 'US',
+      city: 'Stanford',
+      region: 'California'
+    });
+    expect(parseLocation('Boston, MA').location.country).toBe('US');
+    expect(parseLocation('Atlanta, GA').location.country).toBe('US');
+    expect(parseLocation('Chicago, IL').location.country).toBe('US');
+  });
+
+  it('reads any other two-letter part after a city as a country code or alias', () => {
+    expect(parseLocation('London, UK')).toEqual({
+      location: { country: 'GB', city: 'London' },
+      needsReview: true
+    });
+    expect(parseLocation('Doha, QA')).toEqual({
+      location: { country: 'QA', city: 'Doha' },
+      needsReview: true
+    });
+  });
+
+  it('treats a lone state before the country as the region', () => {
+    expect(parseLocation('California, USA')).toEqual({
+      location: { country: 'US', region: 'California' },
+      needsReview: true
+    });
+  });
+
+  it('treats any other lone part before the country as the city', () => {
+    expect(parseLocation('Doha, Qatar')).toEqual({
+      location: { country: 'QA', city: 'Doha' },
+      needsReview: true
+    });
+  });
+});
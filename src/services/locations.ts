@@ -0,0 +1,68 @@
+import stateTable from '../data/usStates.json';
+import type { Campus, UniversityLocation } from '../types/university';
+import { countryName, resolveCountry } from './countries';
+import { t } from './i18n';
+
+/** "City, Region, Country" in the active language, leaving out whatever is not set. */
+export const formatLocation = (location: UniversityLocation | undefined) =>
+  [location?.city, location?.region, location?.country && countryName(location.country)]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(t('location.separator'));
+
+/** "North Campus (Doha)", or just the name when the campus has no city. */
+export const formatCampus = (campus: Campus) =>
+  campus.city?.trim() ? `${campus.name} (${campus.city.trim()})` : campus.name;
+
+/** Reads `formatCampus` output back; the inverse used by CSV import. */
+export const parseCampus = (text: string): Campus => {
+  const match = /^(.*?)\s*\(([^()]*)\)\s*$/.exec(text.trim());
+  return match && match[1]
+    ? { name: match[1], city: match[2].trim() || undefined }
+    : { name: text.trim() };
+};
+
+// US states are the one region list worth knowing: "Boston, MA" is far more common in the data
+// than a city followed by a country code.
+const usStates = new Map(
+  stateTable.flatMap(({ code, name }) => [
+    [code.toLowerCase(), name],
+    [name.toLowerCase(), name]
+  ])
+);
+
+const usState = (text: string) => usStates.get(text.toLowerCase());
+
+/**
+ * Best guess at a structured location from free text such as "Toronto, Ontario, Canada". The
+ * last part is taken as the country and the first as the city. A two-letter last part after a
+ * city is read as a US state when it names one, and as a country code or alias ("UK") otherwise;
+ * a lone part before "USA" that names a state becomes the region. Anything short of a clear "City, Region, Country" is marked for
+ * review.
+ */
+export const parseLocation = (
+  text: string
+): { location: UniversityLocation; needsReview: boolean } => {
+  const parts = text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return { location: { country: '' }, needsReview: false };
+
+  const last = parts[parts.length - 1];
+  const trailingState = parts.length > 1 && /^[a-z]{2}$/i.test(last) && Boolean(usState(last));
+  const country = trailingState ? 'US' : resolveCountry(last, 'en');
+  // A trailing state stays in the list as the region; a trailing country is consumed.
+  const rest = country && !trailingState ? parts.slice(0, -1) : parts;
+  const location: UniversityLocation = { country: country || '' };
+  if (rest.length === 1 && country === 'US' && usState(rest[0])) {
+    location.region = usState(rest[0]);
+  } else {
+    if (rest.length > 0) location.city = rest[0];
+    if (rest.length > 1) location.region = rest.slice(1).join(', ');
+    if (country === 'US' && location.region) {
+      location.region = usState(location.region) ?? location.region;
+    }
+  }
+  return { location, needsReview: !country || rest.length !== 2 };
+};
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Program } from '../types/university';
+import { makeUniversity, seedMemoryStore } from '../test/fixtures';
+import { matchUniversities, matchUniversity, parseMinimumGpa } from './matcherService';
+import type { StudentProfile } from './matcherService';
+
+const program = (name: string, tuition?: number): Program => ({
+  id: `masters-${name.toLowerCase().replace(/\W+/g, '-')}`,
+  name,
+  duration: '2 years',
+  delivery: 'On campus',
+  ...(tuition !== undefined ? { tuition } : {})
+});
+
+const gulf = makeUniversity({
+  id: 'uni-gulf',
+  name: 'Gulf University',
+  fees: { currency: 'USD', application: 0, averageTuition: { masters: 20_000 } },
+  programs: {
+    bachelor: [],
+    masters: [program('Data Science'), program('Mechanical Engineering', 30_000)],
+    phd: []
+  },
+  scholarships: {
+    bachelor: [],
+    masters: [
+      {
+        id: 'masters-merit',
+        name: 'Merit Award',
+        funding: { type: 'full-tuition' },
+        eligibility: 'Minimum GPA 3.5',
+        deadline: 'Rolling'
+      }
+    ],
+    phd: []
+  },
+  restrictedCountries: ['IR']
+});
+
+const profile: StudentProfile = {
+  nationality: 'EG',
+  degreeLevel: 'masters',
+  field: 'data science',
+  gpa: 3.7,
+  budget: 25_000,
+  currency: 'USD'
+};
+
+const verdicts = (match: ReturnType<typeof matchUniversity>) =>
+  match.reasons.map((reason) => reason.verdict);
+
+describe('parseMinimumGpa', () => {
+  it('reads thresholds written either way round', () => {
+    expect(parseMinimumGpa('Minimum GPA 3.5')).toBe(3.5);
+    expect(parseMinimumGpa('3.25+ GPA and interview')).toBe(3.25);
+    expect(parseMinimumGpa('Open to all applicants')).toBeUndefined();
+    expect(parseMinimumGpa('GPA 9 on a 10-point scale')).toBeUndefined();
+  });
+});
+
+describe('matchUniversity', () => {
+  it('gives full marks when the field, budget and a scholarship all fit', () => {
+    const match = matchUniversity(gulf, profile);
+    expect(match).toMatchObject({ eligible: true, score: 100 });
+    expect(match.programs.map((entry) => entry.name)).toEqual(['Data Science']);
+    expect(verdicts(match)).toEqual(['pass', 'pass', 'pass']);
+  });
+
+  it('prices programs with their own tuition and treats a small overrun as a near miss', () => {
+    const match = matchUniversity(gulf, { ...profile, field: 'mechanical engineering' });
+    expect(match.score).toBe(Math.round(40 + 35 / 2 + 25));
+    expect(verdicts(match)).toEqual(['pass', 'warn', 'pass']);
+  });
+
+  it('converts the budget currency and drops scholarships above the GPA', () => {
+    const match = matchUniversity(gulf, { ...profile, gpa: 3.0, budget: 1_000, currency: 'EUR' });
+    expect(match.scholarships[0]).toMatchObject({ minimumGpa: 3.5, qualifies: false });
+    expect(match.score).toBe(40);
+  });
+
+  it('rules out restricted nationalities and levels without programs', () => {
+    expect(matchUniversity(gulf, { ...profile, nationality: 'Iran' })).toMatchObject({
+      eligible: false,
+      score: 0
+    });
+    expect(matchUniversity(gulf, { ...profile, degreeLevel: 'phd' }).eligible).toBe(false);
+  });
+});
+
+describe('matchUniversities', () => {
+  beforeEach(() => {
+    seedMemoryStore([
+      makeUniversity({ id: 'uni-closed', name: 'Atlas University' }),
+      gulf
+    ]);
+  });
+
+  it('ranks eligible universities first', async () => {
+    const matches = await matchUniversities(profile);
+    expect(matches.map((match) => [match.university.id, match.eligible])).toEqual([
+      ['uni-gulf', true],
+      ['uni-closed', false]
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { DegreeLevel, Program, Scholarship, University } from '../types/university';
+import { getUniversities } from './universityService';
+import { countryName, resolveCountry } from './countries';
+import { formatFunding } from './funding';
+import { BASE_CURRENCY, convertAmount, feeAmount, formatMoney, programTuition } from './currency';
+import { formatList, localize, t, tp } from './i18n';
+
+export interface StudentProfile {
+  /** Country code, or empty when not given. A country name is also accepted. */
+  nationality: string;
+  degreeLevel: DegreeLevel;
+  /** Free text such as "data science" or "mechanical engineering". */
+  field: string;
+  /** On a 4.0 scale. */
+  gpa?: number;
+  /** Yearly tuition the student can afford, in `currency`. */
+  budget?: number;
+  /** Currency of `budget`; defaults to the exchange-rate base currency. */
+  currency?: string;
+}
+
+export type MatchVerdict = 'pass' | 'warn' | 'fail';
+
+export interface MatchReason {
+  verdict: MatchVerdict;
+  /** Written in the language that was active when the match ran. */
+  message: string;
+}
+
+export interface ScholarshipFit {
+  scholarship: Scholarship;
+  /** GPA threshold read from the eligibility text, when one is stated. */
+  minimumGpa?: number;
+  /** False when the student's GPA is below a stated threshold. */
+  qualifies: boolean;
+}
+
+export interface UniversityMatch {
+  university: University;
+  /** 0–100; always 0 when `eligible` is false. */
+  score: number;
+  eligible: boolean;
+  reasons: MatchReason[];
+  programs: Program[];
+  scholarships: ScholarshipFit[];
+}
+
+/** How much each criterion contributes to the 100-point score. */
+const weights = { field: 40, budget: 35, scholarships: 25 };
+
+// Anything within this share over budget is a near miss rather than a hard no.
+const BUDGET_TOLERANCE = 0.2;
+
+const words = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3);
+
+/** A program matches when every significant word of the field starts a word of its name. */
+const matchesField = (program: Program, field: string) => {
+  const fieldWords = words(field);
+  const nameWords = words(program.name);
+  return (
+    fieldWords.length > 0 &&
+    fieldWords.every((word) => nameWords.some((name) => name.startsWith(word)))
+  );
+};
+
+export const parseMinimumGpa = (eligibility: string): number | undefined => {
+  const match = /gpa\D{0,12}?(\d(?:\.\d{1,2})?)\b|(\d\.\d{1,2})\s*\+?\s*gpa/i.exec(eligibility);
+  const value = Number(match?.[1] ?? match?.[2]);
+  return match && value > 0 && value <= 5 ? value : undefined;
+};
+
+const checkBudget = (
+  university: University,
+  profile: StudentProfile,
+  programs: Program[]
+): { points: number; reason: MatchReason | null } => {
+  if (profile.budget === undefined) {
+    return { points: weights.budget, reason: null };
+  }
+  // Tuition is converted to the budget's currency before the two are compared. Programs that
+  // list their own tuition are priced individually and the cheapest matching one counts.
+  const currency = profile.currency ?? BASE_CURRENCY;
+  const charges =
+    programs.length > 0
+      ? programs.map((program) => programTuition(university, profile.degreeLevel, program))
+      : [feeAmount(university, profile.degreeLevel)];
+  const amounts = charges
+    .map((charged) => charged && convertAmount(charged.amount, charged.currency, currency))
+    .filter((amount): amount is number => amount !== undefined);
+  const tuition = amounts.length > 0 ? Math.min(...amounts) : undefined;
+  const formatCurrency = (amount: number) => formatMoney({ amount, currency });
+  if (tuition === undefined) {
+    return {
+      points: weights.budget / 2,
+      reason: { verdict: 'warn', message: t('match.tuitionMissing') }
+    };
+  }
+  if (tuition <= profile.budget) {
+    return {
+      points: weights.budget,
+      reason: {
+        verdict: 'pass',
+        message: t('match.withinBudget', {
+          tuition: formatCurrency(tuition),
+          budget: formatCurrency(profile.budget)
+        })
+      }
+    };
+  }
+  const over = tuition - profile.budget;
+  const nearMiss = over <= profile.budget * BUDGET_TOLERANCE;
+  return {
+    points: nearMiss ? weights.budget / 2 : 0,
+    reason: {
+      verdict: 'warn',
+      message: t('match.overBudget', {
+        tuition: formatCurrency(tuition),
+        over: formatCurrency(over)
+      })
+    }
+  };
+};
+
+/** Scores one university for a profile and explains each part of the score. */
+export const matchUniversity = (
+  university: University,
+  profile: StudentProfile
+): UniversityMatch => {
+  const level = profile.degreeLevel;
+  const reasons: MatchReason[] = [];
+  const nationality = resolveCountry(profile.nationality);
+  const restricted =
+    nationality !== null && (university.restrictedCountries ?? []).includes(nationality);
+  const levelPrograms = university.programs?.[level] ?? [];
+  const programs = profile.field.trim()
+    ? levelPrograms.filter((program) => matchesField(program, profile.field))
+    : levelPrograms;
+  const scholarships: ScholarshipFit[] = (university.scholarships?.[level] ?? []).map(
+    (scholarship) => {
+      const minimumGpa = parseMinimumGpa(scholarship.eligibility);
+      return {
+        scholarship,
+        minimumGpa,
+        qualifies:
+          minimumGpa === undefined || profile.gpa === undefined || profile.gpa >= minimumGpa
+      };
+    }
+  );
+
+  if (restricted) {
+    reasons.push({
+      verdict: 'fail',
+      message: t('match.restricted', { country: countryName(nationality!) })
+    });
+  }
+  if (levelPrograms.length === 0) {
+    reasons.push({ verdict: 'fail', message: t('match.noPrograms') });
+  }
+
+  let score = 0;
+  if (levelPrograms.length > 0) {
+    if (!profile.field.trim()) {
+      score += weights.field;
+    } else if (programs.length > 0) {
+      score += weights.field;
+      reasons.push({
+        verdict: 'pass',
+        message: t('match.offers', {
+          programs: formatList(
+            programs.map((program) => localize(program.name, program.nameTranslations))
+          )
+        })
+      });
+    } else {
+      reasons.push({
+        verdict: 'warn',
+        message: t('match.noProgramMatch', { field: profile.field.trim() })
+      });
+    }
+  }
+
+  const budget = checkBudget(university, profile, programs);
+  score += budget.points;
+  if (budget.reason) reasons.push(budget.reason);
+
+  const open = scholarships.filter((fit) => fit.qualifies);
+  if (open.length > 0) {
+    score += weights.scholarships;
+    const best = open[0].scholarship;
+    reasons.push({
+      verdict: 'pass',
+      message: tp('match.scholarshipsOpen', open.length, {
+        name: localize(best.name, best.nameTranslations),
+        funding: formatFunding(best.funding)
+      })
+    });
+  } else if (scholarships.length > 0) {
+    const lowest = Math.min(...scholarships.map((fit) => fit.minimumGpa ?? 0));
+    reasons.push({
+      verdict: 'warn',
+      message: t('match.scholarshipGpa', { gpa: lowest })
+    });
+  } else {
+    reasons.push({ verdict: 'warn', message: t('match.noScholarships') });
+  }
+
+  const eligible = reasons.every((reason) => reason.verdict !== 'fail');
+  return {
+    university,
+    score: eligible ? Math.round(score) : 0,
+    eligible,
+    reasons,
+    programs,
+    scholarships
+  };
+};
+
+/**
+ * Ranks every university in the directory for a student. Ineligible universities are kept at
+ * the end so the student can see why they were ruled out.
+ */
+export const matchUniversities = async (profile: StudentProfile): Promise<UniversityMatch[]> => {
+  const universities = await getUniversities();
+  return universities
+    .map((university) => matchUniversity(university, profile))
+    .sort(
+      (a, b) =>
+        Number(b.eligible) - Number(a.eligible) ||
+        b.score - a.score ||
+        a.university.name.localeCompare(b.university.name)
+    );
+};
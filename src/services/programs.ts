@@ -0,0 +1,149 @@
+import { admissionTests, degreeLevels } from '../types/university';
+import type {
+  AdmissionTest,
+  DegreeLevel,
+  Program,
+  Scholarship,
+  TestRequirement,
+  University
+} from '../types/university';
+import type { Locale } from '../types/i18n';
+import { getLocale } from './i18n';
+
+export interface ScoreRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** Score scale of each test, used to validate minimums and bound the editor inputs. */
+export const testScoreRanges: Record<AdmissionTest, ScoreRange> = {
+  IELTS: { min: 0, max: 9, step: 0.5 },
+  TOEFL: { min: 0, max: 120, step: 1 },
+  GRE: { min: 260, max: 340, step: 1 },
+  GMAT: { min: 200, max: 800, step: 10 }
+};
+
+export const MAX_GPA = 4;
+
+const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** Readable id for a new program, e.g. `masters-data-science`. */
+export const programSlug = (level: DegreeLevel, name: string) =>
+  `${level}-${slugify(name) || 'program'}`;
+
+const assignIds = <T extends { id: string; name: string }>(
+  items: Record<DegreeLevel, T[]>,
+  slug: (level: DegreeLevel, name: string) => string
+): Record<DegreeLevel, T[]> => {
+  const taken = new Set<string>();
+  const pending: { level: DegreeLevel; index: number }[] = [];
+  const result = degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = (items?.[level] ?? []).map((item, index) => {
+        const id = typeof item.id === 'string' ? item.id.trim() : '';
+        if (id && !taken.has(id)) {
+          taken.add(id);
+          return { ...item, id };
+        }
+        pending.push({ level, index });
+        return item;
+      });
+      return acc;
+    },
+    {} as Record<DegreeLevel, T[]>
+  );
+  // Ids already in use are claimed first so a new entry never takes over an old link.
+  pending.forEach(({ level, index }) => {
+    const item = result[level][index];
+    const base = slug(level, item.name ?? '');
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix += 1) id = `${base}-${suffix}`;
+    taken.add(id);
+    result[level][index] = { ...item, id };
+  });
+  return result;
+};
+
+/**
+ * Gives every program an id that is unique within the university. Existing ids are kept; programs
+ * without one, or whose id is already taken, get a slug of their level and name, numbered when
+ * two programs share a name.
+ */
+export const assignProgramIds = (programs: Record<DegreeLevel, Program[]>) =>
+  assignIds(programs, programSlug);
+
+/** The same for scholarships, e.g. `phd-presidential`; calendar exports key events on them. */
+export const assignScholarshipIds = (scholarships: Record<DegreeLevel, Scholarship[]>) =>
+  assignIds(scholarships, (level, name) => `${level}-${slugify(name) || 'scholarship'}`);
+
+/** Fills in missing program and scholarship ids; see `assignProgramIds`. */
+export const withEntryIds = <T extends Pick<University, 'programs' | 'scholarships'>>(
+  university: T
+): T => ({
+  ...university,
+  programs: assignProgramIds(university.programs),
+  scholarships: assignScholarshipIds(university.scholarships)
+});
+
+export const findProgram = (
+  university: University,
+  programId: string
+): { level: DegreeLevel; program: Program } | null => {
+  for (const level of degreeLevels) {
+    const program = (university.programs?.[level] ?? []).find((item) => item.id === programId);
+    if (program) return { level, program };
+  }
+  return null;
+};
+
+export const programUrl = (universityId: string, programId: string) =>
+  `/universities/${encodeURIComponent(universityId)}/programs/${encodeURIComponent(programId)}`;
+
+/** "IELTS 6.5" */
+export const formatTestRequirement = ({ test, minimumScore }: TestRequirement) =>
+  `${test} ${minimumScore}`;
+
+/**
+ * Reads requirements written as "IELTS 6.5; GRE 310", the inverse of `formatTestRequirement`.
+ * Entries that name no known test or carry no score are returned in `invalid`.
+ */
+export const parseTestRequirements = (text: string) => {
+  const requirements: TestRequirement[] = [];
+  const invalid: string[] = [];
+  text
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const match = /^([a-z]+)\s*:?\s*(\d+(?:\.\d+)?)$/i.exec(entry);
+      const test = match?.[1].toUpperCase() as AdmissionTest | undefined;
+      if (match && test && admissionTests.includes(test)) {
+        requirements.push({ test, minimumScore: Number(match[2]) });
+      } else {
+        invalid.push(entry);
+      }
+    });
+  return { requirements, invalid };
+};
+
+const monthFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Name of a month, 1 for January, in the given language; `short` gives e.g. "Jan". */
+export const monthName = (
+  month: number,
+  locale: Locale = getLocale(),
+  width: 'long' | 'short' = 'long'
+) => {
+  const key = `${locale}-${width}`;
+  if (!monthFormats.has(key)) {
+    monthFormats.set(key, new Intl.DateTimeFormat(locale, { month: width, timeZone: 'UTC' }));
+  }
+  return monthFormats.get(key)!.format(new Date(Date.UTC(2000, month - 1, 1)));
+};
@@ -0,0 +1,67 @@
+import { getCurrentUser } from './authService';
+import { LocalizedError } from './i18n';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  /** Directory query string, without the leading "?". */
+  query: string;
+  createdAt: string;
+}
+
+const SAVED_VIEWS_KEY = 'manara_saved_views';
+
+// Views are kept per signed-in user, so colleagues sharing a browser keep separate lists.
+type SavedViewStore = Record<string, SavedView[]>;
+
+const readViews = (): SavedViewStore => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(SAVED_VIEWS_KEY) ?? '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as SavedViewStore)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const ownerKey = () => getCurrentUser()?.id ?? 'anonymous';
+
+const writeViews = (store: SavedViewStore) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(store));
+};
+
+export const getSavedViews = (): SavedView[] =>
+  [...(readViews()[ownerKey()] ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+
+/** Saves the current query under `name`, replacing an existing view with the same name. */
+export const saveView = (name: string, query: string): SavedView => {
+  const label = name.trim();
+  if (!label) {
+    throw new LocalizedError('errors.viewName');
+  }
+  const store = readViews();
+  const owner = ownerKey();
+  const view: SavedView = {
+    id:
+      typeof crypto !== 'undefined' && crypto.randomUUID
+        ? crypto.randomUUID()
+        : `view-${Date.now()}`,
+    name: label,
+    query,
+    createdAt: new Date().toISOString()
+  };
+  const others = (store[owner] ?? []).filter(
+    (existing) => existing.name.toLowerCase() !== label.toLowerCase()
+  );
+  writeViews({ ...store, [owner]: [...others, view] });
+  return view;
+};
+
+export const deleteSavedView = (id: string) => {
+  const store = readViews();
+  const owner = ownerKey();
+  writeViews({ ...store, [owner]: (store[owner] ?? []).filter((view) => view.id !== id) });
+};
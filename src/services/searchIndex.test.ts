@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { University } from '../types/university';
+import { makeUniversity } from '../test/fixtures';
+import { rankUniversities } from './searchIndex';
+
+const university = (id: string, name: string) =>
+  makeUniversity({ id, name, location: { country: 'QA', city: 'Lusail' } });
+
+describe('rankUniversities', () => {
+  const directory = [
+    university('uni-a', 'Doha Institute'),
+    university('uni-b', 'Qatar University'),
+    university('uni-c', 'Doha Academy')
+  ];
+
+  it('returns only the filtered records, ranked from the whole directory index', () => {
+    const filtered = directory.filter((entry) => entry.id !== 'uni-a');
+    expect(
+      rankUniversities(filtered, 'doha', directory).map((result) => result.university.id)
+    ).toEqual(['uni-c']);
+    expect(
+      rankUniversities(directory, 'doha', directory).map((result) => result.university.id)
+    ).toEqual(['uni-c', 'uni-a']);
+  });
+
+  it('keeps the directory order for an empty query', () => {
+    expect(rankUniversities(directory, '').map((result) => result.university.id)).toEqual([
+      'uni-a',
+      'uni-b',
+      'uni-c'
+    ]);
+  });
+
+  it('reuses the index for one data version and rebuilds it for the next', () => {
+    const ids = (results: { university: University }[]) =>
+      results.map((result) => result.university.id);
+    expect(ids(rankUniversities(directory, 'lusail', directory, 1))).toHaveLength(3);
+    const renamed = [university('uni-a', 'Lusail College'), ...directory.slice(1)];
+    const stale = rankUniversities(renamed, 'college', renamed, 1);
+    expect(stale).toEqual([]);
+    expect(ids(rankUniversities(renamed, 'college', renamed, 2))).toEqual(['uni-a']);
+  });
+
+  it('rebuilds the index for records it has not seen', () => {
+    const added = [...directory, university('uni-d', 'Gulf College')];
+    expect(
+      rankUniversities(added, 'college', added, 2).map((result) => result.university.id)
+    ).toEqual(['uni-d']);
+  });
+});
@@ -0,0 +1,275 @@
+import { degreeLevels } from '../types/university';
+import type { DegreeLevel, University, UniversityLocation } from '../types/university';
+import type { LocalizedText } from '../types/i18n';
+import { countryName } from './countries';
+
+export type SearchField =
+  | 'name'
+  | 'location'
+  | 'overview'
+  | 'program'
+  | 'scholarship'
+  | 'eligibility';
+
+export interface SearchMatch {
+  field: SearchField;
+  level?: DegreeLevel;
+  /** The full text of the field that matched, e.g. the program name. */
+  text: string;
+  /** Character ranges within `text` that matched a query term, as [start, end). */
+  ranges: [number, number][];
+}
+
+export interface SearchResult {
+  university: University;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  field: SearchField;
+  level?: DegreeLevel;
+  text: string;
+  tokens: Token[];
+}
+
+interface Posting {
+  doc: number;
+  field: number;
+  token: number;
+}
+
+export interface SearchIndex {
+  universities: University[];
+  fields: IndexedField[][];
+  postings: Map<string, Posting[]>;
+}
+
+/** Relative importance of each field when ranking; a name hit beats an overview hit. */
+const fieldWeights: Record<SearchField, number> = {
+  name: 5,
+  program: 3,
+  scholarship: 3,
+  location: 2,
+  eligibility: 1.5,
+  overview: 1
+};
+
+const EXACT = 1;
+const PREFIX = 0.75;
+const FUZZY = 0.5;
+
+// Keeps decimals such as "3.7" together so GPA and score thresholds are searchable.
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:\.\p{N}+)?/gu;
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+
+/** Levenshtein distance, giving up once it exceeds `max`. */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (term: string) => {
+  if (/\d/.test(term) || term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+};
+
+/** How well an indexed term satisfies a query term, from 0 (no match) to 1 (exact). */
+const termQuality = (queryTerm: string, indexedTerm: string) => {
+  if (indexedTerm === queryTerm) return EXACT;
+  if (queryTerm.length >= 2 && indexedTerm.startsWith(queryTerm)) return PREFIX;
+  const typos = allowedTypos(queryTerm);
+  if (typos > 0 && editDistance(queryTerm, indexedTerm, typos) <= typos) return FUZZY;
+  return 0;
+};
+
+// Translations are indexed alongside the English text so either language finds the record.
+const withTranslations = (text: string | undefined, translations?: LocalizedText) =>
+  [text ?? '', ...Object.values(translations ?? {})].filter(
+    (value): value is string => typeof value === 'string'
+  );
+
+// City, region, campus names and the country by code and English name, so "US" and
+// "United States" both find it.
+const locationText = ({ country, region, city, campuses }: UniversityLocation) =>
+  [
+    city,
+    region,
+    country,
+    country && countryName(country, 'en'),
+    ...(campuses ?? []).map((campus) => campus.name)
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const collectFields = (university: University): IndexedField[] => {
+  const fields: Omit<IndexedField, 'tokens'>[] = [
+    { field: 'name', text: university.name },
+    { field: 'location', text: locationText(university.location) },
+    ...withTranslations(university.overview, university.overviewTranslations).map((text) => ({
+      field: 'overview' as const,
+      text
+    }))
+  ];
+  degreeLevels.forEach((level) => {
+    (university.programs?.[level] ?? []).forEach((program) =>
+      withTranslations(program.name, program.nameTranslations).forEach((text) =>
+        fields.push({ field: 'program', level, text })
+      )
+    );
+    (university.scholarships?.[level] ?? []).forEach((scholarship) => {
+      withTranslations(scholarship.name, scholarship.nameTranslations).forEach((text) =>
+        fields.push({ field: 'scholarship', level, text })
+      );
+      fields.push({ field: 'eligibility', level, text: scholarship.eligibility });
+    });
+  });
+  return fields
+    .filter((entry) => entry.text?.trim())
+    .map((entry) => ({ ...entry, tokens: tokenize(entry.text) }));
+};
+
+export const buildSearchIndex = (universities: University[]): SearchIndex => {
+  const postings = new Map<string, Posting[]>();
+  const fields = universities.map((university, doc) => {
+    const docFields = collectFields(university);
+    docFields.forEach((entry, field) =>
+      entry.tokens.forEach((token, tokenIndex) => {
+        const list = postings.get(token.term) ?? [];
+        list.push({ doc, field, token: tokenIndex });
+        postings.set(token.term, list);
+      })
+    );
+    return docFields;
+  });
+  return { universities, fields, postings };
+};
+
+/**
+ * Ranks universities against a free-text query. Every query term must match somewhere in a
+ * university (exactly, as a prefix, or within a small typo budget) for it to be returned.
+ */
+export const searchIndex = (index: SearchIndex, query: string): SearchResult[] => {
+  const queryTerms = Array.from(new Set(tokenize(query).map((token) => token.term)));
+  if (queryTerms.length === 0) {
+    return index.universities.map((university) => ({ university, score: 0, matches: [] }));
+  }
+
+  // Per document: best score for each query term, plus the token hits used for highlighting.
+  const termScores = new Map<number, number[]>();
+  const hits = new Map<number, Map<number, Set<number>>>();
+
+  queryTerms.forEach((queryTerm, termIndex) => {
+    index.postings.forEach((list, indexedTerm) => {
+      const quality = termQuality(queryTerm, indexedTerm);
+      if (quality === 0) return;
+      list.forEach(({ doc, field, token }) => {
+        const weight = fieldWeights[index.fields[doc][field].field] * quality;
+        const scores = termScores.get(doc) ?? new Array<number>(queryTerms.length).fill(0);
+        scores[termIndex] = Math.max(scores[termIndex], weight);
+        termScores.set(doc, scores);
+        const docHits = hits.get(doc) ?? new Map<number, Set<number>>();
+        docHits.set(field, (docHits.get(field) ?? new Set<number>()).add(token));
+        hits.set(doc, docHits);
+      });
+    });
+  });
+
+  const phrase = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+  termScores.forEach((scores, doc) => {
+    if (scores.some((score) => score === 0)) return;
+    const docFields = index.fields[doc];
+    const matches: SearchMatch[] = Array.from(hits.get(doc) ?? [])
+      .map(([field, tokens]) => {
+        const entry = docFields[field];
+        const ranges = Array.from(tokens)
+          .sort((a, b) => a - b)
+          .map((token): [number, number] => [entry.tokens[token].start, entry.tokens[token].end]);
+        return { field: entry.field, level: entry.level, text: entry.text, ranges };
+      })
+      .sort(
+        (a, b) =>
+          fieldWeights[b.field] - fieldWeights[a.field] || b.ranges.length - a.ranges.length
+      );
+    // Reward fields that contain the whole query verbatim, e.g. "data science".
+    const phraseBonus = queryTerms.length > 1
+      ? Math.max(
+          0,
+          ...docFields
+            .filter((entry) => entry.text.toLowerCase().includes(phrase))
+            .map((entry) => fieldWeights[entry.field])
+        )
+      : 0;
+    const score = scores.reduce((sum, value) => sum + value, 0) + phraseBonus;
+    results.push({ university: index.universities[doc], score, matches });
+  });
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.university.name.localeCompare(b.university.name)
+  );
+};
+
+// The last index built and the data version it was built for, so repeated queries and the search
+// and facet requests of one page load share a single build until the data changes.
+let cached: { version: number; ids: Set<string>; index: SearchIndex } | null = null;
+
+// A directory with records the index has never seen (one loaded from another backend, say) is
+// rebuilt even when the version has not moved.
+const indexFor = (directory: University[], version: number | undefined) => {
+  if (version === undefined) return buildSearchIndex(directory);
+  const current =
+    cached?.version === version &&
+    cached.ids.size === directory.length &&
+    directory.every((university) => cached!.ids.has(university.id));
+  if (!current) {
+    cached = {
+      version,
+      ids: new Set(directory.map((university) => university.id)),
+      index: buildSearchIndex(directory)
+    };
+  }
+  return cached!.index;
+};
+
+/**
+ * Ranks `universities` against `query` using the index of `directory`, the full list they were
+ * filtered from. Only results for `universities` are returned. Pass the directory's data
+ * `version` to reuse the index across calls; it is rebuilt whenever the version changes.
+ */
+export const rankUniversities = (
+  universities: University[],
+  query: string,
+  directory: University[] = universities,
+  version?: number
+) => {
+  const wanted = new Map(universities.map((university) => [university.id, university]));
+  return searchIndex(indexFor(directory, version), query).flatMap((result) => {
+    const university = wanted.get(result.university.id);
+    return university ? [{ ...result, university }] : [];
+  });
+};
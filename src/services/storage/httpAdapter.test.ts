@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { UniversityHistoryEntry } from '../../types/history';
+import { createHttpAdapter } from './httpAdapter';
+
+const respond = (status: number, body?: unknown) =>
+  new Response(body === undefined ? null : JSON.stringify(body), { status });
+
+const entry = (id: string): UniversityHistoryEntry => ({
+  id,
+  universityId: 'uni-test',
+  universityName: 'Test University',
+  action: 'update',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  actor: 'Test',
+  changes: [],
+  previous: null,
+  snapshot: null
+});
+
+describe('createHttpAdapter', () => {
+  it('upgrades records the API saved under an older schema', async () => {
+    const legacy = {
+      id: 'uni-legacy',
+      name: 'Legacy University',
+      portalUrl: 'https://legacy.example.edu',
+      location: 'Doha, Qatar',
+      overview: '',
+      fees: { application: 0, averageTuition: {} },
+      programs: { bachelor: [], masters: [], phd: [] },
+      scholarships: { bachelor: [], masters: [], phd: [] },
+      restrictedCountries: ['Iran']
+    };
+    const fetchImpl = vi.fn(async (url: string | URL | Request) =>
+      String(url).endsWith('/universities') ? respond(200, [legacy]) : respond(200, legacy)
+    );
+    const adapter = createHttpAdapter({ baseUrl: 'https://api.example.org/', fetchImpl });
+
+    const [listed] = await adapter.list();
+    expect(listed.location).toEqual({ country: 'QA', city: 'Doha' });
+    expect(listed.fees.currency).toBe('USD');
+    expect(listed.restrictedCountries).toEqual(['IR']);
+    expect(await adapter.get(legacy.id)).toEqual(listed);
+  });
+
+  it('reads a missing record as undefined', async () => {
+    const adapter = createHttpAdapter({
+      baseUrl: 'https://api.example.org',
+      fetchImpl: async () => respond(404, { message: 'Not found' })
+    });
+    expect(await adapter.get('uni-missing')).toBeUndefined();
+  });
+
+  it('posts a batch of history entries in one request', async () => {
+    const fetchImpl = vi.fn(async () => respond(201, []));
+    const adapter = createHttpAdapter({ baseUrl: 'https://api.example.org', fetchImpl });
+
+    await adapter.appendHistory([entry('one'), entry('two')]);
+    await adapter.appendHistory([]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.example.org/history');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(String(init.body)).map((sent: UniversityHistoryEntry) => sent.id)).toEqual([
+      'one',
+      'two'
+    ]);
+  });
+});
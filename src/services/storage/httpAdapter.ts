@@ -0,0 +1,122 @@
+import type { Application, Student } from '../../types/application';
+import type { UniversityHistoryEntry } from '../../types/history';
+import type { University } from '../../types/university';
+import { migrateRecord } from './migrations';
+import type { UniversityStorageAdapter } from './types';
+import { LocalizedError } from '../i18n';
+import type { MessageKey } from '../i18n';
+
+export interface HttpAdapterOptions {
+  baseUrl: string;
+  fetchImpl?: typeof fetch;
+  /** Sent as a bearer token so the API can check who is making changes. */
+  getAuthToken?: () => string | null;
+}
+
+// The API's own message is shown as sent; without one the status is reported in our words.
+const readError = async (response: Response) => {
+  try {
+    const body = (await response.json()) as { message?: string };
+    if (body?.message) return new Error(body.message);
+  } catch {
+    // Fall through to the status text when the body is not JSON.
+  }
+  return new LocalizedError('errors.requestFailed', { status: response.status });
+};
+
+export const createHttpAdapter = ({
+  baseUrl,
+  fetchImpl = fetch,
+  getAuthToken
+}: HttpAdapterOptions): UniversityStorageAdapter => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(
+    path: string,
+    init?: RequestInit,
+    notFound: MessageKey = 'errors.universityNotFound'
+  ): Promise<T> => {
+    const token = getAuthToken?.();
+    const response = await fetchImpl(`${root}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init?.headers ?? {})
+      }
+    });
+    if (response.status === 404) {
+      throw new LocalizedError(notFound);
+    }
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    backend: 'http',
+    // The API stores records as they were sent, so ones saved by older builds are upgraded here
+    // like the browser's own store. Migrations leave current records alone.
+    list: async () => (await request<unknown[]>('/universities')).map((uni) => migrateRecord(uni)),
+    get: async (id) => {
+      try {
+        return migrateRecord(await request<unknown>(`/universities/${encodeURIComponent(id)}`));
+      } catch (err) {
+        if (err instanceof LocalizedError && err.detail.key === 'errors.universityNotFound') {
+          return undefined;
+        }
+        throw err;
+      }
+    },
+    create: (university) =>
+      request<University>('/universities', { method: 'POST', body: JSON.stringify(university) }),
+    update: (university) =>
+      request<University>(`/universities/${encodeURIComponent(university.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(university)
+      }),
+    remove: async (id) => {
+      await request<void>(`/universities/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+    listHistory: (universityId) =>
+      request<UniversityHistoryEntry[]>(
+        universityId ? `/history?universityId=${encodeURIComponent(universityId)}` : '/history'
+      ),
+    // One request per batch, so the API can keep or reject a change's entries together.
+    appendHistory: async (entries) => {
+      if (entries.length === 0) return;
+      await request<UniversityHistoryEntry[]>('/history', {
+        method: 'POST',
+        body: JSON.stringify(entries)
+      });
+    },
+    listStudents: () => request<Student[]>('/students'),
+    saveStudent: (student) =>
+      request<Student>(`/students/${encodeURIComponent(student.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(student)
+      }),
+    listApplications: (universityId) =>
+      request<Application[]>(
+        universityId
+          ? `/applications?universityId=${encodeURIComponent(universityId)}`
+          : '/applications'
+      ),
+    saveApplication: (application) =>
+      request<Application>(`/applications/${encodeURIComponent(application.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(application)
+      }),
+    removeApplication: async (id) => {
+      await request<void>(
+        `/applications/${encodeURIComponent(id)}`,
+        { method: 'DELETE' },
+        'errors.applicationNotFound'
+      );
+    }
+  };
+};
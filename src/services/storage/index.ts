@@ -0,0 +1,46 @@
+import type { University } from '../../types/university';
+import { createHttpAdapter } from './httpAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createMemoryAdapter } from './memoryAdapter';
+import type { StorageBackend, StorageConfig, UniversityStorageAdapter } from './types';
+import { LocalizedError } from '../i18n';
+
+export type {
+  QuarantineRecord,
+  StorageBackend,
+  StorageConfig,
+  UniversityStorageAdapter
+} from './types';
+export { createHttpAdapter } from './httpAdapter';
+export { createLocalStorageAdapter } from './localStorageAdapter';
+export { createMemoryAdapter } from './memoryAdapter';
+export { CURRENT_SCHEMA_VERSION, migrateRecord, migrations } from './migrations';
+
+const backends: StorageBackend[] = ['local', 'memory', 'http'];
+
+export const resolveStorageConfig = (): StorageConfig => {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND as StorageBackend | undefined;
+  return {
+    backend: requested && backends.includes(requested) ? requested : 'local',
+    apiBaseUrl: import.meta.env.VITE_API_BASE_URL
+  };
+};
+
+export const createStorageAdapter = (
+  config: StorageConfig,
+  seed: University[],
+  /** Supplies the signed-in user's token to backends that check it. */
+  options: { getAuthToken?: () => string | null } = {}
+): UniversityStorageAdapter => {
+  switch (config.backend) {
+    case 'memory':
+      return createMemoryAdapter(seed);
+    case 'http':
+      if (!config.apiBaseUrl) {
+        throw new LocalizedError('errors.apiBaseUrl');
+      }
+      return createHttpAdapter({ baseUrl: config.apiBaseUrl, getAuthToken: options.getAuthToken });
+    default:
+      return createLocalStorageAdapter(seed);
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import type { UniversityHistoryEntry } from '../../types/history';
+import { createLocalStorageAdapter, HISTORY_LIMIT } from './localStorageAdapter';
+
+const entry = (index: number): UniversityHistoryEntry => ({
+  id: `entry-${index}`,
+  universityId: 'uni-test',
+  universityName: 'Test University',
+  action: 'update',
+  timestamp: new Date(index * 1000).toISOString(),
+  actor: 'Test',
+  changes: [],
+  previous: null,
+  snapshot: null
+});
+
+describe('createLocalStorageAdapter history', () => {
+  it('keeps only the newest entries', async () => {
+    const adapter = createLocalStorageAdapter();
+    const entries = Array.from({ length: HISTORY_LIMIT + 10 }, (_, index) => entry(index));
+    await adapter.appendHistory(entries.slice(0, 20));
+    await adapter.appendHistory(entries.slice(20));
+    const kept = await adapter.listHistory();
+    expect(kept).toHaveLength(HISTORY_LIMIT);
+    expect(kept[0].id).toBe('entry-10');
+    expect(kept.at(-1)?.id).toBe(`entry-${HISTORY_LIMIT + 9}`);
+  });
+});
@@ -0,0 +1,220 @@
+import type { Application, Student } from '../../types/application';
+import type { UniversityHistoryEntry } from '../../types/history';
+import type { University } from '../../types/university';
+import { createEnvelope, CURRENT_SCHEMA_VERSION, migratePersisted } from './migrations';
+import type { QuarantineRecord, UniversityStorageAdapter } from './types';
+import { clone, delay } from './utils';
+import { LocalizedError } from '../i18n';
+
+export const STORAGE_KEY = 'manara_universities';
+export const BACKUP_KEY = 'manara_universities_backup';
+export const HISTORY_KEY = 'manara_university_history';
+export const STUDENTS_KEY = 'manara_students';
+export const APPLICATIONS_KEY = 'manara_applications';
+
+/**
+ * Most change-history entries kept in the browser. Each holds up to two full records, so older
+ * entries are dropped first rather than letting the log fill the storage quota.
+ */
+export const HISTORY_LIMIT = 300;
+
+const getStorage = () => (typeof window === 'undefined' ? null : window.localStorage);
+
+const readBackups = (storage: Storage): QuarantineRecord[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(BACKUP_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const quarantine = (storage: Storage, raw: string, reason: string) => {
+  const record: QuarantineRecord = {
+    id: `backup-${Date.now()}`,
+    quarantinedAt: new Date().toISOString(),
+    reason,
+    raw,
+    acknowledged: false
+  };
+  storage.setItem(BACKUP_KEY, JSON.stringify([...readBackups(storage), record]));
+};
+
+/**
+ * A plain JSON list under one key, mirrored in memory for when localStorage is unavailable.
+ * Unreadable payloads are quarantined and replaced with the last good copy.
+ */
+const createListStore = <T>(key: string, label: string) => {
+  let mirror: T[] = [];
+  return {
+    read: (): T[] => {
+      const storage = getStorage();
+      if (!storage) {
+        return clone(mirror);
+      }
+      const raw = storage.getItem(key) ?? '[]';
+      try {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) {
+          throw new Error(`Stored ${label} is not a list`);
+        }
+        mirror = parsed;
+      } catch (err) {
+        quarantine(storage, raw, err instanceof Error ? err.message : `Unreadable ${label}`);
+        storage.setItem(key, JSON.stringify(mirror));
+      }
+      return clone(mirror);
+    },
+    write: (list: T[]) => {
+      mirror = clone(list);
+      getStorage()?.setItem(key, JSON.stringify(mirror));
+    }
+  };
+};
+
+/** Replaces the item with the same id, or appends it. */
+const upsert = <T extends { id: string }>(list: T[], item: T) => {
+  const index = list.findIndex((existing) => existing.id === item.id);
+  return index === -1
+    ? [...list, clone(item)]
+    : list.map((existing, idx) => (idx === index ? clone(item) : existing));
+};
+
+export const createLocalStorageAdapter = (seed: University[] = []): UniversityStorageAdapter => {
+  // Mirrors the persisted list so the adapter still works where localStorage is unavailable.
+  let inMemoryStore: University[] = clone(seed);
+  const history = createListStore<UniversityHistoryEntry>(HISTORY_KEY, 'change history');
+  const students = createListStore<Student>(STUDENTS_KEY, 'student list');
+  const applications = createListStore<Application>(APPLICATIONS_KEY, 'application list');
+
+  const readStore = (): University[] => {
+    const storage = getStorage();
+    if (!storage) {
+      return clone(inMemoryStore);
+    }
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) {
+      storage.setItem(STORAGE_KEY, JSON.stringify(createEnvelope(inMemoryStore)));
+      return clone(inMemoryStore);
+    }
+    try {
+      const { universities, migratedFrom } = migratePersisted(JSON.parse(raw));
+      inMemoryStore = universities;
+      if (migratedFrom < CURRENT_SCHEMA_VERSION) {
+        storage.setItem(STORAGE_KEY, JSON.stringify(createEnvelope(inMemoryStore)));
+      }
+      return clone(inMemoryStore);
+    } catch (err) {
+      // Keep the unreadable payload so nobody's edits are lost, then fall back to the last
+      // good copy (the seed on first load).
+      quarantine(storage, raw, err instanceof Error ? err.message : 'Unreadable data');
+      storage.setItem(STORAGE_KEY, JSON.stringify(createEnvelope(inMemoryStore)));
+      return clone(inMemoryStore);
+    }
+  };
+
+  const writeStore = (data: University[]) => {
+    inMemoryStore = clone(data);
+    const storage = getStorage();
+    if (storage) {
+      storage.setItem(STORAGE_KEY, JSON.stringify(createEnvelope(inMemoryStore)));
+    }
+  };
+
+  return {
+    backend: 'local',
+    list: async () => delay(readStore()),
+    get: async (id) => delay(readStore().find((uni) => uni.id === id)),
+    create: async (university) => {
+      const universities = readStore();
+      universities.push(clone(university));
+      writeStore(universities);
+      return delay(clone(university));
+    },
+    update: async (university) => {
+      const universities = readStore();
+      const index = universities.findIndex((uni) => uni.id === university.id);
+      if (index === -1) {
+        throw new LocalizedError('errors.universityNotFound');
+      }
+      universities[index] = clone(university);
+      writeStore(universities);
+      return delay(clone(university));
+    },
+    remove: async (id) => {
+      const universities = readStore();
+      const index = universities.findIndex((uni) => uni.id === id);
+      if (index === -1) {
+        throw new LocalizedError('errors.universityNotFound');
+      }
+      universities.splice(index, 1);
+      writeStore(universities);
+      await delay(undefined);
+    },
+    saveMany: async (incoming) => {
+      const universities = readStore();
+      incoming.forEach((university) => {
+        const index = universities.findIndex((uni) => uni.id === university.id);
+        if (index === -1) {
+          universities.push(clone(university));
+        } else {
+          universities[index] = clone(university);
+        }
+      });
+      writeStore(universities);
+      return delay(clone(incoming));
+    },
+    listHistory: async (universityId) =>
+      delay(history.read().filter((entry) => !universityId || entry.universityId === universityId)),
+    appendHistory: async (entries) => {
+      let list = [...history.read(), ...clone(entries)].slice(-HISTORY_LIMIT);
+      const added = Math.min(entries.length, HISTORY_LIMIT);
+      // When storage is still full, keep halving the older entries until the new ones fit.
+      for (;;) {
+        try {
+          history.write(list);
+          return;
+        } catch (err) {
+          const older = list.length - added;
+          if (older <= 0) throw err;
+          list = list.slice(Math.ceil(older / 2));
+        }
+      }
+    },
+    listStudents: async () => delay(students.read()),
+    saveStudent: async (student) => {
+      students.write(upsert(students.read(), student));
+      return delay(clone(student));
+    },
+    listApplications: async (universityId) =>
+      delay(
+        applications
+          .read()
+          .filter((application) => !universityId || application.universityId === universityId)
+      ),
+    saveApplication: async (application) => {
+      applications.write(upsert(applications.read(), application));
+      return delay(clone(application));
+    },
+    removeApplication: async (id) => {
+      const list = applications.read();
+      if (!list.some((application) => application.id === id)) {
+        throw new LocalizedError('errors.applicationNotFound');
+      }
+      applications.write(list.filter((application) => application.id !== id));
+      await delay(undefined);
+    },
+    listQuarantined: async () => {
+      const storage = getStorage();
+      return storage ? readBackups(storage) : [];
+    },
+    acknowledgeQuarantined: async (id) => {
+      const storage = getStorage();
+      if (!storage) return;
+      const backups = readBackups(storage).map((record) =>
+        record.id === id ? { ...record, acknowledged: true } : record
+      );
+      storage.setItem(BACKUP_KEY, JSON.stringify(backups));
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { makeUniversity, seedMemoryStore } from '../../test/fixtures';
+import { getUniversity } from '../universityService';
+import { createMemoryAdapter } from './memoryAdapter';
+
+const university = makeUniversity();
+
+describe('createMemoryAdapter', () => {
+  it('returns a copy of a stored record', async () => {
+    const adapter = createMemoryAdapter([university]);
+    const found = await adapter.get(university.id);
+    expect(found).toEqual(university);
+    expect(found).not.toBe(university);
+  });
+
+  it('returns undefined for a missing id', async () => {
+    const adapter = createMemoryAdapter([university]);
+    await expect(adapter.get('missing')).resolves.toBeUndefined();
+  });
+
+  it('lets the service report a missing id as not found', async () => {
+    seedMemoryStore([university]);
+    await expect(getUniversity('missing')).rejects.toThrow('University not found');
+  });
+});
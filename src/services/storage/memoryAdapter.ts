@@ -0,0 +1,82 @@
+import type { Application, Student } from '../../types/application';
+import type { UniversityHistoryEntry } from '../../types/history';
+import type { University } from '../../types/university';
+import type { UniversityStorageAdapter } from './types';
+import { clone, delay } from './utils';
+import { LocalizedError } from '../i18n';
+
+export const createMemoryAdapter = (seed: University[] = []): UniversityStorageAdapter => {
+  let records: University[] = clone(seed);
+  let history: UniversityHistoryEntry[] = [];
+  let students: Student[] = [];
+  let applications: Application[] = [];
+
+  return {
+    backend: 'memory',
+    list: async () => delay(clone(records)),
+    get: async (id) => {
+      const record = records.find((uni) => uni.id === id);
+      return delay(record && clone(record));
+    },
+    create: async (university) => {
+      records = [...records, clone(university)];
+      return delay(clone(university));
+    },
+    update: async (university) => {
+      const index = records.findIndex((uni) => uni.id === university.id);
+      if (index === -1) {
+        throw new LocalizedError('errors.universityNotFound');
+      }
+      records = records.map((uni, idx) => (idx === index ? clone(university) : uni));
+      return delay(clone(university));
+    },
+    remove: async (id) => {
+      if (!records.some((uni) => uni.id === id)) {
+        throw new LocalizedError('errors.universityNotFound');
+      }
+      records = records.filter((uni) => uni.id !== id);
+      await delay(undefined);
+    },
+    saveMany: async (universities) => {
+      const incoming = new Map(universities.map((uni) => [uni.id, clone(uni)]));
+      records = [
+        ...records.map((uni) => incoming.get(uni.id) ?? uni),
+        ...universities.filter((uni) => !records.some((existing) => existing.id === uni.id))
+      ].map((uni) => clone(uni));
+      return delay(clone(universities));
+    },
+    listHistory: async (universityId) =>
+      delay(
+        clone(history.filter((entry) => !universityId || entry.universityId === universityId))
+      ),
+    appendHistory: async (entries) => {
+      history = [...history, ...clone(entries)];
+    },
+    listStudents: async () => delay(clone(students)),
+    saveStudent: async (student) => {
+      students = [...students.filter((item) => item.id !== student.id), clone(student)];
+      return delay(clone(student));
+    },
+    listApplications: async (universityId) =>
+      delay(
+        clone(
+          applications.filter(
+            (application) => !universityId || application.universityId === universityId
+          )
+        )
+      ),
+    saveApplication: async (application) => {
+      applications = applications.some((item) => item.id === application.id)
+        ? applications.map((item) => (item.id === application.id ? clone(application) : item))
+        : [...applications, clone(application)];
+      return delay(clone(application));
+    },
+    removeApplication: async (id) => {
+      if (!applications.some((application) => application.id === id)) {
+        throw new LocalizedError('errors.applicationNotFound');
+      }
+      applications = applications.filter((application) => application.id !== id);
+      await delay(undefined);
+    }
+  };
+};
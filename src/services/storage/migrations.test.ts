@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { validateUniversity } from '../universityValidation';
+import { migrateRecord } from './migrations';
+
+// A record as the first releases saved it, before any migration ran.
+const legacy = {
+  id: 'uni-legacy',
+  name: 'Legacy University',
+  portalUrl: 'https://legacy.example.edu',
+  location: 'Doha, Qatar',
+  overview: '',
+  fees: { application: 0, averageTuition: { bachelor: 12000 } },
+  programs: {
+    bachelor: [{ name: 'Computer Science', duration: '4 years', delivery: 'On campus' }],
+    masters: [],
+    phd: []
+  },
+  scholarships: {
+    bachelor: [{ name: 'Merit Award', amount: 'Full tuition', eligibility: 'GPA 3.5+' }],
+    masters: [],
+    phd: []
+  },
+  restrictedCountries: ['Iran']
+};
+
+describe('migrateRecord', () => {
+  it('upgrades a legacy record to the current schema', () => {
+    const upgraded = migrateRecord(legacy);
+    expect(validateUniversity(upgraded)).toEqual([]);
+    expect(upgraded.location).toEqual({ country: 'QA', city: 'Doha' });
+    expect(upgraded.restrictedCountries).toEqual(['IR']);
+    expect(upgraded.fees.currency).toBe('USD');
+    expect(upgraded.programs.bachelor[0].id).toBeTruthy();
+    expect(upgraded.scholarships.bachelor[0].id).toBe('bachelor-merit-award');
+  });
+
+  it('sets aside deadlines that are not dates instead of dropping them', () => {
+    const upgraded = migrateRecord({
+      ...legacy,
+      scholarships: {
+        ...legacy.scholarships,
+        masters: [{ name: 'CSC', amount: '', eligibility: 'all', deadline: '2 dec' }],
+        phd: [{ name: 'Presidential', amount: '', eligibility: 'all', deadline: '2026-12-22' }]
+      }
+    });
+    expect(validateUniversity(upgraded)).toEqual([]);
+    expect(upgraded.scholarships.masters[0]).toMatchObject({ deadline: '', deadlineNote: '2 dec' });
+    expect(upgraded.scholarships.phd[0].deadline).toBe('2026-12-22');
+    expect(upgraded.scholarships.phd[0].deadlineNote).toBeUndefined();
+  });
+
+  it('leaves a current record unchanged', () => {
+    const upgraded = migrateRecord(legacy);
+    expect(migrateRecord(upgraded)).toEqual(upgraded);
+  });
+});
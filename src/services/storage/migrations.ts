@@ -0,0 +1,241 @@
+import type { DegreeLevel, Program, Scholarship, University } from '../../types/university';
+import { resolveCountries } from '../countries';
+import { parseFundingText } from '../funding';
+import { parseLocation } from '../locations';
+import { assignProgramIds, assignScholarshipIds } from '../programs';
+import { isIsoDate, isRollingDeadline } from '../universityValidation';
+
+export interface PersistedEnvelope {
+  version: number;
+  savedAt: string;
+  universities: University[];
+}
+
+export interface Migration {
+  /** Schema version produced by this migration. */
+  version: number;
+  description: string;
+  migrate: (universities: unknown[]) => unknown[];
+}
+
+type LegacyRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is LegacyRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const migrateScholarshipFunding = (university: unknown) => {
+  if (!isObject(university) || !isObject(university.scholarships)) return university;
+  const scholarships = Object.fromEntries(
+    Object.entries(university.scholarships).map(([level, list]) => [
+      level,
+      Array.isArray(list)
+        ? list.map((scholarship) => {
+            if (!isObject(scholarship) || 'funding' in scholarship) return scholarship;
+            const { name, amount, ...rest } = scholarship;
+            const text = typeof amount === 'string' ? amount : '';
+            const { funding, needsReview } = parseFundingText(text);
+            return {
+              name,
+              funding,
+              ...(needsReview ? { fundingNote: text, fundingNeedsReview: true } : {}),
+              ...rest
+            };
+          })
+        : list
+    ])
+  );
+  return { ...university, scholarships };
+};
+
+// Fees were always entered and shown as US dollars before they carried a currency.
+const migrateFeeCurrency = (university: unknown) => {
+  if (!isObject(university) || !isObject(university.fees) || 'currency' in university.fees) {
+    return university;
+  }
+  return { ...university, fees: { currency: 'USD', ...university.fees } };
+};
+
+// Names that match no country are set aside for review rather than dropped.
+const migrateRestrictedCountries = (university: unknown) => {
+  if (!isObject(university) || !Array.isArray(university.restrictedCountries)) return university;
+  const entries = university.restrictedCountries.filter(
+    (entry): entry is string => typeof entry === 'string'
+  );
+  const { codes, unmatched } = resolveCountries(entries, 'en');
+  return {
+    ...university,
+    restrictedCountries: codes,
+    ...(unmatched.length > 0 ? { unmatchedRestrictedCountries: unmatched } : {})
+  };
+};
+
+// Like legacy funding text, the original string is kept whenever the split is a guess.
+const migrateLocation = (university: unknown) => {
+  if (!isObject(university) || typeof university.location !== 'string') return university;
+  const text = university.location;
+  const { location, needsReview } = parseLocation(text);
+  return { ...university, location, ...(needsReview ? { locationNote: text } : {}) };
+};
+
+// Programs are only given ids when the lists are well formed; anything else is left for the
+// validator to report.
+const migrateProgramIds = (university: unknown) => {
+  if (!isObject(university) || !isObject(university.programs)) return university;
+  const lists = Object.values(university.programs);
+  if (!lists.every((list) => Array.isArray(list) && list.every(isObject))) return university;
+  return {
+    ...university,
+    programs: assignProgramIds(university.programs as Record<DegreeLevel, Program[]>)
+  };
+};
+
+// Same rule as for programs: only well-formed lists are touched.
+const migrateScholarshipIds = (university: unknown) => {
+  if (!isObject(university) || !isObject(university.scholarships)) return university;
+  const lists = Object.values(university.scholarships);
+  if (!lists.every((list) => Array.isArray(list) && list.every(isObject))) return university;
+  return {
+    ...university,
+    scholarships: assignScholarshipIds(
+      university.scholarships as Record<DegreeLevel, Scholarship[]>
+    )
+  };
+};
+
+// Deadlines typed as free text ("21 jan") have no year to go on, so rather than guessing a
+// date the text is kept beside a blank deadline for an editor to settle.
+const migrateDeadlineText = (university: unknown) => {
+  if (!isObject(university) || !isObject(university.scholarships)) return university;
+  const scholarships = Object.fromEntries(
+    Object.entries(university.scholarships).map(([level, list]) => [
+      level,
+      Array.isArray(list)
+        ? list.map((scholarship) => {
+            if (!isObject(scholarship) || typeof scholarship.deadline !== 'string') {
+              return scholarship;
+            }
+            const text = scholarship.deadline;
+            if (isRollingDeadline(text) || isIsoDate(text.trim())) return scholarship;
+            return { ...scholarship, deadline: '', deadlineNote: text };
+          })
+        : list
+    ])
+  );
+  return { ...university, scholarships };
+};
+
+/**
+ * Ordered upgrades applied on load. Version 0 is the legacy bare `University[]` array that was
+ * written before the envelope existed. Append new entries here whenever the persisted shape of
+ * `University` changes; never edit a migration that has already shipped.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Wrap the legacy bare array in a versioned envelope',
+    migrate: (universities) => universities
+  },
+  {
+    version: 2,
+    description: 'Replace free-text scholarship amounts with structured funding',
+    migrate: (universities) => universities.map(migrateScholarshipFunding)
+  },
+  {
+    version: 3,
+    description: 'Record the currency university fees are charged in',
+    migrate: (universities) => universities.map(migrateFeeCurrency)
+  },
+  {
+    version: 4,
+    description: 'Store restricted countries as ISO 3166 codes',
+    migrate: (universities) => universities.map(migrateRestrictedCountries)
+  },
+  {
+    version: 5,
+    description: 'Split location into country, region and city',
+    migrate: (universities) => universities.map(migrateLocation)
+  },
+  {
+    version: 6,
+    description: 'Give every program a stable id',
+    migrate: (universities) => universities.map(migrateProgramIds)
+  },
+  {
+    version: 7,
+    description: 'Give every scholarship a stable id',
+    migrate: (universities) => universities.map(migrateScholarshipIds)
+  },
+  {
+    version: 8,
+    description: 'Set aside scholarship deadlines that are not dates for review',
+    migrate: (universities) => universities.map(migrateDeadlineText)
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export const createEnvelope = (universities: University[]): PersistedEnvelope => ({
+  version: CURRENT_SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  universities
+});
+
+/**
+ * Upgrades a single record kept outside the envelope, such as a change-history snapshot, from
+ * the schema it was saved under. Every migration leaves already-upgraded data alone, so records
+ * of unknown age are run through all of them.
+ */
+export const migrateRecord = (record: unknown, fromVersion = 0): University => {
+  let current = record;
+  for (const migration of migrations.filter((entry) => entry.version > fromVersion)) {
+    current = migration.migrate([current])[0];
+  }
+  return current as University;
+};
+
+const isEnvelope = (value: unknown): value is { version: number; universities: unknown } =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as { version?: unknown }).version === 'number';
+
+/**
+ * Upgrades whatever was persisted to the current schema. Throws when the payload is not a
+ * recognised shape or a migration fails, so the caller can quarantine it.
+ */
+export const migratePersisted = (
+  payload: unknown
+): { universities: University[]; migratedFrom: number } => {
+  let version: number;
+  let universities: unknown;
+  if (Array.isArray(payload)) {
+    version = 0;
+    universities = payload;
+  } else if (isEnvelope(payload)) {
+    version = payload.version;
+    universities = payload.universities;
+  } else {
+    throw new Error('Stored data is not a recognised university payload');
+  }
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored data uses schema v${version}, newer than supported v${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+  if (!Array.isArray(universities)) {
+    throw new Error(`Stored data for schema v${version} has no university list`);
+  }
+
+  let current: unknown[] = universities;
+  for (const migration of migrations.filter((entry) => entry.version > version)) {
+    try {
+      current = migration.migrate(current);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new Error(`Migration to schema v${migration.version} failed: ${reason}`);
+    }
+  }
+
+  return { universities: current as University[], migratedFrom: version };
+};
@@ -0,0 +1,44 @@
+import type { Application, Student } from '../../types/application';
+import type { UniversityHistoryEntry } from '../../types/history';
+import type { University } from '../../types/university';
+
+export type StorageBackend = 'local' | 'memory' | 'http';
+
+export interface QuarantineRecord {
+  id: string;
+  quarantinedAt: string;
+  reason: string;
+  raw: string;
+  acknowledged: boolean;
+}
+
+export interface UniversityStorageAdapter {
+  readonly backend: StorageBackend;
+  list: () => Promise<University[]>;
+  get: (id: string) => Promise<University | undefined>;
+  create: (university: University) => Promise<University>;
+  update: (university: University) => Promise<University>;
+  remove: (id: string) => Promise<void>;
+  /** Creates or replaces several records in one atomic write, when the backend supports it. */
+  saveMany?: (universities: University[]) => Promise<University[]>;
+  /**
+   * Append-only change log, oldest first; entries are never edited. Each call appends a batch
+   * in one write. The browser backend keeps only the newest entries (see `HISTORY_LIMIT`).
+   */
+  listHistory: (universityId?: string) => Promise<UniversityHistoryEntry[]>;
+  appendHistory: (entries: UniversityHistoryEntry[]) => Promise<void>;
+  /** Students and their applications for the pipeline tracker. Saves create or replace by id. */
+  listStudents: () => Promise<Student[]>;
+  saveStudent: (student: Student) => Promise<Student>;
+  listApplications: (universityId?: string) => Promise<Application[]>;
+  saveApplication: (application: Application) => Promise<Application>;
+  removeApplication: (id: string) => Promise<void>;
+  /** Persisted payloads that could not be loaded and were set aside instead of deleted. */
+  listQuarantined?: () => Promise<QuarantineRecord[]>;
+  acknowledgeQuarantined?: (id: string) => Promise<void>;
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  apiBaseUrl?: string;
+}
@@ -0,0 +1,4 @@
+export const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const delay = async <T>(value: T, ms = 150) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { UniversityChange } from './universityChanges';
+import {
+  getUniversityDataVersion,
+  publishUniversityChange,
+  subscribeToUniversityChanges
+} from './universityChanges';
+
+describe('university change notices', () => {
+  it('tells this tab about its own saves and moves the data version', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToUniversityChanges(listener);
+    const version = getUniversityDataVersion();
+
+    publishUniversityChange(['uni-a', 'uni-b'], 'Editor');
+    publishUniversityChange([], 'Editor');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      ids: ['uni-a', 'uni-b'],
+      actor: 'Editor',
+      source: 'local'
+    });
+    expect(getUniversityDataVersion()).toBe(version + 1);
+
+    unsubscribe();
+    publishUniversityChange(['uni-a'], 'Editor');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('hears about saves made in another tab', async () => {
+    const version = getUniversityDataVersion();
+    const received = new Promise<UniversityChange>((resolve) => {
+      const unsubscribe = subscribeToUniversityChanges((change) => {
+        unsubscribe();
+        resolve(change);
+      });
+    });
+    const otherTab = new BroadcastChannel('manara_universities');
+    otherTab.postMessage({ ids: ['uni-c'], actor: 'Admin', at: '2026-01-01T00:00:00.000Z' });
+
+    expect(await received).toEqual({
+      ids: ['uni-c'],
+      actor: 'Admin',
+      at: '2026-01-01T00:00:00.000Z',
+      source: 'remote'
+    });
+    expect(getUniversityDataVersion()).toBe(version + 1);
+    otherTab.close();
+  });
+});
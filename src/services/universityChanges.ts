@@ -0,0 +1,57 @@
+const CHANNEL_NAME = 'manara_universities';
+
+export interface UniversityChange {
+  /** Records that were created, edited, trashed, restored or purged. */
+  ids: string[];
+  /** `local` for changes made in this tab, `remote` for ones from another tab or window. */
+  source: 'local' | 'remote';
+  /** Who made the change, as recorded in the change history. */
+  actor: string;
+  at: string;
+}
+
+type ChangeMessage = Omit<UniversityChange, 'source'>;
+
+const listeners = new Set<(change: UniversityChange) => void>();
+let channel: BroadcastChannel | null | undefined;
+
+// Counts every change seen, local or remote; caches built from the records compare it.
+let version = 0;
+
+const notify = (change: UniversityChange) => {
+  version += 1;
+  listeners.forEach((listener) => listener(change));
+};
+
+// Opened on first use. Browsers without BroadcastChannel still see their own tab's changes.
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+    channel?.addEventListener('message', (event: MessageEvent<ChangeMessage>) =>
+      notify({ ...event.data, source: 'remote' })
+    );
+  }
+  return channel;
+};
+
+/** Tells this tab's subscribers, and every other tab of the app in this browser, about a save. */
+export const publishUniversityChange = (ids: string[], actor: string) => {
+  if (ids.length === 0) return;
+  const message: ChangeMessage = { ids, actor, at: new Date().toISOString() };
+  notify({ ...message, source: 'local' });
+  getChannel()?.postMessage(message);
+};
+
+/** Moves on every save this tab makes or hears about from another tab. */
+export const getUniversityDataVersion = () => {
+  getChannel();
+  return version;
+};
+
+export const subscribeToUniversityChanges = (listener: (change: UniversityChange) => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
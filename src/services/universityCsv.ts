@@ -0,0 +1,356 @@
+import { degreeLevels } from '../types/university';
+import type {
+  DegreeLevel,
+  FeeKind,
+  Fees,
+  Program,
+  Scholarship,
+  University,
+  UniversityLocation
+} from '../types/university';
+import { parseCsv } from './csv';
+import type { Message } from './i18n';
+import { fundingToText, parseFundingText } from './funding';
+import { formatCampus, parseCampus, parseLocation } from './locations';
+import { formatTestRequirement, parseTestRequirements } from './programs';
+import { isIsoDate, isRollingDeadline } from './universityValidation';
+
+/** Column layout shared by CSV import and export: one row per program or scholarship. */
+export const CSV_COLUMNS = [
+  'university_id',
+  'university_name',
+  'portal_url',
+  'country',
+  'region',
+  'city',
+  'campuses',
+  'overview',
+  'overview_ar',
+  'fee_currency',
+  'application_fee',
+  'tuition_bachelor',
+  'tuition_masters',
+  'tuition_phd',
+  'restricted_countries',
+  'degree_level',
+  'type',
+  'program_id',
+  'scholarship_id',
+  'name',
+  'name_ar',
+  'duration',
+  'delivery',
+  'language',
+  'intake_months',
+  'program_tuition',
+  'required_tests',
+  'minimum_gpa',
+  'required_documents',
+  'amount',
+  'eligibility',
+  'deadline'
+] as const;
+
+export type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+export interface CsvIssue {
+  row: number;
+  message: Message;
+}
+
+export interface CsvUniversityRecord {
+  /** 1-based data row numbers (header is row 1) that produced this record. */
+  rows: number[];
+  university: Partial<University>;
+  /** Degree levels that had at least one program or scholarship row. */
+  programLevels: DegreeLevel[];
+  scholarshipLevels: DegreeLevel[];
+}
+
+const emptyLevels = <T>(): Record<DegreeLevel, T[]> => ({ bachelor: [], masters: [], phd: [] });
+
+const parseAmount = (value: string): number | undefined | null => {
+  const cleaned = value.replace(/[$£€,\s]/g, '');
+  if (cleaned === '') return undefined;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/** A fee cell: a plain amount, or one prefixed with its own currency such as "USD 75". */
+const parseFee = (value: string): { amount?: number | null; currency?: string } => {
+  const match = /^([A-Za-z]{3})\s*(.+)$/.exec(value.trim());
+  return match
+    ? { amount: parseAmount(match[2]) ?? null, currency: match[1].toUpperCase() }
+    : { amount: parseAmount(value) };
+};
+
+/** Writes a fee the way `parseFee` reads it; only fees in their own currency get a prefix. */
+const feeCell = (uni: University, kind: FeeKind) => {
+  const amount = kind === 'application' ? uni.fees?.application : uni.fees?.averageTuition?.[kind];
+  const currency = uni.fees?.currencies?.[kind];
+  if (amount === undefined) return '';
+  return currency && currency !== uni.fees.currency ? `${currency} ${amount}` : String(amount);
+};
+
+const notANumber = (column: string): Message => ({ key: 'csv.notANumber', params: { column } });
+
+const splitList = (value: string) =>
+  value
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const groupKey = (id: string, name: string) =>
+  id ? `id:${id}` : `name:${name.trim().toLowerCase()}`;
+
+/**
+ * Groups CSV rows into partial university records. University-level columns take the first
+ * non-empty value seen for that university; program and scholarship rows are collected per level.
+ */
+export const parseUniversityCsv = (
+  text: string
+): { records: CsvUniversityRecord[]; issues: CsvIssue[] } => {
+  const [header = [], ...body] = parseCsv(text);
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const issues: CsvIssue[] = [];
+
+  const missing = (['university_name'] as CsvColumn[]).filter((col) => !columns.includes(col));
+  if (missing.length > 0) {
+    const message: Message = { key: 'csv.missingColumn', params: { columns: missing.join(', ') } };
+    return { records: [], issues: [{ row: 1, message }] };
+  }
+
+  const grouped = new Map<string, CsvUniversityRecord>();
+  body.forEach((cells, index) => {
+    const rowNumber = index + 2;
+    // `location` is the single free-text column files had before it was split up.
+    const cell = (column: CsvColumn | 'location') => {
+      const position = columns.indexOf(column);
+      return position === -1 ? '' : (cells[position] ?? '').trim();
+    };
+
+    const id = cell('university_id');
+    const name = cell('university_name');
+    if (!id && !name) {
+      issues.push({ row: rowNumber, message: { key: 'csv.needsName' } });
+      return;
+    }
+
+    const key = groupKey(id, name);
+    const record = grouped.get(key) ?? {
+      rows: [],
+      university: {
+        ...(id ? { id } : {}),
+        programs: emptyLevels<Program>(),
+        scholarships: emptyLevels<Scholarship>()
+      },
+      programLevels: [],
+      scholarshipLevels: []
+    };
+    grouped.set(key, record);
+    record.rows.push(rowNumber);
+    const uni = record.university;
+
+    const setText = (field: 'name' | 'portalUrl' | 'overview', value: string) => {
+      if (value && !uni[field]) uni[field] = value;
+    };
+    setText('name', name);
+    setText('portalUrl', cell('portal_url'));
+    setText('overview', cell('overview'));
+    if (!uni.location) {
+      // Country may be a code or a name here; the import resolves it.
+      const location: UniversityLocation = { country: cell('country') };
+      if (cell('region')) location.region = cell('region');
+      if (cell('city')) location.city = cell('city');
+      const campuses = splitList(cell('campuses'));
+      if (campuses.length > 0) location.campuses = campuses.map(parseCampus);
+      const legacy = cell('location');
+      if (location.country || location.region || location.city || location.campuses) {
+        uni.location = location;
+      } else if (legacy) {
+        const parsed = parseLocation(legacy);
+        uni.location = parsed.location;
+        if (parsed.needsReview) uni.locationNote = legacy;
+      }
+    }
+    const overviewAr = cell('overview_ar');
+    if (overviewAr && !uni.overviewTranslations?.ar) {
+      uni.overviewTranslations = { ...uni.overviewTranslations, ar: overviewAr };
+    }
+
+    // A blank fee_currency stays empty so an import keeps the currency already on record.
+    const setFees = (changes: Partial<Fees>) => {
+      uni.fees = { currency: '', application: 0, averageTuition: {}, ...uni.fees, ...changes };
+    };
+    const setFeeCurrency = (kind: FeeKind, currency: string | undefined) => {
+      if (currency) setFees({ currencies: { ...uni.fees?.currencies, [kind]: currency } });
+    };
+    const applicationFee = parseFee(cell('application_fee'));
+    if (applicationFee.amount === null) {
+      issues.push({ row: rowNumber, message: notANumber('application_fee') });
+    } else if (applicationFee.amount !== undefined && uni.fees?.application === undefined) {
+      setFees({ application: applicationFee.amount });
+      setFeeCurrency('application', applicationFee.currency);
+    }
+    degreeLevels.forEach((level) => {
+      const tuition = parseFee(cell(`tuition_${level}` as CsvColumn));
+      if (tuition.amount === null) {
+        issues.push({ row: rowNumber, message: notANumber(`tuition_${level}`) });
+      } else if (
+        tuition.amount !== undefined &&
+        uni.fees?.averageTuition?.[level] === undefined
+      ) {
+        setFees({ averageTuition: { ...uni.fees?.averageTuition, [level]: tuition.amount } });
+        setFeeCurrency(level, tuition.currency);
+      }
+    });
+    const currency = cell('fee_currency').toUpperCase();
+    if (currency && uni.fees && !uni.fees.currency) setFees({ currency });
+
+    const restricted = cell('restricted_countries');
+    if (restricted && !uni.restrictedCountries) {
+      uni.restrictedCountries = restricted.split(';').map((country) => country.trim());
+    }
+
+    const type = cell('type').toLowerCase();
+    if (!type) return;
+    const nameAr = cell('name_ar');
+    const nameTranslations = nameAr ? { nameTranslations: { ar: nameAr } } : {};
+    const level = cell('degree_level').toLowerCase() as DegreeLevel;
+    if (!degreeLevels.includes(level)) {
+      issues.push({
+        row: rowNumber,
+        message: { key: 'csv.degreeLevel', params: { levels: degreeLevels.join(', ') } }
+      });
+      return;
+    }
+    if (type === 'program') {
+      if (!record.programLevels.includes(level)) record.programLevels.push(level);
+      const program: Program = {
+        // Left blank, the import keeps the id of a program with the same name or makes one.
+        id: cell('program_id'),
+        name: cell('name'),
+        ...nameTranslations,
+        duration: cell('duration'),
+        delivery: cell('delivery')
+      };
+      if (cell('language')) program.language = cell('language');
+      const months = splitList(cell('intake_months')).map(Number);
+      if (months.some((month) => !Number.isInteger(month) || month < 1 || month > 12)) {
+        issues.push({
+          row: rowNumber,
+          message: { key: 'csv.intakeMonths' }
+        });
+      } else if (months.length > 0) {
+        program.intakeMonths = months;
+      }
+      const tuition = parseAmount(cell('program_tuition'));
+      if (tuition === null) {
+        issues.push({ row: rowNumber, message: notANumber('program_tuition') });
+      } else if (tuition !== undefined) {
+        program.tuition = tuition;
+      }
+      const tests = parseTestRequirements(cell('required_tests'));
+      if (tests.invalid.length > 0) {
+        issues.push({
+          row: rowNumber,
+          message: { key: 'csv.requiredTests', params: { entries: tests.invalid.join(', ') } }
+        });
+      } else if (tests.requirements.length > 0) {
+        program.requiredTests = tests.requirements;
+      }
+      const gpa = parseAmount(cell('minimum_gpa'));
+      if (gpa === null) {
+        issues.push({ row: rowNumber, message: notANumber('minimum_gpa') });
+      } else if (gpa !== undefined) {
+        program.minimumGpa = gpa;
+      }
+      const documents = splitList(cell('required_documents'));
+      if (documents.length > 0) program.requiredDocuments = documents;
+      uni.programs![level].push(program);
+    } else if (type === 'scholarship') {
+      if (!record.scholarshipLevels.includes(level)) record.scholarshipLevels.push(level);
+      // Amounts and deadlines that don't parse cleanly are imported for review, like migrated data.
+      const amount = cell('amount');
+      const { funding, needsReview } = parseFundingText(amount);
+      const deadline = cell('deadline');
+      const datedDeadline = isRollingDeadline(deadline) || isIsoDate(deadline);
+      uni.scholarships![level].push({
+        id: cell('scholarship_id'),
+        name: cell('name'),
+        ...nameTranslations,
+        funding,
+        ...(needsReview ? { fundingNote: amount, fundingNeedsReview: true } : {}),
+        eligibility: cell('eligibility'),
+        deadline: datedDeadline ? deadline : '',
+        ...(datedDeadline ? {} : { deadlineNote: deadline })
+      });
+    } else {
+      issues.push({ row: rowNumber, message: { key: 'csv.type' } });
+    }
+  });
+
+  return { records: Array.from(grouped.values()), issues };
+};
+
+/** Flattens universities into CSV rows that `parseUniversityCsv` reads back unchanged. */
+export const universitiesToCsvRows = (universities: University[]): string[][] => {
+  const rows: string[][] = [Array.from(CSV_COLUMNS)];
+  universities.forEach((uni) => {
+    const base: Partial<Record<CsvColumn, string>> = {
+      university_id: uni.id,
+      university_name: uni.name,
+      portal_url: uni.portalUrl,
+      country: uni.location?.country ?? '',
+      region: uni.location?.region ?? '',
+      city: uni.location?.city ?? '',
+      campuses: (uni.location?.campuses ?? []).map(formatCampus).join('; '),
+      overview: uni.overview ?? '',
+      overview_ar: uni.overviewTranslations?.ar ?? '',
+      fee_currency: uni.fees?.currency ?? '',
+      application_fee: feeCell(uni, 'application'),
+      tuition_bachelor: feeCell(uni, 'bachelor'),
+      tuition_masters: feeCell(uni, 'masters'),
+      tuition_phd: feeCell(uni, 'phd'),
+      restricted_countries: (uni.restrictedCountries ?? []).join('; ')
+    };
+    const toRow = (values: Partial<Record<CsvColumn, string>>) =>
+      CSV_COLUMNS.map((column) => values[column] ?? '');
+
+    const detailRows = degreeLevels.flatMap((level) => [
+      ...(uni.programs?.[level] ?? []).map((program) =>
+        toRow({
+          ...base,
+          degree_level: level,
+          type: 'program',
+          program_id: program.id,
+          name: program.name,
+          name_ar: program.nameTranslations?.ar ?? '',
+          duration: program.duration,
+          delivery: program.delivery,
+          language: program.language ?? '',
+          intake_months: (program.intakeMonths ?? []).join('; '),
+          program_tuition: String(program.tuition ?? ''),
+          required_tests: (program.requiredTests ?? []).map(formatTestRequirement).join('; '),
+          minimum_gpa: String(program.minimumGpa ?? ''),
+          required_documents: (program.requiredDocuments ?? []).join('; ')
+        })
+      ),
+      ...(uni.scholarships?.[level] ?? []).map((scholarship) =>
+        toRow({
+          ...base,
+          degree_level: level,
+          type: 'scholarship',
+          scholarship_id: scholarship.id,
+          name: scholarship.name,
+          name_ar: scholarship.nameTranslations?.ar ?? '',
+          amount: fundingToText(scholarship.funding) || scholarship.fundingNote || '',
+          eligibility: scholarship.eligibility,
+          deadline: scholarship.deadline || scholarship.deadlineNote || ''
+        })
+      )
+    ]);
+    rows.push(...(detailRows.length > 0 ? detailRows : [toRow(base)]));
+  });
+  return rows;
+};
@@ -0,0 +1,98 @@
+import { degreeLevels, feeKinds } from '../types/university';
+import { locales } from '../types/i18n';
+import type { HistoryChange } from '../types/history';
+import type { University } from '../types/university';
+import { t } from './i18n';
+
+/** A changed value; `field` is a dotted path such as `fees.averageTuition.masters`. */
+export type FieldChange = HistoryChange;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const scalarFields = ['name', 'portalUrl', 'overview', 'deletedAt'] as const;
+
+/**
+ * Field-level comparison of two versions of a record. Lists (programs, scholarships, restricted
+ * countries) are compared per degree level as whole values so the change reads as before/after.
+ */
+export const diffUniversities = (
+  before: Partial<University> | undefined,
+  after: Partial<University> | undefined
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const push = (field: string, a: unknown, b: unknown) => {
+    if (!same(a, b)) changes.push({ field, before: a, after: b });
+  };
+
+  scalarFields.forEach((field) => push(field, before?.[field], after?.[field]));
+  push('location.country', before?.location?.country, after?.location?.country);
+  push('location.region', before?.location?.region, after?.location?.region);
+  push('location.city', before?.location?.city, after?.location?.city);
+  push(
+    'location.campuses',
+    before?.location?.campuses ?? [],
+    after?.location?.campuses ?? []
+  );
+  push('locationNote', before?.locationNote, after?.locationNote);
+  locales
+    .filter((locale) => locale !== 'en')
+    .forEach((locale) =>
+      push(
+        `overviewTranslations.${locale}`,
+        before?.overviewTranslations?.[locale],
+        after?.overviewTranslations?.[locale]
+      )
+    );
+  push('fees.currency', before?.fees?.currency, after?.fees?.currency);
+  feeKinds.forEach((kind) =>
+    push(
+      `fees.currencies.${kind}`,
+      before?.fees?.currencies?.[kind],
+      after?.fees?.currencies?.[kind]
+    )
+  );
+  push('fees.application', before?.fees?.application, after?.fees?.application);
+  degreeLevels.forEach((level) =>
+    push(
+      `fees.averageTuition.${level}`,
+      before?.fees?.averageTuition?.[level],
+      after?.fees?.averageTuition?.[level]
+    )
+  );
+  degreeLevels.forEach((level) =>
+    push(`programs.${level}`, before?.programs?.[level] ?? [], after?.programs?.[level] ?? [])
+  );
+  degreeLevels.forEach((level) =>
+    push(
+      `scholarships.${level}`,
+      before?.scholarships?.[level] ?? [],
+      after?.scholarships?.[level] ?? []
+    )
+  );
+  push('restrictedCountries', before?.restrictedCountries ?? [], after?.restrictedCountries ?? []);
+  push(
+    'unmatchedRestrictedCountries',
+    before?.unmatchedRestrictedCountries ?? [],
+    after?.unmatchedRestrictedCountries ?? []
+  );
+  return changes;
+};
+
+/** Short human-readable rendering of a diff value for tables and history panels. */
+export const describeValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return t('common.none').toLowerCase();
+    return value
+      .map((item) =>
+        typeof item === 'object' && item !== null && 'name' in item
+          ? String((item as { name: unknown }).name)
+          : typeof item === 'object' && item !== null
+            ? JSON.stringify(item)
+            : String(item)
+      )
+      .join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeUniversity, signInAs, stubLocalStorage } from '../test/fixtures';
+import { getCurrentUser } from './authService';
+import { discardDraft, getDraft, saveDraft } from './universityDrafts';
+
+const university = makeUniversity({ id: 'uni-draft', name: 'Draft University' });
+
+describe('university drafts', () => {
+  let items: Map<string, string>;
+
+  // Stores a draft as an earlier release, or a damaged browser profile, may have left it.
+  const storeRaw = (recordId: string, draft: unknown) =>
+    items.set(
+      'manara_admin_drafts',
+      JSON.stringify({ [getCurrentUser()!.id]: { [recordId]: draft } })
+    );
+
+  beforeEach(async () => {
+    items = stubLocalStorage();
+    await signInAs('editor');
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps each user their own draft until it is discarded', async () => {
+    const form = { ...university, overview: 'Work in progress' };
+    saveDraft(university.id, form, university);
+    expect(getDraft(university.id)).toMatchObject({ form, base: university });
+
+    await signInAs('admin');
+    expect(getDraft(university.id)).toBeNull();
+
+    await signInAs('editor');
+    discardDraft(university.id);
+    expect(getDraft(university.id)).toBeNull();
+  });
+
+  it('upgrades drafts saved under an older schema', () => {
+    const { id: _id, ...form } = university;
+    storeRaw('new', {
+      recordId: 'new',
+      form: { ...form, location: 'Doha, Qatar' },
+      base: null,
+      savedAt: '2026-01-01T00:00:00.000Z'
+    });
+    expect(getDraft('new')?.form.location).toEqual({ country: 'QA', city: 'Doha' });
+  });
+
+  it('ignores drafts the form could not show', () => {
+    storeRaw(university.id, {
+      recordId: university.id,
+      form: { name: 'Half a record' },
+      base: university,
+      savedAt: '2026-01-01T00:00:00.000Z'
+    });
+    expect(getDraft(university.id)).toBeNull();
+  });
+
+  it('treats unreadable storage as having no drafts', () => {
+    items.set('manara_admin_drafts', '{not json');
+    expect(getDraft(university.id)).toBeNull();
+    saveDraft(university.id, university, null);
+    expect(getDraft(university.id)?.form).toEqual(university);
+  });
+});
@@ -0,0 +1,108 @@
+import { degreeLevels } from '../types/university';
+import type { University } from '../types/university';
+import { getCurrentUser } from './authService';
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from './storage';
+
+/** The admin form's working copy; `id` is unset until a new university is first saved. */
+export type EditableUniversity = Omit<University, 'id'> & { id?: string };
+
+export interface UniversityDraft {
+  /** Record the draft belongs to, or "new" for a university that has not been saved yet. */
+  recordId: string;
+  form: EditableUniversity;
+  /** The saved record when drafting started, to spot edits made elsewhere since. */
+  base: University | null;
+  savedAt: string;
+  /** Storage schema the form and base were saved under; unset for drafts older than this field. */
+  schemaVersion?: number;
+}
+
+const DRAFTS_KEY = 'manara_admin_drafts';
+
+// Like saved views, drafts are kept per signed-in user and then per record.
+type DraftStore = Record<string, Record<string, UniversityDraft>>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readDrafts = (): DraftStore => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(DRAFTS_KEY) ?? '{}');
+    return isRecord(parsed) ? (parsed as DraftStore) : {};
+  } catch {
+    return {};
+  }
+};
+
+const hasDegreeLists = (value: unknown) =>
+  isRecord(value) && degreeLevels.every((level) => Array.isArray(value[level]));
+
+// Only what the form needs to render; field values are checked when the draft is saved.
+const isEditable = (value: unknown): value is EditableUniversity =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  typeof value.portalUrl === 'string' &&
+  typeof value.overview === 'string' &&
+  isRecord(value.location) &&
+  typeof value.location.country === 'string' &&
+  isRecord(value.fees) &&
+  isRecord(value.fees.averageTuition) &&
+  hasDegreeLists(value.programs) &&
+  hasDegreeLists(value.scholarships) &&
+  Array.isArray(value.restrictedCountries);
+
+const ownerKey = () => getCurrentUser()?.id ?? 'anonymous';
+
+const writeDrafts = (store: DraftStore) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(DRAFTS_KEY, JSON.stringify(store));
+};
+
+/**
+ * The signed-in user's draft for a record, upgraded like stored records from the schema it was
+ * saved under. Drafts the form could not show are ignored.
+ */
+export const getDraft = (recordId: string): UniversityDraft | null => {
+  const draft: unknown = readDrafts()[ownerKey()]?.[recordId];
+  if (!isRecord(draft) || typeof draft.savedAt !== 'string') return null;
+  const fromVersion = typeof draft.schemaVersion === 'number' ? draft.schemaVersion : 0;
+  const form = isRecord(draft.form) ? migrateRecord(draft.form, fromVersion) : null;
+  if (!isEditable(form)) return null;
+  const base = isRecord(draft.base) ? migrateRecord(draft.base, fromVersion) : null;
+  return {
+    recordId,
+    form,
+    // A base that no longer reads as a record only loses the check for edits made elsewhere.
+    base: isEditable(base) && typeof base.id === 'string' ? base : null,
+    savedAt: draft.savedAt,
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+};
+
+export const saveDraft = (
+  recordId: string,
+  form: EditableUniversity,
+  base: University | null
+): UniversityDraft => {
+  const store = readDrafts();
+  const owner = ownerKey();
+  const draft: UniversityDraft = {
+    recordId,
+    form,
+    base,
+    savedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+  writeDrafts({ ...store, [owner]: { ...store[owner], [recordId]: draft } });
+  return draft;
+};
+
+export const discardDraft = (recordId: string) => {
+  const store = readDrafts();
+  const owner = ownerKey();
+  if (!store[owner]?.[recordId]) return;
+  const drafts = { ...store[owner] };
+  delete drafts[recordId];
+  writeDrafts({ ...store, [owner]: drafts });
+};
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Program } from '../types/university';
+import { makeUniversity, seedMemoryStore, signInAs } from '../test/fixtures';
+import { createMemoryAdapter } from './storage';
+import { combineUniversities } from './universityMerge';
+import {
+  configureStorage,
+  getUniversity,
+  getUniversityHistory,
+  mergeUniversities
+} from './universityService';
+
+const program = (name: string, overrides: Partial<Program> = {}): Program => ({
+  id: '',
+  name,
+  duration: '2 years',
+  delivery: 'On campus',
+  ...overrides
+});
+
+const keep = makeUniversity({
+  id: 'uni-keep',
+  name: 'Doha University',
+  overview: 'Kept overview',
+  fees: { currency: 'USD', application: 50, averageTuition: { masters: 20_000 } },
+  programs: { bachelor: [], masters: [program('Data Science', { id: 'ds' })], phd: [] },
+  restrictedCountries: ['IR']
+});
+
+const duplicate = makeUniversity({
+  id: 'uni-duplicate',
+  name: 'Doha Univ.',
+  overview: '',
+  fees: { currency: 'USD', application: 75, averageTuition: { bachelor: 9_000 } },
+  programs: {
+    bachelor: [program('Law')],
+    masters: [program('data science', { id: 'other', duration: '18 months' })],
+    phd: []
+  },
+  restrictedCountries: ['IR', 'KP']
+});
+
+describe('combineUniversities', () => {
+  it('combines both records and lists each disagreement as a conflict', () => {
+    const { university, conflicts } = combineUniversities(keep, duplicate);
+    expect(conflicts.map((conflict) => conflict.field)).toEqual([
+      'name',
+      'fees.application',
+      'programs.masters.data science'
+    ]);
+    expect(university).toMatchObject({
+      name: 'Doha University',
+      overview: 'Kept overview',
+      fees: { application: 50, averageTuition: { bachelor: 9_000, masters: 20_000 } },
+      restrictedCountries: ['IR', 'KP']
+    });
+    expect(university.programs.bachelor.map((entry) => entry.name)).toEqual(['Law']);
+    expect(university.programs.masters).toEqual([program('Data Science', { id: 'ds' })]);
+  });
+
+  it('takes the duplicate side where chosen, keeping the kept entry ids', () => {
+    const { university } = combineUniversities(keep, duplicate, {
+      name: 'duplicate',
+      'programs.masters.data science': 'duplicate'
+    });
+    expect(university.name).toBe('Doha Univ.');
+    expect(university.programs.masters).toEqual([
+      program('data science', { id: 'ds', duration: '18 months' })
+    ]);
+  });
+
+  it('resolves fees charged in different currencies as one block', () => {
+    const euros = { ...duplicate, fees: { ...duplicate.fees, currency: 'EUR' } };
+    const { university, conflicts } = combineUniversities(keep, euros, { fees: 'duplicate' });
+    expect(conflicts.filter((conflict) => conflict.field.startsWith('fees'))).toHaveLength(1);
+    expect(university.fees).toEqual(euros.fees);
+  });
+});
+
+describe('mergeUniversities', () => {
+  beforeEach(async () => {
+    seedMemoryStore([keep, duplicate]);
+    await signInAs('admin');
+  });
+
+  it('saves the merged record, trashes the duplicate and logs both', async () => {
+    const merged = await mergeUniversities(keep.id, duplicate.id, { name: 'duplicate' });
+    expect(merged.name).toBe('Doha Univ.');
+    expect((await getUniversity(keep.id)).programs.bachelor.map((entry) => entry.name)).toEqual([
+      'Law'
+    ]);
+    expect((await getUniversity(duplicate.id, { includeDeleted: true })).deletedAt).toBeDefined();
+    const history = await getUniversityHistory();
+    expect(history.map((entry) => [entry.universityId, entry.action]).sort()).toEqual([
+      ['uni-duplicate', 'delete'],
+      ['uni-keep', 'update']
+    ]);
+  });
+
+  it('puts the kept record back when the duplicate cannot be trashed', async () => {
+    const adapter = createMemoryAdapter([keep, duplicate]);
+    configureStorage({
+      ...adapter,
+      saveMany: undefined,
+      update: async (university) => {
+        if (university.id === duplicate.id) throw new Error('Write failed');
+        return adapter.update(university);
+      }
+    });
+    await expect(mergeUniversities(keep.id, duplicate.id)).rejects.toThrow('Write failed');
+    expect(await adapter.get(keep.id)).toEqual(keep);
+    expect((await adapter.get(duplicate.id))?.deletedAt).toBeUndefined();
+    expect(await adapter.listHistory()).toEqual([]);
+  });
+
+  it('undoes both writes when the history cannot be saved', async () => {
+    const adapter = createMemoryAdapter([keep, duplicate]);
+    configureStorage({
+      ...adapter,
+      appendHistory: async () => {
+        throw new Error('Quota exceeded');
+      }
+    });
+    await expect(mergeUniversities(keep.id, duplicate.id)).rejects.toThrow('Quota exceeded');
+    expect(await adapter.get(keep.id)).toEqual(keep);
+    expect((await adapter.get(duplicate.id))?.deletedAt).toBeUndefined();
+  });
+
+  it('refuses to merge a record into itself', async () => {
+    await expect(mergeUniversities(keep.id, keep.id)).rejects.toThrow(
+      'Choose two different universities to merge'
+    );
+  });
+});
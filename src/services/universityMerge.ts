@@ -0,0 +1,224 @@
+import { degreeLevels, feeKinds } from '../types/university';
+import { locales } from '../types/i18n';
+import type { DegreeLevel, FeeKind, Fees, University } from '../types/university';
+import { normalizeName } from './duplicateDetection';
+import { localeNames, t } from './i18n';
+import type { MessageKey } from './i18n';
+
+/** Which record a conflicting value is taken from: the one kept or the duplicate. */
+export type MergeSide = 'keep' | 'duplicate';
+
+export interface MergeConflict {
+  /** Dotted path such as `fees.application` or `programs.masters.data science`. */
+  field: string;
+  label: string;
+  keep: unknown;
+  duplicate: unknown;
+}
+
+/** Chosen side per conflict `field`; unresolved conflicts keep the kept record's value. */
+export type MergeChoices = Record<string, MergeSide>;
+
+export interface MergeResult {
+  university: University;
+  conflicts: MergeConflict[];
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+type Named = { name: string; id?: string };
+
+// Program and scholarship ids differ between records even for the same entry, so they are left
+// out.
+const withoutId = <T extends Named>(entry: T) => ({ ...entry, id: undefined });
+
+/**
+ * Combines one degree level's programs or scholarships: everything from both records, matched by
+ * normalised name. Entries listed by both with different details are conflicts.
+ */
+const combineList = <T extends Named>(
+  kind: 'programs' | 'scholarships',
+  level: DegreeLevel,
+  keep: T[],
+  duplicate: T[],
+  choose: (conflict: MergeConflict) => MergeSide
+): T[] => {
+  const combined = [...keep];
+  duplicate.forEach((entry) => {
+    const key = normalizeName(entry.name);
+    const index = combined.findIndex((existing) => normalizeName(existing.name) === key);
+    if (index === -1) {
+      combined.push(entry);
+      return;
+    }
+    if (same(withoutId(combined[index]), withoutId(entry))) return;
+    const side = choose({
+      field: `${kind}.${level}.${key}`,
+      label: t(kind === 'programs' ? 'merge.label.program' : 'merge.label.scholarship', {
+        level: t(`degree.${level}`),
+        name: combined[index].name
+      }),
+      keep: withoutId(combined[index]),
+      duplicate: withoutId(entry)
+    });
+    // The kept record's id stays, so existing links and calendar events keep working.
+    if (side === 'duplicate') {
+      combined[index] = { ...entry, id: combined[index].id };
+    }
+  });
+  return combined;
+};
+
+const chargedIn = (fees: Fees, kind: FeeKind) => fees.currencies?.[kind] || fees.currency;
+
+// Amounts only mean something in their own currency, so fees in different currencies are
+// resolved as one block.
+const combineFees = (
+  keep: Fees,
+  duplicate: Fees,
+  choose: (conflict: MergeConflict) => MergeSide
+): Fees => {
+  if (feeKinds.some((kind) => chargedIn(keep, kind) !== chargedIn(duplicate, kind))) {
+    const side = choose({ field: 'fees', label: t('merge.label.fees'), keep, duplicate });
+    return side === 'duplicate' ? duplicate : keep;
+  }
+  const pick = (field: string, label: string, a: number | undefined, b: number | undefined) => {
+    if (isEmpty(a)) return b;
+    if (isEmpty(b) || a === b) return a;
+    return choose({ field, label, keep: a, duplicate: b }) === 'duplicate' ? b : a;
+  };
+  const averageTuition: Partial<Record<DegreeLevel, number>> = {};
+  degreeLevels.forEach((level) => {
+    const amount = pick(
+      `fees.averageTuition.${level}`,
+      t('common.tuitionAt', { level: t(`degree.${level}`) }),
+      keep.averageTuition?.[level],
+      duplicate.averageTuition?.[level]
+    );
+    if (amount !== undefined) averageTuition[level] = amount;
+  });
+  return {
+    currency: keep.currency,
+    application:
+      pick(
+        'fees.application',
+        t('common.applicationFee'),
+        keep.application,
+        duplicate.application
+      ) ?? 0,
+    averageTuition,
+    ...(keep.currencies && { currencies: keep.currencies })
+  };
+};
+
+const scalarFields: { field: 'name' | 'portalUrl' | 'overview'; label: MessageKey }[] = [
+  { field: 'name', label: 'merge.label.name' },
+  { field: 'portalUrl', label: 'merge.label.portalUrl' },
+  { field: 'overview', label: 'merge.label.overview' }
+];
+
+/**
+ * Folds `duplicate` into `keep`. Programs, scholarships and restricted countries from both are
+ * combined; where both records hold different values for the same thing, `choices` decides and
+ * the kept record wins by default. Every such conflict is listed so the UI can ask about it.
+ */
+export const combineUniversities = (
+  keep: University,
+  duplicate: University,
+  choices: MergeChoices = {}
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const choose = (conflict: MergeConflict): MergeSide => {
+    conflicts.push(conflict);
+    return choices[conflict.field] ?? 'keep';
+  };
+
+  const university: University = { ...keep };
+  scalarFields.forEach(({ field, label }) => {
+    const a = keep[field];
+    const b = duplicate[field];
+    if (isEmpty(a)) {
+      university[field] = b ?? '';
+    } else if (!isEmpty(b) && a !== b) {
+      const side = choose({ field, label: t(label), keep: a, duplicate: b });
+      university[field] = side === 'duplicate' ? b! : a;
+    }
+  });
+
+  // Country, region and city describe one place, so a different location is one conflict.
+  if (isEmpty(keep.location.country)) {
+    if (!isEmpty(duplicate.location.country)) university.location = duplicate.location;
+  } else if (!isEmpty(duplicate.location.country) && !same(keep.location, duplicate.location)) {
+    const side = choose({
+      field: 'location',
+      label: t('merge.label.location'),
+      keep: keep.location,
+      duplicate: duplicate.location
+    });
+    if (side === 'duplicate') university.location = duplicate.location;
+  }
+
+  const overviewTranslations = { ...keep.overviewTranslations };
+  locales
+    .filter((locale) => locale !== 'en')
+    .forEach((locale) => {
+      const a = keep.overviewTranslations?.[locale];
+      const b = duplicate.overviewTranslations?.[locale];
+      if (isEmpty(a)) {
+        if (!isEmpty(b)) overviewTranslations[locale] = b;
+      } else if (!isEmpty(b) && a !== b) {
+        const field = `overviewTranslations.${locale}`;
+        const label = t('merge.label.overviewIn', { language: localeNames[locale] });
+        if (choose({ field, label, keep: a, duplicate: b }) === 'duplicate') {
+          overviewTranslations[locale] = b;
+        }
+      }
+    });
+  if (Object.keys(overviewTranslations).length > 0) {
+    university.overviewTranslations = overviewTranslations;
+  }
+
+  university.fees = combineFees(keep.fees, duplicate.fees, choose);
+
+  university.programs = degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = combineList(
+        'programs',
+        level,
+        keep.programs?.[level] ?? [],
+        duplicate.programs?.[level] ?? [],
+        choose
+      );
+      return acc;
+    },
+    {} as University['programs']
+  );
+  university.scholarships = degreeLevels.reduce(
+    (acc, level) => {
+      acc[level] = combineList(
+        'scholarships',
+        level,
+        keep.scholarships?.[level] ?? [],
+        duplicate.scholarships?.[level] ?? [],
+        choose
+      );
+      return acc;
+    },
+    {} as University['scholarships']
+  );
+
+  university.restrictedCountries = Array.from(
+    new Set([...(keep.restrictedCountries ?? []), ...(duplicate.restrictedCountries ?? [])])
+  );
+  const unmatched = [...(keep.unmatchedRestrictedCountries ?? [])];
+  (duplicate.unmatchedRestrictedCountries ?? []).forEach((entry) => {
+    if (!unmatched.some((existing) => existing.toLowerCase() === entry.toLowerCase())) {
+      unmatched.push(entry);
+    }
+  });
+  if (unmatched.length > 0) university.unmatchedRestrictedCountries = unmatched;
+
+  return { university, conflicts };
+};
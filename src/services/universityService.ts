@@ -1,146 +1,508 @@
-import type { DegreeLevel, University } from '../types/university';
+import type { University } from '../types/university';
+import type { HistoryAction, UniversityHistoryEntry } from '../types/history';
 import seedUniversities from '../data/universities.json';
+import {
+  createStorageAdapter,
+  CURRENT_SCHEMA_VERSION,
+  migrateRecord,
+  resolveStorageConfig
+} from './storage';
+import type { QuarantineRecord, UniversityStorageAdapter } from './storage';
+import { assertValidUniversity, validateUniversity } from './universityValidation';
+import type { FieldError } from './universityValidation';
+import { diffUniversities } from './universityDiff';
+import { DuplicateUniversityError, findDuplicates } from './duplicateDetection';
+import { combineUniversities } from './universityMerge';
+import type { MergeChoices } from './universityMerge';
+import { assertCan, getCurrentUser, getSessionToken } from './authService';
+import { assignProgramIds, assignScholarshipIds, withEntryIds } from './programs';
+import { rankUniversities } from './searchIndex';
+import type { SearchResult } from './searchIndex';
+import { computeFacets, filterUniversities } from './directoryFilters';
+import type { DirectoryFacets, UniversityFilters } from './directoryFilters';
+import { paginate, sortResults } from './directorySort';
+import type { UniversityPage, UniversityQueryOptions } from './directorySort';
+import { getUniversityDataVersion, publishUniversityChange } from './universityChanges';
+import { LocalizedError } from './i18n';
 
-export interface UniversityFilters {
-  search?: string;
-  location?: string;
-  degreeLevel?: DegreeLevel;
-}
+export type { UniversityFilters } from './directoryFilters';
+export { subscribeToUniversityChanges } from './universityChanges';
+export type { UniversityChange } from './universityChanges';
 
-const STORAGE_KEY = 'manara_universities';
-const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
 const normalizeUniversity = (uni: University): University => ({
-  ...uni,
+  ...withEntryIds(uni),
   restrictedCountries: (uni.restrictedCountries ?? []).map((country) => country.trim()).filter(Boolean)
 });
-let inMemoryStore: University[] = clone(
-  (seedUniversities satisfies University[]).map((uni) => normalizeUniversity(uni))
-);
 
-const getStorage = () => (typeof window === 'undefined' ? null : window.localStorage);
+let adapter: UniversityStorageAdapter | null = null;
 
-const readStore = (): University[] => {
-  const storage = getStorage();
-  if (!storage) {
-    return clone(inMemoryStore);
-  }
-  const raw = storage.getItem(STORAGE_KEY);
-  if (!raw) {
-    storage.setItem(STORAGE_KEY, JSON.stringify(inMemoryStore));
-    return clone(inMemoryStore);
+/** The backend in use; other records kept alongside universities go through it too. */
+export const getAdapter = (): UniversityStorageAdapter => {
+  if (!adapter) {
+    adapter = createStorageAdapter(
+      resolveStorageConfig(),
+      // JSON imports widen literal unions such as funding types, hence the cast; records are
+      // still validated when they are loaded.
+      (seedUniversities as University[]).map((uni) => normalizeUniversity(uni)),
+      { getAuthToken: getSessionToken }
+    );
   }
-  try {
-    const parsed = JSON.parse(raw) as University[];
-    inMemoryStore = parsed.map((uni) => normalizeUniversity(uni));
-    return clone(inMemoryStore);
-  } catch {
-    storage.removeItem(STORAGE_KEY);
-    storage.setItem(STORAGE_KEY, JSON.stringify(inMemoryStore));
-    return clone(inMemoryStore);
-  }
-};
-
-const writeStore = (data: University[]) => {
-  const normalized = data.map((uni) => normalizeUniversity(uni));
-  inMemoryStore = clone(normalized);
-  const storage = getStorage();
-  if (storage) {
-    storage.setItem(STORAGE_KEY, JSON.stringify(inMemoryStore));
-  }
-};
-
-const filterUniversities = (universities: University[], filters?: UniversityFilters) => {
-  if (!filters) return universities;
-  return universities.filter((university) => {
-    const matchesSearch = filters.search
-      ? university.name.toLowerCase().includes(filters.search.toLowerCase())
-      : true;
-    const matchesLocation = filters.location
-      ? university.location.toLowerCase() === filters.location.toLowerCase()
-      : true;
-    const matchesDegree = filters.degreeLevel
-      ? Array.isArray(university.programs?.[filters.degreeLevel]) &&
-        university.programs[filters.degreeLevel].length > 0
-      : true;
-    return matchesSearch && matchesLocation && matchesDegree;
+  return adapter;
+};
+
+/** Swaps the backend every service call runs through, e.g. for a REST API or tests. */
+export const configureStorage = (next: UniversityStorageAdapter) => {
+  adapter = next;
+};
+
+/** Label recorded against every change: the signed-in user's name and email. */
+export const getActor = () => {
+  const user = getCurrentUser();
+  return user ? `${user.name} <${user.email}>` : 'Unknown user';
+};
+
+// Problems found in stored records during the last load, keyed by university id.
+let loadIssues: Record<string, FieldError[]> = {};
+
+const isLoadable = (value: unknown): value is University =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { id?: unknown }).id === 'string' &&
+  typeof (value as { name?: unknown }).name === 'string';
+
+/**
+ * Validates records coming out of storage. Records too broken to display are dropped; the rest
+ * are returned with their field errors recorded so admins can fix them.
+ */
+const checkLoaded = (records: unknown[]): University[] => {
+  const issues: Record<string, FieldError[]> = {};
+  const loaded = records.filter(isLoadable).map((record) => {
+    const uni = normalizeUniversity(record);
+    const errors = validateUniversity(uni);
+    if (errors.length > 0) {
+      issues[uni.id] = errors;
+    }
+    return uni;
   });
+  loadIssues = issues;
+  return loaded;
 };
 
-const delay = async <T>(value: T, ms = 150) =>
-  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+const readStore = async (): Promise<University[]> => checkLoaded(await getAdapter().list());
+
+/** Field errors found on stored records the last time the directory was loaded. */
+export const getLoadIssues = (): Record<string, FieldError[]> => ({ ...loadIssues });
 
 const nextId = () =>
   (typeof crypto !== 'undefined' && crypto.randomUUID
     ? crypto.randomUUID()
     : `uni-${Date.now()}`);
 
-export const getUniversities = async (filters?: UniversityFilters): Promise<University[]> => {
-  const data = filterUniversities(readStore(), filters);
-  return delay(data);
+interface AppliedChange {
+  action: HistoryAction;
+  before?: University;
+  after?: University;
+}
+
+const toHistoryEntry = ({ action, before, after }: AppliedChange): UniversityHistoryEntry => {
+  const subject = (after ?? before)!;
+  return {
+    id: nextId(),
+    universityId: subject.id,
+    universityName: subject.name,
+    action,
+    timestamp: new Date().toISOString(),
+    actor: getActor(),
+    changes: diffUniversities(before, after),
+    previous: before ?? null,
+    snapshot: after ?? null,
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  };
+};
+
+// Puts one record back the way it was before `change` was written.
+const undoChange = ({ action, before, after }: AppliedChange) => {
+  const store = getAdapter();
+  if (!before) return store.remove(after!.id);
+  return action === 'purge' ? store.create(before) : store.update(before);
 };
 
-export const getUniversity = async (id: string): Promise<University> => {
-  const universities = readStore();
-  const university = universities.find((u) => u.id === id);
-  if (!university) {
-    throw new Error('University not found');
+/**
+ * Logs changes that were just written, in one history write. If the log cannot be saved (a full
+ * browser quota, say) the records are put back, so no change is ever kept without its history.
+ */
+const recordHistory = async (...changes: AppliedChange[]) => {
+  const logged = changes.filter((change) => change.before ?? change.after);
+  try {
+    await getAdapter().appendHistory(logged.map(toHistoryEntry));
+  } catch (err) {
+    for (const change of [...logged].reverse()) {
+      await undoChange(change).catch(() => undefined);
+    }
+    throw err;
   }
-  return delay(university);
 };
 
+// Lets open pages, in this tab and others, reload the records that were just saved.
+const announce = (ids: string[]) => publishUniversityChange(ids, getActor());
+
+/**
+ * Filters, ranks, sorts and pages the directory. Each result carries the fields that matched
+ * `filters.search` so the UI can explain why it was returned; `total` counts every page.
+ */
+export const searchUniversities = async (
+  filters?: UniversityFilters,
+  options: UniversityQueryOptions = {}
+): Promise<UniversityPage<SearchResult>> => {
+  const universities = await readStore();
+  const visible = filters?.includeDeleted
+    ? universities
+    : universities.filter((uni) => !uni.deletedAt);
+  const ranked = rankUniversities(
+    filterUniversities(visible, filters),
+    filters?.search ?? '',
+    universities,
+    getUniversityDataVersion()
+  );
+  const sort = options.sort ?? (filters?.search?.trim() ? 'relevance' : 'name');
+  return paginate(sortResults(ranked, sort, options.direction), options.page, options.pageSize);
+};
+
+/**
+ * Live option counts for every directory facet, evaluated against the search results so they
+ * agree with what `searchUniversities` returns for the same filters.
+ */
+export const getDirectoryFacets = async (
+  filters: UniversityFilters = {}
+): Promise<DirectoryFacets> => {
+  const universities = await readStore();
+  const visible = filters.includeDeleted
+    ? universities
+    : universities.filter((uni) => !uni.deletedAt);
+  const searched = rankUniversities(
+    visible,
+    filters.search ?? '',
+    universities,
+    getUniversityDataVersion()
+  ).map((result) => result.university);
+  return computeFacets(searched, filters);
+};
+
+/** Plain list of matching universities; see `searchUniversities` for the page total. */
+export const getUniversities = async (
+  filters?: UniversityFilters,
+  options?: UniversityQueryOptions
+): Promise<University[]> =>
+  (await searchUniversities(filters, options)).items.map((result) => result.university);
+
+export const getUniversity = async (
+  id: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<University> => {
+  const university = await getAdapter().get(id);
+  const hidden = university?.deletedAt && !options.includeDeleted;
+  if (!university || !isLoadable(university) || hidden) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  return normalizeUniversity(university);
+};
+
+/** Records in the trash, most recently deleted first. */
+export const getDeletedUniversities = async (): Promise<University[]> =>
+  (await readStore())
+    .filter((uni) => uni.deletedAt)
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+
 const normalizeRestrictedCountries = (list?: string[]) =>
   (list ?? [])
-    .map((country) => country.trim())
+    .map((country) => country.trim().toUpperCase())
     .filter((country, index, arr) => country && arr.indexOf(country) === index);
 
-export const createUniversity = async (payload: Partial<University>) => {
-  if (!payload.name || !payload.portalUrl || !payload.location) {
-    throw new Error('Name, portal link, and location are required');
-  }
-  const universities = readStore();
+export interface CreateUniversityOptions {
+  /** Save even when the record looks like a university already in the directory. */
+  allowDuplicate?: boolean;
+}
+
+export const createUniversity = async (
+  payload: Partial<University>,
+  options: CreateUniversityOptions = {}
+) => {
+  assertCan('university:write');
   const newUniversity: University = {
     id: payload.id ?? nextId(),
-    name: payload.name,
-    portalUrl: payload.portalUrl,
-    location: payload.location,
+    name: payload.name ?? '',
+    portalUrl: payload.portalUrl ?? '',
+    location: payload.location ?? { country: '' },
     overview: payload.overview ?? '',
-    fees: payload.fees ?? { application: 0, averageTuition: {} },
-    programs: payload.programs ?? { bachelor: [], masters: [], phd: [] },
-    scholarships: payload.scholarships ?? { bachelor: [], masters: [], phd: [] },
+    ...(payload.overviewTranslations && { overviewTranslations: payload.overviewTranslations }),
+    fees: payload.fees ?? { currency: 'USD', application: 0, averageTuition: {} },
+    programs: assignProgramIds(payload.programs ?? { bachelor: [], masters: [], phd: [] }),
+    scholarships: assignScholarshipIds(
+      payload.scholarships ?? { bachelor: [], masters: [], phd: [] }
+    ),
     restrictedCountries: normalizeRestrictedCountries(payload.restrictedCountries)
   };
-  universities.push(newUniversity);
-  writeStore(universities);
-  return delay(newUniversity);
+  assertValidUniversity(newUniversity);
+  if (!options.allowDuplicate) {
+    const matches = findDuplicates(newUniversity, await readStore());
+    if (matches.length > 0) {
+      throw new DuplicateUniversityError(matches);
+    }
+  }
+  const created = normalizeUniversity(await getAdapter().create(newUniversity));
+  await recordHistory({ action: 'create', after: created });
+  announce([created.id]);
+  return created;
 };
 
 export const updateUniversity = async (id: string, payload: Partial<University>) => {
-  const universities = readStore();
-  const index = universities.findIndex((u) => u.id === id);
-  if (index === -1) {
-    throw new Error('University not found');
+  assertCan('university:write');
+  const existing = await getAdapter().get(id);
+  if (!existing) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  if (existing.deletedAt) {
+    throw new LocalizedError('errors.universityInTrash');
   }
   const updated: University = normalizeUniversity({
-    ...universities[index],
+    ...existing,
     ...payload,
     restrictedCountries:
       payload.restrictedCountries !== undefined
         ? normalizeRestrictedCountries(payload.restrictedCountries)
-        : universities[index].restrictedCountries ?? [],
+        : existing.restrictedCountries ?? [],
     id
   });
-  universities[index] = updated;
-  writeStore(universities);
-  return delay(updated);
+  assertValidUniversity(updated);
+  const saved = normalizeUniversity(await getAdapter().update(updated));
+  await recordHistory({ action: 'update', before: normalizeUniversity(existing), after: saved });
+  announce([saved.id]);
+  return saved;
+};
+
+/**
+ * Creates or replaces a batch of universities all-or-nothing. Every record is validated before
+ * anything is written; backends without an atomic bulk write get their partial writes undone.
+ */
+export const importUniversities = async (payload: University[]): Promise<University[]> => {
+  assertCan('university:write');
+  const prepared = payload.map((uni) =>
+    normalizeUniversity({
+      ...uni,
+      id: uni.id || nextId(),
+      restrictedCountries: normalizeRestrictedCountries(uni.restrictedCountries)
+    })
+  );
+  prepared.forEach((uni) => assertValidUniversity(uni));
+
+  const store = getAdapter();
+  const existing = new Map((await store.list()).map((uni) => [uni.id, uni]));
+  // Taking records out of the trash needs the same rights as restoreUniversity.
+  if (prepared.some((uni) => existing.get(uni.id)?.deletedAt && !uni.deletedAt)) {
+    assertCan('university:delete');
+  }
+  const applied: { before?: University; after: University }[] = [];
+  if (store.saveMany) {
+    const saved = await store.saveMany(prepared);
+    applied.push(...saved.map((after) => ({ before: existing.get(after.id), after })));
+  } else {
+    try {
+      for (const university of prepared) {
+        const before = await store.get(university.id);
+        const after = before ? await store.update(university) : await store.create(university);
+        applied.push({ before, after });
+      }
+    } catch (err) {
+      for (const { before, after } of applied.reverse()) {
+        await (before ? store.update(before) : store.remove(after.id)).catch(() => undefined);
+      }
+      throw err;
+    }
+  }
+
+  await recordHistory(
+    ...applied.map(({ before, after }) => ({
+      action: before ? ('update' as const) : ('create' as const),
+      before: before && normalizeUniversity(before),
+      after: normalizeUniversity(after)
+    }))
+  );
+  announce(applied.map(({ after }) => after.id));
+  return applied.map(({ after }) => normalizeUniversity(after));
 };
 
+/** Moves a record to the trash. It stays in storage until purged and can be restored. */
 export const deleteUniversity = async (id: string) => {
-  const universities = readStore();
-  const index = universities.findIndex((u) => u.id === id);
-  if (index === -1) {
-    throw new Error('University not found');
-  }
-  universities.splice(index, 1);
-  writeStore(universities);
-  return delay({ success: true });
+  assertCan('university:delete');
+  const existing = await getAdapter().get(id);
+  if (!existing || existing.deletedAt) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  await getAdapter().update({ ...existing, deletedAt: new Date().toISOString() });
+  await recordHistory({ action: 'delete', before: normalizeUniversity(existing) });
+  announce([id]);
+  return { success: true };
+};
+
+/**
+ * Folds a duplicate record into the one being kept, then moves the duplicate to the trash so the
+ * merge can be undone from there. `choices` settles fields the two records disagree on. Both
+ * records are written together: if either write fails, neither change is kept.
+ */
+export const mergeUniversities = async (
+  keepId: string,
+  duplicateId: string,
+  choices: MergeChoices = {}
+): Promise<University> => {
+  assertCan('university:write');
+  assertCan('university:delete');
+  if (keepId === duplicateId) {
+    throw new LocalizedError('errors.mergeSameUniversity');
+  }
+  const [keep, duplicate] = await Promise.all([
+    getAdapter().get(keepId),
+    getAdapter().get(duplicateId)
+  ]);
+  if (!keep || keep.deletedAt || !duplicate || duplicate.deletedAt) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  const { university } = combineUniversities(
+    normalizeUniversity(keep),
+    normalizeUniversity(duplicate),
+    choices
+  );
+  const merged = normalizeUniversity({
+    ...keep,
+    ...university,
+    restrictedCountries: normalizeRestrictedCountries(university.restrictedCountries),
+    id: keepId
+  });
+  assertValidUniversity(merged);
+  const trashed: University = { ...duplicate, deletedAt: new Date().toISOString() };
+
+  const store = getAdapter();
+  let saved: University;
+  if (store.saveMany) {
+    [saved] = await store.saveMany([merged, trashed]);
+  } else {
+    saved = await store.update(merged);
+    try {
+      await store.update(trashed);
+    } catch (err) {
+      await store.update(keep).catch(() => undefined);
+      throw err;
+    }
+  }
+  const result = normalizeUniversity(saved);
+  await recordHistory(
+    { action: 'update', before: normalizeUniversity(keep), after: result },
+    { action: 'delete', before: normalizeUniversity(duplicate) }
+  );
+  announce([keepId, duplicateId]);
+  return result;
+};
+
+/** Takes a record back out of the trash. */
+export const restoreUniversity = async (id: string): Promise<University> => {
+  assertCan('university:delete');
+  const existing = await getAdapter().get(id);
+  if (!existing) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  if (!existing.deletedAt) {
+    return normalizeUniversity(existing);
+  }
+  const { deletedAt: _deletedAt, ...rest } = existing;
+  const restored = normalizeUniversity(await getAdapter().update(rest));
+  await recordHistory({
+    action: 'restore',
+    before: normalizeUniversity(existing),
+    after: restored
+  });
+  announce([id]);
+  return restored;
+};
+
+/** Permanently removes a trashed record. Its change history is kept. */
+export const purgeUniversity = async (id: string) => {
+  assertCan('university:delete');
+  const existing = await getAdapter().get(id);
+  if (!existing) {
+    throw new LocalizedError('errors.universityNotFound');
+  }
+  if (!existing.deletedAt) {
+    throw new LocalizedError('errors.purgeNotTrashed');
+  }
+  await getAdapter().remove(id);
+  await recordHistory({ action: 'purge', before: normalizeUniversity(existing) });
+  announce([id]);
+  return { success: true };
+};
+
+// Snapshots keep the shape they were saved in, so older ones are upgraded like stored records
+// before anything displays or restores them.
+const upgradeSnapshot = (record: University | null, fromVersion?: number) =>
+  record && normalizeUniversity(migrateRecord(record, fromVersion));
+
+const readHistory = async (universityId?: string): Promise<UniversityHistoryEntry[]> =>
+  (await getAdapter().listHistory(universityId)).map((entry) => ({
+    ...entry,
+    previous: upgradeSnapshot(entry.previous, entry.schemaVersion),
+    snapshot: upgradeSnapshot(entry.snapshot, entry.schemaVersion),
+    schemaVersion: CURRENT_SCHEMA_VERSION
+  }));
+
+/** Change log for one university (or all of them), newest first. */
+export const getUniversityHistory = async (
+  universityId?: string
+): Promise<UniversityHistoryEntry[]> => (await readHistory(universityId)).reverse();
+
+/**
+ * Puts a record back to a version captured in the history: the state right after the entry's
+ * change, or with `which: 'previous'` the state just before it (e.g. a record before deletion).
+ * The restore itself is logged like any other change.
+ */
+export const restoreUniversityVersion = async (
+  entryId: string,
+  which: 'snapshot' | 'previous' = 'snapshot'
+): Promise<University> => {
+  assertCan('university:write');
+  const entry = (await readHistory()).find((item) => item.id === entryId);
+  if (!entry) {
+    throw new LocalizedError('errors.historyEntryNotFound');
+  }
+  const version = which === 'previous' ? entry.previous : entry.snapshot;
+  if (!version) {
+    throw new LocalizedError('errors.noSavedVersion');
+  }
+
+  const target = normalizeUniversity(version);
+  assertValidUniversity(target);
+  const store = getAdapter();
+  const current = await store.get(target.id);
+  // Taking a record out of the trash, or back into it, needs the same rights as restoreUniversity.
+  if ((current?.deletedAt ?? null) !== (target.deletedAt ?? null)) {
+    assertCan('university:delete');
+  }
+  const restored = normalizeUniversity(
+    current ? await store.update(target) : await store.create(target)
+  );
+  await recordHistory({
+    action: 'restore',
+    before: current && normalizeUniversity(current),
+    after: restored
+  });
+  announce([restored.id]);
+  return restored;
+};
+
+/** Stored payloads that failed to load and were backed up rather than discarded. */
+export const getQuarantinedData = async (): Promise<QuarantineRecord[]> => {
+  const current = getAdapter();
+  return current.listQuarantined ? current.listQuarantined() : [];
+};
+
+export const acknowledgeQuarantinedData = async (id: string) => {
+  assertCan('university:write');
+  await getAdapter().acknowledgeQuarantined?.(id);
 };
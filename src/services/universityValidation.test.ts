@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import seedUniversities from '../data/universities.json';
+import type { University } from '../types/university';
+import { withEntryIds } from './programs';
+import { makeUniversity } from '../test/fixtures';
+import { validateUniversity } from './universityValidation';
+
+describe('validateUniversity', () => {
+  // "sdfgdsg" is kept as it was entered, so the directory reports it for an editor to fix.
+  const needsEditor: Record<string, string[]> = { sdfgdsg: ['location.country', 'portalUrl'] };
+
+  it('accepts the bundled seed data apart from what an editor still has to fix', () => {
+    (seedUniversities as University[]).forEach((university) =>
+      expect(
+        validateUniversity(withEntryIds(university))
+          .map((error) => error.field)
+          .sort(),
+        university.name
+      ).toEqual(needsEditor[university.name] ?? [])
+    );
+  });
+
+  it('checks the currency of fees charged in their own', () => {
+    const fees = makeUniversity().fees;
+    const withCurrencies = (currencies: Record<string, string>) =>
+      validateUniversity(makeUniversity({ fees: { ...fees, currencies } })).map(
+        (error) => error.field
+      );
+    expect(withCurrencies({ application: 'GBP' })).toEqual([]);
+    expect(withCurrencies({ application: 'XYZ', tuition: 'GBP' })).toEqual([
+      'fees.currencies.application',
+      'fees.currencies.tuition'
+    ]);
+  });
+});
@@ -0,0 +1,509 @@
+import {
+  admissionTests,
+  degreeLevels,
+  feeKinds,
+  fundingTypes,
+  stipendPeriods
+} from '../types/university';
+import type { AdmissionTest, University } from '../types/university';
+import { locales } from '../types/i18n';
+import { isCountryCode } from './countries';
+import { isSupportedCurrency, supportedCurrencies } from './currency';
+import { t, tp } from './i18n';
+import type { MessageKey } from './i18n';
+import { MAX_GPA, testScoreRanges } from './programs';
+
+export interface FieldError {
+  /** Dotted path to the offending value, e.g. `scholarships.masters.0.deadline`. */
+  field: string;
+  message: string;
+}
+
+export class UniversityValidationError extends Error {
+  errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(
+      errors.length === 1
+        ? errors[0].message
+        : tp('validation.fieldsNeedAttention', errors.length)
+    );
+    this.name = 'UniversityValidationError';
+    this.errors = errors;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) => typeof value !== 'string' || value.trim().length === 0;
+
+/** True for absolute http and https links; anything else is never rendered as a link. */
+export const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/** Accepts calendar dates written as YYYY-MM-DD that actually exist (no 2025-02-30). */
+export const isIsoDate = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+};
+
+/** Blank deadlines and the literal "Rolling" both mean applications are accepted year-round. */
+export const isRollingDeadline = (value: string) =>
+  value.trim() === '' || value.trim().toLowerCase() === 'rolling';
+
+const isNonNegativeNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Labels are message keys, so messages come out in the active language.
+const requireText = (errors: FieldError[], field: string, value: unknown, label: MessageKey) => {
+  if (isBlank(value)) {
+    errors.push({ field, message: t('validation.required', { label: t(label) }) });
+  }
+};
+
+const optionalText = (errors: FieldError[], field: string, value: unknown, label: MessageKey) => {
+  if (value !== undefined && typeof value !== 'string') {
+    errors.push({ field, message: t('validation.text', { label: t(label) }) });
+  }
+};
+
+/** Optional `{ ar: '…' }` maps; English lives in the untranslated field itself. */
+const optionalTranslations = (
+  errors: FieldError[],
+  field: string,
+  value: unknown,
+  label: MessageKey
+) => {
+  if (value === undefined) return;
+  if (!isRecord(value)) {
+    errors.push({ field, message: t('validation.translationsKeyed', { label: t(label) }) });
+    return;
+  }
+  Object.entries(value).forEach(([locale, text]) => {
+    if (!locales.includes(locale as never)) {
+      errors.push({
+        field: `${field}.${locale}`,
+        message: t('validation.unknownLanguage', { locale })
+      });
+    } else if (typeof text !== 'string') {
+      errors.push({
+        field: `${field}.${locale}`,
+        message: t('validation.translationText', { label: t(label) })
+      });
+    }
+  });
+};
+
+export const validateFees = (fees: unknown, field = 'fees'): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (!isRecord(fees)) {
+    return [{ field, message: t('validation.feesRequired') }];
+  }
+  // Fees must convert to the other display currencies, so only listed rates are accepted.
+  if (!isSupportedCurrency(fees.currency)) {
+    errors.push({
+      field: `${field}.currency`,
+      message: t('validation.feeCurrency', { currencies: supportedCurrencies.join(', ') })
+    });
+  }
+  if (!isNonNegativeNumber(fees.application)) {
+    errors.push({
+      field: `${field}.application`,
+      message: t('validation.applicationFee')
+    });
+  }
+  if (fees.currencies !== undefined) {
+    if (!isRecord(fees.currencies)) {
+      errors.push({ field: `${field}.currencies`, message: t('validation.feeCurrencies') });
+    } else {
+      Object.entries(fees.currencies).forEach(([kind, code]) => {
+        if (!feeKinds.includes(kind as never)) {
+          errors.push({
+            field: `${field}.currencies.${kind}`,
+            message: t('validation.unknownFee', { fee: kind })
+          });
+        } else if (code !== undefined && !isSupportedCurrency(code)) {
+          errors.push({
+            field: `${field}.currencies.${kind}`,
+            message: t('validation.feeCurrency', { currencies: supportedCurrencies.join(', ') })
+          });
+        }
+      });
+    }
+  }
+  if (!isRecord(fees.averageTuition)) {
+    errors.push({ field: `${field}.averageTuition`, message: t('validation.averageTuition') });
+    return errors;
+  }
+  Object.entries(fees.averageTuition).forEach(([level, value]) => {
+    if (!degreeLevels.includes(level as never)) {
+      errors.push({
+        field: `${field}.averageTuition.${level}`,
+        message: t('validation.unknownLevel', { level })
+      });
+    } else if (value !== undefined && !isNonNegativeNumber(value)) {
+      errors.push({
+        field: `${field}.averageTuition.${level}`,
+        message: t('validation.tuition')
+      });
+    }
+  });
+  return errors;
+};
+
+export const validateLocation = (location: unknown, field = 'location'): FieldError[] => {
+  if (!isRecord(location)) {
+    return [{ field, message: t('validation.locationRequired') }];
+  }
+  const errors: FieldError[] = [];
+  if (isBlank(location.country)) {
+    errors.push({ field: `${field}.country`, message: t('validation.countryRequired') });
+  } else if (!isCountryCode(location.country)) {
+    errors.push({
+      field: `${field}.country`,
+      message: t('validation.unknownCountry', { codes: String(location.country) })
+    });
+  }
+  optionalText(errors, `${field}.region`, location.region, 'field.region');
+  optionalText(errors, `${field}.city`, location.city, 'field.city');
+  if (location.campuses !== undefined) {
+    if (!Array.isArray(location.campuses)) {
+      errors.push({
+        field: `${field}.campuses`,
+        message: t('validation.list', { label: t('field.campuses') })
+      });
+    } else {
+      location.campuses.forEach((campus: unknown, index) => {
+        const path = `${field}.campuses.${index}`;
+        if (!isRecord(campus)) {
+          errors.push({ field: path, message: t('validation.campusObject') });
+          return;
+        }
+        requireText(errors, `${path}.name`, campus.name, 'field.campusName');
+        optionalText(errors, `${path}.city`, campus.city, 'field.campusCity');
+      });
+    }
+  }
+  return errors;
+};
+
+export const validateProgram = (program: unknown, field: string): FieldError[] => {
+  if (!isRecord(program)) {
+    return [{ field, message: t('validation.programObject') }];
+  }
+  const errors: FieldError[] = [];
+  requireText(errors, `${field}.id`, program.id, 'field.programId');
+  requireText(errors, `${field}.name`, program.name, 'field.programName');
+  optionalText(errors, `${field}.duration`, program.duration, 'field.duration');
+  optionalText(errors, `${field}.delivery`, program.delivery, 'field.delivery');
+  optionalTranslations(
+    errors,
+    `${field}.nameTranslations`,
+    program.nameTranslations,
+    'field.name'
+  );
+  optionalText(errors, `${field}.language`, program.language, 'field.language');
+
+  const { intakeMonths, requiredTests, requiredDocuments } = program;
+  if (
+    intakeMonths !== undefined &&
+    (!Array.isArray(intakeMonths) ||
+      intakeMonths.some((month) => !Number.isInteger(month) || month < 1 || month > 12))
+  ) {
+    errors.push({
+      field: `${field}.intakeMonths`,
+      message: t('validation.intakeMonths')
+    });
+  }
+  if (program.tuition !== undefined && !isNonNegativeNumber(program.tuition)) {
+    errors.push({ field: `${field}.tuition`, message: t('validation.tuition') });
+  }
+  if (
+    program.minimumGpa !== undefined &&
+    (!isNonNegativeNumber(program.minimumGpa) || (program.minimumGpa as number) > MAX_GPA)
+  ) {
+    errors.push({
+      field: `${field}.minimumGpa`,
+      message: t('validation.minimumGpa', { max: MAX_GPA })
+    });
+  }
+  if (requiredTests !== undefined) {
+    if (!Array.isArray(requiredTests)) {
+      errors.push({
+        field: `${field}.requiredTests`,
+        message: t('validation.list', { label: t('field.requiredTests') })
+      });
+    } else {
+      const seen = new Set<unknown>();
+      requiredTests.forEach((requirement: unknown, index) => {
+        const path = `${field}.requiredTests.${index}`;
+        if (!isRecord(requirement) || !admissionTests.includes(requirement.test as never)) {
+          errors.push({
+            field: `${path}.test`,
+            message: t('validation.testChoice', { tests: admissionTests.join(', ') })
+          });
+          return;
+        }
+        if (seen.has(requirement.test)) {
+          errors.push({
+            field: `${path}.test`,
+            message: t('validation.testTwice', { test: String(requirement.test) })
+          });
+        }
+        seen.add(requirement.test);
+        const range = testScoreRanges[requirement.test as AdmissionTest];
+        const score = requirement.minimumScore;
+        if (typeof score !== 'number' || !(score >= range.min && score <= range.max)) {
+          errors.push({
+            field: `${path}.minimumScore`,
+            message: t('validation.testScore', {
+              test: String(requirement.test),
+              min: range.min,
+              max: range.max
+            })
+          });
+        }
+      });
+    }
+  }
+  if (
+    requiredDocuments !== undefined &&
+    (!Array.isArray(requiredDocuments) || requiredDocuments.some((entry) => isBlank(entry)))
+  ) {
+    errors.push({
+      field: `${field}.requiredDocuments`,
+      message: t('validation.documents')
+    });
+  }
+  return errors;
+};
+
+// Program ids appear in links, so one id may not be used twice, even across degree levels.
+const validateProgramIds = (programs: unknown): FieldError[] => {
+  if (!isRecord(programs)) return [];
+  const seen = new Set<string>();
+  return degreeLevels.flatMap((level) => {
+    const list = programs[level];
+    if (!Array.isArray(list)) return [];
+    return list.flatMap((program: unknown, index) => {
+      if (!isRecord(program) || typeof program.id !== 'string' || isBlank(program.id)) return [];
+      if (seen.has(program.id)) {
+        return [
+          {
+            field: `programs.${level}.${index}.id`,
+            message: t('validation.programIdTwice', { id: program.id })
+          }
+        ];
+      }
+      seen.add(program.id);
+      return [];
+    });
+  });
+};
+
+const isCurrencyCode = (value: unknown) => typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+const validateMoney = (value: UnknownRecord, field: string, label: MessageKey): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (!isNonNegativeNumber(value.amount)) {
+    errors.push({
+      field: `${field}.amount`,
+      message: t('validation.nonNegative', { label: t(label) })
+    });
+  }
+  if (!isCurrencyCode(value.currency)) {
+    errors.push({
+      field: `${field}.currency`,
+      message: t('validation.currencyCode')
+    });
+  }
+  return errors;
+};
+
+export const validateFunding = (funding: unknown, field: string): FieldError[] => {
+  if (funding === null || funding === undefined) return [];
+  if (!isRecord(funding) || !fundingTypes.includes(funding.type as never)) {
+    return [{ field: `${field}.type`, message: t('validation.fundingType') }];
+  }
+  const errors: FieldError[] = [];
+  if (funding.type === 'percentage') {
+    const { percent } = funding;
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      errors.push({ field: `${field}.percent`, message: t('validation.percentage') });
+    }
+  }
+  if (funding.type === 'fixed' || funding.type === 'stipend') {
+    errors.push(...validateMoney(funding, field, 'field.amount'));
+  }
+  const hasPeriod = funding.type === 'stipend' || funding.period !== undefined;
+  if (hasPeriod && !stipendPeriods.includes(funding.period as never)) {
+    errors.push({ field: `${field}.period`, message: t('validation.fundingPeriod') });
+  }
+  if (funding.cap !== undefined) {
+    errors.push(
+      ...(isRecord(funding.cap)
+        ? validateMoney(funding.cap, `${field}.cap`, 'field.cap')
+        : [{ field: `${field}.cap`, message: t('validation.capShape') }])
+    );
+  }
+  return errors;
+};
+
+export const validateScholarship = (scholarship: unknown, field: string): FieldError[] => {
+  if (!isRecord(scholarship)) {
+    return [{ field, message: t('validation.scholarshipObject') }];
+  }
+  const errors: FieldError[] = [];
+  requireText(errors, `${field}.name`, scholarship.name, 'field.scholarshipName');
+  optionalTranslations(
+    errors,
+    `${field}.nameTranslations`,
+    scholarship.nameTranslations,
+    'field.name'
+  );
+  errors.push(...validateFunding(scholarship.funding, `${field}.funding`));
+  optionalText(errors, `${field}.fundingNote`, scholarship.fundingNote, 'field.fundingNote');
+  optionalText(errors, `${field}.eligibility`, scholarship.eligibility, 'field.eligibility');
+  optionalText(errors, `${field}.deadlineNote`, scholarship.deadlineNote, 'field.deadlineNote');
+  const { deadline } = scholarship;
+  if (deadline !== undefined && typeof deadline !== 'string') {
+    errors.push({ field: `${field}.deadline`, message: t('validation.deadlineText') });
+  } else if (
+    typeof deadline === 'string' &&
+    !isRollingDeadline(deadline) &&
+    !isIsoDate(deadline.trim())
+  ) {
+    errors.push({
+      field: `${field}.deadline`,
+      message: t('validation.deadline')
+    });
+  }
+  return errors;
+};
+
+const validateByLevel = (
+  value: unknown,
+  field: string,
+  label: MessageKey,
+  validateItem: (item: unknown, itemField: string) => FieldError[]
+): FieldError[] => {
+  if (!isRecord(value)) {
+    return [{ field, message: t('validation.listRequired', { label: t(label) }) }];
+  }
+  return degreeLevels.flatMap((level) => {
+    const items = value[level];
+    if (items === undefined) return [];
+    if (!Array.isArray(items)) {
+      return [{ field: `${field}.${level}`, message: t('validation.list', { label: t(label) }) }];
+    }
+    return items.flatMap((item, index) => validateItem(item, `${field}.${level}.${index}`));
+  });
+};
+
+/** Checks a full record. Returns an empty list when the university is valid. */
+export const validateUniversity = (university: unknown): FieldError[] => {
+  if (!isRecord(university)) {
+    return [{ field: '', message: t('validation.universityObject') }];
+  }
+  const errors: FieldError[] = [];
+  requireText(errors, 'id', university.id, 'field.id');
+  requireText(errors, 'name', university.name, 'field.name');
+  errors.push(...validateLocation(university.location));
+  optionalText(errors, 'locationNote', university.locationNote, 'field.locationNote');
+  optionalText(errors, 'overview', university.overview, 'field.overview');
+  optionalTranslations(
+    errors,
+    'overviewTranslations',
+    university.overviewTranslations,
+    'field.overview'
+  );
+  if (
+    university.deletedAt !== undefined &&
+    (typeof university.deletedAt !== 'string' || Number.isNaN(Date.parse(university.deletedAt)))
+  ) {
+    errors.push({ field: 'deletedAt', message: t('validation.deletedAt') });
+  }
+
+  if (isBlank(university.portalUrl)) {
+    requireText(errors, 'portalUrl', university.portalUrl, 'field.portalUrl');
+  } else if (!isHttpUrl(String(university.portalUrl).trim())) {
+    errors.push({ field: 'portalUrl', message: t('validation.portalUrl') });
+  }
+
+  errors.push(...validateFees(university.fees));
+  errors.push(
+    ...validateByLevel(university.programs, 'programs', 'field.programs', validateProgram)
+  );
+  errors.push(...validateProgramIds(university.programs));
+  errors.push(
+    ...validateByLevel(
+      university.scholarships,
+      'scholarships',
+      'field.scholarships',
+      validateScholarship
+    )
+  );
+
+  const { restrictedCountries, unmatchedRestrictedCountries } = university;
+  if (restrictedCountries !== undefined) {
+    if (
+      !Array.isArray(restrictedCountries) ||
+      restrictedCountries.some((country) => typeof country !== 'string')
+    ) {
+      errors.push({
+        field: 'restrictedCountries',
+        message: t('validation.restrictedList')
+      });
+    } else {
+      const unknown = restrictedCountries.filter((country) => !isCountryCode(country));
+      if (unknown.length > 0) {
+        errors.push({
+          field: 'restrictedCountries',
+          message: t('validation.unknownCountry', { codes: unknown.join(', ') })
+        });
+      }
+    }
+  }
+  if (
+    unmatchedRestrictedCountries !== undefined &&
+    (!Array.isArray(unmatchedRestrictedCountries) ||
+      unmatchedRestrictedCountries.some((country) => typeof country !== 'string'))
+  ) {
+    errors.push({
+      field: 'unmatchedRestrictedCountries',
+      message: t('validation.unmatchedList')
+    });
+  }
+  return errors;
+};
+
+export const assertValidUniversity = (university: unknown): University => {
+  const errors = validateUniversity(university);
+  if (errors.length > 0) {
+    throw new UniversityValidationError(errors);
+  }
+  return university as University;
+};
+
+export const toFieldErrorMap = (errors: FieldError[]): Record<string, string> =>
+  errors.reduce(
+    (acc, error) => {
+      acc[error.field] ??= error.message;
+      return acc;
+    },
+    {} as Record<string, string>
+  );
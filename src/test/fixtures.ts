@@ -0,0 +1,54 @@
+import { vi } from 'vitest';
+import type { Role } from '../types/auth';
+import type { University } from '../types/university';
+import { configureIdentityProvider, signIn, signOut } from '../services/authService';
+import { createLocalIdentityProvider } from '../services/auth';
+import { createMemoryAdapter } from '../services/storage';
+import { configureStorage } from '../services/universityService';
+
+/** A valid, empty university record; tests override only the fields they care about. */
+export const makeUniversity = (overrides: Partial<University> = {}): University => ({
+  id: 'uni-test',
+  name: 'Test University',
+  portalUrl: 'https://test.example.edu',
+  location: { country: 'QA', city: 'Doha' },
+  overview: '',
+  fees: { currency: 'USD', application: 0, averageTuition: {} },
+  programs: { bachelor: [], masters: [], phd: [] },
+  scholarships: { bachelor: [], masters: [], phd: [] },
+  restrictedCountries: [],
+  ...overrides
+});
+
+/** Points the university service at a fresh in-memory store holding `records`. */
+export const seedMemoryStore = (records: University[] = []) => {
+  const adapter = createMemoryAdapter(records);
+  configureStorage(adapter);
+  return adapter;
+};
+
+/** Signs in as the development account for `role`, or signs out for null. */
+export const signInAs = async (role: Role | null) => {
+  configureIdentityProvider(createLocalIdentityProvider());
+  if (role) {
+    await signIn(`${role}@manara.dev`, role);
+  } else {
+    await signOut();
+  }
+};
+
+/**
+ * Gives services that keep state in `window.localStorage` an empty in-memory one. Call
+ * `vi.unstubAllGlobals()` after the test to take it away again.
+ */
+export const stubLocalStorage = () => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('window', {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, String(value)),
+      removeItem: (key: string) => void items.delete(key)
+    }
+  });
+  return items;
+};
@@ -0,0 +1,50 @@
+import type { DegreeLevel } from './university';
+
+export type ApplicationStatus =
+  | 'shortlisted'
+  | 'preparing'
+  | 'submitted'
+  | 'interview'
+  | 'admitted'
+  | 'rejected'
+  | 'enrolled';
+
+/** Pipeline stages in board order, from first shortlist to final outcome. */
+export const applicationStatuses: ApplicationStatus[] = [
+  'shortlisted',
+  'preparing',
+  'submitted',
+  'interview',
+  'admitted',
+  'rejected',
+  'enrolled'
+];
+
+/** Stages that end an application; anything else is still open. */
+export const closedStatuses: ApplicationStatus[] = ['rejected', 'enrolled'];
+
+export interface Student {
+  id: string;
+  name: string;
+  email?: string;
+  /** ISO 3166-1 alpha-2 code. */
+  nationality?: string;
+  createdAt: string;
+}
+
+export interface Application {
+  id: string;
+  studentId: string;
+  universityId: string;
+  level: DegreeLevel;
+  /** Program within the university at `level`; unset while the student is still choosing. */
+  programId?: string;
+  status: ApplicationStatus;
+  /** When the application last entered each stage it has reached, as ISO timestamps. */
+  statusDates: Partial<Record<ApplicationStatus, string>>;
+  /** The student's submission deadline (YYYY-MM-DD). */
+  deadline?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,22 @@
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type Permission =
+  | 'university:write'
+  | 'university:delete'
+  | 'users:manage'
+  | 'applications:manage';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  /** Bearer token for APIs that check the session; opaque to the app. */
+  token: string;
+}
+
+export const roles: Role[] = ['viewer', 'editor', 'admin'];
@@ -0,0 +1,25 @@
+import type { University } from './university';
+
+export type HistoryAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface HistoryChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface UniversityHistoryEntry {
+  id: string;
+  universityId: string;
+  universityName: string;
+  action: HistoryAction;
+  timestamp: string;
+  actor: string;
+  changes: HistoryChange[];
+  /** The record right before this change; null for creates. */
+  previous: University | null;
+  /** The record right after this change; null for deletes. */
+  snapshot: University | null;
+  /** Storage schema the snapshots were written in; missing on entries from before v6. */
+  schemaVersion?: number;
+}
@@ -0,0 +1,9 @@
+export type Locale = 'en' | 'ar';
+
+export const locales: Locale[] = ['en', 'ar'];
+
+/**
+ * Optional translations of a piece of content, keyed by locale. The untranslated field itself
+ * is the English text, so an `en` entry is never needed.
+ */
+export type LocalizedText = Partial<Record<Locale, string>>;
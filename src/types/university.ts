@@ -1,33 +1,128 @@
+import type { LocalizedText } from './i18n';
+
 export type DegreeLevel = 'bachelor' | 'masters' | 'phd';
 
+/** Standardised tests a program may ask for. */
+export type AdmissionTest = 'IELTS' | 'TOEFL' | 'GRE' | 'GMAT';
+
+export interface TestRequirement {
+  test: AdmissionTest;
+  minimumScore: number;
+}
+
 export interface Program {
+  /** Unique within the university and kept across renames, so program links keep working. */
+  id: string;
   name: string;
+  nameTranslations?: LocalizedText;
   duration: string;
   delivery: string;
+  /** Language the program is taught in, e.g. English. */
+  language?: string;
+  /** Months new students can start, 1 for January to 12 for December. */
+  intakeMonths?: number[];
+  /** Yearly tuition in the university's fee currency; overrides `fees.averageTuition`. */
+  tuition?: number;
+  requiredTests?: TestRequirement[];
+  /** Minimum grade point average on a 4.0 scale. */
+  minimumGpa?: number;
+  requiredDocuments?: string[];
+}
+
+/** Normalised program delivery; `Program.delivery` stays free text for anything else. */
+export type DeliveryMode = 'on-campus' | 'hybrid' | 'online';
+
+export type FundingType = 'full-tuition' | 'percentage' | 'fixed' | 'stipend';
+
+export type StipendPeriod = 'month' | 'semester' | 'year';
+
+export interface MoneyAmount {
+  amount: number;
+  /** ISO 4217 code, e.g. USD. */
+  currency: string;
 }
 
+/** `cap` is an optional upper bound on what the award pays out per year. */
+export type ScholarshipFunding = { cap?: MoneyAmount } & (
+  | { type: 'full-tuition' }
+  | { type: 'percentage'; percent: number; upTo?: boolean }
+  | ({ type: 'fixed'; period?: StipendPeriod } & MoneyAmount)
+  | ({ type: 'stipend'; period: StipendPeriod } & MoneyAmount)
+);
+
 export interface Scholarship {
+  /** Unique among the university's scholarships and kept across edits, like program ids. */
+  id: string;
   name: string;
-  amount: string;
+  nameTranslations?: LocalizedText;
+  /** Null when the award value has not been captured yet. */
+  funding: ScholarshipFunding | null;
+  /** Free-text detail the structured model cannot hold, e.g. the original legacy amount. */
+  fundingNote?: string;
+  /** Set when funding was inferred from legacy text and should be checked by an editor. */
+  fundingNeedsReview?: boolean;
   eligibility: string;
+  /** YYYY-MM-DD, "rolling", or blank when there is no fixed date. */
   deadline: string;
+  /** A deadline entered as text that is not a date ("21 jan"), kept until an editor sets one. */
+  deadlineNote?: string;
 }
 
+/** The fees a university lists: its application fee and average tuition per degree level. */
+export type FeeKind = 'application' | DegreeLevel;
+
 export interface Fees {
+  /** ISO 4217 code the amounts below are charged in unless `currencies` names another, e.g. GBP. */
+  currency: string;
   application: number;
   averageTuition: Partial<Record<DegreeLevel, number>>;
+  /** Currencies of fees charged in something other than `currency`, e.g. a USD application fee. */
+  currencies?: Partial<Record<FeeKind, string>>;
+}
+
+export interface Campus {
+  name: string;
+  city?: string;
+}
+
+export interface UniversityLocation {
+  /** ISO 3166-1 alpha-2 code, e.g. US. */
+  country: string;
+  /** State, province or similar, e.g. California. */
+  region?: string;
+  city?: string;
+  /** Further campuses beyond the main site, if any. */
+  campuses?: Campus[];
 }
 
 export interface University {
   id: string;
   name: string;
   portalUrl: string;
-  location: string;
+  location: UniversityLocation;
+  /** Free-text location the structured one was converted from, kept until an editor checks it. */
+  locationNote?: string;
   overview?: string;
+  overviewTranslations?: LocalizedText;
   fees: Fees;
   programs: Record<DegreeLevel, Program[]>;
   scholarships: Record<DegreeLevel, Scholarship[]>;
+  /** ISO 3166-1 alpha-2 codes of countries whose citizens cannot apply, e.g. IR. */
   restrictedCountries?: string[];
+  /** Restrictions from older free-text data that matched no country, left for an editor. */
+  unmatchedRestrictedCountries?: string[];
+  /** ISO timestamp set when the record is moved to the trash. */
+  deletedAt?: string;
 }
 
 export const degreeLevels: DegreeLevel[] = ['bachelor', 'masters', 'phd'];
+
+export const feeKinds: FeeKind[] = ['application', ...degreeLevels];
+
+export const deliveryModes: DeliveryMode[] = ['on-campus', 'hybrid', 'online'];
+
+export const fundingTypes: FundingType[] = ['full-tuition', 'percentage', 'fixed', 'stipend'];
+
+export const stipendPeriods: StipendPeriod[] = ['month', 'semester', 'year'];
+
+export const admissionTests: AdmissionTest[] = ['IELTS', 'TOEFL', 'GRE', 'GMAT'];
@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: 'local' | 'memory' | 'http';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_AUTH_PROVIDER?: 'local' | 'http';
+  /** Defaults to `VITE_API_BASE_URL`. */
+  readonly VITE_AUTH_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
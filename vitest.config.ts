@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Services are tested in Node; pages are exercised by hand in the dev server.
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    restoreMocks: true
+  }
+});